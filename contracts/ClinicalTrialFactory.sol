@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { PrivacyPreservingClinicalTrial } from "./PrivacyPreservingClinicalTrial.sol";
+
+/**
+ * @title Clinical Trial Factory
+ * @author FHEVM Clinical Trials Team
+ * @notice Deploys PrivacyPreservingClinicalTrial instances for ClinicalTrialRegistry
+ * @dev Holds the trial creation code so the registry stays under the contract size limit
+ *
+ * @custom:chapter deployment
+ * @custom:category registry
+ *
+ * The creation code is too large to embed in the factory's own bytecode, so the constructor stores it
+ * as the code of separate chunk contracts, each a STOP byte followed by up to CHUNK_SIZE bytes of it.
+ * deployTrial() copies the chunks back with EXTCODECOPY, appends the constructor arguments and
+ * deploys with CREATE. The code is passed in with the trial libraries linked (see
+ * lib/trial-libraries.ts); trialCodeHash lets anyone check it against a build.
+ *
+ * Anyone may call deployTrial(); doing so is equivalent to deploying the trial contract
+ * directly. Only trials created through ClinicalTrialRegistry.createTrial() are listed there.
+ */
+contract ClinicalTrialFactory {
+
+    /// @notice Most creation code bytes stored per chunk contract, below the contract size limit
+    uint256 public constant CHUNK_SIZE = 24_000;
+
+    /// @notice keccak256 of the trial creation code, libraries linked and without constructor arguments
+    bytes32 public immutable trialCodeHash;
+
+    uint256 private immutable trialCodeLength;
+
+    // Contracts holding the trial creation code, in order
+    address[] private codeChunks;
+
+    /**
+     * @param _trialCreationCode Creation code of PrivacyPreservingClinicalTrial with its libraries linked
+     */
+    constructor(bytes memory _trialCreationCode) {
+        require(_trialCreationCode.length > 0, "Trial code required");
+        trialCodeHash = keccak256(_trialCreationCode);
+        trialCodeLength = _trialCreationCode.length;
+
+        for (uint256 offset = 0; offset < _trialCreationCode.length; offset += CHUNK_SIZE) {
+            uint256 remaining = _trialCreationCode.length - offset;
+            codeChunks.push(_storeChunk(_trialCreationCode, offset, remaining < CHUNK_SIZE ? remaining : CHUNK_SIZE));
+        }
+    }
+
+    /**
+     * @notice Deploy a trial with the given protocol and coordinator
+     * @dev Reverts with the trial constructor's reason if it rejects the protocol
+     * @param _protocol Study protocol passed to the trial constructor
+     * @param _coordinator Coordinator of the new trial
+     * @return trial Address of the deployed trial
+     */
+    function deployTrial(
+        PrivacyPreservingClinicalTrial.TrialProtocol calldata _protocol,
+        address _coordinator
+    ) external returns (address trial) {
+        bytes memory args = abi.encode(_protocol, _coordinator);
+        bytes memory initCode = new bytes(trialCodeLength + args.length);
+
+        uint256 offset = 0;
+        for (uint256 i = 0; i < codeChunks.length; i++) {
+            address chunk = codeChunks[i];
+            uint256 size = chunk.code.length - 1;
+            assembly {
+                extcodecopy(chunk, add(add(initCode, 0x20), offset), 1, size)
+            }
+            offset += size;
+        }
+
+        assembly {
+            mcopy(add(add(initCode, 0x20), offset), add(args, 0x20), mload(args))
+            trial := create(0, add(initCode, 0x20), mload(initCode))
+            if iszero(trial) {
+                returndatacopy(0, 0, returndatasize())
+                revert(0, returndatasize())
+            }
+        }
+    }
+
+    // Deploy a contract whose code is a STOP byte followed by code[offset, offset + size)
+    function _storeChunk(bytes memory code, uint256 offset, uint256 size) private returns (address chunk) {
+        // PUSH2 size + 1, DUP1, PUSH1 10, RETURNDATASIZE, CODECOPY, RETURNDATASIZE, RETURN: returns
+        // everything after these 10 bytes, i.e. the STOP byte and the chunk, as the runtime code
+        bytes memory initCode = abi.encodePacked(hex"61", uint16(size + 1), hex"80600a3d393df300", new bytes(size));
+        assembly {
+            mcopy(add(initCode, 0x2b), add(add(code, 0x20), offset), size)
+            chunk := create(0, add(initCode, 0x20), mload(initCode))
+        }
+        require(chunk != address(0), "Code chunk deployment failed");
+    }
+}
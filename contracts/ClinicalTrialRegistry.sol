@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { PrivacyPreservingClinicalTrial } from "./PrivacyPreservingClinicalTrial.sol";
+import { ClinicalTrialFactory } from "./ClinicalTrialFactory.sol";
+
+/**
+ * @title Clinical Trial Registry
+ * @author FHEVM Clinical Trials Team
+ * @notice Deploys PrivacyPreservingClinicalTrial instances and keeps a directory of them
+ * @dev Each trial is an independent contract; the registry only creates it and records its metadata.
+ * Trials are deployed through ClinicalTrialFactory, which keeps the trial bytecode out of the registry.
+ *
+ * @custom:chapter deployment
+ * @custom:category registry
+ *
+ * Key Features:
+ * - One transaction deploys a trial with a given protocol and makes the caller its coordinator
+ * - Title, sponsor, protocol hash and coordinator are recorded for every trial
+ * - The protocol hash is computed here from the constructor parameters, so anyone can check it
+ *   against the trial's public protocol() getter
+ * - Trials can be listed page by page, overall or per coordinator
+ */
+contract ClinicalTrialRegistry {
+
+    /// @notice Largest page getTrials() and getTrialsByCoordinator() return
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    /// @notice Factory that deploys the trials created here
+    ClinicalTrialFactory public immutable factory;
+
+    /**
+     * @notice Directory entry for a trial created through the registry
+     *
+     * @param trial Address of the deployed PrivacyPreservingClinicalTrial
+     * @param coordinator Account that created the trial and coordinates it
+     * @param title Human-readable study title
+     * @param sponsor Organisation sponsoring the study
+     * @param protocolHash keccak256 of the ABI-encoded TrialProtocol the trial was deployed with
+     * @param createdAt Timestamp of creation
+     */
+    struct TrialRecord {
+        address trial;
+        address coordinator;
+        string title;
+        string sponsor;
+        bytes32 protocolHash;
+        uint256 createdAt;
+    }
+
+    TrialRecord[] private trials;
+
+    // Trial address => trial id + 1, so that zero means "not registered"
+    mapping(address => uint256) private trialIndex;
+
+    // Coordinator => ids of the trials they created
+    mapping(address => uint256[]) private coordinatorTrials;
+
+    event TrialCreated(
+        uint256 indexed trialId,
+        address indexed trial,
+        address indexed coordinator,
+        string title,
+        string sponsor,
+        bytes32 protocolHash
+    );
+
+    /**
+     * @param _factory Factory that deploys the trials, see scripts/deploy-registry.ts
+     */
+    constructor(ClinicalTrialFactory _factory) {
+        require(address(_factory) != address(0), "Invalid factory");
+        factory = _factory;
+    }
+
+    /**
+     * @notice Deploy a new trial with the caller as coordinator and register it
+     * @param _title Study title, must not be empty
+     * @param _sponsor Sponsoring organisation, must not be empty
+     * @param _protocol Study protocol passed to the trial constructor
+     * @return trialId Position of the trial in the registry
+     * @return trial Address of the deployed trial
+     *
+     * @custom:emits TrialCreated when successful
+     */
+    function createTrial(
+        string calldata _title,
+        string calldata _sponsor,
+        PrivacyPreservingClinicalTrial.TrialProtocol calldata _protocol
+    ) external returns (uint256 trialId, address trial) {
+        require(bytes(_title).length > 0, "Title required");
+        require(bytes(_sponsor).length > 0, "Sponsor required");
+
+        trial = factory.deployTrial(_protocol, msg.sender);
+        trialId = trials.length;
+        bytes32 protocolHash = keccak256(abi.encode(_protocol));
+
+        trials.push(TrialRecord({
+            trial: trial,
+            coordinator: msg.sender,
+            title: _title,
+            sponsor: _sponsor,
+            protocolHash: protocolHash,
+            createdAt: block.timestamp
+        }));
+        trialIndex[trial] = trialId + 1;
+        coordinatorTrials[msg.sender].push(trialId);
+
+        emit TrialCreated(trialId, trial, msg.sender, _title, _sponsor, protocolHash);
+    }
+
+    // Number of trials created through the registry
+    function trialCount() external view returns (uint256) {
+        return trials.length;
+    }
+
+    // Number of trials created by a coordinator
+    function coordinatorTrialCount(address coordinator) external view returns (uint256) {
+        return coordinatorTrials[coordinator].length;
+    }
+
+    // Whether a trial was created through this registry
+    function isRegistered(address trial) external view returns (bool) {
+        return trialIndex[trial] != 0;
+    }
+
+    // Registry entry by id
+    function getTrial(uint256 trialId) external view returns (TrialRecord memory) {
+        require(trialId < trials.length, "Unknown trial");
+        return trials[trialId];
+    }
+
+    // Registry id of a trial address
+    function getTrialId(address trial) external view returns (uint256) {
+        require(trialIndex[trial] != 0, "Unknown trial");
+        return trialIndex[trial] - 1;
+    }
+
+    /**
+     * @notice Page through all trials in creation order
+     * @param offset Id of the first trial to return
+     * @param limit Maximum number of trials to return (1-MAX_PAGE_SIZE)
+     * @return page Trials [offset, offset + limit), shorter at the end of the list
+     */
+    function getTrials(uint256 offset, uint256 limit) external view returns (TrialRecord[] memory page) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Invalid page size");
+
+        uint256 count = _pageLength(trials.length, offset, limit);
+        page = new TrialRecord[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = trials[offset + i];
+        }
+    }
+
+    /**
+     * @notice Page through the trials created by one coordinator, in creation order
+     * @param coordinator Coordinator whose trials to list
+     * @param offset Index into the coordinator's trials of the first trial to return
+     * @param limit Maximum number of trials to return (1-MAX_PAGE_SIZE)
+     * @return trialIds Registry ids of the returned trials
+     * @return page The matching registry entries
+     */
+    function getTrialsByCoordinator(
+        address coordinator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory trialIds, TrialRecord[] memory page) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Invalid page size");
+
+        uint256[] storage ids = coordinatorTrials[coordinator];
+        uint256 count = _pageLength(ids.length, offset, limit);
+        trialIds = new uint256[](count);
+        page = new TrialRecord[](count);
+        for (uint256 i = 0; i < count; i++) {
+            trialIds[i] = ids[offset + i];
+            page[i] = trials[trialIds[i]];
+        }
+    }
+
+    // Number of items a page starting at offset holds; zero past the end
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) return 0;
+        return total - offset < limit ? total - offset : limit;
+    }
+}
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title Multicall3 (aggregate3 only)
+ * @author FHEVM Clinical Trials Team
+ * @notice Runs several calls in one transaction or eth_call, for networks without Multicall3
+ * @dev Interface-compatible with aggregate3 of the Multicall3 deployed at
+ * 0xcA11bde05977b3631167028862bE2a173976CA11 on most public networks. Deploy it on local Hardhat
+ * nodes so lib/multicall.ts can batch reads there too.
+ *
+ * @custom:chapter deployment
+ * @custom:category tooling
+ */
+contract Multicall3 {
+
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    /**
+     * @notice Call each target in order
+     * @dev Reverts if a call fails without allowFailure; a failed call's returnData is its revert data
+     * @param calls Target, calldata and whether the call may fail
+     * @return returnData Success flag and return data of each call
+     */
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory data) = calls[i].target.call(calls[i].callData);
+            require(success || calls[i].allowFailure, "Multicall3: call failed");
+            returnData[i] = Result(success, data);
+        }
+    }
+}
@@ -1,8 +1,13 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint8, euint16, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint16, ebool, externalEuint8, externalEuint16 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { TrialAllocation } from "./TrialAllocation.sol";
+import { TrialAnalysis } from "./TrialAnalysis.sol";
+import { TrialEligibility } from "./TrialEligibility.sol";
+import { TrialSafety } from "./TrialSafety.sol";
+import { TrialUnblinding } from "./TrialUnblinding.sol";
 
 /**
  * @title Privacy-Preserving Clinical Trial Management
@@ -10,24 +15,32 @@ import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
  * @notice This contract demonstrates privacy-preserving clinical trial management using Fully Homomorphic Encryption (FHE)
  * @dev Implements a complete clinical trial workflow with encrypted patient data, treatment assignments, and result analysis
  *
- * @chapter: advanced-examples
- * @category: healthcare
+ * @custom:chapter advanced-examples
+ * @custom:category healthcare
  *
  * Key Features:
- * - Encrypted patient enrollment with privacy-preserved personal health information
- * - Randomized treatment group assignment using FHE operations
+ * - Encrypted patient enrollment: health data is encrypted client-side and never appears in calldata
+ * - Blinded randomization: the treatment arm is drawn encrypted (simple, permuted-block or stratified) and no
+ *   public state or event reveals it
  * - Confidential clinical data submission during treatment phases
  * - Phase-based trial progression (Enrollment → Treatment → Monitoring → Analysis)
  * - Privacy-preserving result aggregation using public decryption
  * - Access control patterns demonstrating FHE.allow() and FHE.allowThis()
+ * - Role-based permissions for coordinators, site investigators, the DSMB and auditors
+ * - Emergency unblinding of a single patient, approved by the DSMB and granted to the treating investigator alone
+ * - Safety monitoring: every visit's encrypted side-effect level is checked against the protocol's thresholds,
+ *   raising an encrypted alert for the safety monitors and a serious event count that can be revealed
+ * - Visit schedule: each visit week is due a fixed interval after the patient's enrollment, within a
+ *   tolerance window; out-of-window visits are rejected or flagged and missed visits can be queried
  *
  * FHEVM Concepts Demonstrated:
- * 1. Encryption: Patient data encrypted using FHE.asEuint8() and FHE.asEuint16()
- * 2. Random Number Generation: FHE.randEuint8() for treatment randomization
+ * 1. Encrypted Inputs: Patient data arrives as externalEuint8/externalEuint16 handles with an input proof (FHE.fromExternal())
+ * 2. Random Number Generation: FHE.randEuint16() for treatment randomization
  * 3. Access Control: FHE.allow() and FHE.allowThis() for permission management
  * 4. Public Decryption: FHE.requestDecryption() for aggregated results
  * 5. Multiple Encrypted Values: Handling multiple encrypted data points per patient
  * 6. Signature Verification: FHE.checkSignatures() for decryption result validation
+ * 7. Encrypted Branching: FHE.select() to split sums by the encrypted treatment arm
  */
 contract PrivacyPreservingClinicalTrial is SepoliaConfig {
 
@@ -35,6 +48,9 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
     uint8 public currentTrialPhase;
     uint256 public trialStartTime;
     uint256 public phaseTransitionTime;
+    /// @notice When the treatment phase started and ended; 0 until it does
+    uint256 public treatmentStartTime;
+    uint256 public treatmentEndTime;
 
     /// @notice Trial phase identifiers for workflow management
     /// @dev Phase 1: Patient enrollment and consent | Phase 2: Treatment administration
@@ -44,9 +60,134 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
     uint8 constant MONITORING_PHASE = 3;
     uint8 constant ANALYSIS_PHASE = 4;
 
-    /// @notice Duration of each trial phase (1 hour for demonstration purposes)
-    /// @dev In production, this would be weeks or months per phase
-    uint256 constant PHASE_DURATION = 3600;
+    /**
+     * @notice Trial roles
+     * @dev Coordinators manage roles, advance phases and may terminate the trial.
+     * Site investigators record visit data on behalf of enrolled patients and may request emergency unblinding.
+     * The data and safety monitoring board (DSMB) may advance phases, terminate the trial and decide
+     * unblinding requests.
+     * Auditors may obtain decrypt access to the aggregated results.
+     * Safety monitors can decrypt the safety alert of every visit recorded while they hold the role and
+     * may reveal the serious event count.
+     */
+    bytes32 public constant COORDINATOR_ROLE = keccak256("COORDINATOR_ROLE");
+    bytes32 public constant SITE_INVESTIGATOR_ROLE = keccak256("SITE_INVESTIGATOR_ROLE");
+    bytes32 public constant DSMB_ROLE = keccak256("DSMB_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    bytes32 public constant SAFETY_MONITOR_ROLE = keccak256("SAFETY_MONITOR_ROLE");
+
+    /// @notice Upper bound on the number of weekly visits a protocol may schedule
+    uint8 public constant MAX_VISIT_WEEKS = 52;
+
+    /// @notice Most patients folded into the encrypted aggregates per transaction
+    /// @dev Keeps each accumulation call within the FHEVM per-transaction HCU limits
+    uint256 public constant ANALYSIS_BATCH_SIZE = 15;
+
+    /// @notice Largest cohort the 16-bit encrypted counts of the analysis can hold
+    uint256 public constant MAX_PARTICIPANTS = type(uint16).max;
+
+    /// @notice Most patients announced with TreatmentAssigned per transaction when treatment starts
+    uint256 public constant ASSIGNMENT_BATCH_SIZE = 200;
+
+    /// @notice Largest page getPatients() and getSubmissionTimes() return
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    /// @notice Decryption request lifecycle; 0 means the request id is unknown
+    uint8 constant REQUEST_PENDING = 1;
+    uint8 constant REQUEST_FULFILLED = 2;
+    uint8 constant REQUEST_CANCELLED = 3;
+
+    /// @notice What the analysis does with the data of patients who withdrew consent
+    /// @dev Exclude: their endpoint scores are left out. Retain: scores recorded before the
+    /// withdrawal stay in; nothing can be recorded after it.
+    uint8 constant WITHDRAWAL_EXCLUDE = 0;
+    uint8 constant WITHDRAWAL_RETAIN_PRIOR_DATA = 1;
+
+    /// @notice What happens to a visit recorded outside its window
+    /// @dev Reject: the submission reverts. Flag: it is recorded and VisitOutsideWindow is emitted.
+    uint8 constant VISIT_WINDOW_REJECT = 0;
+    uint8 constant VISIT_WINDOW_FLAG = 1;
+
+    /**
+     * @notice Study protocol fixed at deployment
+     * @dev Set from a validated protocol file by scripts/deploy.ts (see lib/protocol.ts)
+     *
+     * @param enrollmentDuration Length of the enrollment phase in seconds
+     * @param treatmentDuration Length of the treatment phase in seconds
+     * @param monitoringDuration Length of the monitoring phase in seconds
+     * Eligibility ranges are inclusive and compared against the encrypted enrollment data,
+     * so a patient outside them still enrolls but is left out of the analysis.
+     *
+     * @param minAge Lowest eligible age
+     * @param maxAge Highest eligible age
+     * @param minHealthScore Lowest eligible health score
+     * @param maxHealthScore Highest eligible health score
+     * @param minHeartRate Lowest eligible heart rate, decoded from the vital signs
+     * @param maxHeartRate Highest eligible heart rate, decoded from the vital signs
+     * @param minDiastolicPressure Lowest eligible diastolic pressure, decoded from the vital signs
+     * @param maxDiastolicPressure Highest eligible diastolic pressure, decoded from the vital signs
+     * @param visitWeeks Number of weekly visits patients report data for (1-MAX_VISIT_WEEKS)
+     * @param primaryEndpointWeek Visit week whose effectiveness scores are analysed
+     * @param significanceThreshold Points by which the treatment average must exceed placebo
+     *
+     * Allocation settings are described in TrialAllocation.Scheme.
+     *
+     * @param allocationScheme Simple (0), permuted-block (1) or stratified (2) allocation
+     * @param treatmentRatio Treatment share of the allocation ratio, e.g. 2 for 2:1
+     * @param placeboRatio Placebo share of the allocation ratio, e.g. 1 for 2:1
+     * @param blockSize Patients per permuted block, a multiple of the ratio total; unused by simple allocation
+     * @param stratumAgeCutoff Stratified allocation splits ages below and from this value; 0 for no age strata
+     * @param stratumHealthScoreCutoff Stratified allocation splits health scores below and from this value;
+     *        0 for no health score strata
+     * @param withdrawalPolicy WITHDRAWAL_EXCLUDE (0) or WITHDRAWAL_RETAIN_PRIOR_DATA (1)
+     *
+     * Safety thresholds are compared against the encrypted side-effect levels, see TrialSafety.
+     *
+     * @param seriousSideEffectLevel Side-effect level (1-10) from which a visit raises a safety alert
+     * @param sideEffectIncrease Rise in side-effect level since the week before that raises a safety
+     *        alert (0-10); 0 disables the check
+     *
+     * Visits are scheduled from each patient's enrollment time: week w is due at
+     * enrollmentTime + w * visitInterval and may be recorded up to visitWindow seconds either side.
+     *
+     * @param visitInterval Seconds between scheduled visits; 0 leaves visits unscheduled, so any week
+     *        may be recorded at any time during treatment
+     * @param visitWindow Tolerance in seconds either side of a visit's due time, less than half the interval
+     * @param visitWindowPolicy VISIT_WINDOW_REJECT (0) or VISIT_WINDOW_FLAG (1)
+     */
+    struct TrialProtocol {
+        uint32 enrollmentDuration;
+        uint32 treatmentDuration;
+        uint32 monitoringDuration;
+        uint8 minAge;
+        uint8 maxAge;
+        uint8 minHealthScore;
+        uint8 maxHealthScore;
+        uint8 minHeartRate;
+        uint8 maxHeartRate;
+        uint8 minDiastolicPressure;
+        uint8 maxDiastolicPressure;
+        uint8 visitWeeks;
+        uint8 primaryEndpointWeek;
+        uint8 significanceThreshold;
+        uint8 allocationScheme;
+        uint8 treatmentRatio;
+        uint8 placeboRatio;
+        uint8 blockSize;
+        uint8 stratumAgeCutoff;
+        uint8 stratumHealthScoreCutoff;
+        uint8 withdrawalPolicy;
+        uint8 seriousSideEffectLevel;
+        uint8 sideEffectIncrease;
+        uint32 visitInterval;
+        uint32 visitWindow;
+        uint8 visitWindowPolicy;
+    }
+
+    TrialProtocol private studyProtocol;
+
+    /// @notice Progress through the current permuted block of each of the TrialAllocation.MAX_STRATA strata
+    TrialAllocation.Block[4] private allocationBlocks;
 
     /**
      * @notice Patient enrollment data structure with encrypted sensitive information
@@ -57,24 +198,54 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
      * - Only authorized parties can decrypt specific fields using access control
      * - Treatment group assignment remains confidential until trial completion
      *
-     * @param encryptedAge Patient age (18-80), encrypted as euint8
+     * @param encryptedAge Patient age, encrypted as euint8
      * @param encryptedHealthScore Overall health metric (0-100), encrypted as euint8
      * @param encryptedTreatmentGroup Treatment assignment (0=placebo, 1=treatment), encrypted as euint8
-     * @param encryptedVitalSigns Encoded vital signs (heart rate, blood pressure), encrypted as euint16
+     * @param encryptedVitalSigns Vital signs encoded as heartRate * 100 + diastolicPressure, encrypted as euint16
+     * @param encryptedEligible Whether the patient meets the protocol's eligibility criteria, encrypted as ebool
      * @param hasEnrolled Public flag indicating enrollment status
-     * @param consentGiven Public flag indicating patient consent
+     * @param consentGiven Public flag indicating patient consent; false once consent is withdrawn
      * @param enrollmentTime Timestamp of enrollment
      * @param patientAddress Ethereum address of the patient
+     * @param consentVersion Latest consent version the patient agreed to
+     * @param withdrawalTime Timestamp of the consent withdrawal; 0 while consent stands
+     * @param measurementCount Number of weekly visits recorded for the patient
+     * @param submittedWeeks Bitmap of the recorded weeks; bit w is set once week w is recorded
      */
     struct PatientData {
         euint8 encryptedAge;
         euint8 encryptedHealthScore;
         euint8 encryptedTreatmentGroup;
         euint16 encryptedVitalSigns;
+        ebool encryptedEligible;
         bool hasEnrolled;
         bool consentGiven;
         uint256 enrollmentTime;
         address patientAddress;
+        uint16 consentVersion;
+        uint256 withdrawalTime;
+        uint8 measurementCount;
+        uint64 submittedWeeks;
+    }
+
+    /**
+     * @notice Public enrollment and submission state of one patient, as returned by getPatients()
+     * @param patient Patient address
+     * @param consentGiven False once consent is withdrawn
+     * @param consentVersion Latest consent version the patient agreed to
+     * @param measurementCount Number of weekly visits recorded
+     * @param submittedWeeks Bitmap of the recorded weeks; bit w is set once week w is recorded
+     * @param enrollmentTime Timestamp of enrollment
+     * @param withdrawalTime Timestamp of the consent withdrawal; 0 while consent stands
+     */
+    struct PatientSummary {
+        address patient;
+        bool consentGiven;
+        uint16 consentVersion;
+        uint8 measurementCount;
+        uint64 submittedWeeks;
+        uint256 enrollmentTime;
+        uint256 withdrawalTime;
     }
 
     /**
@@ -88,7 +259,9 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
      *
      * @param placeboGroupAverage Average effectiveness score for placebo group, encrypted as euint16
      * @param treatmentGroupAverage Average effectiveness score for treatment group, encrypted as euint16
-     * @param totalParticipants Total number of trial participants, encrypted as euint8
+     * @param totalParticipants Total number of trial participants, encrypted as euint16
+     * @param placeboGroupSize Number of patients randomized to placebo, revealed only in aggregate
+     * @param treatmentGroupSize Number of patients randomized to treatment, revealed only in aggregate
      * @param resultsCalculated Flag indicating if statistical analysis is complete
      * @param trialCompleted Flag indicating if trial has finished
      * @param completionTime Timestamp of trial completion
@@ -96,7 +269,9 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
     struct TrialResults {
         euint16 placeboGroupAverage;
         euint16 treatmentGroupAverage;
-        euint8 totalParticipants;
+        euint16 totalParticipants;
+        uint32 placeboGroupSize;
+        uint32 treatmentGroupSize;
         bool resultsCalculated;
         bool trialCompleted;
         uint256 completionTime;
@@ -125,13 +300,96 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
         bool isValid;
     }
 
+    /**
+     * @notice Per-arm sufficient statistics of the primary endpoint, decrypted in aggregate
+     * @dev Enough for means, variances and Welch's t-test off-chain (see lib/statistics.ts).
+     * Counts only include eligible patients with a primary endpoint measurement.
+     *
+     * @param placeboCount Analysed placebo patients
+     * @param treatmentCount Analysed treatment patients
+     * @param placeboScoreSum Sum of placebo effectiveness scores
+     * @param treatmentScoreSum Sum of treatment effectiveness scores
+     * @param placeboScoreSquareSum Sum of squared placebo effectiveness scores
+     * @param treatmentScoreSquareSum Sum of squared treatment effectiveness scores
+     */
+    struct ArmStatistics {
+        uint32 placeboCount;
+        uint32 treatmentCount;
+        uint32 placeboScoreSum;
+        uint32 treatmentScoreSum;
+        uint32 placeboScoreSquareSum;
+        uint32 treatmentScoreSquareSum;
+    }
+
+    /// @dev Cleartexts of the TrialAnalysis.Totals, in the order they are sent for decryption
+    struct DecryptedTotals {
+        uint32 scoreSum;
+        uint32 treatmentScoreSum;
+        uint32 scoreSquareSum;
+        uint32 treatmentScoreSquareSum;
+        uint16 analysed;
+        uint16 treatmentAnalysed;
+        uint16 treatmentSize;
+    }
+
+    /**
+     * @notice What a results decryption request covers, recorded when it is sent
+     * @dev The callback computes the results from this record rather than from live state
+     *
+     * @param phase Phase whose results the request computes
+     * @param status REQUEST_PENDING, REQUEST_FULFILLED or REQUEST_CANCELLED
+     * @param patientCount Number of patients covered, in enrollment order
+     * @param analysedCount Covered patients with a primary endpoint measurement the withdrawal policy
+     *        keeps, eligible or not
+     * @param patientsHash Hash chain over the covered patient addresses, in order
+     */
+    struct AnalysisRequest {
+        uint8 phase;
+        uint8 status;
+        uint32 patientCount;
+        uint32 analysedCount;
+        bytes32 patientsHash;
+    }
+
     mapping(address => PatientData) public patients;
     mapping(address => mapping(uint8 => ClinicalMeasurement)) public measurements; // patient => week => measurement
     mapping(uint8 => TrialResults) public phaseResults;
+    mapping(uint8 => ArmStatistics) public phaseStatistics;
+    mapping(uint256 => AnalysisRequest) public analysisRequests;
+
+    mapping(bytes32 => mapping(address => bool)) private roles;
 
     address[] public enrolledPatients;
-    address[] public placeboGroup;
-    address[] public treatmentGroup;
+
+    // Encrypted aggregates, accumulated in batches during the analysis phase
+    TrialAnalysis.Totals private analysisTotals;
+    // Patients with a primary endpoint measurement among those accumulated so far
+    uint256 private analysedPatientCount;
+    // Hash chain over the patients accumulated so far
+    bytes32 private analysedPatientsHash;
+
+    /**
+     * @notice Phase transitions that touch every enrolled patient run in batches
+     * @dev transitionToNextPhase() enters the next phase and processes the first batch; while
+     * transitionInProgress is true, continuePhaseTransition() processes the rest and the next
+     * transition is blocked. Starting treatment announces patients, the analysis accumulates them.
+     */
+    bool public transitionInProgress;
+    /// @notice Number of enrolled patients the current or last batched transition has processed
+    uint256 public transitionCursor;
+    /// @notice Most recent results decryption request; check its status in analysisRequests
+    uint256 public latestAnalysisRequestId;
+
+    /// @notice Current version of the consent form; patients enroll under it and must re-consent after amendments
+    uint16 public currentConsentVersion;
+    /// @notice Hash of each amended consent form by version; version 1 is the form patients enrolled under
+    mapping(uint16 => bytes32) public consentDocuments;
+
+    // Emergency unblinding requests, see unblindingRequest()
+    TrialUnblinding.Requests private unblinding;
+
+    // Safety alerts, the serious event count and the monitors alerts are shared with
+    TrialSafety.State private safety;
 
     event PatientEnrolled(address indexed patient, uint256 timestamp);
     event TreatmentAssigned(address indexed patient, uint8 indexed phase);
@@ -139,9 +397,55 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
     event PhaseTransition(uint8 indexed fromPhase, uint8 indexed toPhase, uint256 timestamp);
     event TrialCompleted(uint8 indexed phase, uint256 timestamp);
     event ResultsPublished(uint8 indexed phase, bool significantDifference);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event AggregateAccessGranted(uint8 indexed phase, address indexed auditor);
+    event TransitionBatchProcessed(uint8 indexed phase, uint256 processed, uint256 total);
+    event AnalysisRequestUpdated(uint256 indexed requestId, uint8 indexed phase, uint8 status);
+    event ConsentWithdrawn(address indexed patient, uint256 timestamp);
+    event ConsentVersionPublished(uint16 indexed version, bytes32 documentHash);
+    event ConsentRenewed(address indexed patient, uint16 indexed version);
+    event UnblindingRequested(
+        uint256 indexed requestId,
+        address indexed patient,
+        address indexed investigator,
+        uint8 reason
+    );
+    event PatientUnblinded(
+        uint256 indexed requestId,
+        address indexed patient,
+        address indexed investigator,
+        address approvedBy,
+        uint8 reason
+    );
+    event UnblindingRejected(uint256 indexed requestId, address indexed patient, address indexed rejectedBy);
+    event SeriousEventCountRevealed(address indexed monitor, euint16 count);
+    event VisitOutsideWindow(address indexed patient, uint8 week, uint256 opens, uint256 closes);
+    event ArmStatisticsPublished(
+        uint8 indexed phase,
+        uint32 placeboCount,
+        uint32 placeboScoreSum,
+        uint32 placeboScoreSquareSum,
+        uint32 treatmentCount,
+        uint32 treatmentScoreSum,
+        uint32 treatmentScoreSquareSum
+    );
 
     modifier onlyCoordinator() {
-        require(msg.sender == trialCoordinator, "Only trial coordinator allowed");
+        require(roles[COORDINATOR_ROLE][msg.sender], "Only trial coordinator allowed");
+        _;
+    }
+
+    modifier onlyCoordinatorOrDsmb() {
+        require(
+            roles[COORDINATOR_ROLE][msg.sender] || roles[DSMB_ROLE][msg.sender],
+            "Only coordinator or DSMB allowed"
+        );
+        _;
+    }
+
+    modifier onlyRole(bytes32 role, string memory reason) {
+        require(roles[role][msg.sender], reason);
         _;
     }
 
@@ -155,11 +459,132 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
         _;
     }
 
-    constructor() {
-        trialCoordinator = msg.sender;
+    /**
+     * @param _protocol Study protocol, validated here as well as by lib/protocol.ts
+     * @param _coordinator Trial coordinator; the deployer for standalone deployments,
+     *        the creating account when deployed through ClinicalTrialRegistry
+     */
+    constructor(TrialProtocol memory _protocol, address _coordinator) {
+        require(_coordinator != address(0), "Invalid coordinator");
+        require(
+            _protocol.enrollmentDuration > 0 &&
+                _protocol.treatmentDuration > 0 &&
+                _protocol.monitoringDuration > 0,
+            "Phase durations must be positive"
+        );
+        require(_protocol.minAge <= _protocol.maxAge, "Invalid age range");
+        require(
+            _protocol.minHealthScore <= _protocol.maxHealthScore && _protocol.maxHealthScore <= 100,
+            "Invalid health score range"
+        );
+        require(_protocol.minHeartRate <= _protocol.maxHeartRate, "Invalid heart rate range");
+        require(
+            _protocol.minDiastolicPressure <= _protocol.maxDiastolicPressure && _protocol.maxDiastolicPressure <= 99,
+            "Invalid diastolic pressure range"
+        );
+        require(
+            _protocol.visitWeeks >= 1 && _protocol.visitWeeks <= MAX_VISIT_WEEKS,
+            "Invalid number of visit weeks"
+        );
+        require(
+            _protocol.primaryEndpointWeek >= 1 && _protocol.primaryEndpointWeek <= _protocol.visitWeeks,
+            "Endpoint week outside visit schedule"
+        );
+        require(_protocol.significanceThreshold <= 100, "Threshold must be 0-100");
+        TrialAllocation.validate(_allocationScheme(_protocol));
+        require(_protocol.withdrawalPolicy <= WITHDRAWAL_RETAIN_PRIOR_DATA, "Invalid withdrawal policy");
+        require(
+            _protocol.seriousSideEffectLevel >= 1 &&
+                _protocol.seriousSideEffectLevel <= TrialSafety.MAX_SIDE_EFFECT_LEVEL &&
+                _protocol.sideEffectIncrease <= TrialSafety.MAX_SIDE_EFFECT_LEVEL,
+            "Invalid safety thresholds"
+        );
+        require(
+            _protocol.visitWindowPolicy <= VISIT_WINDOW_FLAG &&
+                (_protocol.visitInterval == 0
+                    ? _protocol.visitWindow == 0
+                    : uint64(_protocol.visitWindow) * 2 < _protocol.visitInterval),
+            "Invalid visit schedule"
+        );
+
+        studyProtocol = _protocol;
+        trialCoordinator = _coordinator;
+        roles[COORDINATOR_ROLE][_coordinator] = true;
+        emit RoleGranted(COORDINATOR_ROLE, _coordinator, msg.sender);
         currentTrialPhase = ENROLLMENT_PHASE;
         trialStartTime = block.timestamp;
-        phaseTransitionTime = block.timestamp + PHASE_DURATION;
+        phaseTransitionTime = block.timestamp + _phaseDuration(ENROLLMENT_PHASE);
+        currentConsentVersion = 1;
+    }
+
+    // Configured length of a phase; the analysis phase does not end
+    function _phaseDuration(uint8 phase) private view returns (uint256) {
+        if (phase == ENROLLMENT_PHASE) return studyProtocol.enrollmentDuration;
+        if (phase == TREATMENT_PHASE) return studyProtocol.treatmentDuration;
+        if (phase == MONITORING_PHASE) return studyProtocol.monitoringDuration;
+        return 0;
+    }
+
+    /**
+     * @notice Grant a role to an account (coordinator only)
+     * @dev Granting a role the account already holds is a no-op and emits nothing
+     * @param role One of COORDINATOR_ROLE, SITE_INVESTIGATOR_ROLE, DSMB_ROLE, AUDITOR_ROLE or SAFETY_MONITOR_ROLE
+     * @param account Account receiving the role
+     *
+     * @custom:emits RoleGranted when the account did not hold the role
+     */
+    function grantRole(bytes32 role, address account) external onlyCoordinator {
+        require(_isKnownRole(role), "Unknown role");
+        require(account != address(0), "Invalid account");
+        if (!roles[role][account]) {
+            roles[role][account] = true;
+            if (role == SAFETY_MONITOR_ROLE) TrialSafety.setMonitor(safety, account, true);
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    /**
+     * @notice Revoke a role from an account (coordinator only)
+     * @dev The original trial coordinator cannot lose the coordinator role, so the trial
+     * always keeps someone able to manage roles. Decrypt access already granted through
+     * the ACL is not withdrawn by revoking a role.
+     * @param role Role to revoke
+     * @param account Account losing the role
+     *
+     * @custom:emits RoleRevoked when the account held the role
+     */
+    function revokeRole(bytes32 role, address account) external onlyCoordinator {
+        require(_isKnownRole(role), "Unknown role");
+        require(
+            !(role == COORDINATOR_ROLE && account == trialCoordinator),
+            "Cannot revoke the trial coordinator"
+        );
+        if (roles[role][account]) {
+            roles[role][account] = false;
+            if (role == SAFETY_MONITOR_ROLE) TrialSafety.setMonitor(safety, account, false);
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    // Whether an account holds a role
+    function hasRole(bytes32 role, address account) external view returns (bool) {
+        return roles[role][account];
+    }
+
+    function _isKnownRole(bytes32 role) private pure returns (bool) {
+        return role == COORDINATOR_ROLE ||
+            role == SITE_INVESTIGATOR_ROLE ||
+            role == DSMB_ROLE ||
+            role == AUDITOR_ROLE ||
+            role == SAFETY_MONITOR_ROLE;
+    }
+
+    /**
+     * @notice The study protocol the trial was deployed with
+     * @dev Returned as one struct; a generated getter would push every field onto the stack
+     */
+    function protocol() external view returns (TrialProtocol memory) {
+        return studyProtocol;
     }
 
     /**
@@ -167,23 +592,25 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
      * @return bool True if phase transition is allowed
      */
     function canTransitionPhase() public view returns (bool) {
-        return block.timestamp >= phaseTransitionTime && currentTrialPhase < ANALYSIS_PHASE;
+        return block.timestamp >= phaseTransitionTime && currentTrialPhase < ANALYSIS_PHASE && !transitionInProgress;
     }
 
     /**
      * @notice Enroll a patient in the clinical trial with encrypted personal health data
-     * @dev Demonstrates core FHEVM concepts: encryption, random number generation, and access control
+     * @dev Demonstrates core FHEVM concepts: encrypted inputs, random number generation, and access control
      *
      * FHEVM Concepts Demonstrated:
-     * 1. **Encryption (FHE.asEuint8/FHE.asEuint16)**:
-     *    - Converts plaintext uint values to encrypted euint values
-     *    - Different bit sizes (euint8 vs euint16) for different data ranges
-     *    - Encrypted values can be stored on-chain without revealing plaintext
+     * 1. **Encrypted Inputs (FHE.fromExternal)**:
+     *    - The patient encrypts age, health score and vital signs client-side
+     *    - The contract receives ciphertext handles plus a zero-knowledge input proof
+     *    - FHE.fromExternal() verifies the proof and yields euint values bound to this contract and sender
+     *    - No plaintext health data ever appears in calldata
      *
-     * 2. **Random Number Generation (FHE.randEuint8)**:
+     * 2. **Random Number Generation (FHE.randEuint16)**:
      *    - Generates cryptographically secure random encrypted values
-     *    - Used for blind treatment group assignment
-     *    - Randomness remains encrypted, preventing bias
+     *    - An encrypted random draw yields the blinded treatment arm under the protocol's allocation
+     *      scheme (see TrialAllocation): 0 (placebo) or 1 (treatment)
+     *    - The arm is never decrypted; the analysis splits scores by it homomorphically
      *
      * 3. **Access Control (FHE.allow/FHE.allowThis)**:
      *    - FHE.allowThis(): Grants contract permission to perform operations on encrypted values
@@ -191,34 +618,46 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
      *    - Selective permission granting maintains privacy while enabling necessary access
      *
      * Security Considerations:
-     * - Input validation ensures data ranges are correct
+     * - Ranges cannot be checked with require() on ciphertexts, so they are enforced homomorphically:
+     *   the health score is clamped to 100 and the protocol's eligibility criteria are kept as an encrypted flag
+     *   (see TrialEligibility); ineligible patients enroll but are left out of the analysis
      * - Only one enrollment per address to prevent duplicate participants
      * - Only available during ENROLLMENT_PHASE
      *
-     * @param _age Patient age (must be 18-80)
-     * @param _healthScore Overall health metric (0-100)
-     * @param _vitalSigns Encoded vital signs (heart rate, blood pressure)
+     * @param _age Encrypted patient age
+     * @param _healthScore Encrypted overall health metric (0-100)
+     * @param _vitalSigns Encrypted encoded vital signs (heart rate, blood pressure)
+     * @param _inputProof Proof binding the encrypted inputs to this contract and the sender
      *
      * @custom:emits PatientEnrolled when successful
      */
     function enrollPatient(
-        uint8 _age,
-        uint8 _healthScore,
-        uint16 _vitalSigns
+        externalEuint8 _age,
+        externalEuint8 _healthScore,
+        externalEuint16 _vitalSigns,
+        bytes calldata _inputProof
     ) external onlyDuringPhase(ENROLLMENT_PHASE) {
         require(!patients[msg.sender].hasEnrolled, "Patient already enrolled");
-        require(_age >= 18 && _age <= 80, "Age must be between 18-80");
-        require(_healthScore <= 100, "Health score must be 0-100");
+        require(enrolledPatients.length < MAX_PARTICIPANTS, "Trial is full");
 
-        // STEP 1: Encrypt sensitive patient data
-        // Convert plaintext values to encrypted euint types
-        euint8 encryptedAge = FHE.asEuint8(_age);
-        euint8 encryptedHealthScore = FHE.asEuint8(_healthScore);
-        euint16 encryptedVitalSigns = FHE.asEuint16(_vitalSigns);
+        // STEP 1: Verify and import the client-side encrypted inputs
+        euint8 encryptedAge = FHE.fromExternal(_age, _inputProof);
+        euint8 encryptedHealthScore = FHE.min(FHE.fromExternal(_healthScore, _inputProof), 100);
+        euint16 encryptedVitalSigns = FHE.fromExternal(_vitalSigns, _inputProof);
+
+        // Eligibility is evaluated without revealing the data or which criterion failed
+        ebool eligible = TrialEligibility.evaluate(
+            encryptedAge,
+            encryptedHealthScore,
+            encryptedVitalSigns,
+            _eligibilityCriteria(studyProtocol)
+        );
 
         // STEP 2: Generate encrypted random treatment assignment
-        // Ensures blind randomization - no one knows assignment until decryption
-        euint8 treatmentGroup = FHE.randEuint8();
+        // Ensures blind randomization - the arm is drawn encrypted and nobody can decrypt it
+        euint8 treatmentGroup = FHE.asEuint8(
+            TrialAllocation.allocate(allocationBlocks, _allocationScheme(studyProtocol), encryptedAge, encryptedHealthScore)
+        );
 
         // STEP 3: Store encrypted patient data
         patients[msg.sender] = PatientData({
@@ -226,10 +665,15 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
             encryptedHealthScore: encryptedHealthScore,
             encryptedTreatmentGroup: treatmentGroup,
             encryptedVitalSigns: encryptedVitalSigns,
+            encryptedEligible: eligible,
             hasEnrolled: true,
             consentGiven: true,
             enrollmentTime: block.timestamp,
-            patientAddress: msg.sender
+            patientAddress: msg.sender,
+            consentVersion: currentConsentVersion,
+            withdrawalTime: 0,
+            measurementCount: 0,
+            submittedWeeks: 0
         });
 
         enrolledPatients.push(msg.sender);
@@ -240,6 +684,7 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
         FHE.allowThis(encryptedAge);
         FHE.allowThis(encryptedHealthScore);
         FHE.allowThis(encryptedVitalSigns);
+        FHE.allowThis(eligible);
         FHE.allowThis(treatmentGroup);
 
         // FHE.allow(value, address): Grant patient permission to decrypt their own data
@@ -251,140 +696,430 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
         emit PatientEnrolled(msg.sender, block.timestamp);
     }
 
-    // Submit clinical measurements during treatment phase
+    // Eligibility ranges of a protocol, in the form TrialEligibility takes them
+    function _eligibilityCriteria(TrialProtocol memory p) private pure returns (TrialEligibility.Criteria memory) {
+        return TrialEligibility.Criteria({
+            minAge: p.minAge,
+            maxAge: p.maxAge,
+            minHealthScore: p.minHealthScore,
+            maxHealthScore: p.maxHealthScore,
+            minHeartRate: p.minHeartRate,
+            maxHeartRate: p.maxHeartRate,
+            minDiastolicPressure: p.minDiastolicPressure,
+            maxDiastolicPressure: p.maxDiastolicPressure
+        });
+    }
+
+    // Allocation settings of a protocol, in the form TrialAllocation takes them
+    function _allocationScheme(TrialProtocol memory p) private pure returns (TrialAllocation.Scheme memory) {
+        return TrialAllocation.Scheme({
+            scheme: p.allocationScheme,
+            treatmentRatio: p.treatmentRatio,
+            placeboRatio: p.placeboRatio,
+            blockSize: p.blockSize,
+            ageCutoff: p.stratumAgeCutoff,
+            healthScoreCutoff: p.stratumHealthScoreCutoff
+        });
+    }
+
+    /**
+     * @notice Withdraw the caller's consent to take part in the trial
+     * @dev Possible at any time. Nothing more can be recorded for the patient and the contract grants
+     * nobody new access to their ciphertexts. The FHEVM ACL cannot revoke access granted before, so
+     * the patient and investigators who recorded their visits keep it. Whether data recorded before
+     * the withdrawal is analysed follows the protocol's withdrawalPolicy; results already published
+     * are not recalculated. The patient still counts towards their arm's size, which reports
+     * randomization rather than analysed data.
+     *
+     * @custom:emits ConsentWithdrawn when successful
+     */
+    function withdrawConsent() external onlyEnrolledPatient {
+        PatientData storage patient = patients[msg.sender];
+        require(patient.withdrawalTime == 0, "Consent already withdrawn");
+
+        patient.consentGiven = false;
+        patient.withdrawalTime = block.timestamp;
+
+        emit ConsentWithdrawn(msg.sender, block.timestamp);
+    }
+
+    /**
+     * @notice Publish an amended consent form (coordinator only)
+     * @dev Enrolled patients cannot submit data again until they agree to the new version with
+     * renewConsent(). The form itself stays off-chain; its hash lets patients check what they agree to.
+     * @param documentHash Hash of the amended consent form
+     *
+     * @custom:emits ConsentVersionPublished when successful
+     */
+    function publishConsentVersion(bytes32 documentHash) external onlyCoordinator {
+        require(documentHash != bytes32(0), "Invalid consent document");
+
+        currentConsentVersion++;
+        consentDocuments[currentConsentVersion] = documentHash;
+
+        emit ConsentVersionPublished(currentConsentVersion, documentHash);
+    }
+
+    /**
+     * @notice Agree to the current consent version after a protocol amendment
+     * @dev Patients who withdrew cannot re-consent; withdrawal is final
+     * @param version The version agreed to, which must be the current one so that an amendment
+     *        published in the meantime is not accepted unseen
+     *
+     * @custom:emits ConsentRenewed when successful
+     */
+    function renewConsent(uint16 version) external onlyEnrolledPatient {
+        PatientData storage patient = patients[msg.sender];
+        require(patient.withdrawalTime == 0, "Consent withdrawn");
+        require(version == currentConsentVersion, "Not the current consent version");
+        require(patient.consentVersion < version, "Consent already current");
+
+        patient.consentVersion = version;
+
+        emit ConsentRenewed(msg.sender, version);
+    }
+
+    // Submit encrypted clinical measurements during treatment phase
+    // Scores are clamped homomorphically (effectiveness <= 100, side effects <= 10) since
+    // ciphertexts cannot be range-checked with require(); the week stays public for scheduling.
+    // The side-effect level is checked against the safety thresholds, see safetyAlert()
+    // Scheduled visits must fall in their window, see getVisitWindow()
     function submitClinicalData(
-        uint8 _effectivenessScore,
-        uint8 _sideEffectLevel,
-        uint16 _biomarkers,
-        uint8 _week
+        externalEuint8 _effectivenessScore,
+        externalEuint8 _sideEffectLevel,
+        externalEuint16 _biomarkers,
+        uint8 _week,
+        bytes calldata _inputProof
     ) external onlyEnrolledPatient onlyDuringPhase(TREATMENT_PHASE) {
-        require(_effectivenessScore <= 100, "Effectiveness score must be 0-100");
-        require(_sideEffectLevel <= 10, "Side effect level must be 0-10");
-        require(_week >= 1 && _week <= 12, "Week must be 1-12");
-        require(!measurements[msg.sender][_week].isValid, "Data already submitted for this week");
+        _recordMeasurement(msg.sender, _effectivenessScore, _sideEffectLevel, _biomarkers, _week, _inputProof);
+    }
+
+    // Site investigator records a visit for an enrolled patient
+    // The input proof is bound to the investigator, who encrypts the values; the investigator
+    // may decrypt what they recorded and the patient keeps access to the effectiveness score
+    function submitClinicalDataForPatient(
+        address _patient,
+        externalEuint8 _effectivenessScore,
+        externalEuint8 _sideEffectLevel,
+        externalEuint16 _biomarkers,
+        uint8 _week,
+        bytes calldata _inputProof
+    ) external onlyRole(SITE_INVESTIGATOR_ROLE, "Only site investigator allowed") onlyDuringPhase(TREATMENT_PHASE) {
+        require(patients[_patient].hasEnrolled, "Patient not enrolled");
+        _recordMeasurement(_patient, _effectivenessScore, _sideEffectLevel, _biomarkers, _week, _inputProof);
+
+        ClinicalMeasurement storage measurement = measurements[_patient][_week];
+        FHE.allow(measurement.encryptedEffectivenessScore, msg.sender);
+        FHE.allow(measurement.encryptedSideEffectLevel, msg.sender);
+        FHE.allow(measurement.encryptedBiomarkers, msg.sender);
+    }
 
-        // Encrypt clinical measurements
-        euint8 encryptedEffectiveness = FHE.asEuint8(_effectivenessScore);
-        euint8 encryptedSideEffects = FHE.asEuint8(_sideEffectLevel);
-        euint16 encryptedBiomarkers = FHE.asEuint16(_biomarkers);
+    function _recordMeasurement(
+        address patient,
+        externalEuint8 _effectivenessScore,
+        externalEuint8 _sideEffectLevel,
+        externalEuint16 _biomarkers,
+        uint8 _week,
+        bytes calldata _inputProof
+    ) private {
+        require(_week >= 1 && _week <= studyProtocol.visitWeeks, "Week outside visit schedule");
+        require(!measurements[patient][_week].isValid, "Data already submitted for this week");
+        require(patients[patient].withdrawalTime == 0, "Consent withdrawn");
+        require(patients[patient].consentVersion == currentConsentVersion, "Re-consent required");
+        _checkVisitWindow(patient, _week);
 
-        measurements[msg.sender][_week] = ClinicalMeasurement({
+        // Verify and import the client-side encrypted measurements
+        euint8 encryptedEffectiveness = FHE.min(FHE.fromExternal(_effectivenessScore, _inputProof), 100);
+        euint8 encryptedSideEffects = FHE.min(FHE.fromExternal(_sideEffectLevel, _inputProof), 10);
+        euint16 encryptedBiomarkers = FHE.fromExternal(_biomarkers, _inputProof);
+
+        measurements[patient][_week] = ClinicalMeasurement({
             encryptedEffectivenessScore: encryptedEffectiveness,
             encryptedSideEffectLevel: encryptedSideEffects,
             encryptedBiomarkers: encryptedBiomarkers,
             measurementTime: block.timestamp,
             isValid: true
         });
+        patients[patient].measurementCount++;
+        patients[patient].submittedWeeks |= uint64(1) << _week;
 
         // Grant access permissions
         FHE.allowThis(encryptedEffectiveness);
         FHE.allowThis(encryptedSideEffects);
         FHE.allowThis(encryptedBiomarkers);
-        FHE.allow(encryptedEffectiveness, msg.sender);
+        FHE.allow(encryptedEffectiveness, patient);
+
+        _assessSafety(patient, _week, encryptedSideEffects);
 
-        emit ClinicalDataSubmitted(msg.sender, _week);
+        emit ClinicalDataSubmitted(patient, _week);
     }
 
-    // Transition to next trial phase
-    function transitionToNextPhase() external {
+    // Reject or flag a scheduled visit recorded outside its window, as the protocol says
+    function _checkVisitWindow(address patient, uint8 week) private {
+        (uint256 opens, uint256 closes) = getVisitWindow(patient, week);
+        if (closes != 0 && (block.timestamp < opens || block.timestamp > closes)) {
+            require(studyProtocol.visitWindowPolicy == VISIT_WINDOW_FLAG, "Outside visit window");
+            emit VisitOutsideWindow(patient, week, opens, closes);
+        }
+    }
+
+    // Compare a visit's side-effect level with the protocol's thresholds and the week before
+    function _assessSafety(address patient, uint8 week, euint8 sideEffects) private {
+        TrialSafety.assess(
+            safety,
+            patient,
+            week,
+            sideEffects,
+            measurements[patient][week - 1].encryptedSideEffectLevel,
+            studyProtocol.seriousSideEffectLevel,
+            studyProtocol.sideEffectIncrease
+        );
+    }
+
+    /**
+     * @notice Transition to the next trial phase (coordinator or DSMB)
+     * @dev Starting treatment and the analysis process the first batch of patients here; larger
+     * cohorts leave transitionInProgress set until continuePhaseTransition() has processed the rest
+     *
+     * @custom:emits PhaseTransition when successful
+     */
+    function transitionToNextPhase() external onlyCoordinatorOrDsmb {
+        require(!transitionInProgress, "Phase transition in progress");
         require(canTransitionPhase(), "Cannot transition phase yet");
 
         uint8 previousPhase = currentTrialPhase;
 
         if (currentTrialPhase == ENROLLMENT_PHASE) {
             currentTrialPhase = TREATMENT_PHASE;
-            _assignTreatmentGroups();
+            treatmentStartTime = block.timestamp;
+            if (_startBatchedTransition()) {
+                _assignTreatments(ASSIGNMENT_BATCH_SIZE);
+            }
         } else if (currentTrialPhase == TREATMENT_PHASE) {
             currentTrialPhase = MONITORING_PHASE;
+            treatmentEndTime = block.timestamp;
         } else if (currentTrialPhase == MONITORING_PHASE) {
             currentTrialPhase = ANALYSIS_PHASE;
             _initiateResultsAnalysis();
         }
 
-        phaseTransitionTime = block.timestamp + PHASE_DURATION;
+        phaseTransitionTime = block.timestamp + _phaseDuration(currentTrialPhase);
 
         emit PhaseTransition(previousPhase, currentTrialPhase, block.timestamp);
     }
 
-    // Assign patients to treatment groups (internal)
-    function _assignTreatmentGroups() private {
-        for (uint i = 0; i < enrolledPatients.length; i++) {
-            address patient = enrolledPatients[i];
-            // In real implementation, would use FHE operations to maintain privacy
-            // For demo, using simple assignment
-            if (i % 2 == 0) {
-                placeboGroup.push(patient);
-            } else {
-                treatmentGroup.push(patient);
-            }
-            emit TreatmentAssigned(patient, currentTrialPhase);
+    /**
+     * @notice Process the next batch of patients of the phase transition in progress (coordinator or DSMB)
+     * @dev Call repeatedly until transitionInProgress is false. During treatment a batch holds up to
+     * ASSIGNMENT_BATCH_SIZE patients, during the analysis up to ANALYSIS_BATCH_SIZE; the last
+     * analysis batch requests decryption.
+     * @param batchSize Number of patients to process
+     *
+     * @custom:emits TransitionBatchProcessed after every batch
+     */
+    function continuePhaseTransition(uint256 batchSize) external onlyCoordinatorOrDsmb {
+        require(transitionInProgress, "No phase transition in progress");
+        bool analysis = currentTrialPhase == ANALYSIS_PHASE;
+        require(
+            batchSize > 0 && batchSize <= (analysis ? ANALYSIS_BATCH_SIZE : ASSIGNMENT_BATCH_SIZE),
+            "Invalid batch size"
+        );
+        if (analysis) {
+            _accumulateResults(batchSize);
+        } else {
+            _assignTreatments(batchSize);
+        }
+    }
+
+    // Reset the cursor for a transition over every enrolled patient; false if there are none
+    function _startBatchedTransition() private returns (bool) {
+        transitionCursor = 0;
+        transitionInProgress = enrolledPatients.length > 0;
+        return transitionInProgress;
+    }
+
+    // End of the next batch of at most batchSize patients
+    function _batchEnd(uint256 batchSize) private view returns (uint256) {
+        uint256 total = enrolledPatients.length;
+        return transitionCursor + batchSize < total ? transitionCursor + batchSize : total;
+    }
+
+    // Move the cursor past a processed batch; true once every patient is processed
+    function _finishBatch(uint256 end) private returns (bool done) {
+        uint256 total = enrolledPatients.length;
+        transitionCursor = end;
+        done = end == total;
+        transitionInProgress = !done;
+        emit TransitionBatchProcessed(currentTrialPhase, end, total);
+    }
+
+    // Announce the next batch of patients as under treatment
+    // The arm was drawn encrypted at enrollment, so the event carries no allocation
+    function _assignTreatments(uint256 batchSize) private {
+        uint256 end = _batchEnd(batchSize);
+        for (uint256 i = transitionCursor; i < end; i++) {
+            emit TreatmentAssigned(enrolledPatients[i], currentTrialPhase);
         }
+        _finishBatch(end);
     }
 
-    // Initiate confidential results analysis
+    /**
+     * @notice Initiate confidential results analysis
+     * @dev Resets the encrypted aggregates and folds in the first batch of patients.
+     * Cohorts larger than ANALYSIS_BATCH_SIZE are finished with continuePhaseTransition().
+     */
     function _initiateResultsAnalysis() private onlyDuringPhase(ANALYSIS_PHASE) {
-        // Async decryption request for statistical analysis
-        bytes32[] memory cts = new bytes32[](enrolledPatients.length);
+        if (!_startBatchedTransition()) {
+            return;
+        }
+
+        TrialAnalysis.reset(analysisTotals);
+        analysedPatientCount = 0;
+        analysedPatientsHash = bytes32(0);
+
+        _accumulateResults(ANALYSIS_BATCH_SIZE);
+    }
+
+    /**
+     * @dev Folds the next batch of patients into the encrypted aggregates (see TrialAnalysis),
+     * so the oracle only ever decrypts per-arm totals
+     */
+    function _accumulateResults(uint256 batchSize) private {
+        uint256 start = transitionCursor;
+        uint256 end = _batchEnd(batchSize);
+        uint8 endpointWeek = studyProtocol.primaryEndpointWeek;
 
-        for (uint i = 0; i < enrolledPatients.length; i++) {
+        uint256 analysed = analysedPatientCount;
+        bytes32 patientsHash = analysedPatientsHash;
+        TrialAnalysis.Entry[] memory batch = new TrialAnalysis.Entry[](end - start);
+
+        for (uint i = start; i < end; i++) {
             address patient = enrolledPatients[i];
-            // Request decryption of effectiveness scores for analysis
-            if (measurements[patient][4].isValid) { // Week 4 data
-                cts[i] = FHE.toBytes32(measurements[patient][4].encryptedEffectivenessScore);
+            patientsHash = keccak256(abi.encodePacked(patientsHash, patient));
+            batch[i - start] = _analysisEntry(patient, endpointWeek);
+            if (batch[i - start].analysed) {
+                analysed++;
             }
         }
 
-        if (cts.length > 0) {
-            FHE.requestDecryption(cts, this.processTrialResults.selector);
+        // Persist the running totals for the next batch
+        TrialAnalysis.accumulate(analysisTotals, batch);
+        analysedPatientCount = analysed;
+        analysedPatientsHash = patientsHash;
+
+        if (!_finishBatch(end)) {
+            return;
         }
+
+        // Async decryption request for the aggregates only
+        uint256 requestId = TrialAnalysis.requestDecryption(analysisTotals, this.processTrialResults.selector);
+
+        analysisRequests[requestId] = AnalysisRequest({
+            phase: currentTrialPhase,
+            status: REQUEST_PENDING,
+            patientCount: uint32(end),
+            analysedCount: uint32(analysed),
+            patientsHash: patientsHash
+        });
+        latestAnalysisRequestId = requestId;
+        emit AnalysisRequestUpdated(requestId, currentTrialPhase, REQUEST_PENDING);
+    }
+
+    /**
+     * @dev What the analysis needs of one patient; analysed is set when the patient has a
+     * primary endpoint measurement the withdrawal policy keeps
+     */
+    function _analysisEntry(
+        address patient,
+        uint8 endpointWeek
+    ) private view returns (TrialAnalysis.Entry memory) {
+        PatientData storage data = patients[patient];
+        ClinicalMeasurement storage endpoint = measurements[patient][endpointWeek];
+        // Nothing is recorded after a withdrawal, so retained data always predates it
+        bool excluded = data.withdrawalTime != 0 && studyProtocol.withdrawalPolicy == WITHDRAWAL_EXCLUDE;
+        return TrialAnalysis.Entry({
+            arm: data.encryptedTreatmentGroup,
+            eligible: data.encryptedEligible,
+            score: endpoint.encryptedEffectivenessScore,
+            analysed: endpoint.isValid && !excluded
+        });
     }
 
     // Process trial results callback
+    // The oracle passes the decrypted aggregates ABI-encoded in request order:
+    // score sum, treatment score sum, sum of squares, treatment sum of squares,
+    // analysed patients, analysed treatment patients, treatment arm size
+    // Only a pending request is accepted, once; unknown, replayed and cancelled ones revert
     function processTrialResults(
         uint256 requestId,
-        uint8[] memory effectivenessScores,
-        bytes[] memory signatures
+        bytes memory cleartexts,
+        bytes memory decryptionProof
     ) external {
+        AnalysisRequest storage request = analysisRequests[requestId];
+        require(request.status != 0, "Unknown decryption request");
+        require(request.status == REQUEST_PENDING, "Decryption request not pending");
+
         // Verify signatures
-        FHE.checkSignatures(requestId, abi.encode(effectivenessScores), abi.encode(signatures));
-
-        uint16 placeboTotal = 0;
-        uint16 treatmentTotal = 0;
-        uint8 placeboCount = 0;
-        uint8 treatmentCount = 0;
-
-        // Calculate group averages (simplified)
-        for (uint i = 0; i < effectivenessScores.length && i < enrolledPatients.length; i++) {
-            if (i % 2 == 0) { // Placebo group
-                placeboTotal += effectivenessScores[i];
-                placeboCount++;
-            } else { // Treatment group
-                treatmentTotal += effectivenessScores[i];
-                treatmentCount++;
-            }
-        }
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        request.status = REQUEST_FULFILLED;
 
-        uint16 placeboAverage = placeboCount > 0 ? placeboTotal / placeboCount : 0;
-        uint16 treatmentAverage = treatmentCount > 0 ? treatmentTotal / treatmentCount : 0;
+        // A static struct has the same encoding as its fields in sequence
+        DecryptedTotals memory totals = abi.decode(cleartexts, (DecryptedTotals));
+        ArmStatistics memory stats = ArmStatistics({
+            placeboCount: totals.analysed - totals.treatmentAnalysed,
+            treatmentCount: totals.treatmentAnalysed,
+            placeboScoreSum: totals.scoreSum - totals.treatmentScoreSum,
+            treatmentScoreSum: totals.treatmentScoreSum,
+            placeboScoreSquareSum: totals.scoreSquareSum - totals.treatmentScoreSquareSum,
+            treatmentScoreSquareSum: totals.treatmentScoreSquareSum
+        });
+        _publishResults(requestId, request, stats, totals.treatmentSize);
+    }
 
-        phaseResults[currentTrialPhase] = TrialResults({
+    function _publishResults(
+        uint256 requestId,
+        AnalysisRequest storage request,
+        ArmStatistics memory stats,
+        uint16 treatmentSize
+    ) private {
+        uint8 phase = request.phase;
+        phaseStatistics[phase] = stats;
+
+        uint16 placeboAverage = stats.placeboCount > 0 ? uint16(stats.placeboScoreSum / stats.placeboCount) : 0;
+        uint16 treatmentAverage = stats.treatmentCount > 0
+            ? uint16(stats.treatmentScoreSum / stats.treatmentCount)
+            : 0;
+
+        phaseResults[phase] = TrialResults({
             placeboGroupAverage: FHE.asEuint16(placeboAverage),
             treatmentGroupAverage: FHE.asEuint16(treatmentAverage),
-            totalParticipants: FHE.asEuint8(uint8(enrolledPatients.length)),
+            totalParticipants: FHE.asEuint16(uint16(request.patientCount)),
+            placeboGroupSize: request.patientCount - treatmentSize,
+            treatmentGroupSize: treatmentSize,
             resultsCalculated: true,
             trialCompleted: true,
             completionTime: block.timestamp
         });
 
         // Grant access to results
-        FHE.allowThis(phaseResults[currentTrialPhase].placeboGroupAverage);
-        FHE.allowThis(phaseResults[currentTrialPhase].treatmentGroupAverage);
-        FHE.allowThis(phaseResults[currentTrialPhase].totalParticipants);
+        FHE.allowThis(phaseResults[phase].placeboGroupAverage);
+        FHE.allowThis(phaseResults[phase].treatmentGroupAverage);
+        FHE.allowThis(phaseResults[phase].totalParticipants);
 
-        bool significantDifference = treatmentAverage > placeboAverage + 10; // 10 point threshold
+        bool significantDifference = treatmentAverage > placeboAverage + studyProtocol.significanceThreshold;
 
-        emit TrialCompleted(currentTrialPhase, block.timestamp);
-        emit ResultsPublished(currentTrialPhase, significantDifference);
+        emit AnalysisRequestUpdated(requestId, phase, REQUEST_FULFILLED);
+        emit ArmStatisticsPublished(
+            phase,
+            stats.placeboCount,
+            stats.placeboScoreSum,
+            stats.placeboScoreSquareSum,
+            stats.treatmentCount,
+            stats.treatmentScoreSum,
+            stats.treatmentScoreSquareSum
+        );
+        emit TrialCompleted(phase, block.timestamp);
+        emit ResultsPublished(phase, significantDifference);
     }
 
     // Get current trial status
@@ -403,44 +1138,150 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
     }
 
     // Get patient enrollment status
+    // consentVersion is the latest version the patient agreed to; withdrawalTime is 0 while consent stands
     function getPatientStatus(address patient) external view returns (
         bool enrolled,
         bool consentGiven,
-        uint256 enrollmentTime
+        uint256 enrollmentTime,
+        uint16 consentVersion,
+        uint256 withdrawalTime
     ) {
         PatientData storage patientData = patients[patient];
         return (
             patientData.hasEnrolled,
             patientData.consentGiven,
-            patientData.enrollmentTime
+            patientData.enrollmentTime,
+            patientData.consentVersion,
+            patientData.withdrawalTime
         );
     }
 
+    /**
+     * @notice Page through the enrolled patients in enrollment order
+     * @dev Treatment arms are encrypted, so there is no per-arm listing or count
+     * @param offset Index of the first patient to return
+     * @param limit Maximum number of patients to return (1-MAX_PAGE_SIZE)
+     * @return page Patients [offset, offset + limit), shorter at the end of the list
+     */
+    function getPatients(uint256 offset, uint256 limit) external view returns (PatientSummary[] memory page) {
+        page = new PatientSummary[](_pageLength(offset, limit));
+        for (uint256 i = 0; i < page.length; i++) {
+            address patient = enrolledPatients[offset + i];
+            PatientData storage patientData = patients[patient];
+            page[i] = PatientSummary({
+                patient: patient,
+                consentGiven: patientData.consentGiven,
+                consentVersion: patientData.consentVersion,
+                measurementCount: patientData.measurementCount,
+                submittedWeeks: patientData.submittedWeeks,
+                enrollmentTime: patientData.enrollmentTime,
+                withdrawalTime: patientData.withdrawalTime
+            });
+        }
+    }
+
+    /**
+     * @notice Submission timestamps of a page of patients, in enrollment order
+     * @param offset Index of the first patient to return
+     * @param limit Maximum number of patients to return (1-MAX_PAGE_SIZE)
+     * @return times times[i][w - 1] is when patient offset + i recorded week w; 0 if not recorded
+     */
+    function getSubmissionTimes(uint256 offset, uint256 limit) external view returns (uint256[][] memory times) {
+        times = new uint256[][](_pageLength(offset, limit));
+        uint8 visitWeeks = studyProtocol.visitWeeks;
+        for (uint256 i = 0; i < times.length; i++) {
+            address patient = enrolledPatients[offset + i];
+            uint64 submitted = patients[patient].submittedWeeks;
+            times[i] = new uint256[](visitWeeks);
+            for (uint8 week = 1; week <= visitWeeks; week++) {
+                if (submitted & (uint64(1) << week) != 0) {
+                    times[i][week - 1] = measurements[patient][week].measurementTime;
+                }
+            }
+        }
+    }
+
+    /**
+     * @notice Scheduled visits of a patient whose window closed without a record
+     * @dev Only windows overlapping the treatment phase count, since visits can only be recorded
+     * then; windows closing after a consent withdrawal do not. Always 0 for unscheduled visits
+     * @return missedWeeks Bitmap like submittedWeeks; bit w is set if week w was missed
+     */
+    function getMissedVisits(address patient) external view returns (uint64 missedWeeks) {
+        if (treatmentStartTime == 0) return 0;
+        PatientData storage data = patients[patient];
+        uint256 cutoff = data.withdrawalTime != 0 ? data.withdrawalTime : block.timestamp;
+        for (uint8 week = 1; week <= studyProtocol.visitWeeks; week++) {
+            (uint256 opens, uint256 closes) = getVisitWindow(patient, week);
+            if (
+                closes >= treatmentStartTime &&
+                (treatmentEndTime == 0 || opens <= treatmentEndTime) &&
+                closes < cutoff &&
+                data.submittedWeeks & (uint64(1) << week) == 0
+            ) {
+                missedWeeks |= uint64(1) << week;
+            }
+        }
+    }
+
+    /**
+     * @notice When a patient's visit may be recorded
+     * @dev Week w is due visitInterval * w after enrollment and open visitWindow seconds either side
+     * @param week Visit week (1-visitWeeks)
+     * @return opens First second of the window
+     * @return closes Last second of the window; 0 with opens when visits are unscheduled
+     */
+    function getVisitWindow(address patient, uint8 week) public view returns (uint256 opens, uint256 closes) {
+        uint256 interval = studyProtocol.visitInterval;
+        if (interval == 0) return (0, 0);
+        uint256 due = patients[patient].enrollmentTime + week * interval;
+        return (due - studyProtocol.visitWindow, due + studyProtocol.visitWindow);
+    }
+
+    // Number of patients a page starting at offset holds; zero past the end
+    function _pageLength(uint256 offset, uint256 limit) private view returns (uint256) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Invalid page size");
+        uint256 total = enrolledPatients.length;
+        if (offset >= total) return 0;
+        return total - offset < limit ? total - offset : limit;
+    }
+
     // Get trial results (encrypted)
     function getTrialResults(uint8 phase) external view returns (
         bool completed,
         bool resultsCalculated,
         uint256 completionTime,
-        uint8 participantCount
+        uint256 participantCount
     ) {
         TrialResults storage results = phaseResults[phase];
         return (
             results.trialCompleted,
             results.resultsCalculated,
             results.completionTime,
-            uint8(enrolledPatients.length)
+            enrolledPatients.length
         );
     }
 
-    // Emergency trial termination (coordinator only)
-    function emergencyTermination() external onlyCoordinator {
+    // Emergency trial termination (coordinator or DSMB)
+    function emergencyTermination() external onlyCoordinatorOrDsmb {
+        if (currentTrialPhase == TREATMENT_PHASE) treatmentEndTime = block.timestamp;
         currentTrialPhase = ANALYSIS_PHASE;
         phaseTransitionTime = block.timestamp;
+        transitionInProgress = false;
+
+        // A late callback must not overwrite the termination record
+        AnalysisRequest storage request = analysisRequests[latestAnalysisRequestId];
+        if (request.status == REQUEST_PENDING) {
+            request.status = REQUEST_CANCELLED;
+            emit AnalysisRequestUpdated(latestAnalysisRequestId, request.phase, REQUEST_CANCELLED);
+        }
 
         phaseResults[currentTrialPhase] = TrialResults({
             placeboGroupAverage: FHE.asEuint16(0),
             treatmentGroupAverage: FHE.asEuint16(0),
-            totalParticipants: FHE.asEuint8(uint8(enrolledPatients.length)),
+            totalParticipants: FHE.asEuint16(uint16(enrolledPatients.length)),
+            placeboGroupSize: 0,
+            treatmentGroupSize: 0,
             resultsCalculated: false,
             trialCompleted: true,
             completionTime: block.timestamp
@@ -449,6 +1290,117 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
         emit TrialCompleted(currentTrialPhase, block.timestamp);
     }
 
+    /**
+     * @notice Give the calling auditor decrypt access to a phase's aggregated results
+     * @dev Pull-based so that auditors appointed after the analysis get access too.
+     * Access granted through the ACL stays in place if the auditor role is revoked later.
+     * @param phase Phase whose results to open, normally ANALYSIS_PHASE
+     *
+     * @custom:emits AggregateAccessGranted when successful
+     */
+    function allowAggregateDecryption(uint8 phase) external onlyRole(AUDITOR_ROLE, "Only auditor allowed") {
+        TrialResults storage results = phaseResults[phase];
+        require(results.resultsCalculated, "Results not available");
+
+        FHE.allow(results.placeboGroupAverage, msg.sender);
+        FHE.allow(results.treatmentGroupAverage, msg.sender);
+        FHE.allow(results.totalParticipants, msg.sender);
+
+        emit AggregateAccessGranted(phase, msg.sender);
+    }
+
+    /**
+     * @notice Ask to unblind one patient's treatment arm for a safety event (site investigators only)
+     * @dev Nothing is revealed until a DSMB member approves. Unlike emergencyTermination() the trial
+     * continues, and every other patient stays blinded.
+     * @param patient Enrolled patient whose arm the treating investigator needs
+     * @param reason Reason code, 1 to 4 (see TrialUnblinding.MAX_REASON)
+     * @return requestId Id to approve or reject the request by
+     *
+     * @custom:emits UnblindingRequested when successful
+     */
+    function requestUnblinding(
+        address patient,
+        uint8 reason
+    ) external onlyRole(SITE_INVESTIGATOR_ROLE, "Only site investigator allowed") returns (uint256 requestId) {
+        require(patients[patient].hasEnrolled, "Patient not enrolled");
+        require(patients[patient].withdrawalTime == 0, "Consent withdrawn");
+
+        requestId = TrialUnblinding.request(unblinding, patient, reason);
+
+        emit UnblindingRequested(requestId, patient, msg.sender, reason);
+    }
+
+    /**
+     * @notice Approve an unblinding request and let the requesting investigator decrypt the arm (DSMB only)
+     * @dev Grants access to the requesting investigator alone, who must still hold the site investigator
+     * role; nobody approves their own request. The ACL cannot revoke the access later. A patient who
+     * withdrew consent in the meantime is not unblinded, as withdrawal grants nobody new access.
+     * @param requestId Pending request to approve
+     *
+     * @custom:emits PatientUnblinded when successful
+     */
+    function approveUnblinding(uint256 requestId) external onlyRole(DSMB_ROLE, "Only DSMB allowed") {
+        TrialUnblinding.decide(unblinding, requestId, true);
+        TrialUnblinding.Request storage request = unblinding.byId[requestId];
+        require(roles[SITE_INVESTIGATOR_ROLE][request.investigator], "Investigator no longer authorized");
+        require(patients[request.patient].withdrawalTime == 0, "Consent withdrawn");
+
+        FHE.allow(patients[request.patient].encryptedTreatmentGroup, request.investigator);
+
+        emit PatientUnblinded(requestId, request.patient, request.investigator, msg.sender, request.reason);
+    }
+
+    /**
+     * @notice Reject an unblinding request (DSMB only)
+     * @param requestId Pending request to reject
+     *
+     * @custom:emits UnblindingRejected when successful
+     */
+    function rejectUnblinding(uint256 requestId) external onlyRole(DSMB_ROLE, "Only DSMB allowed") {
+        TrialUnblinding.decide(unblinding, requestId, false);
+        emit UnblindingRejected(requestId, unblinding.byId[requestId].patient, msg.sender);
+    }
+
+    /**
+     * @notice An unblinding request; status 0 if the id is unknown
+     */
+    function unblindingRequest(uint256 requestId) external view returns (TrialUnblinding.Request memory) {
+        return unblinding.byId[requestId];
+    }
+
+    /**
+     * @notice Number of unblinding requests made; also the latest request id
+     */
+    function unblindingRequestCount() external view returns (uint256) {
+        return unblinding.count;
+    }
+
+    /**
+     * @notice Encrypted safety alert of a recorded visit; uninitialized if the week was not recorded
+     * @dev Decryptable by the safety monitors that held the role when the visit was recorded
+     */
+    function safetyAlert(address patient, uint8 week) external view returns (ebool) {
+        return safety.alerts[patient][week];
+    }
+
+    /**
+     * @notice Encrypted number of safety alerts raised so far
+     */
+    function seriousEventCount() external view returns (euint16) {
+        return safety.seriousEvents;
+    }
+
+    /**
+     * @notice Make the current serious event count publicly decryptable (safety monitors only)
+     * @dev Reveals one total across patients, arms and weeks; later alerts stay encrypted until the next reveal
+     *
+     * @custom:emits SeriousEventCountRevealed
+     */
+    function revealSeriousEventCount() external onlyRole(SAFETY_MONITOR_ROLE, "Only safety monitor allowed") {
+        emit SeriousEventCountRevealed(msg.sender, TrialSafety.revealSeriousEvents(safety));
+    }
+
     // Get current phase name
     function getCurrentPhaseName() external view returns (string memory) {
         if (currentTrialPhase == ENROLLMENT_PHASE) return "Patient Enrollment";
@@ -460,11 +1412,6 @@ contract PrivacyPreservingClinicalTrial is SepoliaConfig {
 
     // Get total measurements submitted by a patient
     function getPatientMeasurementCount(address patient) external view returns (uint8 count) {
-        for (uint8 week = 1; week <= 12; week++) {
-            if (measurements[patient][week].isValid) {
-                count++;
-            }
-        }
-        return count;
+        return patients[patient].measurementCount;
     }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint16, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title Trial Allocation
+ * @author FHEVM Clinical Trials Team
+ * @notice Draws encrypted treatment arms under simple, permuted-block or stratified allocation
+ * @dev Linked into PrivacyPreservingClinicalTrial; the block counts it updates are the trial's storage
+ *
+ * @custom:chapter advanced-examples
+ * @custom:category healthcare
+ *
+ * Simple allocation compares a 16-bit random draw with treatmentRatio / (treatmentRatio + placeboRatio).
+ * Block schemes allocate like drawing without replacement from an urn holding the block's treatment
+ * and placebo slots: treatment wins when draw * remaining < remainingTreatment * 256 for an 8-bit
+ * draw, so every block ends exactly at the allocation ratio. Stratified allocation keeps one block
+ * per stratum and picks the patient's with FHE.select on encrypted comparisons, so neither the
+ * stratum nor the position in its block is revealed.
+ */
+library TrialAllocation {
+
+    /// @notice Allocation schemes a protocol can select
+    uint8 internal constant SIMPLE = 0;
+    uint8 internal constant PERMUTED_BLOCK = 1;
+    uint8 internal constant STRATIFIED = 2;
+
+    /// @notice Strata of stratified allocation: bit 0 is set for ages at or above the age cutoff,
+    /// bit 1 for health scores at or above the health score cutoff
+    uint8 internal constant MAX_STRATA = 4;
+
+    /**
+     * @notice Allocation settings, taken from the trial's protocol
+     * @param scheme SIMPLE, PERMUTED_BLOCK or STRATIFIED
+     * @param treatmentRatio Treatment share of the allocation ratio, e.g. 2 for 2:1
+     * @param placeboRatio Placebo share of the allocation ratio, e.g. 1 for 2:1
+     * @param blockSize Patients per permuted block, a multiple of the ratio total
+     * @param ageCutoff Stratified allocation splits ages below and from this value; 0 for no age strata
+     * @param healthScoreCutoff Stratified allocation splits health scores below and from this value;
+     *        0 for no health score strata
+     */
+    struct Scheme {
+        uint8 scheme;
+        uint8 treatmentRatio;
+        uint8 placeboRatio;
+        uint8 blockSize;
+        uint8 ageCutoff;
+        uint8 healthScoreCutoff;
+    }
+
+    /**
+     * @notice Progress through the current permuted block of one stratum
+     * @dev Encrypted because the counts, read after each enrollment, would reveal allocations.
+     * Block schemes without strata only use the first entry.
+     *
+     * @param allocated Patients allocated in the current block
+     * @param allocatedToTreatment Of those, patients allocated to treatment
+     */
+    struct Block {
+        euint8 allocated;
+        euint8 allocatedToTreatment;
+    }
+
+    /**
+     * @notice Check allocation settings; reverts with the reason
+     */
+    function validate(Scheme memory s) external pure {
+        require(s.scheme <= STRATIFIED, "Invalid allocation scheme");
+        require(s.treatmentRatio > 0 && s.placeboRatio > 0, "Invalid allocation ratio");
+        if (s.scheme != SIMPLE) {
+            uint256 ratioTotal = uint256(s.treatmentRatio) + s.placeboRatio;
+            require(s.blockSize > 0 && s.blockSize % ratioTotal == 0, "Block size must be a multiple of the ratio");
+        }
+        if (s.scheme == STRATIFIED) {
+            require((s.ageCutoff > 0 || s.healthScoreCutoff > 0) && s.healthScoreCutoff <= 100, "Invalid strata");
+        }
+    }
+
+    /**
+     * @notice Draw the encrypted treatment arm of the next patient: 1 for treatment, 0 for placebo
+     * @param blocks The trial's per-stratum block state, updated here
+     * @param s Allocation settings, already validated
+     * @param age Encrypted age, compared with the age cutoff
+     * @param healthScore Encrypted health score, compared with the health score cutoff
+     */
+    function allocate(
+        Block[MAX_STRATA] storage blocks,
+        Scheme memory s,
+        euint8 age,
+        euint8 healthScore
+    ) external returns (ebool treated) {
+        uint256 ratioTotal = uint256(s.treatmentRatio) + s.placeboRatio;
+        if (s.scheme == SIMPLE) {
+            return FHE.lt(FHE.randEuint16(), uint16((uint256(s.treatmentRatio) << 16) / ratioTotal));
+        }
+
+        // FHE.select does not accept uninitialized handles, so blocks start as encrypted zeros
+        for (uint8 i = 0; i < MAX_STRATA; i++) {
+            if (usesStratum(s, i) && !FHE.isInitialized(blocks[i].allocated)) {
+                blocks[i] = Block(FHE.asEuint8(0), FHE.asEuint8(0));
+            }
+        }
+
+        Block memory current = blocks[0];
+        ebool[MAX_STRATA] memory inStratum;
+        if (s.scheme == STRATIFIED) {
+            euint8 stratum = FHE.asEuint8(0);
+            if (s.ageCutoff > 0) {
+                stratum = FHE.asEuint8(FHE.ge(age, s.ageCutoff));
+            }
+            if (s.healthScoreCutoff > 0) {
+                stratum = FHE.add(stratum, FHE.mul(FHE.asEuint8(FHE.ge(healthScore, s.healthScoreCutoff)), 2));
+            }
+            for (uint8 i = 0; i < MAX_STRATA; i++) {
+                if (!usesStratum(s, i)) continue;
+                inStratum[i] = FHE.eq(stratum, i);
+                current.allocated = FHE.select(inStratum[i], blocks[i].allocated, current.allocated);
+                current.allocatedToTreatment = FHE.select(
+                    inStratum[i],
+                    blocks[i].allocatedToTreatment,
+                    current.allocatedToTreatment
+                );
+            }
+        }
+
+        uint8 blockTreatment = uint8((uint256(s.blockSize) * s.treatmentRatio) / ratioTotal);
+        euint16 remaining = FHE.asEuint16(FHE.sub(s.blockSize, current.allocated));
+        euint16 remainingTreatment = FHE.asEuint16(FHE.sub(blockTreatment, current.allocatedToTreatment));
+        treated = FHE.lt(FHE.mul(FHE.randEuint16(256), remaining), FHE.mul(remainingTreatment, 256));
+
+        // Move on in the block, starting a new one once it is full
+        euint8 allocated = FHE.add(current.allocated, 1);
+        euint8 allocatedToTreatment = FHE.add(current.allocatedToTreatment, FHE.asEuint8(treated));
+        ebool blockFull = FHE.eq(allocated, s.blockSize);
+        allocated = FHE.select(blockFull, FHE.asEuint8(0), allocated);
+        allocatedToTreatment = FHE.select(blockFull, FHE.asEuint8(0), allocatedToTreatment);
+
+        for (uint8 i = 0; i < MAX_STRATA; i++) {
+            if (!usesStratum(s, i)) continue;
+            Block storage stored = blocks[i];
+            if (s.scheme == STRATIFIED) {
+                stored.allocated = FHE.select(inStratum[i], allocated, stored.allocated);
+                stored.allocatedToTreatment = FHE.select(inStratum[i], allocatedToTreatment, stored.allocatedToTreatment);
+            } else {
+                stored.allocated = allocated;
+                stored.allocatedToTreatment = allocatedToTreatment;
+            }
+            FHE.allowThis(stored.allocated);
+            FHE.allowThis(stored.allocatedToTreatment);
+        }
+    }
+
+    // Whether a stratum can be reached; block schemes without strata only use stratum 0
+    function usesStratum(Scheme memory s, uint8 stratum) private pure returns (bool) {
+        if (s.scheme != STRATIFIED) return stratum == 0;
+        if (stratum & 1 != 0 && s.ageCutoff == 0) return false;
+        return stratum & 2 == 0 || s.healthScoreCutoff > 0;
+    }
+}
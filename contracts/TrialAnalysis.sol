@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint16, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title Trial Analysis
+ * @author FHEVM Clinical Trials Team
+ * @notice Folds patients' encrypted primary endpoint scores into per-arm aggregates
+ * @dev Linked into PrivacyPreservingClinicalTrial, which picks each batch's patients and handles the callback
+ *
+ * Splits the primary endpoint scores by the encrypted treatment arm with FHE.select(), so the
+ * oracle only decrypts aggregates: the score sums and sums of squares over all analysed patients
+ * and over the treatment arm, the numbers of analysed patients in total and in the treatment arm,
+ * and the treatment arm size. Placebo figures follow by subtraction. Ineligible patients
+ * contribute zeros through the same select. No individual score, allocation or eligibility flag
+ * is ever decrypted.
+ *
+ * @custom:chapter advanced-examples
+ * @custom:category healthcare
+ */
+library TrialAnalysis {
+
+    /**
+     * @notice Running encrypted totals of the analysis
+     * @dev Score sums and sums of squares cover both arms; placebo figures are the totals minus
+     * the treatment ones. Analysed counts only include eligible patients, so they are encrypted
+     * as well.
+     */
+    struct Totals {
+        euint32 scoreSum;
+        euint32 treatmentScoreSum;
+        euint32 scoreSquareSum;
+        euint32 treatmentScoreSquareSum;
+        euint16 analysed;
+        euint16 treatmentAnalysed;
+        euint16 treatmentSize;
+    }
+
+    /**
+     * @notice What the analysis needs of one patient
+     * @param arm Encrypted treatment group (0 placebo, 1 treatment)
+     * @param eligible Encrypted eligibility flag
+     * @param score Encrypted primary endpoint score; ignored unless analysed
+     * @param analysed Whether the patient has a primary endpoint score the withdrawal policy keeps
+     */
+    struct Entry {
+        euint8 arm;
+        ebool eligible;
+        euint8 score;
+        bool analysed;
+    }
+
+    /**
+     * @notice Reset the totals to encrypted zeros before the first batch
+     */
+    function reset(Totals storage self) external {
+        self.scoreSum = FHE.asEuint32(0);
+        self.treatmentScoreSum = FHE.asEuint32(0);
+        self.scoreSquareSum = FHE.asEuint32(0);
+        self.treatmentScoreSquareSum = FHE.asEuint32(0);
+        self.analysed = FHE.asEuint16(0);
+        self.treatmentAnalysed = FHE.asEuint16(0);
+        self.treatmentSize = FHE.asEuint16(0);
+    }
+
+    /**
+     * @notice Add a batch of patients to the totals
+     * @dev Accumulates in memory and persists once per batch, keeping the ACL grants per batch
+     */
+    function accumulate(Totals storage self, Entry[] memory batch) external {
+        Totals memory totals = self;
+        for (uint256 i = 0; i < batch.length; i++) {
+            _add(totals, batch[i]);
+        }
+
+        self.scoreSum = totals.scoreSum;
+        self.treatmentScoreSum = totals.treatmentScoreSum;
+        self.scoreSquareSum = totals.scoreSquareSum;
+        self.treatmentScoreSquareSum = totals.treatmentScoreSquareSum;
+        self.analysed = totals.analysed;
+        self.treatmentAnalysed = totals.treatmentAnalysed;
+        self.treatmentSize = totals.treatmentSize;
+        FHE.allowThis(totals.scoreSum);
+        FHE.allowThis(totals.treatmentScoreSum);
+        FHE.allowThis(totals.scoreSquareSum);
+        FHE.allowThis(totals.treatmentScoreSquareSum);
+        FHE.allowThis(totals.analysed);
+        FHE.allowThis(totals.treatmentAnalysed);
+        FHE.allowThis(totals.treatmentSize);
+    }
+
+    /**
+     * @notice Request decryption of the totals
+     * @dev The oracle calls `callback` on the trial with the cleartexts ABI-encoded in field order
+     * @return requestId Id of the decryption request
+     */
+    function requestDecryption(Totals storage self, bytes4 callback) external returns (uint256 requestId) {
+        bytes32[] memory cts = new bytes32[](7);
+        cts[0] = FHE.toBytes32(self.scoreSum);
+        cts[1] = FHE.toBytes32(self.treatmentScoreSum);
+        cts[2] = FHE.toBytes32(self.scoreSquareSum);
+        cts[3] = FHE.toBytes32(self.treatmentScoreSquareSum);
+        cts[4] = FHE.toBytes32(self.analysed);
+        cts[5] = FHE.toBytes32(self.treatmentAnalysed);
+        cts[6] = FHE.toBytes32(self.treatmentSize);
+        requestId = FHE.requestDecryption(cts, callback);
+    }
+
+    // Adds one patient to the running totals in memory
+    function _add(Totals memory totals, Entry memory entry) private {
+        totals.treatmentSize = FHE.add(totals.treatmentSize, FHE.asEuint16(entry.arm));
+        if (!entry.analysed) {
+            return;
+        }
+
+        // Ineligible patients count as a zero score that is not analysed
+        ebool isTreatment = FHE.eq(entry.arm, 1);
+        // Scores are at most 100, so squares fit in 16 bits
+        euint16 score16 = FHE.select(entry.eligible, FHE.asEuint16(entry.score), FHE.asEuint16(0));
+        euint32 score = FHE.asEuint32(score16);
+        euint32 square = FHE.asEuint32(FHE.mul(score16, score16));
+        totals.scoreSum = FHE.add(totals.scoreSum, score);
+        totals.scoreSquareSum = FHE.add(totals.scoreSquareSum, square);
+        totals.treatmentScoreSum = FHE.add(
+            totals.treatmentScoreSum,
+            FHE.select(isTreatment, score, FHE.asEuint32(0))
+        );
+        totals.treatmentScoreSquareSum = FHE.add(
+            totals.treatmentScoreSquareSum,
+            FHE.select(isTreatment, square, FHE.asEuint32(0))
+        );
+        totals.analysed = FHE.add(totals.analysed, FHE.asEuint16(entry.eligible));
+        totals.treatmentAnalysed = FHE.add(
+            totals.treatmentAnalysed,
+            FHE.asEuint16(FHE.and(entry.eligible, isTreatment))
+        );
+    }
+}
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint16, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title Trial Eligibility
+ * @author FHEVM Clinical Trials Team
+ * @notice Evaluates the protocol's eligibility criteria on encrypted enrollment data
+ * @dev Linked into PrivacyPreservingClinicalTrial, which grants access to the resulting flag
+ *
+ * Heart rate and diastolic pressure are decoded from the vital signs with FHE.div and FHE.rem by
+ * plaintext 100. The result is a single encrypted flag; no individual criterion is stored, so
+ * nobody can tell why a patient was ineligible. lib/eligibility.ts mirrors the rule in plaintext.
+ *
+ * @custom:chapter advanced-examples
+ * @custom:category healthcare
+ */
+library TrialEligibility {
+
+    /**
+     * @notice Inclusive eligibility ranges, taken from the trial's protocol
+     */
+    struct Criteria {
+        uint8 minAge;
+        uint8 maxAge;
+        uint8 minHealthScore;
+        uint8 maxHealthScore;
+        uint8 minHeartRate;
+        uint8 maxHeartRate;
+        uint8 minDiastolicPressure;
+        uint8 maxDiastolicPressure;
+    }
+
+    /**
+     * @notice Whether the enrollment data meets every criterion, encrypted
+     * @param vitalSigns Heart rate * 100 + diastolic pressure
+     */
+    function evaluate(
+        euint8 age,
+        euint8 healthScore,
+        euint16 vitalSigns,
+        Criteria memory c
+    ) external returns (ebool eligible) {
+        euint16 heartRate = FHE.div(vitalSigns, 100);
+        euint16 diastolicPressure = FHE.rem(vitalSigns, 100);
+
+        eligible = FHE.and(FHE.ge(age, c.minAge), FHE.le(age, c.maxAge));
+        eligible = FHE.and(eligible, FHE.ge(healthScore, c.minHealthScore));
+        eligible = FHE.and(eligible, FHE.le(healthScore, c.maxHealthScore));
+        eligible = FHE.and(eligible, FHE.ge(heartRate, uint16(c.minHeartRate)));
+        eligible = FHE.and(eligible, FHE.le(heartRate, uint16(c.maxHeartRate)));
+        eligible = FHE.and(eligible, FHE.ge(diastolicPressure, uint16(c.minDiastolicPressure)));
+        eligible = FHE.and(eligible, FHE.le(diastolicPressure, uint16(c.maxDiastolicPressure)));
+    }
+}
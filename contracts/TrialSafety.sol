@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint16, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title Trial Safety
+ * @author FHEVM Clinical Trials Team
+ * @notice Compares encrypted side-effect levels against the protocol's safety thresholds
+ * @dev Linked into PrivacyPreservingClinicalTrial, which checks roles and emits the events
+ *
+ * Every recorded visit is assessed homomorphically: the alert is raised when the side-effect level
+ * reaches the protocol's serious level, or when it rose by at least the protocol's weekly increase
+ * since the week before. Neither the level nor the outcome is revealed; the alert is an ebool only
+ * the trial and the safety monitors can decrypt. Each alert counts as one serious event in an
+ * encrypted running total that a safety monitor can make publicly decryptable.
+ *
+ * @custom:chapter advanced-examples
+ * @custom:category healthcare
+ */
+library TrialSafety {
+
+    /// @notice Highest side-effect level; submissions are clamped to it
+    uint8 internal constant MAX_SIDE_EFFECT_LEVEL = 10;
+
+    /**
+     * @notice Safety state of one trial
+     * @param alerts Encrypted alert flag by patient and visit week
+     * @param seriousEvents Encrypted number of alerts raised so far
+     * @param monitors Current safety monitors; each alert is shared with them
+     * @param monitorPosition 1-based position of each monitor in monitors; 0 for non-monitors
+     */
+    struct State {
+        mapping(address => mapping(uint8 => ebool)) alerts;
+        euint16 seriousEvents;
+        address[] monitors;
+        mapping(address => uint256) monitorPosition;
+    }
+
+    /**
+     * @notice Assess one recorded visit and store its alert flag
+     * @param level Clamped side-effect level of the visit
+     * @param previousLevel Side-effect level of the week before; uninitialized if none was recorded
+     * @param seriousLevel Level from which a visit raises an alert (1 to MAX_SIDE_EFFECT_LEVEL)
+     * @param weeklyIncrease Rise since the week before that raises an alert; 0 disables the check
+     */
+    function assess(
+        State storage self,
+        address patient,
+        uint8 week,
+        euint8 level,
+        euint8 previousLevel,
+        uint8 seriousLevel,
+        uint8 weeklyIncrease
+    ) external {
+        ebool alert = FHE.ge(level, seriousLevel);
+        if (weeklyIncrease > 0 && FHE.isInitialized(previousLevel)) {
+            // Both terms are at most MAX_SIDE_EFFECT_LEVEL, so the sum cannot wrap
+            alert = FHE.or(alert, FHE.ge(level, FHE.add(previousLevel, weeklyIncrease)));
+        }
+        euint16 seriousEvents = FHE.add(self.seriousEvents, FHE.asEuint16(alert));
+
+        self.alerts[patient][week] = alert;
+        self.seriousEvents = seriousEvents;
+        FHE.allowThis(alert);
+        FHE.allowThis(seriousEvents);
+        for (uint256 i = 0; i < self.monitors.length; i++) {
+            FHE.allow(alert, self.monitors[i]);
+        }
+    }
+
+    /**
+     * @notice Add or remove a safety monitor that alerts are shared with
+     * @dev Alerts raised before an account became a monitor stay hidden from it, and the ACL
+     * cannot take back what a removed monitor was given
+     */
+    function setMonitor(State storage self, address account, bool isMonitor) external {
+        uint256 position = self.monitorPosition[account];
+        if (isMonitor && position == 0) {
+            self.monitors.push(account);
+            self.monitorPosition[account] = self.monitors.length;
+        } else if (!isMonitor && position != 0) {
+            address last = self.monitors[self.monitors.length - 1];
+            self.monitors[position - 1] = last;
+            self.monitorPosition[last] = position;
+            self.monitors.pop();
+            delete self.monitorPosition[account];
+        }
+    }
+
+    /**
+     * @notice Make the current serious event count publicly decryptable
+     * @return count Handle of the revealed count
+     */
+    function revealSeriousEvents(State storage self) external returns (euint16 count) {
+        count = FHE.isInitialized(self.seriousEvents) ? self.seriousEvents : FHE.asEuint16(0);
+        FHE.allowThis(count);
+        FHE.makePubliclyDecryptable(count);
+        self.seriousEvents = count;
+    }
+}
@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title Trial Unblinding
+ * @author FHEVM Clinical Trials Team
+ * @notice Bookkeeping of emergency requests to unblind a single patient's treatment arm
+ * @dev Linked into PrivacyPreservingClinicalTrial. The trial checks roles and consent, grants the ACL
+ * access and emits the audit events; this library validates the reason code and the request lifecycle.
+ *
+ * @custom:chapter advanced-examples
+ * @custom:category healthcare
+ */
+library TrialUnblinding {
+
+    /// @notice Highest reason code: 1 serious adverse event, 2 medical emergency, 3 overdose,
+    /// 4 other (see lib/unblinding.ts)
+    uint8 internal constant MAX_REASON = 4;
+
+    /// @notice Request lifecycle; 0 means the request id is unknown
+    uint8 internal constant PENDING = 1;
+    uint8 internal constant APPROVED = 2;
+    uint8 internal constant REJECTED = 3;
+
+    /**
+     * @notice Emergency request to unblind one patient's treatment arm
+     * @param patient Patient whose arm is requested
+     * @param investigator Treating site investigator; the only account granted access on approval
+     * @param reason Reason code, 1 to MAX_REASON
+     * @param status PENDING, APPROVED or REJECTED
+     * @param decidedBy DSMB member who approved or rejected the request
+     * @param requestedAt Timestamp of the request
+     * @param decidedAt Timestamp of the decision; 0 while pending
+     */
+    struct Request {
+        address patient;
+        address investigator;
+        uint8 reason;
+        uint8 status;
+        address decidedBy;
+        uint64 requestedAt;
+        uint64 decidedAt;
+    }
+
+    /**
+     * @notice Every request of one trial
+     * @param byId Requests by id, starting at 1
+     * @param count Number of requests made; also the latest request id
+     */
+    struct Requests {
+        mapping(uint256 => Request) byId;
+        uint256 count;
+    }
+
+    /**
+     * @notice Record a pending request by the calling investigator
+     * @return requestId Id of the new request
+     */
+    function request(
+        Requests storage self,
+        address patient,
+        uint8 reason
+    ) external returns (uint256 requestId) {
+        require(reason >= 1 && reason <= MAX_REASON, "Invalid unblinding reason");
+
+        requestId = ++self.count;
+        self.byId[requestId] = Request({
+            patient: patient,
+            investigator: msg.sender,
+            reason: reason,
+            status: PENDING,
+            decidedBy: address(0),
+            requestedAt: uint64(block.timestamp),
+            decidedAt: 0
+        });
+    }
+
+    /**
+     * @notice Record the caller's decision on a pending request
+     * @dev Nobody may approve their own request
+     */
+    function decide(
+        Requests storage self,
+        uint256 requestId,
+        bool approve
+    ) external {
+        Request storage pending = self.byId[requestId];
+        require(pending.status != 0, "Unknown unblinding request");
+        require(pending.status == PENDING, "Unblinding request not pending");
+        require(!approve || pending.investigator != msg.sender, "Cannot approve own unblinding request");
+
+        pending.status = approve ? APPROVED : REJECTED;
+        pending.decidedBy = msg.sender;
+        pending.decidedAt = uint64(block.timestamp);
+    }
+}
@@ -0,0 +1,659 @@
+import * as fs from "fs";
+import * as path from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+import type { Interface, Provider } from "ethers";
+import type { DeploymentRecord } from "./deployments";
+import { IndexedEvent, MemoryStore, TrialIndexer } from "./indexer";
+import { ArmAggregates, analyzeArms } from "./statistics";
+import { PHASE_NAMES, TrialPhase } from "./trial-client";
+import { UnblindingReason, formatUnblindingReason } from "./unblinding";
+
+/**
+ * @title Trial Audit Report
+ * @notice Reconstructs a trial's history over a block range as Markdown and JSON
+ *
+ * @chapter: sdk
+ * @category: reporting
+ *
+ * The report is built from the trial's events in [fromBlock, toBlock] and the
+ * deployment record: the deployment, every phase transition, enrollments and
+ * withdrawals per day, submissions per week, consent amendments,
+ * terminations, published results and unblinding decisions.
+ *
+ * Each report carries the block range it covers (with the hash of the last
+ * block) and a content hash: keccak256 of the report as canonical JSON
+ * (sorted keys), leaving out the generation time and the hash itself. Running
+ * the generator again over the same range on the same chain gives the same
+ * hash, so a stored report can be checked against a fresh run with
+ * compareAuditReports(). A report edited after the fact no longer matches its
+ * own hash (verifyAuditHash()).
+ *
+ * Usage:
+ * const report = await generateAuditReport(provider, trial.interface, address, { deployment, toBlock });
+ * writeAuditReport(report, "reports/audit/localhost");
+ * compareAuditReports(loadAuditReport(file), await generateAuditReport(..., report.blockRange));
+ */
+
+/** Bumped whenever the report layout changes; part of the content hash */
+export const AUDIT_REPORT_VERSION = 1;
+
+export interface AuditBlockRange {
+  fromBlock: number;
+  toBlock: number;
+  /** Hash of toBlock; a reorg below it changes the report */
+  toBlockHash: string;
+  /** ISO time of fromBlock and toBlock */
+  from: string;
+  to: string;
+}
+
+export interface AuditDeployment {
+  record: DeploymentRecord;
+  /** Whether the recorded transaction was found on-chain in the recorded block */
+  onChain: boolean;
+}
+
+export interface AuditPhaseTransition {
+  fromPhase: number;
+  toPhase: number;
+  toPhaseName: string;
+  time: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface AuditEnrollmentDay {
+  day: string;
+  enrollments: number;
+  withdrawals: number;
+  /** Enrollments up to and including this day */
+  enrolledTotal: number;
+  /** Enrolled minus withdrawn, up to and including this day */
+  activeTotal: number;
+}
+
+export interface AuditConsentVersion {
+  version: number;
+  documentHash: string;
+  time: string;
+  blockNumber: number;
+}
+
+export interface AuditTermination {
+  phase: number;
+  phaseName: string;
+  time: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface AuditResult {
+  phase: number;
+  phaseName: string;
+  significantDifference: boolean;
+  /** Decrypted per-arm sums; null if no ArmStatisticsPublished came with the results */
+  arms: ArmAggregates | null;
+  means: { placebo: number | null; treatment: number | null } | null;
+  time: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface AuditUnblinding {
+  action: "requested" | "approved" | "rejected";
+  requestId: number;
+  patient: string;
+  /** Investigator for requests, the deciding DSMB member otherwise */
+  actor: string;
+  reason: string | null;
+  time: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Everything the content hash covers
+ */
+export interface AuditReportContent {
+  version: number;
+  trial: { address: string; chainId: number };
+  blockRange: AuditBlockRange;
+  deployment: AuditDeployment | null;
+  phaseTransitions: AuditPhaseTransition[];
+  enrollment: {
+    enrolled: number;
+    withdrawn: number;
+    perDay: AuditEnrollmentDay[];
+  };
+  submissions: {
+    total: number;
+    perWeek: { week: number; submissions: number }[];
+  };
+  consent: { versions: AuditConsentVersion[]; renewals: number };
+  /** TrialCompleted without published results, i.e. emergency terminations */
+  terminations: AuditTermination[];
+  results: AuditResult[];
+  unblinding: AuditUnblinding[];
+  eventCount: number;
+}
+
+export interface AuditReport extends AuditReportContent {
+  contentHash: string;
+  generatedAt: string;
+}
+
+export interface AuditReportInput {
+  contractAddress: string;
+  chainId: number;
+  blockRange: AuditBlockRange;
+  deployment: AuditDeployment | null;
+  /** Trial events in chain order; events outside the block range are ignored */
+  events: IndexedEvent[];
+  generatedAt?: Date;
+}
+
+export interface AuditComparison {
+  matches: boolean;
+  expectedHash: string;
+  actualHash: string;
+  /** Top-level sections whose content differs */
+  differences: string[];
+}
+
+function isoTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+function utcDay(timestamp: number): string {
+  return isoTime(timestamp).slice(0, 10);
+}
+
+function phaseName(phase: number): string {
+  return PHASE_NAMES[phase as TrialPhase] ?? `Phase ${phase}`;
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal content serializes identically
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Content hash of a report, ignoring contentHash and generatedAt
+ */
+export function auditContentHash(
+  report: AuditReportContent | AuditReport
+): string {
+  const content: Partial<AuditReport> = { ...report };
+  delete content.contentHash;
+  delete content.generatedAt;
+  return keccak256(toUtf8Bytes(canonicalJson(content)));
+}
+
+/**
+ * Build a report from already indexed events
+ */
+export function buildAuditReport(input: AuditReportInput): AuditReport {
+  const { fromBlock, toBlock } = input.blockRange;
+  const events = input.events.filter(
+    (event) => event.blockNumber >= fromBlock && event.blockNumber <= toBlock
+  );
+  const named = (name: IndexedEvent["name"]) =>
+    events.filter((event) => event.name === name);
+  const position = (event: IndexedEvent) => ({
+    time: isoTime(event.blockTimestamp),
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+  });
+
+  const phaseTransitions = named("PhaseTransition").map((event) => ({
+    fromPhase: Number(event.args.fromPhase),
+    toPhase: Number(event.args.toPhase),
+    toPhaseName: phaseName(Number(event.args.toPhase)),
+    ...position(event),
+    time: isoTime(Number(event.args.timestamp)),
+  }));
+
+  const days = new Map<string, { enrollments: number; withdrawals: number }>();
+  const countDay = (
+    event: IndexedEvent,
+    key: "enrollments" | "withdrawals"
+  ) => {
+    const day = utcDay(Number(event.args.timestamp));
+    const counts = days.get(day) ?? { enrollments: 0, withdrawals: 0 };
+    counts[key]++;
+    days.set(day, counts);
+  };
+  named("PatientEnrolled").forEach((event) => countDay(event, "enrollments"));
+  named("ConsentWithdrawn").forEach((event) => countDay(event, "withdrawals"));
+  let enrolledTotal = 0;
+  let activeTotal = 0;
+  const perDay = [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, counts]) => {
+      enrolledTotal += counts.enrollments;
+      activeTotal += counts.enrollments - counts.withdrawals;
+      return { day, ...counts, enrolledTotal, activeTotal };
+    });
+
+  const weeks = new Map<number, number>();
+  for (const event of named("ClinicalDataSubmitted")) {
+    const week = Number(event.args.week);
+    weeks.set(week, (weeks.get(week) ?? 0) + 1);
+  }
+  const perWeek = [...weeks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([week, submissions]) => ({ week, submissions }));
+
+  const published = named("ResultsPublished");
+  const terminations = named("TrialCompleted")
+    .filter(
+      (event) =>
+        !published.some(
+          (result) => result.transactionHash === event.transactionHash
+        )
+    )
+    .map((event) => ({
+      phase: Number(event.args.phase),
+      phaseName: phaseName(Number(event.args.phase)),
+      ...position(event),
+      time: isoTime(Number(event.args.timestamp)),
+    }));
+
+  const results = published.map((event) => {
+    const stats = named("ArmStatisticsPublished").find(
+      (s) => s.transactionHash === event.transactionHash
+    );
+    const arms: ArmAggregates | null = stats
+      ? {
+          placebo: {
+            count: Number(stats.args.placeboCount),
+            sum: Number(stats.args.placeboScoreSum),
+            sumOfSquares: Number(stats.args.placeboScoreSquareSum),
+          },
+          treatment: {
+            count: Number(stats.args.treatmentCount),
+            sum: Number(stats.args.treatmentScoreSum),
+            sumOfSquares: Number(stats.args.treatmentScoreSquareSum),
+          },
+        }
+      : null;
+    const analysis = arms ? analyzeArms(arms) : null;
+    return {
+      phase: Number(event.args.phase),
+      phaseName: phaseName(Number(event.args.phase)),
+      significantDifference: Boolean(event.args.significantDifference),
+      arms,
+      means: analysis
+        ? {
+            placebo: analysis.arms.placebo.mean,
+            treatment: analysis.arms.treatment.mean,
+          }
+        : null,
+      ...position(event),
+    };
+  });
+
+  const unblindingActions = {
+    UnblindingRequested: ["requested", "investigator"],
+    PatientUnblinded: ["approved", "approvedBy"],
+    UnblindingRejected: ["rejected", "rejectedBy"],
+  } as const;
+  const unblinding = events
+    .filter((event) => event.name in unblindingActions)
+    .map((event) => {
+      const [action, actor] =
+        unblindingActions[event.name as keyof typeof unblindingActions];
+      return {
+        action,
+        requestId: Number(event.args.requestId),
+        patient: String(event.args.patient),
+        actor: String(event.args[actor]),
+        reason:
+          event.args.reason === undefined
+            ? null
+            : formatUnblindingReason(
+                Number(event.args.reason) as UnblindingReason
+              ),
+        ...position(event),
+      };
+    });
+
+  const content: AuditReportContent = {
+    version: AUDIT_REPORT_VERSION,
+    trial: { address: input.contractAddress, chainId: input.chainId },
+    blockRange: input.blockRange,
+    deployment: input.deployment,
+    phaseTransitions,
+    enrollment: {
+      enrolled: named("PatientEnrolled").length,
+      withdrawn: named("ConsentWithdrawn").length,
+      perDay,
+    },
+    submissions: {
+      total: named("ClinicalDataSubmitted").length,
+      perWeek,
+    },
+    consent: {
+      versions: named("ConsentVersionPublished").map((event) => ({
+        version: Number(event.args.version),
+        documentHash: String(event.args.documentHash),
+        time: isoTime(event.blockTimestamp),
+        blockNumber: event.blockNumber,
+      })),
+      renewals: named("ConsentRenewed").length,
+    },
+    terminations,
+    results,
+    unblinding,
+    eventCount: events.length,
+  };
+
+  return {
+    ...content,
+    contentHash: auditContentHash(content),
+    generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Read the trial's events in [fromBlock, toBlock] from the chain and build a report
+ *
+ * fromBlock defaults to the deployment block (or 0), toBlock to the chain
+ * head. The events are read into a fresh in-memory index, so the result does
+ * not depend on local indexer state.
+ */
+export async function generateAuditReport(
+  provider: Provider,
+  iface: Interface,
+  contractAddress: string,
+  options: {
+    deployment?: DeploymentRecord;
+    fromBlock?: number;
+    toBlock?: number;
+  } = {}
+): Promise<AuditReport> {
+  const { deployment } = options;
+  const fromBlock = options.fromBlock ?? deployment?.blockNumber ?? 0;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  if (fromBlock > toBlock) {
+    throw new Error(`Invalid block range ${fromBlock} → ${toBlock}`);
+  }
+
+  const [first, last, network] = await Promise.all([
+    provider.getBlock(fromBlock),
+    provider.getBlock(toBlock),
+    provider.getNetwork(),
+  ]);
+  if (!first || !last?.hash) {
+    throw new Error(`Block range ${fromBlock} → ${toBlock} is not available`);
+  }
+
+  const indexer = new TrialIndexer(
+    provider,
+    iface,
+    contractAddress,
+    new MemoryStore(),
+    { startBlock: fromBlock }
+  );
+  await indexer.sync(toBlock);
+
+  let auditDeployment: AuditDeployment | null = null;
+  if (deployment) {
+    const receipt = await provider.getTransactionReceipt(
+      deployment.transactionHash
+    );
+    auditDeployment = {
+      record: deployment,
+      onChain: receipt?.blockNumber === deployment.blockNumber,
+    };
+  }
+
+  return buildAuditReport({
+    contractAddress,
+    chainId: Number(network.chainId),
+    blockRange: {
+      fromBlock,
+      toBlock,
+      toBlockHash: last.hash,
+      from: isoTime(first.timestamp),
+      to: isoTime(last.timestamp),
+    },
+    deployment: auditDeployment,
+    events: indexer.events(),
+  });
+}
+
+/**
+ * Check a report's content against its own hash
+ */
+export function verifyAuditHash(report: AuditReport): boolean {
+  return auditContentHash(report) === report.contentHash;
+}
+
+/**
+ * Compare a stored report with a fresh run over the same block range
+ */
+export function compareAuditReports(
+  expected: AuditReport,
+  actual: AuditReport
+): AuditComparison {
+  const sections = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  sections.delete("contentHash");
+  sections.delete("generatedAt");
+  const differences = [...sections].filter(
+    (key) =>
+      canonicalJson(expected[key as keyof AuditReport] ?? null) !==
+      canonicalJson(actual[key as keyof AuditReport] ?? null)
+  );
+  return {
+    matches:
+      differences.length === 0 && expected.contentHash === actual.contentHash,
+    expectedHash: expected.contentHash,
+    actualHash: actual.contentHash,
+    differences,
+  };
+}
+
+function table(headers: string[], rows: (string | number)[][]): string[] {
+  if (rows.length === 0) {
+    return ["_None in this block range._"];
+  }
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ];
+}
+
+/**
+ * Render a report as Markdown
+ */
+export function renderAuditMarkdown(report: AuditReport): string {
+  const { blockRange, deployment } = report;
+  const lines = [
+    "# Trial Audit Report",
+    "",
+    `- Trial: \`${report.trial.address}\` (chain ${report.trial.chainId})`,
+    `- Blocks: ${blockRange.fromBlock} → ${blockRange.toBlock} (${blockRange.from} → ${blockRange.to})`,
+    `- Last block hash: \`${blockRange.toBlockHash}\``,
+    `- Content hash: \`${report.contentHash}\``,
+    `- Generated: ${report.generatedAt}`,
+    `- Events: ${report.eventCount}`,
+    "",
+    "## Deployment",
+    "",
+  ];
+
+  if (deployment) {
+    const { record } = deployment;
+    lines.push(
+      `- Trial id: ${record.trialId}`,
+      `- Contract: ${record.contractName}`,
+      `- Block: ${record.blockNumber}`,
+      `- Transaction: \`${record.transactionHash}\`${deployment.onChain ? "" : " (not found on-chain)"}`,
+      `- Deployer: \`${record.deployer}\``,
+      `- Deployed at: ${record.deployedAt}`,
+      `- Compiler: solc ${record.compiler.version}`,
+      `- Bytecode hash: \`${record.bytecodeHash}\``,
+      `- ABI hash: \`${record.abiHash}\``
+    );
+    for (const [name, address] of Object.entries(record.libraries ?? {})) {
+      lines.push(`- Library ${name}: \`${address}\``);
+    }
+  } else {
+    lines.push("_No deployment record for this trial._");
+  }
+
+  lines.push(
+    "",
+    "## Phase Transitions",
+    "",
+    ...table(
+      ["From", "To", "Time", "Block", "Transaction"],
+      report.phaseTransitions.map((t) => [
+        t.fromPhase,
+        `${t.toPhase} ${t.toPhaseName}`,
+        t.time,
+        t.blockNumber,
+        `\`${t.transactionHash}\``,
+      ])
+    ),
+    "",
+    "## Enrollment",
+    "",
+    `${report.enrollment.enrolled} enrolled, ${report.enrollment.withdrawn} withdrawn.`,
+    "",
+    ...table(
+      ["Day", "Enrolled", "Withdrawn", "Enrolled to date", "Active to date"],
+      report.enrollment.perDay.map((d) => [
+        d.day,
+        d.enrollments,
+        d.withdrawals,
+        d.enrolledTotal,
+        d.activeTotal,
+      ])
+    ),
+    "",
+    "## Submissions",
+    "",
+    `${report.submissions.total} weekly submissions.`,
+    "",
+    ...table(
+      ["Week", "Submissions"],
+      report.submissions.perWeek.map((w) => [w.week, w.submissions])
+    ),
+    "",
+    "## Consent",
+    "",
+    `${report.consent.renewals} re-consents.`,
+    "",
+    ...table(
+      ["Version", "Document hash", "Time", "Block"],
+      report.consent.versions.map((v) => [
+        v.version,
+        `\`${v.documentHash}\``,
+        v.time,
+        v.blockNumber,
+      ])
+    ),
+    "",
+    "## Terminations",
+    "",
+    ...table(
+      ["Phase", "Time", "Block", "Transaction"],
+      report.terminations.map((t) => [
+        `${t.phase} ${t.phaseName}`,
+        t.time,
+        t.blockNumber,
+        `\`${t.transactionHash}\``,
+      ])
+    ),
+    "",
+    "## Results",
+    "",
+    ...table(
+      [
+        "Phase",
+        "Significant",
+        "Placebo n",
+        "Placebo mean",
+        "Treatment n",
+        "Treatment mean",
+        "Time",
+        "Block",
+      ],
+      report.results.map((r) => [
+        `${r.phase} ${r.phaseName}`,
+        r.significantDifference ? "yes" : "no",
+        r.arms?.placebo.count ?? "-",
+        r.means?.placebo?.toFixed(2) ?? "-",
+        r.arms?.treatment.count ?? "-",
+        r.means?.treatment?.toFixed(2) ?? "-",
+        r.time,
+        r.blockNumber,
+      ])
+    ),
+    "",
+    "## Emergency Unblinding",
+    "",
+    ...table(
+      ["Request", "Action", "Patient", "By", "Reason", "Time", "Block"],
+      report.unblinding.map((u) => [
+        u.requestId,
+        u.action,
+        `\`${u.patient}\``,
+        `\`${u.actor}\``,
+        u.reason ?? "-",
+        u.time,
+        u.blockNumber,
+      ])
+    ),
+    ""
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Write `audit-<fromBlock>-<toBlock>.json` and `.md` to a directory
+ */
+export function writeAuditReport(
+  report: AuditReport,
+  outDir: string
+): { json: string; markdown: string } {
+  fs.mkdirSync(outDir, { recursive: true });
+  const base = path.join(
+    outDir,
+    `audit-${report.blockRange.fromBlock}-${report.blockRange.toBlock}`
+  );
+  const json = `${base}.json`;
+  const markdown = `${base}.md`;
+  fs.writeFileSync(json, JSON.stringify(report, null, 2) + "\n");
+  fs.writeFileSync(markdown, renderAuditMarkdown(report));
+  return { json, markdown };
+}
+
+/**
+ * Load a report written by writeAuditReport()
+ */
+export function loadAuditReport(file: string): AuditReport {
+  const report = JSON.parse(fs.readFileSync(file, "utf8")) as AuditReport;
+  if (report.version !== AUDIT_REPORT_VERSION) {
+    throw new Error(
+      `${file} is an audit report version ${report.version}, expected ${AUDIT_REPORT_VERSION}`
+    );
+  }
+  return report;
+}
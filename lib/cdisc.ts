@@ -0,0 +1,767 @@
+import * as fs from "fs";
+import * as path from "path";
+import { hexlify, keccak256, randomBytes, solidityPacked } from "ethers";
+import type { IndexedEvent, TrialIndexer } from "./indexer";
+import type { TrialProtocol } from "./protocol";
+import { ArmAggregates, analyzeArms } from "./statistics";
+import { PHASE_NAMES, TrialPhase } from "./trial-client";
+import type { TrialClient, TrialResultsSummary } from "./trial-client";
+
+/**
+ * @title CDISC Export
+ * @notice Writes a trial's public record as CDISC ODM XML and SDTM-like CSV domains
+ *
+ * @chapter: sdk
+ * @category: export
+ *
+ * The export holds only what the trial already makes public: the protocol,
+ * the indexed event timeline (enrollments, visit submissions, consent
+ * changes, phase transitions) and the decrypted aggregate results. Encrypted
+ * patient data is never exported.
+ *
+ * - odm.xml: CDISC ODM 1.3.2 snapshot. Study metadata, one SubjectData per
+ *   patient with their enrollment, consent, visit and withdrawal dates, and
+ *   ReferenceData with the phase timeline and the published results.
+ * - dm.csv, ex.csv, ae.csv, ts.csv: SDTM-like domains at the aggregate level.
+ *   DM counts subjects per arm, EX summarizes exposure per arm, AE counts the
+ *   side-effect assessments per visit week and TS lists the trial parameters.
+ *   Arms are only known in aggregate and side-effect levels stay encrypted,
+ *   so no domain has a row per patient.
+ *
+ * Patient addresses are replaced with salted subject ids ("SUBJ-" and 12 hex
+ * digits of keccak256(salt, address)). The salt and the id-to-address mapping
+ * go to a separate file that must not be shared with the export; reusing it
+ * keeps subject ids stable across exports.
+ *
+ * Usage:
+ * const source = await collectExportSource(client, indexer, "HTN-2");
+ * writeExport(source, { outDir: "exports/HTN-2", mappingFile: "keys/HTN-2.json" });
+ */
+
+/** Prefix of pseudonymized subject ids */
+export const SUBJECT_ID_PREFIX = "SUBJ-";
+
+/** ODM version the XML export declares */
+export const ODM_VERSION = "1.3.2";
+
+export interface ExportSource {
+  studyId: string;
+  contractAddress: string;
+  chainId: number;
+  protocol: TrialProtocol;
+  currentPhase: TrialPhase;
+  /** Indexed trial events in chain order */
+  events: IndexedEvent[];
+  /** Results of the exported phase; null until they are calculated */
+  results: TrialResultsSummary | null;
+  aggregates: ArmAggregates | null;
+  exportedAt: Date;
+}
+
+export interface PseudonymEntry {
+  subjectId: string;
+  address: string;
+}
+
+/** Contents of the mapping file */
+export interface PseudonymMapping {
+  studyId: string;
+  salt: string;
+  subjects: PseudonymEntry[];
+}
+
+export interface SdtmDomain {
+  name: "DM" | "EX" | "AE" | "TS";
+  columns: string[];
+  rows: Record<string, string | number>[];
+}
+
+export interface ExportOptions {
+  outDir: string;
+  /** Where the salt and subject id mapping go; must be outside outDir */
+  mappingFile: string;
+  /** Salt for new mappings (default: the mapping file's, or random) */
+  salt?: string;
+}
+
+export interface ExportResult {
+  files: string[];
+  mappingFile: string;
+  subjects: number;
+}
+
+/**
+ * Maps patient addresses to salted subject ids and remembers the pairs
+ */
+export class Pseudonymizer {
+  private readonly subjects = new Map<string, PseudonymEntry>();
+
+  constructor(public readonly salt: string = hexlify(randomBytes(32))) {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(salt)) {
+      throw new Error("Pseudonymization salt must be 32 bytes of hex");
+    }
+  }
+
+  static fromMapping(mapping: PseudonymMapping): Pseudonymizer {
+    const pseudonymizer = new Pseudonymizer(mapping.salt);
+    for (const { address } of mapping.subjects) {
+      pseudonymizer.subjectId(address);
+    }
+    return pseudonymizer;
+  }
+
+  subjectId(address: string): string {
+    const key = address.toLowerCase();
+    let entry = this.subjects.get(key);
+    if (!entry) {
+      const hash = keccak256(
+        solidityPacked(["bytes32", "address"], [this.salt, address])
+      );
+      entry = {
+        subjectId: SUBJECT_ID_PREFIX + hash.slice(2, 14).toUpperCase(),
+        address,
+      };
+      this.subjects.set(key, entry);
+    }
+    return entry.subjectId;
+  }
+
+  mapping(studyId: string): PseudonymMapping {
+    return {
+      studyId,
+      salt: this.salt,
+      subjects: [...this.subjects.values()],
+    };
+  }
+}
+
+function isoDateTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function isoDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line; missing values are empty
+ */
+export function toCsv(
+  columns: string[],
+  rows: Record<string, string | number>[]
+): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsv(row[column] ?? "")).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Read what the export needs from the indexed events and the contract
+ */
+export async function collectExportSource(
+  client: TrialClient,
+  indexer: TrialIndexer,
+  studyId: string,
+  phase: TrialPhase = TrialPhase.Analysis
+): Promise<ExportSource> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("The trial client needs a provider to export");
+  }
+  const [
+    contractAddress,
+    currentPhase,
+    protocol,
+    results,
+    aggregates,
+    network,
+  ] = await Promise.all([
+    client.address(),
+    client.phase(),
+    client.protocol(),
+    client.results(phase),
+    client.armStatistics(phase),
+    provider.getNetwork(),
+  ]);
+  return {
+    studyId,
+    contractAddress,
+    chainId: Number(network.chainId),
+    protocol,
+    currentPhase,
+    events: indexer.events(),
+    results: results.resultsCalculated ? results : null,
+    aggregates,
+    exportedAt: new Date(),
+  };
+}
+
+interface ItemGroupSpec {
+  oid: string;
+  name: string;
+  repeating: boolean;
+  items: [oid: string, name: string, dataType: string][];
+}
+
+const ITEM_GROUPS: ItemGroupSpec[] = [
+  {
+    oid: "IG.ENROLLMENT",
+    name: "Enrollment",
+    repeating: false,
+    items: [["IT.ENRLDTC", "Enrollment date/time", "datetime"]],
+  },
+  {
+    oid: "IG.CONSENT",
+    name: "Consent renewal",
+    repeating: false,
+    items: [
+      ["IT.CONSVER", "Consent form version", "integer"],
+      ["IT.CONSDTC", "Consent date/time", "datetime"],
+    ],
+  },
+  {
+    oid: "IG.VISIT",
+    name: "Weekly visit",
+    repeating: false,
+    items: [
+      ["IT.VISITNUM", "Visit week", "integer"],
+      ["IT.SUBMDTC", "Submission date/time", "datetime"],
+    ],
+  },
+  {
+    oid: "IG.WITHDRAWAL",
+    name: "Consent withdrawal",
+    repeating: false,
+    items: [["IT.WDDTC", "Withdrawal date/time", "datetime"]],
+  },
+  {
+    oid: "IG.PHASE",
+    name: "Phase transition",
+    repeating: true,
+    items: [
+      ["IT.FROMPH", "From phase", "text"],
+      ["IT.TOPH", "To phase", "text"],
+      ["IT.PHDTC", "Transition date/time", "datetime"],
+    ],
+  },
+  {
+    oid: "IG.RESULTS",
+    name: "Published aggregate results",
+    repeating: false,
+    items: [
+      ["IT.RSPHASE", "Analysed phase", "text"],
+      ["IT.RSDTC", "Completion date/time", "datetime"],
+      ["IT.NSUBJ", "Participants", "integer"],
+      ["IT.PBON", "Placebo arm size", "integer"],
+      ["IT.TRTN", "Treatment arm size", "integer"],
+      ["IT.PBOEPN", "Placebo subjects analysed", "integer"],
+      ["IT.TRTEPN", "Treatment subjects analysed", "integer"],
+      ["IT.PBOMEAN", "Placebo mean effectiveness score", "float"],
+      ["IT.TRTMEAN", "Treatment mean effectiveness score", "float"],
+      ["IT.SIGDIFF", "Significant difference", "boolean"],
+    ],
+  },
+];
+
+const STUDY_EVENTS: [
+  oid: string,
+  name: string,
+  repeating: boolean,
+  form: string,
+  group: string,
+][] = [
+  ["SE.ENROLLMENT", "Enrollment", false, "F.ENROLLMENT", "IG.ENROLLMENT"],
+  ["SE.CONSENT", "Consent renewal", true, "F.CONSENT", "IG.CONSENT"],
+  ["SE.VISIT", "Weekly visit", true, "F.VISIT", "IG.VISIT"],
+  [
+    "SE.WITHDRAWAL",
+    "Consent withdrawal",
+    false,
+    "F.WITHDRAWAL",
+    "IG.WITHDRAWAL",
+  ],
+];
+
+function itemGroupXml(
+  group: string,
+  items: [string, string | number | boolean][],
+  repeatKey?: number,
+  indent = "          "
+): string[] {
+  const repeat =
+    repeatKey !== undefined ? ` ItemGroupRepeatKey="${repeatKey}"` : "";
+  return [
+    `${indent}<ItemGroupData ItemGroupOID="${group}"${repeat}>`,
+    ...items.map(
+      ([oid, value]) =>
+        `${indent}  <ItemData ItemOID="${oid}" Value="${escapeXml(String(value))}"/>`
+    ),
+    `${indent}</ItemGroupData>`,
+  ];
+}
+
+function studyEventXml(
+  event: string,
+  group: string,
+  items: [string, string | number | boolean][],
+  repeatKey?: number
+): string[] {
+  const form = STUDY_EVENTS.find(([oid]) => oid === event)![3];
+  const repeat =
+    repeatKey !== undefined ? ` StudyEventRepeatKey="${repeatKey}"` : "";
+  return [
+    `      <StudyEventData StudyEventOID="${event}"${repeat}>`,
+    `        <FormData FormOID="${form}">`,
+    ...itemGroupXml(group, items),
+    "        </FormData>",
+    "      </StudyEventData>",
+  ];
+}
+
+function phaseName(phase: number): string {
+  return PHASE_NAMES[phase as TrialPhase] ?? `Phase ${phase}`;
+}
+
+function significantDifference(source: ExportSource): boolean | undefined {
+  const event = source.events
+    .filter(
+      (e) =>
+        e.name === "ResultsPublished" &&
+        Number(e.args.phase) === source.results?.phase
+    )
+    .pop();
+  return event ? Boolean(event.args.significantDifference) : undefined;
+}
+
+/**
+ * CDISC ODM 1.3.2 snapshot of the trial's public record
+ */
+export function buildOdm(
+  source: ExportSource,
+  pseudonymizer: Pseudonymizer
+): string {
+  const studyOid = `STUDY.${source.studyId}`;
+  const { protocol } = source;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ODM xmlns="http://www.cdisc.org/ns/odm/v1.3" ODMVersion="${ODM_VERSION}" FileType="Snapshot"` +
+      ` FileOID="${escapeXml(`${studyOid}.${source.exportedAt.getTime()}`)}"` +
+      ` CreationDateTime="${isoDateTime(source.exportedAt.getTime() / 1000)}"` +
+      ` Originator="${escapeXml(`eip155:${source.chainId}:${source.contractAddress}`)}">`,
+    `  <Study OID="${escapeXml(studyOid)}">`,
+    "    <GlobalVariables>",
+    `      <StudyName>${escapeXml(source.studyId)}</StudyName>`,
+    `      <StudyDescription>${escapeXml(
+      `Privacy-preserving clinical trial at ${source.contractAddress} on chain ${source.chainId}; ` +
+        `${protocol.visitWeeks} weekly visits, primary endpoint at week ${protocol.primaryEndpointWeek}, ` +
+        `ages ${protocol.minAge}-${protocol.maxAge}`
+    )}</StudyDescription>`,
+    `      <ProtocolName>${escapeXml(source.studyId)}</ProtocolName>`,
+    "    </GlobalVariables>",
+    '    <MetaDataVersion OID="MDV.1" Name="Public trial record">',
+    "      <Protocol>",
+    ...STUDY_EVENTS.map(
+      ([oid], i) =>
+        `        <StudyEventRef StudyEventOID="${oid}" OrderNumber="${i + 1}" Mandatory="${i === 0 ? "Yes" : "No"}"/>`
+    ),
+    "      </Protocol>",
+  ];
+  for (const [oid, name, repeating, form] of STUDY_EVENTS) {
+    lines.push(
+      `      <StudyEventDef OID="${oid}" Name="${name}" Repeating="${repeating ? "Yes" : "No"}" Type="${oid === "SE.VISIT" ? "Scheduled" : "Unscheduled"}">`,
+      `        <FormRef FormOID="${form}" Mandatory="Yes"/>`,
+      "      </StudyEventDef>"
+    );
+  }
+  for (const [, name, , form, group] of STUDY_EVENTS) {
+    lines.push(
+      `      <FormDef OID="${form}" Name="${name}" Repeating="No">`,
+      `        <ItemGroupRef ItemGroupOID="${group}" Mandatory="Yes"/>`,
+      "      </FormDef>"
+    );
+  }
+  for (const group of ITEM_GROUPS) {
+    lines.push(
+      `      <ItemGroupDef OID="${group.oid}" Name="${group.name}" Repeating="${group.repeating ? "Yes" : "No"}">`,
+      ...group.items.map(
+        ([oid]) => `        <ItemRef ItemOID="${oid}" Mandatory="No"/>`
+      ),
+      "      </ItemGroupDef>"
+    );
+  }
+  for (const group of ITEM_GROUPS) {
+    for (const [oid, name, dataType] of group.items) {
+      lines.push(
+        `      <ItemDef OID="${oid}" Name="${name}" DataType="${dataType}"/>`
+      );
+    }
+  }
+  lines.push("    </MetaDataVersion>", "  </Study>");
+
+  // Subject data, in order of enrollment
+  lines.push(
+    `  <ClinicalData StudyOID="${escapeXml(studyOid)}" MetaDataVersionOID="MDV.1">`
+  );
+  const subjects = new Map<string, string[]>();
+  const subjectLines = (patient: string) => {
+    const subjectId = pseudonymizer.subjectId(patient);
+    let entries = subjects.get(subjectId);
+    if (!entries) {
+      entries = [];
+      subjects.set(subjectId, entries);
+    }
+    return entries;
+  };
+  for (const event of source.events) {
+    const patient = String(event.args.patient ?? "");
+    switch (event.name) {
+      case "PatientEnrolled":
+        subjectLines(patient).push(
+          ...studyEventXml("SE.ENROLLMENT", "IG.ENROLLMENT", [
+            ["IT.ENRLDTC", isoDateTime(Number(event.args.timestamp))],
+          ])
+        );
+        break;
+      case "ConsentRenewed":
+        subjectLines(patient).push(
+          ...studyEventXml(
+            "SE.CONSENT",
+            "IG.CONSENT",
+            [
+              ["IT.CONSVER", Number(event.args.version)],
+              ["IT.CONSDTC", isoDateTime(event.blockTimestamp)],
+            ],
+            Number(event.args.version)
+          )
+        );
+        break;
+      case "ClinicalDataSubmitted":
+        subjectLines(patient).push(
+          ...studyEventXml(
+            "SE.VISIT",
+            "IG.VISIT",
+            [
+              ["IT.VISITNUM", Number(event.args.week)],
+              ["IT.SUBMDTC", isoDateTime(event.blockTimestamp)],
+            ],
+            Number(event.args.week)
+          )
+        );
+        break;
+      case "ConsentWithdrawn":
+        subjectLines(patient).push(
+          ...studyEventXml("SE.WITHDRAWAL", "IG.WITHDRAWAL", [
+            ["IT.WDDTC", isoDateTime(Number(event.args.timestamp))],
+          ])
+        );
+        break;
+    }
+  }
+  for (const [subjectId, entries] of subjects) {
+    lines.push(
+      `    <SubjectData SubjectKey="${subjectId}">`,
+      ...entries,
+      "    </SubjectData>"
+    );
+  }
+  lines.push("  </ClinicalData>");
+
+  // Trial-level data: the phase timeline and the published results
+  lines.push(
+    `  <ReferenceData StudyOID="${escapeXml(studyOid)}" MetaDataVersionOID="MDV.1">`
+  );
+  source.events
+    .filter((event) => event.name === "PhaseTransition")
+    .forEach((event, i) =>
+      lines.push(
+        ...itemGroupXml(
+          "IG.PHASE",
+          [
+            ["IT.FROMPH", phaseName(Number(event.args.fromPhase))],
+            ["IT.TOPH", phaseName(Number(event.args.toPhase))],
+            ["IT.PHDTC", isoDateTime(Number(event.args.timestamp))],
+          ],
+          i + 1,
+          "    "
+        )
+      )
+    );
+  if (source.results) {
+    const { results } = source;
+    const items: [string, string | number | boolean][] = [
+      ["IT.RSPHASE", phaseName(results.phase)],
+      [
+        "IT.RSDTC",
+        results.completionTime
+          ? isoDateTime(results.completionTime.getTime() / 1000)
+          : "",
+      ],
+      ["IT.NSUBJ", results.participantCount],
+      ["IT.PBON", results.placeboGroupSize],
+      ["IT.TRTN", results.treatmentGroupSize],
+    ];
+    if (source.aggregates) {
+      const { arms } = analyzeArms(source.aggregates);
+      items.push(
+        ["IT.PBOEPN", source.aggregates.placebo.count],
+        ["IT.TRTEPN", source.aggregates.treatment.count]
+      );
+      if (arms.placebo.mean !== null) {
+        items.push(["IT.PBOMEAN", arms.placebo.mean]);
+      }
+      if (arms.treatment.mean !== null) {
+        items.push(["IT.TRTMEAN", arms.treatment.mean]);
+      }
+    }
+    const significant = significantDifference(source);
+    if (significant !== undefined) {
+      items.push(["IT.SIGDIFF", significant]);
+    }
+    lines.push(...itemGroupXml("IG.RESULTS", items, undefined, "    "));
+  }
+  lines.push("  </ReferenceData>", "</ODM>");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * SDTM-like DM, EX, AE and TS domains at the aggregate level
+ */
+export function buildSdtmDomains(source: ExportSource): SdtmDomain[] {
+  const STUDYID = source.studyId;
+  const enrollments = source.events.filter((e) => e.name === "PatientEnrolled");
+  const withdrawals = source.events.filter(
+    (e) => e.name === "ConsentWithdrawn"
+  );
+  const transitions = source.events.filter((e) => e.name === "PhaseTransition");
+  const transitionTo = (phase: TrialPhase) =>
+    transitions.find((e) => Number(e.args.toPhase) === phase);
+  const treatmentStart = transitionTo(TrialPhase.Treatment);
+  const treatmentEnd = transitionTo(TrialPhase.Monitoring);
+  const enrollmentTimes = enrollments.map((e) => Number(e.args.timestamp));
+  const { results } = source;
+
+  const dm: SdtmDomain = {
+    name: "DM",
+    columns: [
+      "STUDYID",
+      "DOMAIN",
+      "ARMCD",
+      "ARM",
+      "NSUBJ",
+      "NWITHDRN",
+      "RFSTDTC",
+      "RFENDTC",
+    ],
+    rows: [
+      {
+        STUDYID,
+        DOMAIN: "DM",
+        ARMCD: "ALL",
+        ARM: "All enrolled subjects",
+        NSUBJ: enrollments.length,
+        NWITHDRN: withdrawals.length,
+        RFSTDTC:
+          enrollmentTimes.length > 0
+            ? isoDate(Math.min(...enrollmentTimes))
+            : "",
+        RFENDTC:
+          enrollmentTimes.length > 0
+            ? isoDate(Math.max(...enrollmentTimes))
+            : "",
+      },
+    ],
+  };
+  const ex: SdtmDomain = {
+    name: "EX",
+    columns: [
+      "STUDYID",
+      "DOMAIN",
+      "ARMCD",
+      "EXTRT",
+      "NSUBJ",
+      "EXSTDTC",
+      "EXENDTC",
+    ],
+    rows: [],
+  };
+  // Arm sizes are only revealed with the results
+  if (results) {
+    for (const [armcd, arm, size] of [
+      ["PBO", "Placebo", results.placeboGroupSize],
+      ["TRT", "Treatment", results.treatmentGroupSize],
+    ] as const) {
+      dm.rows.push({
+        STUDYID,
+        DOMAIN: "DM",
+        ARMCD: armcd,
+        ARM: arm,
+        NSUBJ: size,
+      });
+      ex.rows.push({
+        STUDYID,
+        DOMAIN: "EX",
+        ARMCD: armcd,
+        EXTRT: arm.toUpperCase(),
+        NSUBJ: size,
+        EXSTDTC: treatmentStart
+          ? isoDate(Number(treatmentStart.args.timestamp))
+          : "",
+        EXENDTC: treatmentEnd
+          ? isoDate(Number(treatmentEnd.args.timestamp))
+          : "",
+      });
+    }
+  }
+
+  // Side-effect levels are encrypted; only the number of assessments is public
+  const assessments = new Map<number, number>();
+  for (const event of source.events.filter(
+    (e) => e.name === "ClinicalDataSubmitted"
+  )) {
+    const week = Number(event.args.week);
+    assessments.set(week, (assessments.get(week) ?? 0) + 1);
+  }
+  const ae: SdtmDomain = {
+    name: "AE",
+    columns: ["STUDYID", "DOMAIN", "VISITNUM", "VISIT", "NASSESS", "AESEV"],
+    rows: [...assessments.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([week, count]) => ({
+        STUDYID,
+        DOMAIN: "AE",
+        VISITNUM: week,
+        VISIT: `WEEK ${week}`,
+        NASSESS: count,
+        AESEV: "ENCRYPTED",
+      })),
+  };
+
+  const { protocol } = source;
+  const parameters: [string, string, string | number][] = [
+    [
+      "CONTRACT",
+      "Trial contract",
+      `eip155:${source.chainId}:${source.contractAddress}`,
+    ],
+    ["AGEMIN", "Planned Minimum Age of Subjects", `P${protocol.minAge}Y`],
+    ["AGEMAX", "Planned Maximum Age of Subjects", `P${protocol.maxAge}Y`],
+    ["RANDOM", "Trial is Randomized", "Y"],
+    [
+      "RANDQT",
+      "Randomization Quotient",
+      `${protocol.treatmentRatio}:${protocol.placeboRatio}`,
+    ],
+    ["NARMS", "Planned Number of Arms", 2],
+    ["TBLIND", "Trial Blinding Schema", "DOUBLE BLIND"],
+    ["PLANVIS", "Planned Number of Weekly Visits", protocol.visitWeeks],
+    ["PEPWK", "Primary Endpoint Week", protocol.primaryEndpointWeek],
+    ["ACTSUB", "Actual Number of Subjects", enrollments.length],
+    ["CURPHASE", "Current Trial Phase", phaseName(source.currentPhase)],
+  ];
+  if (enrollmentTimes.length > 0) {
+    parameters.push([
+      "SSTDTC",
+      "Study Start Date",
+      isoDate(Math.min(...enrollmentTimes)),
+    ]);
+  }
+  if (results?.completionTime) {
+    parameters.push([
+      "SENDTC",
+      "Study End Date",
+      isoDate(results.completionTime.getTime() / 1000),
+    ]);
+  }
+  const ts: SdtmDomain = {
+    name: "TS",
+    columns: ["STUDYID", "DOMAIN", "TSSEQ", "TSPARMCD", "TSPARM", "TSVAL"],
+    rows: parameters.map(([code, name, value], i) => ({
+      STUDYID,
+      DOMAIN: "TS",
+      TSSEQ: i + 1,
+      TSPARMCD: code,
+      TSPARM: name,
+      TSVAL: value,
+    })),
+  };
+
+  return [dm, ex, ae, ts];
+}
+
+/**
+ * Read a mapping file written by writeExport, if there is one
+ */
+export function loadPseudonymMapping(
+  file: string
+): PseudonymMapping | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as PseudonymMapping;
+}
+
+/**
+ * Write odm.xml and the SDTM-like CSV domains to outDir, and the subject id
+ * mapping to mappingFile
+ *
+ * The mapping file is reused when it exists, so subject ids stay the same
+ * across exports.
+ */
+export function writeExport(
+  source: ExportSource,
+  options: ExportOptions
+): ExportResult {
+  const outDir = path.resolve(options.outDir);
+  const mappingFile = path.resolve(options.mappingFile);
+  if (!path.relative(outDir, mappingFile).startsWith("..")) {
+    throw new Error(
+      "The pseudonym mapping must be written outside the export directory"
+    );
+  }
+
+  const existing = loadPseudonymMapping(mappingFile);
+  if (existing && options.salt && existing.salt !== options.salt) {
+    throw new Error(
+      `${mappingFile} was written with a different salt; remove it or omit the salt`
+    );
+  }
+  const pseudonymizer = existing
+    ? Pseudonymizer.fromMapping(existing)
+    : new Pseudonymizer(options.salt);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const files: string[] = [];
+  const write = (name: string, content: string) => {
+    const file = path.join(outDir, name);
+    fs.writeFileSync(file, content);
+    files.push(file);
+  };
+  write("odm.xml", buildOdm(source, pseudonymizer));
+  for (const domain of buildSdtmDomains(source)) {
+    write(
+      `${domain.name.toLowerCase()}.csv`,
+      toCsv(domain.columns, domain.rows)
+    );
+  }
+
+  const mapping = pseudonymizer.mapping(source.studyId);
+  fs.mkdirSync(path.dirname(mappingFile), { recursive: true });
+  fs.writeFileSync(mappingFile, JSON.stringify(mapping, null, 2) + "\n");
+
+  return { files, mappingFile, subjects: mapping.subjects.length };
+}
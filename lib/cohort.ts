@@ -0,0 +1,173 @@
+import { encodeVitalSigns } from "./eligibility";
+
+/**
+ * @title Synthetic Cohort Generator
+ * @notice Generates reproducible synthetic patients for simulations and tests
+ *
+ * @chapter: simulation
+ * @category: sdk
+ *
+ * Each patient has a baseline (age, health score, encoded vital signs) and a
+ * weekly trajectory of effectiveness scores and side-effect levels. The
+ * trajectory depends on the arm the contract assigns, so it is computed with
+ * weeklyMeasurements() once the arm is known. All randomness comes from a
+ * seeded generator: the same seed always yields the same cohort.
+ */
+
+export interface CohortOptions {
+  /** Number of patients to generate */
+  size: number;
+  /** Seed for the pseudo-random generator */
+  seed?: number;
+  /** Number of weekly visits, at most the protocol's visit weeks */
+  weeks?: number;
+  /** Mean effectiveness gain of the treatment arm over placebo at full effect, in score points */
+  treatmentEffect?: number;
+  /** Probability that a patient drops out before any given week */
+  dropoutRate?: number;
+}
+
+export interface SyntheticPatient {
+  id: number;
+  age: number;
+  healthScore: number;
+  heartRate: number;
+  diastolicPressure: number;
+  /** Encoded with encodeVitalSigns(), matching the test fixtures (12080 = HR 120, BP 80) */
+  vitalSigns: number;
+  /** Last week this patient reports, or `weeks` if they complete the study */
+  lastWeek: number;
+  /** Per-patient response noise, used by weeklyMeasurements() */
+  seed: number;
+}
+
+export interface WeeklyMeasurement {
+  week: number;
+  effectivenessScore: number;
+  sideEffectLevel: number;
+  biomarkers: number;
+}
+
+export const DEFAULT_COHORT_OPTIONS: Required<Omit<CohortOptions, "size">> = {
+  seed: 1,
+  weeks: 12,
+  treatmentEffect: 15,
+  dropoutRate: 0.02,
+};
+
+/**
+ * Mulberry32 pseudo-random generator returning floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample using the Box-Muller transform
+ */
+function normal(random: () => number, mean = 0, sd = 1): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/**
+ * Generate a cohort of synthetic patients
+ */
+export function generateCohort(options: CohortOptions): SyntheticPatient[] {
+  const { seed, weeks, dropoutRate } = {
+    ...DEFAULT_COHORT_OPTIONS,
+    ...options,
+  };
+  const random = createRandom(seed);
+  const patients: SyntheticPatient[] = [];
+
+  for (let id = 0; id < options.size; id++) {
+    const age = clamp(normal(random, 48, 14), 18, 80);
+    const healthScore = clamp(
+      normal(random, 72 - (age - 48) * 0.3, 10),
+      0,
+      100
+    );
+    const heartRate = clamp(normal(random, 72, 9), 50, 120);
+    // Diastolic pressure shares the vital signs value with heart rate, so it stays below 100
+    const diastolicPressure = clamp(normal(random, 80, 8), 55, 99);
+
+    let lastWeek = weeks;
+    for (let week = 1; week <= weeks; week++) {
+      if (random() < dropoutRate) {
+        lastWeek = week - 1;
+        break;
+      }
+    }
+
+    patients.push({
+      id,
+      age,
+      healthScore,
+      heartRate,
+      diastolicPressure,
+      vitalSigns: encodeVitalSigns(heartRate, diastolicPressure),
+      lastWeek,
+      seed: Math.floor(random() * 0xffffffff),
+    });
+  }
+
+  return patients;
+}
+
+/**
+ * Weekly measurements for one patient in the given arm
+ *
+ * Effectiveness starts near the patient's health score and, in the treatment
+ * arm, rises towards baseline + treatmentEffect over the first four weeks.
+ * Side effects are more frequent in the treatment arm.
+ */
+export function weeklyMeasurements(
+  patient: SyntheticPatient,
+  inTreatmentArm: boolean,
+  options: Omit<CohortOptions, "size"> = {}
+): WeeklyMeasurement[] {
+  const { treatmentEffect } = { ...DEFAULT_COHORT_OPTIONS, ...options };
+  const random = createRandom(patient.seed);
+  const baseline = 40 + patient.healthScore * 0.3;
+  const measurements: WeeklyMeasurement[] = [];
+
+  for (let week = 1; week <= patient.lastWeek; week++) {
+    const ramp = Math.min(1, week / 4);
+    const effect = inTreatmentArm ? treatmentEffect * ramp : 0;
+    const placeboResponse = 3 * ramp;
+
+    measurements.push({
+      week,
+      effectivenessScore: clamp(
+        normal(random, baseline + placeboResponse + effect, 6),
+        0,
+        100
+      ),
+      sideEffectLevel: clamp(
+        normal(random, inTreatmentArm ? 3 : 1.5, 1.5),
+        0,
+        10
+      ),
+      biomarkers: clamp(
+        normal(random, 5000 + (inTreatmentArm ? 40 * week : 5 * week), 150),
+        0,
+        65535
+      ),
+    });
+  }
+
+  return measurements;
+}
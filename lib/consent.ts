@@ -0,0 +1,62 @@
+import { keccak256, toUtf8Bytes } from "ethers";
+
+/**
+ * @title Consent Management
+ * @notice Withdrawal policies and consent form versions
+ *
+ * @chapter: sdk
+ * @category: consent
+ *
+ * Patients consent to the current version of the consent form when they
+ * enroll, version 1 unless the protocol was amended before. An amendment
+ * publishes a new version with the hash of the amended form; enrolled
+ * patients cannot submit data again until they agree to it. A patient may
+ * withdraw consent at any time, which is final: nothing more is recorded for
+ * them and the contract grants nobody new access to their ciphertexts.
+ *
+ * The protocol's withdrawal policy decides what the analysis does with the
+ * data a withdrawn patient recorded before:
+ * - exclude: their endpoint scores are left out
+ * - retain-prior-data: their scores stay in
+ * Either way they still count towards their arm's size, which reports
+ * randomization.
+ *
+ * Usage:
+ * await client.publishConsentVersion(fs.readFileSync("consent-v2.pdf"));
+ * await client.connect(patient).renewConsent();
+ * await client.connect(patient).withdrawConsent();
+ */
+
+/** Mirrors the contract's WITHDRAWAL_* constants */
+export enum WithdrawalPolicy {
+  Exclude = 0,
+  RetainPriorData = 1,
+}
+
+/** Policy names used in protocol files */
+export const WITHDRAWAL_POLICY_NAMES: Record<string, WithdrawalPolicy> = {
+  exclude: WithdrawalPolicy.Exclude,
+  "retain-prior-data": WithdrawalPolicy.RetainPriorData,
+};
+
+/** Consent version patients enroll under before any amendment */
+export const INITIAL_CONSENT_VERSION = 1;
+
+/**
+ * Hash of a consent form as publishConsentVersion() records it: keccak256 of
+ * the file bytes, or of the UTF-8 text
+ */
+export function hashConsentDocument(document: string | Uint8Array): string {
+  return keccak256(
+    typeof document === "string" ? toUtf8Bytes(document) : document
+  );
+}
+
+/**
+ * One-line summary for logs, e.g. "exclude withdrawn patients' data"
+ */
+export function formatWithdrawalPolicy(policy: WithdrawalPolicy): string {
+  return policy === WithdrawalPolicy.RetainPriorData
+    ? "retain data recorded before a withdrawal"
+    : "exclude withdrawn patients' data";
+}
@@ -0,0 +1,337 @@
+import {
+  AbiCoder,
+  Contract,
+  concat,
+  dataSlice,
+  getBytes,
+  hexlify,
+  solidityPacked,
+  toBeHex,
+} from "ethers";
+import type { Log, Provider, Signer } from "ethers";
+
+/**
+ * @title Local Decryption Oracle
+ * @notice Stand-in for the FHEVM decryption oracle and relayer on a Hardhat network
+ *
+ * @chapter: sdk
+ * @category: fhevm
+ *
+ * FHE.requestDecryption() only emits a DecryptionRequest event. On a real
+ * network the oracle picks it up, has the KMS decrypt and sign the cleartexts,
+ * and calls the contract back. Locally nothing does, so analysis callbacks
+ * never run unless something plays that part.
+ *
+ * LocalDecryptionOracle observes the requests, decrypts them through the
+ * mock relayer (which also signs with the mock KMS keys, so
+ * FHE.checkSignatures() accepts the proof) and sends the callback. Unlike the
+ * plugin's awaitDecryptionOracle() it lets tests and scripts control delivery:
+ * - fulfil(request, { delaySeconds, delayBlocks }) answers late
+ * - fulfil(request, { corruptProof: true }) answers with invalid signatures
+ * - drop(request) never answers
+ * - replay(request) sends a delivered callback again
+ *
+ * Only works against the FHEVM mock: the in-process Hardhat network or a
+ * local Hardhat node.
+ *
+ * Usage:
+ * const oracle = await LocalDecryptionOracle.create(ethers.provider, fhevm, relayer);
+ * await oracle.fulfilAll();
+ */
+
+/** Relayer metadata fields the oracle needs, as returned by the plugin */
+export interface OracleMetadata {
+  ACLAddress: string;
+  DecryptionOracleAddress: string;
+}
+
+/** Decryption request event as parsed by the FHEVM Hardhat plugin */
+export interface DecryptionRequestEvent {
+  counter: bigint;
+  requestID: bigint;
+  handlesBytes32Hex: string[];
+  contractCallerAddress: string;
+  callbackSelectorBytes4Hex: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * The parts of the FHEVM Hardhat plugin the oracle relies on
+ */
+export interface FhevmOracleApi {
+  getRelayerMetadata(): Promise<OracleMetadata>;
+  parseDecryptionRequestEvents(logs: Log[]): DecryptionRequestEvent[];
+}
+
+/**
+ * Provider that can reach the node's custom RPC methods
+ */
+export type OracleProvider = Provider & {
+  send(method: string, params: unknown[]): Promise<unknown>;
+};
+
+/** Answer of the mock relayer's public decryption RPC method */
+interface PublicDecryptResponse {
+  /** Concatenated 32-byte cleartext words, possibly without 0x */
+  decrypted_value: string;
+  /** KMS signatures over the cleartexts, possibly without 0x */
+  signatures: string[];
+}
+
+export interface DecryptionRequest {
+  requestId: bigint;
+  /** Contract that requested the decryption and receives the callback */
+  contract: string;
+  callbackSelector: string;
+  handles: string[];
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface FulfilOptions {
+  /** Advance the chain clock by this many seconds before answering */
+  delaySeconds?: number;
+  /** Mine this many empty blocks before answering */
+  delayBlocks?: number;
+  /** Answer with signatures that do not match the cleartexts */
+  corruptProof?: boolean;
+}
+
+export interface CallbackResult {
+  requestId: bigint;
+  /** Whether the callback transaction reverted */
+  reverted: boolean;
+  transactionHash?: string;
+  gasUsed?: bigint;
+  error?: unknown;
+}
+
+/** Mirrors the relayer's v0 extra data */
+const EXTRA_DATA_V0 = solidityPacked(["uint8"], [0]);
+
+/** Callbacks are sent with a fixed gas limit so that reverts are mined, not estimated away */
+const CALLBACK_GAS_LIMIT = 5_000_000;
+
+const RELAYER_PUBLIC_DECRYPT = "fhevm_relayer_v1_public_decrypt";
+
+const ACL_ABI = [
+  "function isAllowedForDecryption(bytes32 handle) view returns (bool)",
+];
+
+function ensure0x(value: string): string {
+  return value.startsWith("0x") ? value : `0x${value}`;
+}
+
+export class LocalDecryptionOracle {
+  private nextBlock: number;
+  private readonly queue = new Map<bigint, DecryptionRequest>();
+  private readonly delivered = new Map<bigint, string>();
+
+  private constructor(
+    private readonly provider: OracleProvider,
+    private readonly fhevm: FhevmOracleApi,
+    private readonly relayer: Signer,
+    private readonly oracleAddress: string,
+    private readonly acl: Contract,
+    fromBlock: number
+  ) {
+    this.nextBlock = fromBlock;
+  }
+
+  /**
+   * Create an oracle that sees requests from fromBlock on (default: the next block)
+   */
+  static async create(
+    provider: OracleProvider,
+    fhevm: FhevmOracleApi,
+    relayer: Signer,
+    fromBlock?: number
+  ): Promise<LocalDecryptionOracle> {
+    const metadata = await fhevm.getRelayerMetadata();
+    const acl = new Contract(metadata.ACLAddress, ACL_ABI, provider);
+    return new LocalDecryptionOracle(
+      provider,
+      fhevm,
+      relayer,
+      metadata.DecryptionOracleAddress,
+      acl,
+      fromBlock ?? (await provider.getBlockNumber()) + 1
+    );
+  }
+
+  /**
+   * Read decryption requests emitted since the last poll and queue them
+   */
+  async poll(): Promise<DecryptionRequest[]> {
+    const latest = await this.provider.getBlockNumber();
+    if (latest < this.nextBlock) {
+      return [];
+    }
+
+    const logs = await this.provider.getLogs({
+      address: this.oracleAddress,
+      fromBlock: this.nextBlock,
+      toBlock: latest,
+    });
+    this.nextBlock = latest + 1;
+
+    const requests = this.fhevm
+      .parseDecryptionRequestEvents(logs)
+      .map((event) => ({
+        requestId: event.requestID,
+        contract: event.contractCallerAddress,
+        callbackSelector: event.callbackSelectorBytes4Hex,
+        handles: event.handlesBytes32Hex,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      }));
+    for (const request of requests) {
+      this.queue.set(request.requestId, request);
+    }
+    return requests;
+  }
+
+  /**
+   * Requests that were observed but not yet answered successfully
+   */
+  pending(): DecryptionRequest[] {
+    return [...this.queue.values()];
+  }
+
+  /**
+   * Decrypt a request and call the requesting contract back
+   *
+   * The request stays pending if the callback reverts, so it can be retried.
+   */
+  async fulfil(
+    request: DecryptionRequest,
+    options: FulfilOptions = {}
+  ): Promise<CallbackResult> {
+    for (const handle of request.handles) {
+      if (!(await this.acl.isAllowedForDecryption(handle))) {
+        throw new Error(
+          `Handle ${handle} of request ${request.requestId} is not allowed for decryption`
+        );
+      }
+    }
+
+    await this.delay(options);
+
+    const calldata = await this.callbackCalldata(
+      request,
+      options.corruptProof ?? false
+    );
+    const result = await this.sendCallback(request, calldata);
+    if (!result.reverted) {
+      this.queue.delete(request.requestId);
+      this.delivered.set(request.requestId, calldata);
+    }
+    return result;
+  }
+
+  /**
+   * Forget a request without ever answering it, as if the oracle lost it
+   */
+  drop(request: DecryptionRequest): void {
+    this.queue.delete(request.requestId);
+  }
+
+  /**
+   * Send a previously delivered callback again, unchanged
+   */
+  async replay(request: DecryptionRequest): Promise<CallbackResult> {
+    const calldata = this.delivered.get(request.requestId);
+    if (!calldata) {
+      throw new Error(`Request ${request.requestId} has not been delivered`);
+    }
+    return this.sendCallback(request, calldata);
+  }
+
+  /**
+   * Poll, then answer every pending request in order
+   */
+  async fulfilAll(options: FulfilOptions = {}): Promise<CallbackResult[]> {
+    await this.poll();
+    const results: CallbackResult[] = [];
+    for (const request of this.pending()) {
+      results.push(await this.fulfil(request, options));
+    }
+    return results;
+  }
+
+  private async delay(options: FulfilOptions): Promise<void> {
+    if (options.delaySeconds) {
+      await this.provider.send("evm_increaseTime", [options.delaySeconds]);
+      await this.provider.send("evm_mine", []);
+    }
+    if (options.delayBlocks) {
+      await this.provider.send("hardhat_mine", [toBeHex(options.delayBlocks)]);
+    }
+  }
+
+  /**
+   * Build the calldata the real oracle would send: the callback selector with
+   * (requestId, cleartexts, decryptionProof)
+   */
+  private async callbackCalldata(
+    request: DecryptionRequest,
+    corruptProof: boolean
+  ): Promise<string> {
+    // The mock relayer decrypts with the mock keys and signs with the mock KMS signers
+    const response = (await this.provider.send(RELAYER_PUBLIC_DECRYPT, [
+      { ciphertextHandles: request.handles, extraData: EXTRA_DATA_V0 },
+    ])) as PublicDecryptResponse;
+
+    // One 32-byte word per handle; the relayer appends an encoding word we drop
+    const cleartexts = dataSlice(
+      ensure0x(response.decrypted_value),
+      0,
+      32 * request.handles.length
+    );
+    const signatures: string[] = response.signatures.map(ensure0x);
+    if (corruptProof) {
+      // Flip a bit of the first signature so the recovered signer is wrong
+      const bytes = getBytes(signatures[0]);
+      bytes[0] ^= 0x01;
+      signatures[0] = hexlify(bytes);
+    }
+
+    const decryptionProof = concat([
+      solidityPacked(["uint8"], [signatures.length]),
+      ...signatures,
+      EXTRA_DATA_V0,
+    ]);
+
+    return concat([
+      request.callbackSelector,
+      AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "bytes", "bytes"],
+        [request.requestId, cleartexts, decryptionProof]
+      ),
+    ]);
+  }
+
+  private async sendCallback(
+    request: DecryptionRequest,
+    data: string
+  ): Promise<CallbackResult> {
+    const { requestId } = request;
+    try {
+      const tx = await this.relayer.sendTransaction({
+        to: request.contract,
+        data,
+        gasLimit: CALLBACK_GAS_LIMIT,
+      });
+      const receipt = await tx.wait();
+      return {
+        requestId,
+        reverted: receipt?.status === 0,
+        transactionHash: tx.hash,
+        gasUsed: receipt?.gasUsed,
+      };
+    } catch (error) {
+      return { requestId, reverted: true, error };
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import * as fs from "fs";
+import * as path from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+
+/**
+ * @title Deployment Registry
+ * @notice Versioned per-network record of trial deployments
+ *
+ * @chapter: deployment
+ * @category: sdk
+ *
+ * scripts/deploy.ts writes one registry file per network to
+ * deployments/<network>.json. Each file holds the current deployment of every
+ * trial deployed on that network and, when deployed in history mode, the
+ * deployments it replaced. Tasks and scripts use the lookup functions below
+ * instead of reading the files themselves.
+ *
+ * File layout (version 1):
+ * {
+ *   "version": 1,
+ *   "network": "zamaDevnet",
+ *   "chainId": 8009,
+ *   "deployments": {
+ *     "<trialId>": { "current": DeploymentRecord, "history": DeploymentRecord[] }
+ *   }
+ * }
+ */
+
+export const REGISTRY_VERSION = 1;
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+/** Trial identifier used when a deployment does not name one */
+export const DEFAULT_TRIAL_ID = "PrivacyPreservingClinicalTrial";
+
+export interface CompilerSettings {
+  version: string;
+  optimizer?: { enabled?: boolean; runs?: number };
+  evmVersion?: string;
+}
+
+export interface DeploymentRecord {
+  trialId: string;
+  contractName: string;
+  address: string;
+  chainId: number;
+  blockNumber: number;
+  transactionHash: string;
+  deployer: string;
+  deployedAt: string;
+  constructorArgs: unknown[];
+  /**
+   * Addresses of the linked libraries, by name; for ClinicalTrialFactory
+   * those linked into the trial code it deploys
+   */
+  libraries?: Record<string, string>;
+  compiler: CompilerSettings;
+  abiHash: string;
+  bytecodeHash: string;
+}
+
+export interface RegistryEntry {
+  current: DeploymentRecord;
+  history: DeploymentRecord[];
+}
+
+export interface DeploymentRegistry {
+  version: number;
+  network: string;
+  chainId: number;
+  deployments: Record<string, RegistryEntry>;
+}
+
+/**
+ * Raised when a registry file is unreadable or written by an unknown version
+ */
+export class DeploymentRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentRegistryError";
+  }
+}
+
+export function registryPath(
+  networkName: string,
+  dir: string = DEPLOYMENTS_DIR
+): string {
+  return path.join(dir, `${networkName}.json`);
+}
+
+/**
+ * Hash an ABI so deployments of different interfaces can be told apart
+ */
+export function hashAbi(abi: unknown): string {
+  return keccak256(toUtf8Bytes(JSON.stringify(abi)));
+}
+
+/**
+ * Hash creation code; unlinked library placeholders (__$...$__) hash as zero
+ * addresses, so an artifact's hash does not depend on where its libraries live
+ */
+export function hashBytecode(bytecode: string): string {
+  return keccak256(
+    bytecode.replace(/__\$[0-9a-fA-F]{34}\$__/g, "0".repeat(40))
+  );
+}
+
+/**
+ * Load the registry for a network, or an empty one if nothing was deployed yet
+ */
+export function loadRegistry(
+  networkName: string,
+  chainId: number,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentRegistry {
+  const file = registryPath(networkName, dir);
+  if (!fs.existsSync(file)) {
+    return {
+      version: REGISTRY_VERSION,
+      network: networkName,
+      chainId,
+      deployments: {},
+    };
+  }
+
+  const registry = parseRegistry(file);
+  if (registry.chainId !== chainId) {
+    throw new DeploymentRegistryError(
+      `${file} belongs to chain ${registry.chainId}, but network "${networkName}" is chain ${chainId}`
+    );
+  }
+
+  return registry;
+}
+
+export function saveRegistry(
+  registry: DeploymentRegistry,
+  dir: string = DEPLOYMENTS_DIR
+): string {
+  const file = registryPath(registry.network, dir);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(registry, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Read an existing registry file written by this version
+ */
+function parseRegistry(file: string): DeploymentRegistry {
+  let registry: DeploymentRegistry;
+  try {
+    registry = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new DeploymentRegistryError(`Cannot parse ${file}: ${reason}`);
+  }
+
+  if (registry.version !== REGISTRY_VERSION) {
+    throw new DeploymentRegistryError(
+      `${file} has registry version ${registry.version}, expected ${REGISTRY_VERSION}`
+    );
+  }
+  return registry;
+}
+
+/**
+ * Read a registry without knowing the chain id, for lookups only
+ */
+function readRegistry(
+  networkName: string,
+  dir: string
+): DeploymentRegistry | undefined {
+  const file = registryPath(networkName, dir);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return parseRegistry(file);
+}
+
+/**
+ * Current deployment of a trial on a network
+ */
+export function getDeployment(
+  networkName: string,
+  trialId: string = DEFAULT_TRIAL_ID,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentRecord | undefined {
+  return readRegistry(networkName, dir)?.deployments[trialId]?.current;
+}
+
+/**
+ * All deployments of a trial on a network, oldest first and ending with the current one
+ */
+export function getDeploymentHistory(
+  networkName: string,
+  trialId: string = DEFAULT_TRIAL_ID,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentRecord[] {
+  const entry = readRegistry(networkName, dir)?.deployments[trialId];
+  return entry ? [...entry.history, entry.current] : [];
+}
+
+/**
+ * Current deployment of every trial on a network
+ */
+export function listDeployments(
+  networkName: string,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentRecord[] {
+  const registry = readRegistry(networkName, dir);
+  return registry
+    ? Object.values(registry.deployments).map((entry) => entry.current)
+    : [];
+}
+
+/**
+ * Find an existing deployment built from the same bytecode, ABI and constructor arguments
+ */
+export function findMatchingDeployment(
+  registry: DeploymentRegistry,
+  candidate: Pick<
+    DeploymentRecord,
+    "trialId" | "abiHash" | "bytecodeHash" | "constructorArgs"
+  >
+): DeploymentRecord | undefined {
+  const current = registry.deployments[candidate.trialId]?.current;
+  if (
+    current &&
+    current.abiHash === candidate.abiHash &&
+    current.bytecodeHash === candidate.bytecodeHash &&
+    JSON.stringify(current.constructorArgs) ===
+      JSON.stringify(candidate.constructorArgs)
+  ) {
+    return current;
+  }
+  return undefined;
+}
+
+/**
+ * Record a new deployment as the current one for its trial
+ *
+ * In history mode the replaced deployment is kept in the trial's history;
+ * otherwise the entry only holds the new deployment.
+ */
+export function recordDeployment(
+  registry: DeploymentRegistry,
+  record: DeploymentRecord,
+  options: { keepHistory: boolean }
+): DeploymentRegistry {
+  const previous = registry.deployments[record.trialId];
+  const history =
+    options.keepHistory && previous
+      ? [...previous.history, previous.current]
+      : [];
+
+  return {
+    ...registry,
+    deployments: {
+      ...registry.deployments,
+      [record.trialId]: { current: record, history },
+    },
+  };
+}
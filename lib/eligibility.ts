@@ -0,0 +1,203 @@
+import { InvalidInputError } from "./errors";
+import type { TrialProtocol } from "./protocol";
+
+/**
+ * @title Eligibility Criteria
+ * @notice Defines a protocol's inclusion criteria and mirrors their evaluation in plaintext
+ *
+ * @chapter: sdk
+ * @category: eligibility
+ *
+ * A protocol restricts enrollment with inclusive ranges on age, health score,
+ * heart rate and diastolic pressure. The contract cannot reject a patient on
+ * ciphertexts, so every patient enrolls; the criteria are evaluated
+ * homomorphically into one encrypted eligibility flag, and ineligible
+ * patients are left out of the analysis. Nobody learns which criterion failed.
+ *
+ * Heart rate and diastolic pressure travel as one encoded vital signs value,
+ * heartRate * 100 + diastolicPressure, which the contract decodes with FHE.div
+ * and FHE.rem.
+ *
+ * Usage:
+ * const protocol = {
+ *   ...DEFAULT_PROTOCOL,
+ *   ...defineEligibility({ age: [18, 65], heartRate: [50, 110] }),
+ * };
+ * isEligible(protocol, { age: 40, healthScore: 80, vitalSigns: encodeVitalSigns(72, 80) });
+ */
+
+/** Protocol fields holding the eligibility criteria */
+export type EligibilityCriteria = Pick<
+  TrialProtocol,
+  | "minAge"
+  | "maxAge"
+  | "minHealthScore"
+  | "maxHealthScore"
+  | "minHeartRate"
+  | "maxHeartRate"
+  | "minDiastolicPressure"
+  | "maxDiastolicPressure"
+>;
+
+/** Inclusive [min, max] range */
+export type CriterionRange = [number, number];
+
+export interface EligibilityRanges {
+  age?: CriterionRange;
+  healthScore?: CriterionRange;
+  heartRate?: CriterionRange;
+  diastolicPressure?: CriterionRange;
+}
+
+export interface EnrollmentData {
+  age: number;
+  healthScore: number;
+  vitalSigns: number;
+}
+
+/** Multiplier separating heart rate from diastolic pressure in the vital signs */
+export const VITAL_SIGNS_SCALE = 100;
+
+/** Widest range each criterion accepts; also the default when a criterion is omitted */
+export const CRITERION_LIMITS: Record<keyof EligibilityRanges, CriterionRange> =
+  {
+    age: [0, 255],
+    healthScore: [0, 100],
+    heartRate: [0, 255],
+    diastolicPressure: [0, VITAL_SIGNS_SCALE - 1],
+  };
+
+/** Criteria that accept every patient */
+export const NO_ELIGIBILITY_RESTRICTIONS: EligibilityCriteria =
+  defineEligibility({});
+
+/**
+ * Encode heart rate and diastolic pressure into one vital signs value
+ */
+export function encodeVitalSigns(
+  heartRate: number,
+  diastolicPressure: number
+): number {
+  // The encoded value is a uint16
+  if (!Number.isInteger(heartRate) || heartRate < 0 || heartRate > 654) {
+    throw new InvalidInputError("Heart rate must be 0-654");
+  }
+  if (
+    !Number.isInteger(diastolicPressure) ||
+    diastolicPressure < 0 ||
+    diastolicPressure >= VITAL_SIGNS_SCALE
+  ) {
+    throw new InvalidInputError(
+      `Diastolic pressure must be 0-${VITAL_SIGNS_SCALE - 1}`
+    );
+  }
+  return heartRate * VITAL_SIGNS_SCALE + diastolicPressure;
+}
+
+/**
+ * Split an encoded vital signs value, as the contract does homomorphically
+ */
+export function decodeVitalSigns(vitalSigns: number): {
+  heartRate: number;
+  diastolicPressure: number;
+} {
+  return {
+    heartRate: Math.floor(vitalSigns / VITAL_SIGNS_SCALE),
+    diastolicPressure: vitalSigns % VITAL_SIGNS_SCALE,
+  };
+}
+
+/**
+ * Convert criterion ranges to protocol fields; omitted criteria accept everyone
+ */
+export function defineEligibility(
+  ranges: EligibilityRanges
+): EligibilityCriteria {
+  const resolved = {} as Record<keyof EligibilityRanges, CriterionRange>;
+  for (const name of Object.keys(
+    CRITERION_LIMITS
+  ) as (keyof EligibilityRanges)[]) {
+    const [low, high] = CRITERION_LIMITS[name];
+    const [min, max] = ranges[name] ?? [low, high];
+    if (
+      !Number.isInteger(min) ||
+      !Number.isInteger(max) ||
+      min < low ||
+      max > high ||
+      min > max
+    ) {
+      throw new InvalidInputError(
+        `${name} range must be within ${low}-${high} with min <= max, got ${min}-${max}`
+      );
+    }
+    resolved[name] = [min, max];
+  }
+
+  return {
+    minAge: resolved.age[0],
+    maxAge: resolved.age[1],
+    minHealthScore: resolved.healthScore[0],
+    maxHealthScore: resolved.healthScore[1],
+    minHeartRate: resolved.heartRate[0],
+    maxHeartRate: resolved.heartRate[1],
+    minDiastolicPressure: resolved.diastolicPressure[0],
+    maxDiastolicPressure: resolved.diastolicPressure[1],
+  };
+}
+
+/**
+ * One-line summary for logs, e.g. "ages 18-65, heart rate 50-110";
+ * criteria left at their full range are omitted
+ */
+export function formatEligibility(criteria: EligibilityCriteria): string {
+  const parts = [`ages ${criteria.minAge}-${criteria.maxAge}`];
+  const optional: [string, keyof EligibilityRanges, number, number][] = [
+    [
+      "health score",
+      "healthScore",
+      criteria.minHealthScore,
+      criteria.maxHealthScore,
+    ],
+    ["heart rate", "heartRate", criteria.minHeartRate, criteria.maxHeartRate],
+    [
+      "diastolic pressure",
+      "diastolicPressure",
+      criteria.minDiastolicPressure,
+      criteria.maxDiastolicPressure,
+    ],
+  ];
+  for (const [label, name, min, max] of optional) {
+    const [low, high] = CRITERION_LIMITS[name];
+    if (min !== low || max !== high) {
+      parts.push(`${label} ${min}-${max}`);
+    }
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Evaluate the criteria in plaintext, the way the contract does on ciphertexts
+ *
+ * Only the patient (or whoever holds their plaintext data) can run this.
+ */
+export function isEligible(
+  criteria: EligibilityCriteria,
+  patient: EnrollmentData
+): boolean {
+  const { heartRate, diastolicPressure } = decodeVitalSigns(patient.vitalSigns);
+  // The contract clamps the health score to 100 before comparing
+  const healthScore = Math.min(patient.healthScore, 100);
+  const within = (value: number, min: number, max: number) =>
+    value >= min && value <= max;
+
+  return (
+    within(patient.age, criteria.minAge, criteria.maxAge) &&
+    within(healthScore, criteria.minHealthScore, criteria.maxHealthScore) &&
+    within(heartRate, criteria.minHeartRate, criteria.maxHeartRate) &&
+    within(
+      diastolicPressure,
+      criteria.minDiastolicPressure,
+      criteria.maxDiastolicPressure
+    )
+  );
+}
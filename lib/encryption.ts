@@ -0,0 +1,154 @@
+import { hexlify } from "ethers";
+import { InvalidInputError } from "./errors";
+import { MAX_VISIT_WEEKS } from "./protocol";
+
+/**
+ * @title Encrypted Input Helper
+ * @notice Builds the encrypted payloads for enrollPatient and submitClinicalData
+ *
+ * @chapter: sdk
+ * @category: encryption
+ *
+ * Patient data is encrypted client-side and sent as ciphertext handles plus
+ * an input proof, so no plaintext health data appears in calldata. The proof
+ * binds the ciphertexts to one contract and one sender: a payload built for
+ * one patient cannot be replayed by another.
+ *
+ * Any FHEVM instance that can create encrypted inputs works here:
+ * - `fhevm` from the Hardhat plugin (mock mode in tests, CLI mode in tasks)
+ * - an instance from the relayer SDK in the browser
+ *
+ * Because the contract can no longer reject out-of-range plaintext, the
+ * helper validates ranges before encrypting. Eligibility is not checked
+ * here; the contract evaluates the protocol's criteria homomorphically
+ * (see ./eligibility.ts). Weeks are only checked
+ * against MAX_VISIT_WEEKS; TrialClient checks them against the trial's protocol.
+ */
+
+/**
+ * Encrypted input builder as exposed by the FHEVM Hardhat plugin and relayer SDK
+ */
+export interface EncryptedInputBuilder {
+  add8(value: number | bigint): EncryptedInputBuilder;
+  add16(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+/**
+ * Anything that can create encrypted inputs for a contract and user
+ */
+export interface FhevmEncryptor {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string
+  ): EncryptedInputBuilder;
+}
+
+export interface EncryptedEnrollment {
+  age: string;
+  healthScore: string;
+  vitalSigns: string;
+  inputProof: string;
+}
+
+export interface EncryptedSubmission {
+  effectivenessScore: string;
+  sideEffectLevel: string;
+  biomarkers: string;
+  week: number;
+  inputProof: string;
+}
+
+/**
+ * Networks on which the FHEVM Hardhat plugin encrypts inputs: its in-process
+ * mock, and through its CLI API a Hardhat node and Sepolia
+ */
+export const ENCRYPTED_INPUT_NETWORKS = ["hardhat", "localhost", "sepolia"];
+
+export function supportsEncryptedInput(networkName: string): boolean {
+  return ENCRYPTED_INPUT_NETWORKS.includes(networkName);
+}
+
+function requireRange(
+  value: number,
+  min: number,
+  max: number,
+  message: string
+): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new InvalidInputError(message);
+  }
+}
+
+/**
+ * Encrypt enrollment data for `userAddress` enrolling in the trial at `contractAddress`
+ */
+export async function encryptEnrollment(
+  fhevm: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  input: { age: number; healthScore: number; vitalSigns: number }
+): Promise<EncryptedEnrollment> {
+  requireRange(input.age, 0, 255, "Age must be 0-255");
+  requireRange(input.healthScore, 0, 100, "Health score must be 0-100");
+  requireRange(input.vitalSigns, 0, 65535, "Vital signs must be 0-65535");
+
+  const encrypted = await fhevm
+    .createEncryptedInput(contractAddress, userAddress)
+    .add8(input.age)
+    .add8(input.healthScore)
+    .add16(input.vitalSigns)
+    .encrypt();
+
+  return {
+    age: hexlify(encrypted.handles[0]),
+    healthScore: hexlify(encrypted.handles[1]),
+    vitalSigns: hexlify(encrypted.handles[2]),
+    inputProof: hexlify(encrypted.inputProof),
+  };
+}
+
+/**
+ * Encrypt one week of clinical measurements for `userAddress`
+ */
+export async function encryptSubmission(
+  fhevm: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  input: {
+    week: number;
+    effectivenessScore: number;
+    sideEffectLevel: number;
+    biomarkers: number;
+  }
+): Promise<EncryptedSubmission> {
+  requireRange(
+    input.week,
+    1,
+    MAX_VISIT_WEEKS,
+    `Week must be 1-${MAX_VISIT_WEEKS}`
+  );
+  requireRange(
+    input.effectivenessScore,
+    0,
+    100,
+    "Effectiveness score must be 0-100"
+  );
+  requireRange(input.sideEffectLevel, 0, 10, "Side effect level must be 0-10");
+  requireRange(input.biomarkers, 0, 65535, "Biomarkers must be 0-65535");
+
+  const encrypted = await fhevm
+    .createEncryptedInput(contractAddress, userAddress)
+    .add8(input.effectivenessScore)
+    .add8(input.sideEffectLevel)
+    .add16(input.biomarkers)
+    .encrypt();
+
+  return {
+    effectivenessScore: hexlify(encrypted.handles[0]),
+    sideEffectLevel: hexlify(encrypted.handles[1]),
+    biomarkers: hexlify(encrypted.handles[2]),
+    week: input.week,
+    inputProof: hexlify(encrypted.inputProof),
+  };
+}
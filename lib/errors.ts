@@ -0,0 +1,328 @@
+/**
+ * @title Trial Error Types
+ * @notice Typed errors for PrivacyPreservingClinicalTrial and ClinicalTrialRegistry reverts
+ *
+ * @chapter: sdk
+ * @category: errors
+ *
+ * The contract reverts with plain reason strings. Callers should not have to
+ * match on those strings themselves, so decodeTrialError() maps every known
+ * reason to a dedicated error class and keeps the raw reason for logging.
+ */
+
+/**
+ * Base class for every error raised by the trial SDK
+ */
+export class TrialError extends Error {
+  constructor(
+    message: string,
+    public readonly reason?: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Operation is not allowed in the current trial phase
+ */
+export class WrongPhaseError extends TrialError {
+  constructor(
+    public readonly expectedPhase?: number,
+    public readonly actualPhase?: number
+  ) {
+    super(
+      expectedPhase !== undefined && actualPhase !== undefined
+        ? `Wrong trial phase: expected phase ${expectedPhase}, trial is in phase ${actualPhase}`
+        : "Wrong trial phase",
+      "Wrong trial phase"
+    );
+  }
+}
+
+/**
+ * Phase duration has not elapsed, or the trial is already in its last phase
+ */
+export class PhaseTransitionNotReadyError extends TrialError {
+  constructor(public readonly secondsRemaining?: number) {
+    super(
+      secondsRemaining
+        ? `Cannot transition phase yet (${secondsRemaining}s remaining)`
+        : "Cannot transition phase yet",
+      "Cannot transition phase yet"
+    );
+  }
+}
+
+/**
+ * The last phase transition has patients left to process; finish it with
+ * continuePhaseTransition() first
+ */
+export class PhaseTransitionInProgressError extends TrialError {
+  constructor() {
+    super("Phase transition in progress", "Phase transition in progress");
+  }
+}
+
+/**
+ * Caller already enrolled in this trial
+ */
+export class AlreadyEnrolledError extends TrialError {
+  constructor() {
+    super("Patient already enrolled", "Patient already enrolled");
+  }
+}
+
+/**
+ * Caller is not an enrolled patient
+ */
+export class NotEnrolledError extends TrialError {
+  constructor() {
+    super("Patient not enrolled", "Patient not enrolled");
+  }
+}
+
+/**
+ * A measurement already exists for the given week
+ */
+export class DataAlreadySubmittedError extends TrialError {
+  constructor(public readonly week?: number) {
+    super(
+      week !== undefined
+        ? `Data already submitted for week ${week}`
+        : "Data already submitted for this week",
+      "Data already submitted for this week"
+    );
+  }
+}
+
+/**
+ * The visit's window is not open; see ./visits.ts
+ */
+export class OutsideVisitWindowError extends TrialError {
+  constructor(public readonly week?: number) {
+    super(
+      week !== undefined
+        ? `Week ${week} is outside its visit window`
+        : "Outside visit window",
+      "Outside visit window"
+    );
+  }
+}
+
+/**
+ * The patient has withdrawn consent, so nothing more can be recorded for them
+ */
+export class ConsentWithdrawnError extends TrialError {
+  constructor(reason = "Consent withdrawn") {
+    super(reason, reason);
+  }
+}
+
+/**
+ * A newer consent form was published that the patient has not agreed to yet
+ */
+export class ReconsentRequiredError extends TrialError {
+  constructor() {
+    super("Re-consent required", "Re-consent required");
+  }
+}
+
+/**
+ * Caller lacks the coordinator privilege
+ */
+export class NotCoordinatorError extends TrialError {
+  constructor() {
+    super("Only trial coordinator allowed", "Only trial coordinator allowed");
+  }
+}
+
+/**
+ * Caller lacks the role an operation requires (see ./roles.ts)
+ */
+export class MissingRoleError extends TrialError {
+  constructor(reason: string) {
+    super(reason, reason);
+  }
+}
+
+/**
+ * An input value was rejected by range validation, client-side or in the contract
+ */
+export class InvalidInputError extends TrialError {
+  constructor(reason: string) {
+    super(reason, reason);
+  }
+}
+
+/**
+ * The last phase transition has already processed every patient
+ */
+export class NoPhaseTransitionInProgressError extends TrialError {
+  constructor() {
+    super("No phase transition in progress", "No phase transition in progress");
+  }
+}
+
+/**
+ * A results callback named a request the trial is not waiting for:
+ * an unknown id, or one already fulfilled or cancelled
+ */
+export class DecryptionRequestError extends TrialError {
+  constructor(reason: string) {
+    super(reason, reason);
+  }
+}
+
+/**
+ * An unblinding request cannot be decided: unknown, already decided, the
+ * requester's own, or from an investigator who lost the role
+ */
+export class UnblindingRequestError extends TrialError {
+  constructor(reason: string) {
+    super(reason, reason);
+  }
+}
+
+/**
+ * The phase's results have not been calculated yet, so there is nothing to
+ * grant decrypt access to
+ */
+export class ResultsNotAvailableError extends TrialError {
+  constructor() {
+    super("Results not available", "Results not available");
+  }
+}
+
+/**
+ * No trial with the given id or address exists in the registry
+ */
+export class UnknownTrialError extends TrialError {
+  constructor(public readonly trial?: number | string) {
+    super(
+      trial !== undefined ? `Unknown trial ${trial}` : "Unknown trial",
+      "Unknown trial"
+    );
+  }
+}
+
+/**
+ * Revert whose reason is not known to the SDK
+ */
+export class TrialRevertError extends TrialError {
+  constructor(
+    reason: string | undefined,
+    public readonly cause?: unknown
+  ) {
+    super(
+      reason ? `Transaction reverted: ${reason}` : "Transaction reverted",
+      reason
+    );
+  }
+}
+
+const KNOWN_REASONS: Record<string, () => TrialError> = {
+  "Wrong trial phase": () => new WrongPhaseError(),
+  "Cannot transition phase yet": () => new PhaseTransitionNotReadyError(),
+  "Patient already enrolled": () => new AlreadyEnrolledError(),
+  "Patient not enrolled": () => new NotEnrolledError(),
+  "Data already submitted for this week": () => new DataAlreadySubmittedError(),
+  "Only trial coordinator allowed": () => new NotCoordinatorError(),
+  "Only coordinator or DSMB allowed": () =>
+    new MissingRoleError("Only coordinator or DSMB allowed"),
+  "Only site investigator allowed": () =>
+    new MissingRoleError("Only site investigator allowed"),
+  "Only auditor allowed": () => new MissingRoleError("Only auditor allowed"),
+  "Only DSMB allowed": () => new MissingRoleError("Only DSMB allowed"),
+  "Only safety monitor allowed": () =>
+    new MissingRoleError("Only safety monitor allowed"),
+  "Unknown role": () => new InvalidInputError("Unknown role"),
+  "Invalid account": () => new InvalidInputError("Invalid account"),
+  "Cannot revoke the trial coordinator": () =>
+    new InvalidInputError("Cannot revoke the trial coordinator"),
+  "Week outside visit schedule": () =>
+    new InvalidInputError("Week outside visit schedule"),
+  "Outside visit window": () => new OutsideVisitWindowError(),
+  "Invalid coordinator": () => new InvalidInputError("Invalid coordinator"),
+  "Unknown trial": () => new UnknownTrialError(),
+  "Title required": () => new InvalidInputError("Title required"),
+  "Sponsor required": () => new InvalidInputError("Sponsor required"),
+  "Invalid page size": () => new InvalidInputError("Invalid page size"),
+  "Phase transition in progress": () => new PhaseTransitionInProgressError(),
+  "No phase transition in progress": () =>
+    new NoPhaseTransitionInProgressError(),
+  "Trial is full": () => new InvalidInputError("Trial is full"),
+  "Invalid batch size": () => new InvalidInputError("Invalid batch size"),
+  "Results not available": () => new ResultsNotAvailableError(),
+  "Unknown decryption request": () =>
+    new DecryptionRequestError("Unknown decryption request"),
+  "Decryption request not pending": () =>
+    new DecryptionRequestError("Decryption request not pending"),
+  "Consent withdrawn": () => new ConsentWithdrawnError(),
+  "Consent already withdrawn": () =>
+    new ConsentWithdrawnError("Consent already withdrawn"),
+  "Re-consent required": () => new ReconsentRequiredError(),
+  "Invalid consent document": () =>
+    new InvalidInputError("Invalid consent document"),
+  "Not the current consent version": () =>
+    new InvalidInputError("Not the current consent version"),
+  "Consent already current": () =>
+    new InvalidInputError("Consent already current"),
+  "Invalid unblinding reason": () =>
+    new InvalidInputError("Invalid unblinding reason"),
+  "Unknown unblinding request": () =>
+    new UnblindingRequestError("Unknown unblinding request"),
+  "Unblinding request not pending": () =>
+    new UnblindingRequestError("Unblinding request not pending"),
+  "Cannot approve own unblinding request": () =>
+    new UnblindingRequestError("Cannot approve own unblinding request"),
+  "Investigator no longer authorized": () =>
+    new UnblindingRequestError("Investigator no longer authorized"),
+};
+
+/**
+ * Extract the revert reason string from an ethers or Hardhat error
+ */
+export function extractRevertReason(error: unknown): string | undefined {
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+
+  const err = error as {
+    reason?: unknown;
+    shortMessage?: unknown;
+    message?: unknown;
+  };
+  if (typeof err.reason === "string" && err.reason.length > 0) {
+    return err.reason;
+  }
+
+  const patterns = [
+    /reverted with reason string '([^']*)'/,
+    /execution reverted: "([^"]*)"/,
+    /execution reverted: ([^\n]*)/,
+  ];
+  for (const text of [err.shortMessage, err.message]) {
+    if (typeof text !== "string") continue;
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (match) return match[1];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert any error thrown while calling the trial contract into a TrialError
+ */
+export function decodeTrialError(error: unknown): TrialError {
+  if (error instanceof TrialError) {
+    return error;
+  }
+
+  const reason = extractRevertReason(error);
+  const factory = reason !== undefined ? KNOWN_REASONS[reason] : undefined;
+
+  return factory ? factory() : new TrialRevertError(reason, error);
+}
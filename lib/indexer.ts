@@ -0,0 +1,415 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Interface, Log, Provider } from "ethers";
+import type { ArmAggregates } from "./statistics";
+
+/**
+ * @title Trial Event Indexer
+ * @notice Reads trial events into a local store and answers history queries
+ *
+ * @chapter: sdk
+ * @category: indexing
+ *
+ * The contract only exposes its current state. The indexer reads the trial's
+ * lifecycle events in block ranges and keeps them in an embedded store
+ * (a JSON file by default), so questions like "submissions per week" can be
+ * answered without replaying the chain.
+ *
+ * Resuming and reorgs:
+ * - A checkpoint records the last block read and its hash
+ * - A sync whose checkpoint block still has that hash continues right after it
+ * - Otherwise the checkpoint was reorged out: the sync rewinds to re-read the
+ *   last `confirmations` blocks before the checkpoint, dropping what was stored
+ *   for them first, so shallow reorgs heal themselves
+ * - If the events stored below that window no longer match the chain, the
+ *   reorg was deeper than the window and the index is rebuilt from startBlock
+ *
+ * Usage:
+ * const indexer = new TrialIndexer(provider, trial.interface, address, new JsonFileStore(file));
+ * await indexer.sync();
+ * indexer.submissionsPerWeek();
+ */
+
+export const INDEXED_EVENTS = [
+  "PatientEnrolled",
+  "TreatmentAssigned",
+  "ClinicalDataSubmitted",
+  "PhaseTransition",
+  "TrialCompleted",
+  "ResultsPublished",
+  "ArmStatisticsPublished",
+  "ConsentWithdrawn",
+  "ConsentVersionPublished",
+  "ConsentRenewed",
+  "UnblindingRequested",
+  "PatientUnblinded",
+  "UnblindingRejected",
+] as const;
+
+export type TrialEventName = (typeof INDEXED_EVENTS)[number];
+
+export type EventArgValue = string | number | boolean;
+
+export interface IndexedEvent {
+  name: TrialEventName;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, EventArgValue>;
+}
+
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexerState {
+  version: number;
+  contractAddress: string;
+  startBlock: number;
+  checkpoint: IndexerCheckpoint | null;
+  events: IndexedEvent[];
+}
+
+export interface IndexerOptions {
+  /** First block to read (usually the deployment block) */
+  startBlock?: number;
+  /** Maximum number of blocks per getLogs request */
+  batchSize?: number;
+  /** Number of blocks re-read when the checkpoint was reorged out */
+  confirmations?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  removed: number;
+  rebuilt: boolean;
+}
+
+// Bumped whenever INDEXED_EVENTS grows, so older stores are re-read from startBlock
+const STATE_VERSION = 4;
+
+/** Default location of JSON index files, one per network and contract */
+export const INDEXER_DIR = path.join(__dirname, "..", "indexer-data");
+
+/**
+ * Storage backend for indexer state
+ */
+export interface IndexerStore {
+  load(): IndexerState | undefined;
+  save(state: IndexerState): void;
+}
+
+/**
+ * Keeps indexer state in memory, for tests and one-off scripts
+ */
+export class MemoryStore implements IndexerStore {
+  private state?: IndexerState;
+
+  load(): IndexerState | undefined {
+    return this.state ? structuredClone(this.state) : undefined;
+  }
+
+  save(state: IndexerState): void {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Keeps indexer state in a JSON file, written atomically
+ */
+export class JsonFileStore implements IndexerStore {
+  constructor(public readonly file: string) {}
+
+  load(): IndexerState | undefined {
+    if (!fs.existsSync(this.file)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(this.file, "utf8")) as IndexerState;
+  }
+
+  save(state: IndexerState): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2) + "\n");
+    fs.renameSync(tmp, this.file);
+  }
+}
+
+/**
+ * Convert decoded event arguments to JSON-safe values
+ */
+function toArgValue(value: unknown): EventArgValue {
+  if (typeof value === "bigint") {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (typeof value === "boolean" || typeof value === "number") {
+    return value;
+  }
+  return String(value);
+}
+
+function utcDay(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+export class TrialIndexer {
+  private state: IndexerState;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly iface: Interface,
+    public readonly contractAddress: string,
+    private readonly store: IndexerStore,
+    options: IndexerOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 12;
+
+    const saved = store.load();
+    if (
+      saved &&
+      saved.version === STATE_VERSION &&
+      saved.contractAddress.toLowerCase() === contractAddress.toLowerCase()
+    ) {
+      this.state = saved;
+    } else {
+      this.state = this.emptyState(options.startBlock ?? 0);
+    }
+  }
+
+  get checkpoint(): IndexerCheckpoint | null {
+    return this.state.checkpoint;
+  }
+
+  /**
+   * Read new events up to `toBlock` (default: chain head) and persist them
+   */
+  async sync(toBlock?: number): Promise<SyncResult> {
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+    let rebuilt = false;
+
+    let fromBlock = await this.resumeBlock();
+    if (
+      fromBlock > this.state.startBlock &&
+      !(await this.isCanonical(fromBlock - 1))
+    ) {
+      this.state = this.emptyState(this.state.startBlock);
+      fromBlock = this.state.startBlock;
+      rebuilt = true;
+    }
+
+    const keepBelow = Math.min(fromBlock, head + 1);
+    const before = this.state.events.length;
+    this.state.events = this.state.events.filter(
+      (event) => event.blockNumber < keepBelow
+    );
+    const removed = before - this.state.events.length;
+
+    let added = 0;
+    for (let start = fromBlock; start <= head; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, head);
+      const logs = await this.provider.getLogs({
+        address: this.contractAddress,
+        fromBlock: start,
+        toBlock: end,
+      });
+      const events = await this.decodeLogs(logs);
+      this.state.events.push(...events);
+      added += events.length;
+    }
+
+    const headBlock = await this.provider.getBlock(head);
+    this.state.checkpoint = headBlock?.hash
+      ? { blockNumber: head, blockHash: headBlock.hash }
+      : null;
+    this.store.save(this.state);
+
+    return { fromBlock, toBlock: head, added, removed, rebuilt };
+  }
+
+  /**
+   * Stored events, optionally restricted to one event name, in chain order
+   */
+  events(name?: TrialEventName): IndexedEvent[] {
+    return name
+      ? this.state.events.filter((event) => event.name === name)
+      : [...this.state.events];
+  }
+
+  /**
+   * Number of ClinicalDataSubmitted events per treatment week
+   */
+  submissionsPerWeek(): { week: number; submissions: number }[] {
+    const counts = new Map<number, number>();
+    for (const event of this.events("ClinicalDataSubmitted")) {
+      const week = Number(event.args.week);
+      counts.set(week, (counts.get(week) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([week, submissions]) => ({ week, submissions }));
+  }
+
+  /**
+   * Number of PatientEnrolled events per UTC day
+   */
+  enrollmentsPerDay(): { day: string; enrollments: number }[] {
+    const counts = new Map<string, number>();
+    for (const event of this.events("PatientEnrolled")) {
+      const day = utcDay(Number(event.args.timestamp));
+      counts.set(day, (counts.get(day) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, enrollments]) => ({ day, enrollments }));
+  }
+
+  /**
+   * Phase transitions in the order they happened
+   */
+  phaseTransitions(): {
+    fromPhase: number;
+    toPhase: number;
+    timestamp: number;
+    blockNumber: number;
+  }[] {
+    return this.events("PhaseTransition").map((event) => ({
+      fromPhase: Number(event.args.fromPhase),
+      toPhase: Number(event.args.toPhase),
+      timestamp: Number(event.args.timestamp),
+      blockNumber: event.blockNumber,
+    }));
+  }
+
+  /**
+   * Weeks submitted by one patient, in ascending order
+   */
+  patientSubmissions(patient: string): number[] {
+    return this.events("ClinicalDataSubmitted")
+      .filter(
+        (event) =>
+          String(event.args.patient).toLowerCase() === patient.toLowerCase()
+      )
+      .map((event) => Number(event.args.week))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Per-arm aggregates from the last ArmStatisticsPublished event of a phase
+   * (default: analysis), or null if none was indexed
+   */
+  armStatistics(phase = 4): ArmAggregates | null {
+    const event = this.events("ArmStatisticsPublished")
+      .filter((e) => Number(e.args.phase) === phase)
+      .pop();
+    if (!event) {
+      return null;
+    }
+    const { args } = event;
+    return {
+      placebo: {
+        count: Number(args.placeboCount),
+        sum: Number(args.placeboScoreSum),
+        sumOfSquares: Number(args.placeboScoreSquareSum),
+      },
+      treatment: {
+        count: Number(args.treatmentCount),
+        sum: Number(args.treatmentScoreSum),
+        sumOfSquares: Number(args.treatmentScoreSquareSum),
+      },
+    };
+  }
+
+  private emptyState(startBlock: number): IndexerState {
+    return {
+      version: STATE_VERSION,
+      contractAddress: this.contractAddress,
+      startBlock,
+      checkpoint: null,
+      events: [],
+    };
+  }
+
+  /**
+   * First block to read: the one after the checkpoint while its block is still
+   * canonical, else the start of the confirmation window below it
+   */
+  private async resumeBlock(): Promise<number> {
+    const checkpoint = this.state.checkpoint;
+    if (!checkpoint) {
+      return this.state.startBlock;
+    }
+    const block = await this.provider.getBlock(checkpoint.blockNumber);
+    if (block?.hash === checkpoint.blockHash) {
+      return checkpoint.blockNumber + 1;
+    }
+    return Math.max(
+      this.state.startBlock,
+      checkpoint.blockNumber - this.confirmations + 1
+    );
+  }
+
+  /**
+   * Whether the stored events at or below `blockNumber` still belong to the canonical chain
+   */
+  private async isCanonical(blockNumber: number): Promise<boolean> {
+    const kept = this.state.events.filter(
+      (event) => event.blockNumber <= blockNumber
+    );
+    const last = kept[kept.length - 1];
+    if (!last) {
+      return true;
+    }
+    const block = await this.provider.getBlock(last.blockNumber);
+    return block?.hash === last.blockHash;
+  }
+
+  private async decodeLogs(logs: readonly Log[]): Promise<IndexedEvent[]> {
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      const parsed = this.iface.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+      if (
+        !parsed ||
+        !(INDEXED_EVENTS as readonly string[]).includes(parsed.name)
+      ) {
+        continue;
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+
+      const args: Record<string, EventArgValue> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name] = toArgValue(parsed.args[i]);
+      });
+
+      events.push({
+        name: parsed.name as TrialEventName,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        blockTimestamp: timestamps.get(log.blockNumber)!,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args,
+      });
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,171 @@
+import { Contract } from "ethers";
+import type { BaseContract, ContractRunner, Provider, Result } from "ethers";
+import { InvalidInputError, decodeTrialError } from "./errors";
+
+/**
+ * @title Multicall Reads
+ * @notice Walks paged view functions, optionally several pages per eth_call
+ *
+ * @chapter: sdk
+ * @category: client
+ *
+ * The paged views (getPatients, getSubmissionTimes, the registry's getTrials)
+ * return at most MAX_PAGE_SIZE items per call. readPages walks every page of
+ * one of them. Given a Multicall, it bundles pagesPerCall pages into a single
+ * eth_call through Multicall3's aggregate3, which cuts the number of RPC
+ * round trips and reads those pages at the same block.
+ *
+ * Multicall3 is deployed at MULTICALL3_ADDRESS on most public networks.
+ * Multicall.at() returns null where it is missing, e.g. on a fresh Hardhat
+ * node; contracts/Multicall3.sol is a compatible copy to deploy there.
+ *
+ * Usage:
+ * const multicall = await Multicall.at(ethers.provider);
+ * const patients = await client.allPatients({ multicall: multicall ?? undefined });
+ */
+
+/** Address of Multicall3 on most EVM networks */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/** Pages bundled into one aggregate3 call unless configured otherwise */
+export const DEFAULT_PAGES_PER_CALL = 10;
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+export interface Call {
+  target: string;
+  callData: string;
+}
+
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+export interface PageReadOptions {
+  /** Items per page, 1 to the contract's MAX_PAGE_SIZE */
+  pageSize?: number;
+  /** Read several pages per eth_call through Multicall3 */
+  multicall?: Multicall;
+  /** Pages per aggregate3 call (default: DEFAULT_PAGES_PER_CALL) */
+  pagesPerCall?: number;
+}
+
+export class Multicall {
+  public readonly contract: Contract;
+
+  constructor(
+    runner: ContractRunner,
+    public readonly address: string = MULTICALL3_ADDRESS
+  ) {
+    this.contract = new Contract(address, MULTICALL3_ABI, runner);
+  }
+
+  /**
+   * Multicall3 at the given address, or null if no contract is deployed there
+   */
+  static async at(
+    provider: Provider,
+    address: string = MULTICALL3_ADDRESS
+  ): Promise<Multicall | null> {
+    const code = await provider.getCode(address);
+    return code === "0x" ? null : new Multicall(provider, address);
+  }
+
+  /**
+   * Run the calls in one eth_call; failed calls are reported, not thrown
+   */
+  async aggregate(calls: Call[]): Promise<CallResult[]> {
+    const results: Result = await this.contract.aggregate3.staticCall(
+      calls.map((call) => ({ ...call, allowFailure: true }))
+    );
+    return results.map((result: Result) => ({
+      success: result.success,
+      returnData: result.returnData,
+    }));
+  }
+
+  /**
+   * Call one view function with each argument list, in one eth_call
+   *
+   * Returns the decoded outputs in order. A reverted call throws its decoded
+   * TrialError.
+   */
+  async read(
+    contract: BaseContract,
+    method: string,
+    argsList: unknown[][]
+  ): Promise<Result[]> {
+    const target = await contract.getAddress();
+    const results = await this.aggregate(
+      argsList.map((args) => ({
+        target,
+        callData: contract.interface.encodeFunctionData(method, args),
+      }))
+    );
+    return results.map((result) => {
+      if (!result.success) {
+        throw decodeTrialError(
+          contract.interface.makeError(result.returnData, {
+            to: target,
+            data: "0x",
+          })
+        );
+      }
+      return contract.interface.decodeFunctionResult(method, result.returnData);
+    });
+  }
+}
+
+/**
+ * Read every page of a paged view function `method(offset, limit)`
+ *
+ * total is the number of items the view pages through. decode converts the
+ * view's single output for the page starting at offset.
+ */
+export async function readPages<T>(
+  contract: BaseContract,
+  method: string,
+  total: number,
+  decode: (page: Result, offset: number) => T[],
+  options: PageReadOptions & { pageSize: number }
+): Promise<T[]> {
+  const { pageSize, multicall } = options;
+  const pagesPerCall = options.pagesPerCall ?? DEFAULT_PAGES_PER_CALL;
+  if (!Number.isInteger(pagesPerCall) || pagesPerCall < 1) {
+    throw new InvalidInputError("Pages per call must be a positive integer");
+  }
+  const offsets: number[] = [];
+  for (let offset = 0; offset < total; offset += pageSize) {
+    offsets.push(offset);
+  }
+
+  const items: T[] = [];
+  if (!multicall) {
+    for (const offset of offsets) {
+      const page = await contract
+        .getFunction(method)
+        .staticCall(offset, pageSize)
+        .catch((error) => {
+          throw decodeTrialError(error);
+        });
+      items.push(...decode(page, offset));
+    }
+    return items;
+  }
+
+  for (let i = 0; i < offsets.length; i += pagesPerCall) {
+    const group = offsets.slice(i, i + pagesPerCall);
+    const pages = await multicall.read(
+      contract,
+      method,
+      group.map((offset) => [offset, pageSize])
+    );
+    for (const [j, page] of pages.entries()) {
+      items.push(...decode(page[0], group[j]));
+    }
+  }
+  return items;
+}
@@ -0,0 +1,670 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AbiCoder, keccak256 } from "ethers";
+import { parse as parseYaml } from "yaml";
+import { CRITERION_LIMITS, EligibilityRanges } from "./eligibility";
+import {
+  ALLOCATION_SCHEME_NAMES,
+  SIMPLE_ALLOCATION,
+  allocationProblems,
+} from "./randomization";
+import { WITHDRAWAL_POLICY_NAMES, WithdrawalPolicy } from "./consent";
+import { VISIT_WINDOW_POLICY_NAMES, VisitWindowPolicy } from "./visits";
+import {
+  DEFAULT_SERIOUS_SIDE_EFFECT_LEVEL,
+  DEFAULT_SIDE_EFFECT_INCREASE,
+  MAX_SIDE_EFFECT_LEVEL,
+} from "./safety";
+
+/**
+ * @title Trial Protocol
+ * @notice Loads and validates the study protocol passed to the contract constructor
+ *
+ * @chapter: deployment
+ * @category: sdk
+ *
+ * Phase lengths, eligibility bounds, the visit schedule, the primary
+ * endpoint, the randomization scheme, the consent withdrawal policy, the
+ * safety thresholds and the visit windows differ per study, so they are
+ * fixed at deployment from a protocol file instead of being hard-coded.
+ * scripts/deploy.ts loads the file named by PROTOCOL_FILE; every problem in
+ * it is reported at once, before anything is sent on-chain.
+ *
+ * File layout (JSON or YAML):
+ *
+ *   name: Hypertension Phase II     # optional, informational
+ *   phases:
+ *     enrollment: 14d               # seconds, or a number with s/m/h/d/w
+ *     treatment: 12w
+ *     monitoring: 4w
+ *   eligibility:                    # inclusive ranges, see ./eligibility.ts
+ *     minAge: 18
+ *     maxAge: 65
+ *     minHealthScore: 40            # optional, like the criteria below
+ *     maxHeartRate: 110
+ *     minDiastolicPressure: 60
+ *   visitWeeks: 12
+ *   primaryEndpoint:
+ *     week: 8
+ *     significanceThreshold: 10     # effectiveness points
+ *   randomization:                  # optional, simple 1:1 by default; see ./randomization.ts
+ *     scheme: stratified            # simple, permuted-block or stratified
+ *     ratio: "2:1"                  # treatment:placebo
+ *     blockSize: 6                  # block schemes only, a multiple of the ratio total
+ *     strata:                       # stratified only, at least one cutoff
+ *       ageCutoff: 50
+ *       healthScoreCutoff: 60
+ *   consent:                        # optional, see ./consent.ts
+ *     withdrawalPolicy: exclude     # exclude (default) or retain-prior-data
+ *   safety:                         # optional, see ./safety.ts
+ *     seriousSideEffectLevel: 8     # side-effect level (1-10) that raises an alert, default 8
+ *     sideEffectIncrease: 3         # rise since the week before that raises an alert, default 3; 0 disables
+ *   visits:                         # optional, unscheduled by default; see ./visits.ts
+ *     interval: 1w                  # week w is due w intervals after the patient's enrollment
+ *     window: 2d                    # tolerance either side of the due time, under half the interval
+ *     outOfWindow: reject           # reject (default) or flag
+ */
+
+/** Mirrors PrivacyPreservingClinicalTrial.MAX_VISIT_WEEKS */
+export const MAX_VISIT_WEEKS = 52;
+
+/** Largest duration the contract stores (uint32 seconds) */
+export const MAX_DURATION_SECONDS = 2 ** 32 - 1;
+
+/**
+ * Protocol as passed to the constructor; durations in seconds
+ *
+ * Field order matches the TrialProtocol struct in the contract.
+ */
+export interface TrialProtocol {
+  enrollmentDuration: number;
+  treatmentDuration: number;
+  monitoringDuration: number;
+  minAge: number;
+  maxAge: number;
+  minHealthScore: number;
+  maxHealthScore: number;
+  minHeartRate: number;
+  maxHeartRate: number;
+  minDiastolicPressure: number;
+  maxDiastolicPressure: number;
+  visitWeeks: number;
+  primaryEndpointWeek: number;
+  significanceThreshold: number;
+  allocationScheme: number;
+  treatmentRatio: number;
+  placeboRatio: number;
+  blockSize: number;
+  stratumAgeCutoff: number;
+  stratumHealthScoreCutoff: number;
+  withdrawalPolicy: number;
+  seriousSideEffectLevel: number;
+  sideEffectIncrease: number;
+  /** Seconds between scheduled visits; 0 for unscheduled visits */
+  visitInterval: number;
+  /** Tolerance in seconds either side of a visit's due time */
+  visitWindow: number;
+  visitWindowPolicy: number;
+}
+
+/**
+ * The demo protocol: one-hour phases, ages 18-80 and no other eligibility
+ * restriction, 12 visits, week-4 endpoint, 10 points, simple 1:1
+ * randomization, withdrawn patients' data excluded, safety alerts from
+ * side-effect level 8 or a rise of 3 within a week, unscheduled visits
+ */
+export const DEFAULT_PROTOCOL: TrialProtocol = {
+  enrollmentDuration: 3600,
+  treatmentDuration: 3600,
+  monitoringDuration: 3600,
+  minAge: 18,
+  maxAge: 80,
+  minHealthScore: 0,
+  maxHealthScore: 100,
+  minHeartRate: 0,
+  maxHeartRate: 255,
+  minDiastolicPressure: 0,
+  maxDiastolicPressure: 99,
+  visitWeeks: 12,
+  primaryEndpointWeek: 4,
+  significanceThreshold: 10,
+  ...SIMPLE_ALLOCATION,
+  withdrawalPolicy: WithdrawalPolicy.Exclude,
+  seriousSideEffectLevel: DEFAULT_SERIOUS_SIDE_EFFECT_LEVEL,
+  sideEffectIncrease: DEFAULT_SIDE_EFFECT_INCREASE,
+  visitInterval: 0,
+  visitWindow: 0,
+  visitWindowPolicy: VisitWindowPolicy.Reject,
+};
+
+/**
+ * Raised when a protocol file cannot be read or fails validation
+ */
+export class ProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = []
+  ) {
+    super(
+      problems.length > 0
+        ? `${message}:\n${problems.map((p) => `  - ${p}`).join("\n")}`
+        : message
+    );
+    this.name = "ProtocolError";
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+};
+
+const DURATION_HINT =
+  'expected seconds or a duration such as "90m", "12h", "14d" or "6w"';
+
+const KNOWN_KEYS: Record<string, string[]> = {
+  "": [
+    "name",
+    "description",
+    "phases",
+    "eligibility",
+    "visitWeeks",
+    "primaryEndpoint",
+    "randomization",
+    "consent",
+    "safety",
+    "visits",
+  ],
+  phases: ["enrollment", "treatment", "monitoring"],
+  eligibility: [
+    "minAge",
+    "maxAge",
+    "minHealthScore",
+    "maxHealthScore",
+    "minHeartRate",
+    "maxHeartRate",
+    "minDiastolicPressure",
+    "maxDiastolicPressure",
+  ],
+  primaryEndpoint: ["week", "significanceThreshold"],
+  randomization: ["scheme", "ratio", "blockSize", "strata"],
+  "randomization.strata": ["ageCutoff", "healthScoreCutoff"],
+  consent: ["withdrawalPolicy"],
+  safety: ["seriousSideEffectLevel", "sideEffectIncrease"],
+  visits: ["interval", "window", "outOfWindow"],
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects problems while reading a raw protocol object
+ */
+class ProtocolReader {
+  readonly problems: string[] = [];
+
+  section(
+    raw: Record<string, unknown>,
+    key: string,
+    where = key
+  ): Record<string, unknown> {
+    const value = raw[key];
+    if (!isObject(value)) {
+      this.problems.push(`${where}: missing section`);
+      return {};
+    }
+    this.checkKeys(value, where);
+    return value;
+  }
+
+  /**
+   * A section that may be omitted, in which case it reads as empty
+   */
+  optionalSection(
+    raw: Record<string, unknown>,
+    key: string,
+    where = key
+  ): Record<string, unknown> {
+    return raw[key] === undefined ? {} : this.section(raw, key, where);
+  }
+
+  checkKeys(value: Record<string, unknown>, section: string): void {
+    for (const key of Object.keys(value)) {
+      if (!KNOWN_KEYS[section].includes(key)) {
+        const where = section ? `${section}.${key}` : key;
+        this.problems.push(`${where}: unknown setting`);
+      }
+    }
+  }
+
+  integer(value: unknown, where: string, min: number, max: number): number {
+    if (value === undefined) {
+      this.problems.push(`${where}: required`);
+      return NaN;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      this.problems.push(
+        `${where}: expected an integer, got ${JSON.stringify(value)}`
+      );
+      return NaN;
+    }
+    if (value < min || value > max) {
+      this.problems.push(
+        `${where}: must be between ${min} and ${max}, got ${value}`
+      );
+      return NaN;
+    }
+    return value;
+  }
+
+  /**
+   * An integer that may be omitted, in which case `fallback` is used
+   */
+  optionalInteger(
+    value: unknown,
+    where: string,
+    min: number,
+    max: number,
+    fallback: number
+  ): number {
+    return value === undefined
+      ? fallback
+      : this.integer(value, where, min, max);
+  }
+
+  /**
+   * A scheme name from ALLOCATION_SCHEME_NAMES
+   */
+  scheme(value: unknown, where: string): number {
+    if (value === undefined) {
+      this.problems.push(`${where}: required`);
+      return NaN;
+    }
+    const scheme =
+      typeof value === "string" ? ALLOCATION_SCHEME_NAMES[value] : undefined;
+    if (scheme === undefined) {
+      this.problems.push(
+        `${where}: expected one of ${Object.keys(ALLOCATION_SCHEME_NAMES).join(", ")}, got ${JSON.stringify(value)}`
+      );
+      return NaN;
+    }
+    return scheme;
+  }
+
+  /**
+   * A policy name from WITHDRAWAL_POLICY_NAMES; exclude when omitted
+   */
+  withdrawalPolicy(value: unknown, where: string): number {
+    if (value === undefined) return WithdrawalPolicy.Exclude;
+    const policy =
+      typeof value === "string" ? WITHDRAWAL_POLICY_NAMES[value] : undefined;
+    if (policy === undefined) {
+      this.problems.push(
+        `${where}: expected one of ${Object.keys(WITHDRAWAL_POLICY_NAMES).join(", ")}, got ${JSON.stringify(value)}`
+      );
+      return NaN;
+    }
+    return policy;
+  }
+
+  /**
+   * A policy name from VISIT_WINDOW_POLICY_NAMES; reject when omitted
+   */
+  visitWindowPolicy(value: unknown, where: string): number {
+    if (value === undefined) return VisitWindowPolicy.Reject;
+    const policy =
+      typeof value === "string" ? VISIT_WINDOW_POLICY_NAMES[value] : undefined;
+    if (policy === undefined) {
+      this.problems.push(
+        `${where}: expected one of ${Object.keys(VISIT_WINDOW_POLICY_NAMES).join(", ")}, got ${JSON.stringify(value)}`
+      );
+      return NaN;
+    }
+    return policy;
+  }
+
+  /**
+   * A treatment:placebo ratio such as "2:1"
+   */
+  ratio(value: unknown, where: string): [number, number] {
+    if (value === undefined) return [1, 1];
+    const match =
+      typeof value === "string"
+        ? /^\s*(\d+)\s*:\s*(\d+)\s*$/.exec(value)
+        : null;
+    const parts = match ? [Number(match[1]), Number(match[2])] : [];
+    if (parts.length === 0 || parts.some((part) => part < 1 || part > 255)) {
+      this.problems.push(
+        `${where}: expected treatment:placebo such as "2:1" with parts 1-255, got ${JSON.stringify(value)}`
+      );
+      return [NaN, NaN];
+    }
+    return [parts[0], parts[1]];
+  }
+
+  duration(value: unknown, where: string): number {
+    if (value === undefined) {
+      this.problems.push(`${where}: required`);
+      return NaN;
+    }
+
+    let seconds: number;
+    if (typeof value === "number") {
+      seconds = value;
+    } else if (typeof value === "string") {
+      const match = /^\s*(\d+)\s*([smhdw])\s*$/.exec(value);
+      if (!match) {
+        this.problems.push(
+          `${where}: ${DURATION_HINT}, got ${JSON.stringify(value)}`
+        );
+        return NaN;
+      }
+      seconds = Number(match[1]) * DURATION_UNITS[match[2]];
+    } else {
+      this.problems.push(
+        `${where}: ${DURATION_HINT}, got ${JSON.stringify(value)}`
+      );
+      return NaN;
+    }
+
+    if (!Number.isInteger(seconds) || seconds <= 0) {
+      this.problems.push(
+        `${where}: must be a positive whole number of seconds`
+      );
+      return NaN;
+    }
+    if (seconds > MAX_DURATION_SECONDS) {
+      this.problems.push(
+        `${where}: longer than the contract can store (${MAX_DURATION_SECONDS}s)`
+      );
+      return NaN;
+    }
+    return seconds;
+  }
+}
+
+/**
+ * Validate a parsed protocol file and convert it to constructor arguments
+ */
+export function validateProtocol(
+  raw: unknown,
+  source = "protocol"
+): TrialProtocol {
+  if (!isObject(raw)) {
+    throw new ProtocolError(`${source} must be an object`);
+  }
+
+  const reader = new ProtocolReader();
+  reader.checkKeys(raw, "");
+
+  const phases = reader.section(raw, "phases");
+  const eligibility = reader.section(raw, "eligibility");
+  const endpoint = reader.section(raw, "primaryEndpoint");
+  const randomization = reader.optionalSection(raw, "randomization");
+  const strata = reader.optionalSection(
+    randomization,
+    "strata",
+    "randomization.strata"
+  );
+  const consent = reader.optionalSection(raw, "consent");
+  const safety = reader.optionalSection(raw, "safety");
+  const visits = reader.optionalSection(raw, "visits");
+
+  // Criteria other than age are optional and default to their full range
+  const criterion = (name: keyof EligibilityRanges, bound: "min" | "max") => {
+    const key = `${bound}${name[0].toUpperCase()}${name.slice(1)}`;
+    const [low, high] = CRITERION_LIMITS[name];
+    return reader.optionalInteger(
+      eligibility[key],
+      `eligibility.${key}`,
+      low,
+      high,
+      bound === "min" ? low : high
+    );
+  };
+
+  const protocol: TrialProtocol = {
+    enrollmentDuration: reader.duration(phases.enrollment, "phases.enrollment"),
+    treatmentDuration: reader.duration(phases.treatment, "phases.treatment"),
+    monitoringDuration: reader.duration(phases.monitoring, "phases.monitoring"),
+    minAge: reader.integer(eligibility.minAge, "eligibility.minAge", 0, 255),
+    maxAge: reader.integer(eligibility.maxAge, "eligibility.maxAge", 0, 255),
+    minHealthScore: criterion("healthScore", "min"),
+    maxHealthScore: criterion("healthScore", "max"),
+    minHeartRate: criterion("heartRate", "min"),
+    maxHeartRate: criterion("heartRate", "max"),
+    minDiastolicPressure: criterion("diastolicPressure", "min"),
+    maxDiastolicPressure: criterion("diastolicPressure", "max"),
+    visitWeeks: reader.integer(
+      raw.visitWeeks,
+      "visitWeeks",
+      1,
+      MAX_VISIT_WEEKS
+    ),
+    primaryEndpointWeek: reader.integer(
+      endpoint.week,
+      "primaryEndpoint.week",
+      1,
+      MAX_VISIT_WEEKS
+    ),
+    significanceThreshold: reader.integer(
+      endpoint.significanceThreshold,
+      "primaryEndpoint.significanceThreshold",
+      0,
+      100
+    ),
+    ...SIMPLE_ALLOCATION,
+    withdrawalPolicy: reader.withdrawalPolicy(
+      consent.withdrawalPolicy,
+      "consent.withdrawalPolicy"
+    ),
+    seriousSideEffectLevel: reader.optionalInteger(
+      safety.seriousSideEffectLevel,
+      "safety.seriousSideEffectLevel",
+      1,
+      MAX_SIDE_EFFECT_LEVEL,
+      DEFAULT_SERIOUS_SIDE_EFFECT_LEVEL
+    ),
+    sideEffectIncrease: reader.optionalInteger(
+      safety.sideEffectIncrease,
+      "safety.sideEffectIncrease",
+      0,
+      MAX_SIDE_EFFECT_LEVEL,
+      DEFAULT_SIDE_EFFECT_INCREASE
+    ),
+    visitInterval: 0,
+    visitWindow: 0,
+    visitWindowPolicy: VisitWindowPolicy.Reject,
+  };
+
+  if (raw.visits !== undefined) {
+    Object.assign(protocol, {
+      visitInterval: reader.duration(visits.interval, "visits.interval"),
+      visitWindow: reader.duration(visits.window, "visits.window"),
+      visitWindowPolicy: reader.visitWindowPolicy(
+        visits.outOfWindow,
+        "visits.outOfWindow"
+      ),
+    });
+  }
+
+  if (raw.randomization !== undefined) {
+    const [treatmentRatio, placeboRatio] = reader.ratio(
+      randomization.ratio,
+      "randomization.ratio"
+    );
+    Object.assign(protocol, {
+      allocationScheme: reader.scheme(
+        randomization.scheme,
+        "randomization.scheme"
+      ),
+      treatmentRatio,
+      placeboRatio,
+      blockSize: reader.optionalInteger(
+        randomization.blockSize,
+        "randomization.blockSize",
+        1,
+        255,
+        0
+      ),
+      stratumAgeCutoff: reader.optionalInteger(
+        strata.ageCutoff,
+        "randomization.strata.ageCutoff",
+        1,
+        255,
+        0
+      ),
+      stratumHealthScoreCutoff: reader.optionalInteger(
+        strata.healthScoreCutoff,
+        "randomization.strata.healthScoreCutoff",
+        1,
+        100,
+        0
+      ),
+    });
+  }
+
+  // Cross-field checks only make sense once both fields are valid
+  for (const name of ["Age", "HealthScore", "HeartRate", "DiastolicPressure"]) {
+    const min = protocol[`min${name}` as keyof TrialProtocol];
+    const max = protocol[`max${name}` as keyof TrialProtocol];
+    if (min > max) {
+      reader.problems.push(
+        `eligibility: min${name} (${min}) is greater than max${name} (${max})`
+      );
+    }
+  }
+  if (protocol.primaryEndpointWeek > protocol.visitWeeks) {
+    reader.problems.push(
+      `primaryEndpoint.week: week ${protocol.primaryEndpointWeek} is after the last visit (week ${protocol.visitWeeks})`
+    );
+  }
+  if (protocol.visitInterval > 0) {
+    if (protocol.visitWindow * 2 >= protocol.visitInterval) {
+      reader.problems.push(
+        `visits.window: ${formatDuration(protocol.visitWindow)} either side overlaps the next visit; must be under half the interval (${formatDuration(protocol.visitInterval)})`
+      );
+    } else if (
+      protocol.visitWeeks * protocol.visitInterval - protocol.visitWindow >
+      protocol.treatmentDuration
+    ) {
+      // The last patient to enroll starts treatment right away, so their
+      // last window must open before treatment can end
+      reader.problems.push(
+        `visits.interval: week ${protocol.visitWeeks} of a patient enrolling at the end of enrollment opens after the ${formatDuration(protocol.treatmentDuration)} treatment phase`
+      );
+    }
+  }
+  const allocationFields = [
+    protocol.allocationScheme,
+    protocol.treatmentRatio,
+    protocol.placeboRatio,
+    protocol.blockSize,
+    protocol.stratumAgeCutoff,
+    protocol.stratumHealthScoreCutoff,
+  ];
+  if (!allocationFields.some(Number.isNaN)) {
+    for (const problem of allocationProblems(protocol)) {
+      reader.problems.push(`randomization: ${problem}`);
+    }
+  }
+
+  if (reader.problems.length > 0) {
+    throw new ProtocolError(`Invalid ${source}`, reader.problems);
+  }
+  return protocol;
+}
+
+/**
+ * Read a JSON or YAML protocol file, chosen by extension
+ */
+export function parseProtocolFile(file: string): unknown {
+  if (!fs.existsSync(file)) {
+    throw new ProtocolError(`Protocol file ${file} does not exist`);
+  }
+
+  const text = fs.readFileSync(file, "utf8");
+  const extension = path.extname(file).toLowerCase();
+  try {
+    if (extension === ".json") {
+      return JSON.parse(text);
+    }
+    if (extension === ".yaml" || extension === ".yml") {
+      return parseYaml(text);
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ProtocolError(`Cannot parse ${file}: ${reason}`);
+  }
+  throw new ProtocolError(
+    `Unsupported protocol file ${file}: use .json, .yaml or .yml`
+  );
+}
+
+/**
+ * Load and validate a protocol file
+ */
+export function loadProtocol(file: string): TrialProtocol {
+  return validateProtocol(parseProtocolFile(file), file);
+}
+
+/** ABI tuple of the contract's TrialProtocol struct */
+const PROTOCOL_TUPLE =
+  "tuple(uint32 enrollmentDuration, uint32 treatmentDuration, uint32 monitoringDuration, " +
+  "uint8 minAge, uint8 maxAge, uint8 minHealthScore, uint8 maxHealthScore, uint8 minHeartRate, " +
+  "uint8 maxHeartRate, uint8 minDiastolicPressure, uint8 maxDiastolicPressure, " +
+  "uint8 visitWeeks, uint8 primaryEndpointWeek, uint8 significanceThreshold, " +
+  "uint8 allocationScheme, uint8 treatmentRatio, uint8 placeboRatio, uint8 blockSize, " +
+  "uint8 stratumAgeCutoff, uint8 stratumHealthScoreCutoff, uint8 withdrawalPolicy, " +
+  "uint8 seriousSideEffectLevel, uint8 sideEffectIncrease, " +
+  "uint32 visitInterval, uint32 visitWindow, uint8 visitWindowPolicy)";
+
+/**
+ * keccak256 of the ABI-encoded protocol, as ClinicalTrialRegistry records it
+ */
+export function hashProtocol(protocol: TrialProtocol): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode([PROTOCOL_TUPLE], [protocol])
+  );
+}
+
+/**
+ * One-line summary for logs, e.g. "every 1w ± 2d, out-of-window visits rejected"
+ */
+export function formatVisitSchedule(
+  protocol: Pick<
+    TrialProtocol,
+    "visitInterval" | "visitWindow" | "visitWindowPolicy"
+  >
+): string {
+  if (protocol.visitInterval === 0) {
+    return "unscheduled";
+  }
+  const policy =
+    protocol.visitWindowPolicy === VisitWindowPolicy.Flag
+      ? "flagged"
+      : "rejected";
+  return (
+    `every ${formatDuration(protocol.visitInterval)} ± ${formatDuration(protocol.visitWindow)} ` +
+    `from enrollment, out-of-window visits ${policy}`
+  );
+}
+
+/**
+ * Human-readable duration, e.g. 1209600 -> "14d"
+ */
+export function formatDuration(seconds: number): string {
+  for (const unit of ["w", "d", "h", "m"]) {
+    if (
+      seconds >= DURATION_UNITS[unit] &&
+      seconds % DURATION_UNITS[unit] === 0
+    ) {
+      return `${seconds / DURATION_UNITS[unit]}${unit}`;
+    }
+  }
+  return `${seconds}s`;
+}
@@ -0,0 +1,295 @@
+import { InvalidInputError } from "./errors";
+import type { TrialProtocol } from "./protocol";
+
+/**
+ * @title Randomization Schemes
+ * @notice Defines a protocol's allocation scheme and mirrors the contract's allocation in plaintext
+ *
+ * @chapter: sdk
+ * @category: randomization
+ *
+ * The contract draws every treatment arm encrypted (contracts/TrialAllocation.sol):
+ * - simple: each patient is an independent draw with the allocation ratio
+ * - permuted-block: each block of `blockSize` patients holds exactly the
+ *   ratio, in random order
+ * - stratified: one permuted block per stratum, where strata split age and/or
+ *   health score at a cutoff; the stratum is computed on the encrypted values
+ *
+ * Ratios other than 1:1 (e.g. 2:1 treatment:placebo) apply to every scheme.
+ * The allocations themselves are never revealed, so balance can only be
+ * studied in plaintext: createAllocator() follows the contract's rules with
+ * a local random generator, and scripts/simulate-allocation.ts uses it to
+ * report balance over many simulated cohorts.
+ *
+ * Usage:
+ * const protocol = {
+ *   ...DEFAULT_PROTOCOL,
+ *   ...defineAllocation({ scheme: "stratified", ratio: [2, 1], blockSize: 6, strata: { ageCutoff: 50 } }),
+ * };
+ */
+
+/** Mirrors TrialAllocation.SIMPLE, PERMUTED_BLOCK and STRATIFIED */
+export enum AllocationScheme {
+  Simple = 0,
+  PermutedBlock = 1,
+  Stratified = 2,
+}
+
+/** Scheme names used in protocol files */
+export const ALLOCATION_SCHEME_NAMES: Record<string, AllocationScheme> = {
+  simple: AllocationScheme.Simple,
+  "permuted-block": AllocationScheme.PermutedBlock,
+  stratified: AllocationScheme.Stratified,
+};
+
+/** Protocol fields holding the allocation scheme */
+export type AllocationSettings = Pick<
+  TrialProtocol,
+  | "allocationScheme"
+  | "treatmentRatio"
+  | "placeboRatio"
+  | "blockSize"
+  | "stratumAgeCutoff"
+  | "stratumHealthScoreCutoff"
+>;
+
+export interface AllocationOptions {
+  scheme: keyof typeof ALLOCATION_SCHEME_NAMES;
+  /** Treatment:placebo, default 1:1 */
+  ratio?: [number, number];
+  /** Patients per block; required by the block schemes */
+  blockSize?: number;
+  /** Stratified only; at least one cutoff */
+  strata?: { ageCutoff?: number; healthScoreCutoff?: number };
+}
+
+/** Patient covariates the strata are defined on */
+export interface StratificationData {
+  age: number;
+  healthScore: number;
+}
+
+/** Simple 1:1 randomization */
+export const SIMPLE_ALLOCATION: AllocationSettings = {
+  allocationScheme: AllocationScheme.Simple,
+  treatmentRatio: 1,
+  placeboRatio: 1,
+  blockSize: 0,
+  stratumAgeCutoff: 0,
+  stratumHealthScoreCutoff: 0,
+};
+
+/**
+ * Check allocation settings the way the contract constructor does
+ *
+ * @returns The problems found, empty when the settings are valid
+ */
+export function allocationProblems(settings: AllocationSettings): string[] {
+  const problems: string[] = [];
+  const {
+    allocationScheme: scheme,
+    treatmentRatio,
+    placeboRatio,
+    blockSize,
+  } = settings;
+  const byte = (value: number) =>
+    Number.isInteger(value) && value >= 0 && value <= 255;
+
+  if (AllocationScheme[scheme] === undefined) {
+    problems.push(`unknown allocation scheme ${scheme}`);
+  }
+  if (!byte(treatmentRatio) || !byte(placeboRatio)) {
+    problems.push(`ratio parts must be integers 1-255`);
+  } else if (treatmentRatio === 0 || placeboRatio === 0) {
+    problems.push(`both arms need a share of the ratio`);
+  }
+  if (scheme !== AllocationScheme.Simple) {
+    const total = treatmentRatio + placeboRatio;
+    if (!byte(blockSize) || blockSize === 0 || blockSize % total !== 0) {
+      problems.push(
+        `block size must be a multiple of ${total} (the ratio total) up to 255, got ${blockSize}`
+      );
+    }
+  } else if (blockSize !== 0) {
+    problems.push("simple allocation has no blocks");
+  }
+
+  const { stratumAgeCutoff: age, stratumHealthScoreCutoff: health } = settings;
+  if (scheme === AllocationScheme.Stratified) {
+    if (!byte(age) || !byte(health) || health > 100) {
+      problems.push(
+        "stratum cutoffs must be ages 0-255 and health scores 0-100"
+      );
+    } else if (age === 0 && health === 0) {
+      problems.push(
+        "stratified allocation needs an age or health score cutoff"
+      );
+    }
+  } else if (age !== 0 || health !== 0) {
+    problems.push("only stratified allocation has strata");
+  }
+  return problems;
+}
+
+/**
+ * Convert allocation options to protocol fields
+ */
+export function defineAllocation(
+  options: AllocationOptions
+): AllocationSettings {
+  const scheme = ALLOCATION_SCHEME_NAMES[options.scheme];
+  if (scheme === undefined) {
+    throw new InvalidInputError(
+      `Unknown allocation scheme "${options.scheme}", expected ${Object.keys(ALLOCATION_SCHEME_NAMES).join(", ")}`
+    );
+  }
+  const [treatmentRatio, placeboRatio] = options.ratio ?? [1, 1];
+  const settings: AllocationSettings = {
+    allocationScheme: scheme,
+    treatmentRatio,
+    placeboRatio,
+    blockSize: options.blockSize ?? 0,
+    stratumAgeCutoff: options.strata?.ageCutoff ?? 0,
+    stratumHealthScoreCutoff: options.strata?.healthScoreCutoff ?? 0,
+  };
+
+  const problems = allocationProblems(settings);
+  if (problems.length > 0) {
+    throw new InvalidInputError(`Invalid allocation: ${problems.join("; ")}`);
+  }
+  return settings;
+}
+
+/**
+ * Stratum index as the contract computes it: bit 0 for ages at or above the
+ * age cutoff, bit 1 for health scores at or above the health score cutoff.
+ * Always 0 outside stratified allocation.
+ */
+export function stratumOf(
+  settings: AllocationSettings,
+  patient: StratificationData
+): number {
+  if (settings.allocationScheme !== AllocationScheme.Stratified) return 0;
+  const older =
+    settings.stratumAgeCutoff > 0 && patient.age >= settings.stratumAgeCutoff;
+  const healthier =
+    settings.stratumHealthScoreCutoff > 0 &&
+    Math.min(patient.healthScore, 100) >= settings.stratumHealthScoreCutoff;
+  return (older ? 1 : 0) + (healthier ? 2 : 0);
+}
+
+/**
+ * Allocate patients in plaintext with the contract's rules, drawing from
+ * `random` (floats in [0, 1)) instead of the coprocessor
+ *
+ * @returns A function giving each next patient's arm: 1 treatment, 0 placebo
+ */
+export function createAllocator(
+  settings: AllocationSettings,
+  random: () => number
+): (patient: StratificationData) => 0 | 1 {
+  const { treatmentRatio, placeboRatio, blockSize } = settings;
+  const total = treatmentRatio + placeboRatio;
+
+  if (settings.allocationScheme === AllocationScheme.Simple) {
+    const threshold = Math.floor((treatmentRatio * 65536) / total);
+    return () => (Math.floor(random() * 65536) < threshold ? 1 : 0);
+  }
+
+  const blockTreatment = Math.floor((blockSize * treatmentRatio) / total);
+  const blocks = [0, 1, 2, 3].map(() => ({ allocated: 0, treated: 0 }));
+  return (patient) => {
+    const block = blocks[stratumOf(settings, patient)];
+    const remaining = blockSize - block.allocated;
+    const remainingTreatment = blockTreatment - block.treated;
+    const arm =
+      Math.floor(random() * 256) * remaining < remainingTreatment * 256 ? 1 : 0;
+
+    block.allocated++;
+    block.treated += arm;
+    if (block.allocated === blockSize) {
+      block.allocated = 0;
+      block.treated = 0;
+    }
+    return arm;
+  };
+}
+
+export interface ArmBalance {
+  patients: number;
+  treatment: number;
+  placebo: number;
+  /** Treatment count minus the count the ratio implies */
+  imbalance: number;
+}
+
+export interface BalanceReport extends ArmBalance {
+  /** Balance within each stratum that has patients, keyed by stratum index */
+  strata: Record<number, ArmBalance>;
+  /** Largest absolute imbalance within a stratum */
+  maxStratumImbalance: number;
+}
+
+/**
+ * Measure how far allocated arms are from the allocation ratio, overall and
+ * per stratum
+ */
+export function measureBalance(
+  settings: AllocationSettings,
+  patients: StratificationData[],
+  arms: number[]
+): BalanceReport {
+  const share =
+    settings.treatmentRatio / (settings.treatmentRatio + settings.placeboRatio);
+  const balance = (indices: number[]): ArmBalance => {
+    const treatment = indices.filter((i) => arms[i] === 1).length;
+    return {
+      patients: indices.length,
+      treatment,
+      placebo: indices.length - treatment,
+      imbalance: treatment - indices.length * share,
+    };
+  };
+
+  const byStratum = new Map<number, number[]>();
+  patients.forEach((patient, i) => {
+    const stratum = stratumOf(settings, patient);
+    byStratum.set(stratum, [...(byStratum.get(stratum) ?? []), i]);
+  });
+  const strata: Record<number, ArmBalance> = {};
+  for (const [stratum, indices] of [...byStratum].sort(([a], [b]) => a - b)) {
+    strata[stratum] = balance(indices);
+  }
+
+  return {
+    ...balance(patients.map((_, i) => i)),
+    strata,
+    maxStratumImbalance: Math.max(
+      0,
+      ...Object.values(strata).map((s) => Math.abs(s.imbalance))
+    ),
+  };
+}
+
+/**
+ * One-line summary for logs, e.g. "permuted blocks of 6, 2:1"
+ */
+export function formatAllocation(settings: AllocationSettings): string {
+  const ratio = `${settings.treatmentRatio}:${settings.placeboRatio}`;
+  switch (settings.allocationScheme) {
+    case AllocationScheme.Simple:
+      return `simple, ${ratio}`;
+    case AllocationScheme.PermutedBlock:
+      return `permuted blocks of ${settings.blockSize}, ${ratio}`;
+    default: {
+      const strata = [];
+      if (settings.stratumAgeCutoff > 0) {
+        strata.push(`age ${settings.stratumAgeCutoff}+`);
+      }
+      if (settings.stratumHealthScoreCutoff > 0) {
+        strata.push(`health score ${settings.stratumHealthScoreCutoff}+`);
+      }
+      return `stratified by ${strata.join(" and ")}, blocks of ${settings.blockSize}, ${ratio}`;
+    }
+  }
+}
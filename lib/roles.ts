@@ -0,0 +1,134 @@
+import { id } from "ethers";
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { InvalidInputError } from "./errors";
+
+/**
+ * @title Trial Roles
+ * @notice Role identifiers and role-holder history for PrivacyPreservingClinicalTrial
+ *
+ * @chapter: sdk
+ * @category: access-control
+ *
+ * The contract stores roles as a mapping and cannot enumerate their holders.
+ * readRoleChanges() replays the RoleGranted/RoleRevoked events instead, and
+ * currentRoleHolders() folds them into the accounts holding each role now.
+ *
+ * Permissions:
+ * - coordinator: grant and revoke roles, advance phases, terminate the trial
+ * - site-investigator: record visit data for enrolled patients, request
+ *   emergency unblinding of a patient (see ./unblinding.ts)
+ * - dsmb: advance phases, terminate the trial, approve or reject unblinding
+ * - auditor: obtain decrypt access to aggregated results
+ * - safety-monitor: decrypt the safety alert of each visit recorded while
+ *   holding the role, reveal the serious event count (see ./safety.ts)
+ */
+
+export const TRIAL_ROLES = [
+  "coordinator",
+  "site-investigator",
+  "dsmb",
+  "auditor",
+  "safety-monitor",
+] as const;
+
+export type TrialRole = (typeof TRIAL_ROLES)[number];
+
+/** Mirrors the *_ROLE constants of the contract */
+export const ROLE_IDS: Record<TrialRole, string> = {
+  coordinator: id("COORDINATOR_ROLE"),
+  "site-investigator": id("SITE_INVESTIGATOR_ROLE"),
+  dsmb: id("DSMB_ROLE"),
+  auditor: id("AUDITOR_ROLE"),
+  "safety-monitor": id("SAFETY_MONITOR_ROLE"),
+};
+
+export interface RoleChange {
+  role: TrialRole;
+  account: string;
+  sender: string;
+  granted: boolean;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Parse a role name as used on the command line
+ */
+export function parseRole(name: string): TrialRole {
+  const role = name.trim().toLowerCase() as TrialRole;
+  if (!TRIAL_ROLES.includes(role)) {
+    throw new InvalidInputError(
+      `Unknown role "${name}", expected one of: ${TRIAL_ROLES.join(", ")}`
+    );
+  }
+  return role;
+}
+
+/**
+ * Role name for an on-chain role id, or undefined if it is not a trial role
+ */
+export function roleName(roleId: string): TrialRole | undefined {
+  return TRIAL_ROLES.find((role) => ROLE_IDS[role] === roleId.toLowerCase());
+}
+
+/**
+ * Every role grant and revocation of a trial, in chain order
+ */
+export async function readRoleChanges(
+  trial: PrivacyPreservingClinicalTrial,
+  fromBlock = 0,
+  toBlock?: number
+): Promise<RoleChange[]> {
+  const [granted, revoked] = await Promise.all([
+    trial.queryFilter(trial.filters.RoleGranted(), fromBlock, toBlock),
+    trial.queryFilter(trial.filters.RoleRevoked(), fromBlock, toBlock),
+  ]);
+
+  const changes: RoleChange[] = [];
+  for (const [events, isGrant] of [
+    [granted, true],
+    [revoked, false],
+  ] as const) {
+    for (const event of events) {
+      const role = roleName(event.args.role);
+      if (!role) continue;
+      changes.push({
+        role,
+        account: event.args.account,
+        sender: event.args.sender,
+        granted: isGrant,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        logIndex: event.index,
+      });
+    }
+  }
+
+  return changes.sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+  );
+}
+
+/**
+ * Accounts holding each role after applying the changes in order
+ */
+export function currentRoleHolders(
+  changes: RoleChange[]
+): Record<TrialRole, string[]> {
+  const holders = Object.fromEntries(
+    TRIAL_ROLES.map((role) => [role, new Set<string>()])
+  ) as Record<TrialRole, Set<string>>;
+
+  for (const change of changes) {
+    if (change.granted) {
+      holders[change.role].add(change.account);
+    } else {
+      holders[change.role].delete(change.account);
+    }
+  }
+
+  return Object.fromEntries(
+    TRIAL_ROLES.map((role) => [role, [...holders[role]]])
+  ) as Record<TrialRole, string[]>;
+}
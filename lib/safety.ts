@@ -0,0 +1,305 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { TrialIndexer } from "./indexer";
+import type { TrialClient } from "./trial-client";
+
+/**
+ * @title Safety Monitoring
+ * @notice Safety thresholds, the plaintext alert rule and a watcher for encrypted safety alerts
+ *
+ * @chapter: sdk
+ * @category: safety
+ *
+ * Every recorded visit's encrypted side-effect level (0-10) is compared on
+ * chain with the protocol's thresholds. The visit raises an alert when the
+ * level reaches `seriousSideEffectLevel`, or when it rose by at least
+ * `sideEffectIncrease` since the week before (0 disables that check). The
+ * alert is an encrypted boolean per patient and week that only the safety
+ * monitors can decrypt: the accounts holding the safety-monitor role when the
+ * visit was recorded. Each alert also counts as a serious event in an
+ * encrypted running total, which a safety monitor can make publicly
+ * decryptable without revealing which patients, arms or weeks it came from.
+ *
+ * SafetyWatcher polls the indexer for new submissions, decrypts their alerts
+ * as a safety monitor and appends one JSON line per visit to a local safety
+ * log. Raised alerts are also POSTed as JSON to a webhook, if one is set.
+ * A visit whose alert could not be decrypted or delivered is logged and
+ * tried again after a delay that doubles with every failed attempt; a retry
+ * that fails the same way adds no line. A visit the ACL does not let the
+ * monitor decrypt is logged once and not retried.
+ *
+ * Usage:
+ * const watcher = new SafetyWatcher(client, indexer, (handle) => fhevm.userDecryptEbool(handle, address, monitor), { logFile, webhookUrl });
+ * const entries = await watcher.poll();
+ */
+
+/** Mirrors TrialSafety.MAX_SIDE_EFFECT_LEVEL; submissions are clamped to it */
+export const MAX_SIDE_EFFECT_LEVEL = 10;
+
+/** Side-effect level that raises an alert when a protocol does not set one */
+export const DEFAULT_SERIOUS_SIDE_EFFECT_LEVEL = 8;
+
+/** Weekly rise that raises an alert when a protocol does not set one */
+export const DEFAULT_SIDE_EFFECT_INCREASE = 3;
+
+export interface SafetyThresholds {
+  seriousSideEffectLevel: number;
+  sideEffectIncrease: number;
+}
+
+export interface SafetyLogEntry {
+  patient: string;
+  week: number;
+  /** Decrypted alert flag; null if the monitor cannot decrypt it */
+  alert: boolean | null;
+  blockNumber: number;
+  transactionHash: string;
+  /** ISO time of the submission's block */
+  submittedAt: string;
+  checkedAt: string;
+  /** Whether the webhook accepted the alert; unset when nothing was sent */
+  notified?: boolean;
+  /** Set when the ACL does not let the monitor decrypt the alert; never retried */
+  denied?: boolean;
+  error?: string;
+}
+
+/** Body POSTed to the webhook for every raised alert */
+export interface SafetyAlertPayload {
+  type: "safety-alert";
+  trial: string;
+  patient: string;
+  week: number;
+  blockNumber: number;
+  transactionHash: string;
+  submittedAt: string;
+}
+
+export interface SafetyWatcherOptions {
+  /** JSON Lines file the entries are appended to */
+  logFile: string;
+  /** URL alerts are POSTed to */
+  webhookUrl?: string;
+  /** Delay before the first retry of a failed visit, doubled per failure (default: 5000) */
+  retryDelayMs?: number;
+}
+
+/** Longest delay between two retries of the same visit */
+export const MAX_SAFETY_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * One-line summary for logs, e.g. "alert at level 8+ or a rise of 3+ in a week"
+ */
+export function formatSafetyThresholds(thresholds: SafetyThresholds): string {
+  const serious = `alert at level ${thresholds.seriousSideEffectLevel}+`;
+  return thresholds.sideEffectIncrease > 0
+    ? `${serious} or a rise of ${thresholds.sideEffectIncrease}+ in a week`
+    : serious;
+}
+
+/**
+ * Plaintext mirror of the on-chain alert rule, for simulations and tests
+ *
+ * `previousLevel` is the level of the week before, undefined if that week
+ * was not recorded. Levels are clamped like the contract clamps them.
+ */
+export function evaluateSafetyAlert(
+  level: number,
+  previousLevel: number | undefined,
+  thresholds: SafetyThresholds
+): boolean {
+  const clamp = (value: number) => Math.min(value, MAX_SIDE_EFFECT_LEVEL);
+  if (clamp(level) >= thresholds.seriousSideEffectLevel) {
+    return true;
+  }
+  return (
+    thresholds.sideEffectIncrease > 0 &&
+    previousLevel !== undefined &&
+    clamp(level) >= clamp(previousLevel) + thresholds.sideEffectIncrease
+  );
+}
+
+/**
+ * Read a safety log written by SafetyWatcher; empty if the file does not exist
+ */
+export function readSafetyLog(file: string): SafetyLogEntry[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as SafetyLogEntry);
+}
+
+/**
+ * POST an alert as JSON; throws unless the endpoint answers with a 2xx status
+ */
+export async function postSafetyWebhook(
+  url: string,
+  payload: SafetyAlertPayload
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook ${url} answered ${response.status}`);
+  }
+}
+
+function visitKey(patient: string, week: number): string {
+  return `${patient.toLowerCase()}:${week}`;
+}
+
+/**
+ * Whether the visit needs no further attempt: the alert was decrypted and,
+ * if it was sent, delivered, or the monitor may never decrypt it
+ */
+function isSettled(entry: SafetyLogEntry): boolean {
+  return (
+    entry.denied === true || (entry.alert !== null && entry.notified !== false)
+  );
+}
+
+/** Whether two entries of a visit record the same outcome */
+function sameOutcome(a: SafetyLogEntry, b: SafetyLogEntry): boolean {
+  return (
+    a.alert === b.alert &&
+    a.notified === b.notified &&
+    a.denied === b.denied &&
+    a.error === b.error
+  );
+}
+
+/**
+ * Whether a decryption failed because the ACL does not allow the account,
+ * which no retry will change
+ */
+function isAccessDenied(error: unknown): boolean {
+  return error instanceof Error && /not authorized/i.test(error.message);
+}
+
+/**
+ * Decrypts the safety alert of every new submission and logs it
+ */
+export class SafetyWatcher {
+  private readonly checked = new Set<string>();
+  /** Last logged entry of every visit not settled yet */
+  private readonly pending = new Map<string, SafetyLogEntry>();
+  /** Failed attempts and the earliest next attempt of pending visits */
+  private readonly retries = new Map<
+    string,
+    { attempts: number; nextAttempt: number }
+  >();
+
+  constructor(
+    private readonly client: TrialClient,
+    private readonly indexer: TrialIndexer,
+    private readonly decryptAlert: (handle: string) => Promise<boolean>,
+    private readonly options: SafetyWatcherOptions
+  ) {
+    for (const entry of readSafetyLog(options.logFile)) {
+      const key = visitKey(entry.patient, entry.week);
+      if (isSettled(entry)) {
+        this.checked.add(key);
+        this.pending.delete(key);
+      } else {
+        this.pending.set(key, entry);
+      }
+    }
+  }
+
+  /**
+   * Sync the indexer and check every submission not settled yet whose retry
+   * is due, in chain order
+   *
+   * @returns The entries appended to the log; a retry that failed like the
+   * previous attempt is not logged again
+   */
+  async poll(): Promise<SafetyLogEntry[]> {
+    await this.indexer.sync();
+    const trial = await this.client.address();
+
+    const entries: SafetyLogEntry[] = [];
+    for (const event of this.indexer.events("ClinicalDataSubmitted")) {
+      const patient = String(event.args.patient);
+      const week = Number(event.args.week);
+      const key = visitKey(patient, week);
+      const retry = this.retries.get(key);
+      if (
+        this.checked.has(key) ||
+        (retry !== undefined && Date.now() < retry.nextAttempt)
+      ) {
+        continue;
+      }
+
+      const entry: SafetyLogEntry = {
+        patient,
+        week,
+        alert: null,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        submittedAt: new Date(event.blockTimestamp * 1000).toISOString(),
+        checkedAt: new Date().toISOString(),
+      };
+      try {
+        entry.alert = await this.decryptAlert(
+          await this.client.safetyAlertHandle(patient, week)
+        );
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        entry.error = `Cannot decrypt alert: ${reason}`;
+        if (isAccessDenied(error)) {
+          entry.denied = true;
+        }
+      }
+
+      if (entry.alert && this.options.webhookUrl) {
+        try {
+          await postSafetyWebhook(this.options.webhookUrl, {
+            type: "safety-alert",
+            trial,
+            patient,
+            week,
+            blockNumber: entry.blockNumber,
+            transactionHash: entry.transactionHash,
+            submittedAt: entry.submittedAt,
+          });
+          entry.notified = true;
+        } catch (error) {
+          entry.notified = false;
+          entry.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      const previous = this.pending.get(key);
+      if (isSettled(entry)) {
+        this.checked.add(key);
+        this.pending.delete(key);
+        this.retries.delete(key);
+      } else {
+        const attempts = (retry?.attempts ?? 0) + 1;
+        const delay = Math.min(
+          (this.options.retryDelayMs ?? 5000) * 2 ** (attempts - 1),
+          MAX_SAFETY_RETRY_DELAY_MS
+        );
+        this.retries.set(key, { attempts, nextAttempt: Date.now() + delay });
+        this.pending.set(key, entry);
+      }
+      if (previous && sameOutcome(previous, entry)) {
+        continue;
+      }
+      this.append(entry);
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  private append(entry: SafetyLogEntry): void {
+    fs.mkdirSync(path.dirname(this.options.logFile), { recursive: true });
+    fs.appendFileSync(this.options.logFile, JSON.stringify(entry) + "\n");
+  }
+}
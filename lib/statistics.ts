@@ -0,0 +1,401 @@
+/**
+ * @title Trial Statistics
+ * @notice Two-arm analysis of the decrypted primary endpoint aggregates
+ *
+ * @chapter: analysis
+ * @category: sdk
+ *
+ * The contract never decrypts individual scores. Per arm it publishes the
+ * number of analysed patients, the sum of their primary endpoint scores and
+ * the sum of their squares (phaseStatistics and ArmStatisticsPublished).
+ * Those are sufficient statistics for each arm's mean and variance, so the
+ * comparison below needs nothing else:
+ * - difference in means (treatment - placebo) with its standard error
+ * - Welch's t-test, which does not assume equal variances
+ * - a confidence interval for the difference on the Welch degrees of freedom
+ * - Cohen's d and Hedges' g on the pooled standard deviation
+ * - power at the observed difference, and the patients per arm needed for
+ *   the target power, both from the normal approximation
+ *
+ * Usage:
+ * const report = analyzeArms(await client.armStatistics());
+ * const report = analyzeArms(indexer.armStatistics()!, { confidenceLevel: 0.9 });
+ */
+
+/** Per-arm sufficient statistics, as published by the contract */
+export interface ArmAggregate {
+  count: number;
+  sum: number;
+  sumOfSquares: number;
+}
+
+export interface ArmAggregates {
+  placebo: ArmAggregate;
+  treatment: ArmAggregate;
+}
+
+export interface AnalysisOptions {
+  /** Confidence level of the interval for the difference (default: 0.95) */
+  confidenceLevel?: number;
+  /** Two-sided significance level of the t-test (default: 0.05) */
+  alpha?: number;
+  /** Power the sample size recommendation aims for (default: 0.8) */
+  targetPower?: number;
+}
+
+export interface ArmSummary {
+  n: number;
+  mean: number | null;
+  /** Sample variance (n - 1 denominator); null below two patients */
+  variance: number | null;
+  standardDeviation: number | null;
+}
+
+/**
+ * Structured result of analyzeArms(); values that cannot be computed from
+ * the data (too few patients, zero variance) are null and explained in warnings
+ */
+export interface StatisticalReport {
+  arms: { placebo: ArmSummary; treatment: ArmSummary };
+  difference: {
+    /** Treatment mean minus placebo mean */
+    estimate: number | null;
+    standardError: number | null;
+    confidenceInterval: {
+      level: number;
+      lower: number | null;
+      upper: number | null;
+    };
+  };
+  welch: {
+    t: number | null;
+    degreesOfFreedom: number | null;
+    /** Two-sided */
+    pValue: number | null;
+  };
+  effectSize: {
+    cohensD: number | null;
+    hedgesG: number | null;
+  };
+  power: {
+    alpha: number;
+    /** Power to detect the observed difference with these arm sizes */
+    observed: number | null;
+    targetPower: number;
+    /** Patients per arm needed to detect the observed difference with the target power */
+    patientsPerArm: number | null;
+  };
+  /** Whether the two-sided Welch test rejects equal means at alpha */
+  significant: boolean;
+  warnings: string[];
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: Required<AnalysisOptions> = {
+  confidenceLevel: 0.95,
+  alpha: 0.05,
+  targetPower: 0.8,
+};
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+  9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/**
+ * Natural logarithm of the gamma function (Lanczos approximation, x > 0)
+ */
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return (
+      Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x)
+    );
+  }
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  for (let i = 0; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i + 1);
+  }
+  const t = z + LANCZOS.length - 0.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+  );
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let result = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = 1 + numerator / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    result *= d * c;
+
+    numerator = -((a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = 1 + numerator / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-15) {
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) -
+      logGamma(a) -
+      logGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x)
+  );
+  // The continued fraction converges fast only on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Cumulative distribution function of Student's t with df degrees of freedom
+ */
+export function studentTCdf(t: number, df: number): number {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Quantile function of Student's t, by bisection on the CDF
+ */
+export function studentTQuantile(p: number, df: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new RangeError(`Probability must be in (0, 1), got ${p}`);
+  }
+  let low = -1;
+  let high = 1;
+  while (studentTCdf(low, df) > p) low *= 2;
+  while (studentTCdf(high, df) < p) high *= 2;
+  for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, df) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Cumulative distribution function of the standard normal distribution
+ */
+export function normalCdf(x: number): number {
+  // erfc with fractional error below 1.2e-7 (Numerical Recipes erfcc)
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * z);
+  const erfc =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t *
+                      (-0.18628806 +
+                        t *
+                          (0.27886807 +
+                            t *
+                              (-1.13520398 +
+                                t *
+                                  (1.48851587 +
+                                    t * (-0.82215223 + t * 0.17087277))))))))
+    );
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+/**
+ * Quantile function of the standard normal distribution (Acklam's algorithm)
+ */
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new RangeError(`Probability must be in (0, 1), got ${p}`);
+  }
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+  if (p < 0.02425) {
+    return tail(Math.sqrt(-2 * Math.log(p)));
+  }
+  if (p > 1 - 0.02425) {
+    return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * Mean and sample variance of one arm from its sufficient statistics
+ */
+export function summarizeArm(arm: ArmAggregate): ArmSummary {
+  const { count: n, sum, sumOfSquares } = arm;
+  if (n === 0) {
+    return { n, mean: null, variance: null, standardDeviation: null };
+  }
+  const mean = sum / n;
+  if (n === 1) {
+    return { n, mean, variance: null, standardDeviation: null };
+  }
+  // Rounding can push a zero variance slightly negative
+  const variance = Math.max(0, (sumOfSquares - n * mean * mean) / (n - 1));
+  return { n, mean, variance, standardDeviation: Math.sqrt(variance) };
+}
+
+function validateOptions(options: Required<AnalysisOptions>): void {
+  for (const [name, value] of Object.entries(options)) {
+    if (!(value > 0 && value < 1)) {
+      throw new RangeError(`${name} must be between 0 and 1, got ${value}`);
+    }
+  }
+}
+
+/**
+ * Compare the treatment arm against placebo
+ */
+export function analyzeArms(
+  aggregates: ArmAggregates,
+  options: AnalysisOptions = {}
+): StatisticalReport {
+  const settings = { ...DEFAULT_ANALYSIS_OPTIONS, ...options };
+  validateOptions(settings);
+  const { confidenceLevel, alpha, targetPower } = settings;
+
+  const placebo = summarizeArm(aggregates.placebo);
+  const treatment = summarizeArm(aggregates.treatment);
+  const warnings: string[] = [];
+
+  const report: StatisticalReport = {
+    arms: { placebo, treatment },
+    difference: {
+      estimate: null,
+      standardError: null,
+      confidenceInterval: { level: confidenceLevel, lower: null, upper: null },
+    },
+    welch: { t: null, degreesOfFreedom: null, pValue: null },
+    effectSize: { cohensD: null, hedgesG: null },
+    power: { alpha, observed: null, targetPower, patientsPerArm: null },
+    significant: false,
+    warnings,
+  };
+
+  if (placebo.mean === null || treatment.mean === null) {
+    warnings.push("An arm has no analysed patients");
+    return report;
+  }
+  const estimate = treatment.mean - placebo.mean;
+  report.difference.estimate = estimate;
+
+  if (placebo.variance === null || treatment.variance === null) {
+    warnings.push("Each arm needs at least two analysed patients");
+    return report;
+  }
+
+  const placeboTerm = placebo.variance / placebo.n;
+  const treatmentTerm = treatment.variance / treatment.n;
+  const standardError = Math.sqrt(placeboTerm + treatmentTerm);
+  if (standardError === 0) {
+    warnings.push("Both arms have zero variance");
+    return report;
+  }
+  report.difference.standardError = standardError;
+
+  // Welch-Satterthwaite degrees of freedom
+  const df =
+    (placeboTerm + treatmentTerm) ** 2 /
+    (placeboTerm ** 2 / (placebo.n - 1) +
+      treatmentTerm ** 2 / (treatment.n - 1));
+  const t = estimate / standardError;
+  const pValue = 2 * (1 - studentTCdf(Math.abs(t), df));
+  report.welch = { t, degreesOfFreedom: df, pValue };
+  report.significant = pValue < alpha;
+
+  const critical = studentTQuantile(1 - (1 - confidenceLevel) / 2, df);
+  report.difference.confidenceInterval.lower =
+    estimate - critical * standardError;
+  report.difference.confidenceInterval.upper =
+    estimate + critical * standardError;
+
+  const pooledVariance =
+    ((placebo.n - 1) * placebo.variance +
+      (treatment.n - 1) * treatment.variance) /
+    (placebo.n + treatment.n - 2);
+  const pooledSd = Math.sqrt(pooledVariance);
+  if (pooledSd > 0) {
+    const cohensD = estimate / pooledSd;
+    // Small-sample bias correction
+    const correction = 1 - 3 / (4 * (placebo.n + treatment.n) - 9);
+    report.effectSize = { cohensD, hedgesG: cohensD * correction };
+  }
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const shift = Math.abs(estimate) / standardError;
+  report.power.observed =
+    normalCdf(shift - zAlpha) + normalCdf(-shift - zAlpha);
+  if (estimate !== 0) {
+    const zPower = normalQuantile(targetPower);
+    report.power.patientsPerArm = Math.ceil(
+      (2 * (zAlpha + zPower) ** 2 * pooledVariance) / estimate ** 2
+    );
+  } else {
+    warnings.push("No observed difference to size a trial for");
+  }
+
+  if (placebo.n < 10 || treatment.n < 10) {
+    warnings.push(
+      "Fewer than 10 analysed patients in an arm; normal-approximation power is unreliable"
+    );
+  }
+  return report;
+}
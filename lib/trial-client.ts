@@ -0,0 +1,962 @@
+import { ZeroAddress, ZeroHash, solidityPackedKeccak256 } from "ethers";
+import type {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+} from "ethers";
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  EncryptedSubmission,
+  FhevmEncryptor,
+  encryptEnrollment,
+  encryptSubmission,
+} from "./encryption";
+import { hashConsentDocument } from "./consent";
+import {
+  DataAlreadySubmittedError,
+  InvalidInputError,
+  NoPhaseTransitionInProgressError,
+  OutsideVisitWindowError,
+  PhaseTransitionInProgressError,
+  PhaseTransitionNotReadyError,
+  TrialError,
+  WrongPhaseError,
+  decodeTrialError,
+} from "./errors";
+import { PageReadOptions, readPages } from "./multicall";
+import type { TrialProtocol } from "./protocol";
+import { ROLE_IDS, TrialRole } from "./roles";
+import type { ArmAggregates } from "./statistics";
+import {
+  UnblindingReason,
+  UnblindingRequestInfo,
+  UnblindingStatus,
+  parseUnblindingReason,
+} from "./unblinding";
+
+/**
+ * @title Trial Client SDK
+ * @notice Typed wrapper around the PrivacyPreservingClinicalTrial contract
+ *
+ * @chapter: sdk
+ * @category: client
+ *
+ * Scripts, tests and tasks share this client instead of calling the typechain
+ * contract directly. It performs the phase checks the contract would enforce
+ * before a transaction is sent, decodes reverts into typed errors (see
+ * ./errors.ts) and returns parsed objects for the status views.
+ *
+ * Enrollment and weekly submissions are encrypted for the connected signer
+ * with the FHEVM instance passed to the constructor (see ./encryption.ts).
+ *
+ * Usage:
+ * const client = new TrialClient(trial.connect(patient), fhevm);
+ * await client.enroll({ age: 35, healthScore: 85, vitalSigns: 12080 });
+ */
+
+/**
+ * Trial phase identifiers, mirroring the contract constants
+ */
+export enum TrialPhase {
+  Enrollment = 1,
+  Treatment = 2,
+  Monitoring = 3,
+  Analysis = 4,
+}
+
+/** Mirrors PrivacyPreservingClinicalTrial.ANALYSIS_BATCH_SIZE */
+export const ANALYSIS_BATCH_SIZE = 15;
+
+/** Mirrors PrivacyPreservingClinicalTrial.ASSIGNMENT_BATCH_SIZE */
+export const ASSIGNMENT_BATCH_SIZE = 200;
+
+/** Mirrors PrivacyPreservingClinicalTrial.MAX_PAGE_SIZE */
+export const MAX_PATIENT_PAGE_SIZE = 100;
+
+/**
+ * Results decryption request lifecycle, mirroring the contract constants
+ */
+export enum AnalysisRequestStatus {
+  Unknown = 0,
+  Pending = 1,
+  Fulfilled = 2,
+  Cancelled = 3,
+}
+
+export const PHASE_NAMES: Record<TrialPhase, string> = {
+  [TrialPhase.Enrollment]: "Patient Enrollment",
+  [TrialPhase.Treatment]: "Treatment Administration",
+  [TrialPhase.Monitoring]: "Patient Monitoring",
+  [TrialPhase.Analysis]: "Data Analysis",
+};
+
+export interface TrialStatus {
+  phase: TrialPhase;
+  phaseName: string;
+  participantCount: number;
+  timeUntilNextPhase: number;
+  canTransition: boolean;
+}
+
+export interface PatientStatus {
+  enrolled: boolean;
+  consentGiven: boolean;
+  enrollmentTime: Date | null;
+  /** Consent form version the patient last agreed to */
+  consentVersion: number;
+  /** When consent was withdrawn; null while it stands */
+  withdrawalTime: Date | null;
+}
+
+/**
+ * One enrolled patient as the paged getPatients() view returns them
+ */
+export interface PatientSummary {
+  address: string;
+  consentGiven: boolean;
+  consentVersion: number;
+  measurementCount: number;
+  /** Recorded weeks in ascending order */
+  submittedWeeks: number[];
+  enrollmentTime: Date | null;
+  withdrawalTime: Date | null;
+}
+
+/**
+ * Submission timestamps of one patient, as the paged getSubmissionTimes() view returns them
+ */
+export interface SubmissionTimes {
+  address: string;
+  /** times[w - 1] is when week w was recorded; null if it was not */
+  times: (Date | null)[];
+}
+
+export interface TrialResultsSummary {
+  phase: TrialPhase;
+  completed: boolean;
+  resultsCalculated: boolean;
+  completionTime: Date | null;
+  participantCount: number;
+  /** Arm sizes, revealed in aggregate once results are calculated (0 before) */
+  placeboGroupSize: number;
+  treatmentGroupSize: number;
+}
+
+export interface AnalysisProgress {
+  /** Whether more batches must be accumulated before decryption is requested */
+  pending: boolean;
+  processed: number;
+  total: number;
+}
+
+export interface TransitionProgress {
+  /** Whether the last transition still has patients to process */
+  inProgress: boolean;
+  /** Phase the trial entered with that transition */
+  phase: TrialPhase;
+  processed: number;
+  total: number;
+}
+
+export interface TreatmentPeriod {
+  /** null until the trial enters treatment */
+  start: Date | null;
+  /** null while treatment is ongoing or has not started */
+  end: Date | null;
+}
+
+export interface AnalysisRequestInfo {
+  requestId: bigint;
+  phase: TrialPhase;
+  status: AnalysisRequestStatus;
+  /** Patients covered, the first patientCount in enrollment order */
+  patientCount: number;
+  /** Covered patients with a primary endpoint measurement */
+  analysedCount: number;
+  patientsHash: string;
+}
+
+export interface EnrollmentInput {
+  age: number;
+  healthScore: number;
+  vitalSigns: number;
+}
+
+export interface WeeklySubmission {
+  week: number;
+  effectivenessScore: number;
+  sideEffectLevel: number;
+  biomarkers: number;
+}
+
+/**
+ * Hash chain over patient addresses, as the contract records it per analysis request
+ */
+export function hashPatientList(patients: string[]): string {
+  return patients.reduce(
+    (hash, patient) =>
+      solidityPackedKeccak256(["bytes32", "address"], [hash, patient]),
+    ZeroHash
+  );
+}
+
+/**
+ * Convert a unix timestamp to a Date, treating zero as "not set"
+ */
+function toDate(timestamp: bigint): Date | null {
+  return timestamp === 0n ? null : new Date(Number(timestamp) * 1000);
+}
+
+/**
+ * Weeks set in a submittedWeeks bitmap, where bit w stands for week w
+ */
+export function decodeSubmittedWeeks(bitmap: bigint): number[] {
+  const weeks: number[] = [];
+  for (let week = 1; bitmap >> BigInt(week) > 0n; week++) {
+    if ((bitmap >> BigInt(week)) & 1n) {
+      weeks.push(week);
+    }
+  }
+  return weeks;
+}
+
+type PatientSummaryStruct = Awaited<
+  ReturnType<PrivacyPreservingClinicalTrial["getPatients"]>
+>[number];
+
+function toPatientSummary(summary: PatientSummaryStruct): PatientSummary {
+  return {
+    address: summary.patient,
+    consentGiven: summary.consentGiven,
+    consentVersion: Number(summary.consentVersion),
+    measurementCount: Number(summary.measurementCount),
+    submittedWeeks: decodeSubmittedWeeks(summary.submittedWeeks),
+    enrollmentTime: toDate(summary.enrollmentTime),
+    withdrawalTime: toDate(summary.withdrawalTime),
+  };
+}
+
+function requirePageSize(limit: number): void {
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PATIENT_PAGE_SIZE) {
+    throw new InvalidInputError(`Page size must be 1-${MAX_PATIENT_PAGE_SIZE}`);
+  }
+}
+
+export class TrialClient {
+  constructor(
+    public readonly contract: PrivacyPreservingClinicalTrial,
+    public readonly fhevm?: FhevmEncryptor
+  ) {}
+
+  /**
+   * Return a client bound to a different signer or provider
+   */
+  connect(runner: ContractRunner): TrialClient {
+    return new TrialClient(this.contract.connect(runner), this.fhevm);
+  }
+
+  async address(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Enroll the connected signer as a patient
+   */
+  async enroll(input: EnrollmentInput): Promise<ContractTransactionReceipt> {
+    await this.requirePhase(TrialPhase.Enrollment);
+    const [fhevm, sender] = await this.encryptionContext();
+    const encrypted = await encryptEnrollment(
+      fhevm,
+      await this.address(),
+      sender,
+      input
+    );
+    return this.send(() =>
+      this.contract.enrollPatient(
+        encrypted.age,
+        encrypted.healthScore,
+        encrypted.vitalSigns,
+        encrypted.inputProof
+      )
+    );
+  }
+
+  /**
+   * Submit one week of clinical measurements for the connected signer
+   */
+  async submitWeek(
+    submission: WeeklySubmission
+  ): Promise<ContractTransactionReceipt> {
+    return this.sendSubmission(submission, (encrypted) =>
+      this.contract.submitClinicalData(
+        encrypted.effectivenessScore,
+        encrypted.sideEffectLevel,
+        encrypted.biomarkers,
+        encrypted.week,
+        encrypted.inputProof
+      )
+    );
+  }
+
+  /**
+   * Record one week of measurements for an enrolled patient (site investigators only)
+   *
+   * The values are encrypted for the connected investigator, who may decrypt
+   * them afterwards; the patient can still decrypt the effectiveness score.
+   */
+  async submitWeekForPatient(
+    patient: string,
+    submission: WeeklySubmission
+  ): Promise<ContractTransactionReceipt> {
+    return this.sendSubmission(submission, (encrypted) =>
+      this.contract.submitClinicalDataForPatient(
+        patient,
+        encrypted.effectivenessScore,
+        encrypted.sideEffectLevel,
+        encrypted.biomarkers,
+        encrypted.week,
+        encrypted.inputProof
+      )
+    );
+  }
+
+  /**
+   * Withdraw the connected patient's consent; final, see ./consent.ts
+   */
+  async withdrawConsent(): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.withdrawConsent());
+  }
+
+  /**
+   * Publish an amended consent form (coordinator only); enrolled patients must
+   * renew their consent before they can submit data again
+   *
+   * @param document The form itself, hashed with hashConsentDocument(), or its 32-byte hash
+   */
+  async publishConsentVersion(
+    document: string | Uint8Array
+  ): Promise<ContractTransactionReceipt> {
+    const documentHash =
+      typeof document === "string" && /^0x[0-9a-fA-F]{64}$/.test(document)
+        ? document
+        : hashConsentDocument(document);
+    return this.send(() => this.contract.publishConsentVersion(documentHash));
+  }
+
+  /**
+   * Agree to a consent form version as the connected patient, by default the
+   * current one
+   */
+  async renewConsent(version?: number): Promise<ContractTransactionReceipt> {
+    const target = version ?? (await this.consentVersion());
+    return this.send(() => this.contract.renewConsent(target));
+  }
+
+  /**
+   * Current consent form version
+   */
+  async consentVersion(): Promise<number> {
+    return Number(await this.contract.currentConsentVersion());
+  }
+
+  /**
+   * Hash of a published consent form version; ZeroHash if never published
+   */
+  async consentDocument(version: number): Promise<string> {
+    return this.contract.consentDocuments(version);
+  }
+
+  /**
+   * Grant a role to an account (coordinators only)
+   */
+  async grantRole(
+    role: TrialRole,
+    account: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.grantRole(ROLE_IDS[role], account));
+  }
+
+  /**
+   * Revoke a role from an account (coordinators only)
+   */
+  async revokeRole(
+    role: TrialRole,
+    account: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.revokeRole(ROLE_IDS[role], account));
+  }
+
+  async hasRole(role: TrialRole, account: string): Promise<boolean> {
+    return this.contract.hasRole(ROLE_IDS[role], account);
+  }
+
+  /**
+   * Give the connected auditor decrypt access to a phase's aggregated results
+   */
+  async allowAggregateDecryption(
+    phase: TrialPhase = TrialPhase.Analysis
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.allowAggregateDecryption(phase));
+  }
+
+  /**
+   * Ask to unblind one patient's arm for a safety event (site investigators only)
+   *
+   * Returns the request id a DSMB member approves or rejects it by.
+   */
+  async requestUnblinding(
+    patient: string,
+    reason: UnblindingReason
+  ): Promise<{ requestId: bigint; receipt: ContractTransactionReceipt }> {
+    parseUnblindingReason(String(reason));
+    const receipt = await this.send(() =>
+      this.contract.requestUnblinding(patient, reason)
+    );
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "UnblindingRequested") {
+        return { requestId: parsed.args.requestId, receipt };
+      }
+    }
+    throw new TrialError("UnblindingRequested event missing from receipt");
+  }
+
+  /**
+   * Approve an unblinding request, which lets the requesting investigator
+   * decrypt the patient's arm (DSMB only, never the requester)
+   */
+  async approveUnblinding(
+    requestId: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.approveUnblinding(requestId));
+  }
+
+  /**
+   * Reject an unblinding request (DSMB only)
+   */
+  async rejectUnblinding(
+    requestId: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.rejectUnblinding(requestId));
+  }
+
+  /**
+   * An unblinding request, or null if the id is unknown
+   */
+  async unblindingRequest(
+    requestId: bigint
+  ): Promise<UnblindingRequestInfo | null> {
+    const request = await this.contract.unblindingRequest(requestId);
+    if (Number(request.status) === UnblindingStatus.Unknown) {
+      return null;
+    }
+    return {
+      requestId,
+      patient: request.patient,
+      investigator: request.investigator,
+      reason: Number(request.reason) as UnblindingReason,
+      status: Number(request.status) as UnblindingStatus,
+      decidedBy: request.decidedBy === ZeroAddress ? null : request.decidedBy,
+      requestedAt: toDate(request.requestedAt)!,
+      decidedAt: toDate(request.decidedAt),
+    };
+  }
+
+  /**
+   * Every unblinding request, oldest first
+   */
+  async unblindingRequests(): Promise<UnblindingRequestInfo[]> {
+    const count = await this.contract.unblindingRequestCount();
+    const requests: UnblindingRequestInfo[] = [];
+    for (let id = 1n; id <= count; id++) {
+      requests.push((await this.unblindingRequest(id))!);
+    }
+    return requests;
+  }
+
+  /**
+   * Handle of a patient's encrypted treatment group (0 placebo, 1 treatment),
+   * which only accounts the ACL allows can decrypt
+   */
+  async treatmentGroupHandle(patient: string): Promise<string> {
+    return (await this.contract.patients(patient)).encryptedTreatmentGroup;
+  }
+
+  /**
+   * Handle of the encrypted safety alert of a recorded visit, which the
+   * safety monitors holding the role at the time can decrypt; ZeroHash if
+   * the week was not recorded (see ./safety.ts)
+   */
+  async safetyAlertHandle(patient: string, week: number): Promise<string> {
+    return this.contract.safetyAlert(patient, week);
+  }
+
+  /**
+   * Handle of the encrypted number of safety alerts raised so far
+   */
+  async seriousEventCountHandle(): Promise<string> {
+    return this.contract.seriousEventCount();
+  }
+
+  /**
+   * Make the current serious event count publicly decryptable (safety
+   * monitors only) and return the revealed handle
+   */
+  async revealSeriousEventCount(): Promise<{
+    handle: string;
+    receipt: ContractTransactionReceipt;
+  }> {
+    const receipt = await this.send(() =>
+      this.contract.revealSeriousEventCount()
+    );
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "SeriousEventCountRevealed") {
+        return { handle: parsed.args.count, receipt };
+      }
+    }
+    throw new TrialError(
+      "SeriousEventCountRevealed event missing from receipt"
+    );
+  }
+
+  /**
+   * Move the trial to its next phase once the current phase has elapsed
+   * (coordinators and the DSMB only)
+   */
+  async advancePhase(): Promise<ContractTransactionReceipt> {
+    if (await this.contract.transitionInProgress()) {
+      throw new PhaseTransitionInProgressError();
+    }
+    const status = await this.status();
+    if (!status.canTransition) {
+      throw new PhaseTransitionNotReadyError(status.timeUntilNextPhase);
+    }
+    return this.send(() => this.contract.transitionToNextPhase());
+  }
+
+  /**
+   * Process the next batch of patients of an unfinished phase transition
+   * (coordinators and the DSMB only)
+   *
+   * The batch size defaults to the most the current phase allows:
+   * ANALYSIS_BATCH_SIZE during the analysis, ASSIGNMENT_BATCH_SIZE otherwise.
+   */
+  async continuePhaseTransition(
+    batchSize?: number
+  ): Promise<ContractTransactionReceipt> {
+    const progress = await this.transitionProgress();
+    if (!progress.inProgress) {
+      throw new NoPhaseTransitionInProgressError();
+    }
+    const maxBatchSize =
+      progress.phase === TrialPhase.Analysis
+        ? ANALYSIS_BATCH_SIZE
+        : ASSIGNMENT_BATCH_SIZE;
+    batchSize ??= maxBatchSize;
+    if (
+      !Number.isInteger(batchSize) ||
+      batchSize < 1 ||
+      batchSize > maxBatchSize
+    ) {
+      throw new InvalidInputError(`Batch size must be 1-${maxBatchSize}`);
+    }
+    return this.send(() => this.contract.continuePhaseTransition(batchSize));
+  }
+
+  /**
+   * Continue the transition until every patient is processed
+   *
+   * Returns one receipt per batch; none if the transition already covered the cohort.
+   */
+  async completePhaseTransition(
+    batchSize?: number
+  ): Promise<ContractTransactionReceipt[]> {
+    const receipts: ContractTransactionReceipt[] = [];
+    while ((await this.transitionProgress()).inProgress) {
+      receipts.push(await this.continuePhaseTransition(batchSize));
+    }
+    return receipts;
+  }
+
+  /**
+   * Terminate the trial immediately (coordinator only)
+   */
+  async terminate(): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.emergencyTermination());
+  }
+
+  async phase(): Promise<TrialPhase> {
+    return Number(await this.contract.currentTrialPhase()) as TrialPhase;
+  }
+
+  async status(): Promise<TrialStatus> {
+    const status = await this.contract.getTrialStatus();
+    const phase = Number(status.phase) as TrialPhase;
+    return {
+      phase,
+      phaseName: PHASE_NAMES[phase] ?? "Unknown Phase",
+      participantCount: Number(status.participantCount),
+      timeUntilNextPhase: Number(status.timeUntilNextPhase),
+      canTransition: status.canTransition,
+    };
+  }
+
+  async patientStatus(patient: string): Promise<PatientStatus> {
+    const status = await this.contract.getPatientStatus(patient);
+    return {
+      enrolled: status.enrolled,
+      consentGiven: status.consentGiven,
+      enrollmentTime: toDate(status.enrollmentTime),
+      consentVersion: Number(status.consentVersion),
+      withdrawalTime: toDate(status.withdrawalTime),
+    };
+  }
+
+  /**
+   * Protocol the trial was deployed with; durations in seconds
+   */
+  async protocol(): Promise<TrialProtocol> {
+    const protocol = await this.contract.protocol();
+    return {
+      enrollmentDuration: Number(protocol.enrollmentDuration),
+      treatmentDuration: Number(protocol.treatmentDuration),
+      monitoringDuration: Number(protocol.monitoringDuration),
+      minAge: Number(protocol.minAge),
+      maxAge: Number(protocol.maxAge),
+      minHealthScore: Number(protocol.minHealthScore),
+      maxHealthScore: Number(protocol.maxHealthScore),
+      minHeartRate: Number(protocol.minHeartRate),
+      maxHeartRate: Number(protocol.maxHeartRate),
+      minDiastolicPressure: Number(protocol.minDiastolicPressure),
+      maxDiastolicPressure: Number(protocol.maxDiastolicPressure),
+      visitWeeks: Number(protocol.visitWeeks),
+      primaryEndpointWeek: Number(protocol.primaryEndpointWeek),
+      significanceThreshold: Number(protocol.significanceThreshold),
+      allocationScheme: Number(protocol.allocationScheme),
+      treatmentRatio: Number(protocol.treatmentRatio),
+      placeboRatio: Number(protocol.placeboRatio),
+      blockSize: Number(protocol.blockSize),
+      stratumAgeCutoff: Number(protocol.stratumAgeCutoff),
+      stratumHealthScoreCutoff: Number(protocol.stratumHealthScoreCutoff),
+      withdrawalPolicy: Number(protocol.withdrawalPolicy),
+      seriousSideEffectLevel: Number(protocol.seriousSideEffectLevel),
+      sideEffectIncrease: Number(protocol.sideEffectIncrease),
+      visitInterval: Number(protocol.visitInterval),
+      visitWindow: Number(protocol.visitWindow),
+      visitWindowPolicy: Number(protocol.visitWindowPolicy),
+    };
+  }
+
+  async transitionProgress(): Promise<TransitionProgress> {
+    const [inProgress, phase, processed, total] = await Promise.all([
+      this.contract.transitionInProgress(),
+      this.phase(),
+      this.contract.transitionCursor(),
+      this.contract.getTrialStatus().then((status) => status.participantCount),
+    ]);
+    return {
+      inProgress,
+      phase,
+      processed: Number(processed),
+      total: Number(total),
+    };
+  }
+
+  async analysisProgress(): Promise<AnalysisProgress> {
+    const { inProgress, phase, processed, total } =
+      await this.transitionProgress();
+    const analysis = phase === TrialPhase.Analysis;
+    return {
+      pending: analysis && inProgress,
+      processed: analysis ? processed : 0,
+      total,
+    };
+  }
+
+  /**
+   * The recorded scope of a results decryption request, by default the latest
+   *
+   * Returns null if the trial never requested decryption.
+   */
+  async analysisRequest(
+    requestId?: bigint
+  ): Promise<AnalysisRequestInfo | null> {
+    const id = requestId ?? (await this.contract.latestAnalysisRequestId());
+    const request = await this.contract.analysisRequests(id);
+    if (Number(request.status) === AnalysisRequestStatus.Unknown) {
+      return null;
+    }
+    return {
+      requestId: id,
+      phase: Number(request.phase) as TrialPhase,
+      status: Number(request.status) as AnalysisRequestStatus,
+      patientCount: Number(request.patientCount),
+      analysedCount: Number(request.analysedCount),
+      patientsHash: request.patientsHash,
+    };
+  }
+
+  /**
+   * The patients a results decryption request covers, checked against its recorded hash
+   */
+  async analysisRequestPatients(requestId?: bigint): Promise<string[]> {
+    const request = await this.analysisRequest(requestId);
+    if (!request) {
+      throw new TrialError("No such analysis request");
+    }
+    const patients = (await this.allPatients())
+      .slice(0, request.patientCount)
+      .map((patient) => patient.address);
+    if (hashPatientList(patients) !== request.patientsHash) {
+      throw new TrialError(
+        `Patient list of request ${request.requestId} does not match its recorded hash`
+      );
+    }
+    return patients;
+  }
+
+  async measurementCount(patient: string): Promise<number> {
+    return Number(await this.contract.getPatientMeasurementCount(patient));
+  }
+
+  /**
+   * When a patient's visit may be recorded; null when visits are unscheduled
+   */
+  async visitWindow(
+    patient: string,
+    week: number
+  ): Promise<{ opens: Date; closes: Date } | null> {
+    const [opens, closes] = await this.contract.getVisitWindow(patient, week);
+    return closes === 0n
+      ? null
+      : { opens: new Date(Number(opens) * 1000), closes: toDate(closes)! };
+  }
+
+  async treatmentPeriod(): Promise<TreatmentPeriod> {
+    const [start, end] = await Promise.all([
+      this.contract.treatmentStartTime(),
+      this.contract.treatmentEndTime(),
+    ]);
+    return { start: toDate(start), end: toDate(end) };
+  }
+
+  /**
+   * Scheduled weeks whose window overlapped treatment and closed without a
+   * record, in ascending order
+   */
+  async missedVisits(patient: string): Promise<number[]> {
+    return decodeSubmittedWeeks(await this.contract.getMissedVisits(patient));
+  }
+
+  /**
+   * One page of enrolled patients in enrollment order
+   */
+  async patientPage(
+    offset = 0,
+    limit = MAX_PATIENT_PAGE_SIZE
+  ): Promise<PatientSummary[]> {
+    requirePageSize(limit);
+    const page = await this.contract.getPatients(offset, limit);
+    return page.map(toPatientSummary);
+  }
+
+  /**
+   * Submission timestamps of one page of patients in enrollment order
+   */
+  async submissionTimesPage(
+    offset = 0,
+    limit = MAX_PATIENT_PAGE_SIZE
+  ): Promise<SubmissionTimes[]> {
+    requirePageSize(limit);
+    const [patients, times] = await Promise.all([
+      this.contract.getPatients(offset, limit),
+      this.contract.getSubmissionTimes(offset, limit),
+    ]);
+    return times.map((row, i) => ({
+      address: patients[i].patient,
+      times: row.map(toDate),
+    }));
+  }
+
+  /**
+   * Every enrolled patient, read page by page
+   *
+   * With options.multicall, several pages are read per eth_call (see ./multicall.ts).
+   */
+  async allPatients(options: PageReadOptions = {}): Promise<PatientSummary[]> {
+    const { participantCount } = await this.status();
+    return this.readPatients(participantCount, options);
+  }
+
+  // The first `count` patients; enrollment only appends, so they stay put
+  private async readPatients(
+    count: number,
+    options: PageReadOptions
+  ): Promise<PatientSummary[]> {
+    const pageSize = options.pageSize ?? MAX_PATIENT_PAGE_SIZE;
+    requirePageSize(pageSize);
+    return readPages(
+      this.contract,
+      "getPatients",
+      count,
+      (page) =>
+        page.map((summary: PatientSummaryStruct) => toPatientSummary(summary)),
+      { ...options, pageSize }
+    );
+  }
+
+  /**
+   * Submission timestamps of every enrolled patient, read page by page
+   */
+  async allSubmissionTimes(
+    options: PageReadOptions = {}
+  ): Promise<SubmissionTimes[]> {
+    const pageSize = options.pageSize ?? MAX_PATIENT_PAGE_SIZE;
+    // One count for both reads, so a patient enrolling in between is in neither
+    const { participantCount } = await this.status();
+    const [patients, times] = await Promise.all([
+      this.readPatients(participantCount, options),
+      readPages(
+        this.contract,
+        "getSubmissionTimes",
+        participantCount,
+        (page) => page.map((row: bigint[]) => row.map(toDate)),
+        { ...options, pageSize }
+      ),
+    ]);
+    return times.map((row, i) => ({
+      address: patients[i].address,
+      times: row,
+    }));
+  }
+
+  async results(
+    phase: TrialPhase = TrialPhase.Analysis
+  ): Promise<TrialResultsSummary> {
+    const [results, stored] = await Promise.all([
+      this.contract.getTrialResults(phase),
+      this.contract.phaseResults(phase),
+    ]);
+    return {
+      phase,
+      completed: results.completed,
+      resultsCalculated: results.resultsCalculated,
+      completionTime: toDate(results.completionTime),
+      participantCount: Number(results.participantCount),
+      placeboGroupSize: Number(stored.placeboGroupSize),
+      treatmentGroupSize: Number(stored.treatmentGroupSize),
+    };
+  }
+
+  /**
+   * Per-arm counts, score sums and sums of squares for analyzeArms() (see ./statistics.ts)
+   *
+   * Returns null until the phase's results have been calculated.
+   */
+  async armStatistics(
+    phase: TrialPhase = TrialPhase.Analysis
+  ): Promise<ArmAggregates | null> {
+    const [stored, stats] = await Promise.all([
+      this.contract.phaseResults(phase),
+      this.contract.phaseStatistics(phase),
+    ]);
+    if (!stored.resultsCalculated) {
+      return null;
+    }
+    return {
+      placebo: {
+        count: Number(stats.placeboCount),
+        sum: Number(stats.placeboScoreSum),
+        sumOfSquares: Number(stats.placeboScoreSquareSum),
+      },
+      treatment: {
+        count: Number(stats.treatmentCount),
+        sum: Number(stats.treatmentScoreSum),
+        sumOfSquares: Number(stats.treatmentScoreSquareSum),
+      },
+    };
+  }
+
+  /**
+   * Throw WrongPhaseError without sending a transaction if the trial is elsewhere
+   */
+  async requirePhase(expected: TrialPhase): Promise<void> {
+    const actual = await this.phase();
+    if (actual !== expected) {
+      throw new WrongPhaseError(expected, actual);
+    }
+  }
+
+  /**
+   * FHEVM instance and sender address needed to encrypt inputs for this contract
+   */
+  private async encryptionContext(): Promise<[FhevmEncryptor, string]> {
+    if (!this.fhevm) {
+      throw new TrialError(
+        "An FHEVM instance is required to encrypt patient data"
+      );
+    }
+    const runner = this.contract.runner as Partial<Signer> | null;
+    if (!runner?.getAddress) {
+      throw new TrialError("A signer is required to send encrypted inputs");
+    }
+    return [this.fhevm, await runner.getAddress()];
+  }
+
+  /**
+   * Validate and encrypt a weekly submission, then send it with `submit`
+   */
+  private async sendSubmission(
+    submission: WeeklySubmission,
+    submit: (
+      encrypted: EncryptedSubmission
+    ) => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    await this.requirePhase(TrialPhase.Treatment);
+    const { visitWeeks } = await this.protocol();
+    if (submission.week > visitWeeks) {
+      throw new InvalidInputError(
+        `Week ${submission.week} is outside the ${visitWeeks}-week visit schedule`
+      );
+    }
+    const [fhevm, sender] = await this.encryptionContext();
+    const encrypted = await encryptSubmission(
+      fhevm,
+      await this.address(),
+      sender,
+      submission
+    );
+    try {
+      return await this.send(() => submit(encrypted));
+    } catch (error) {
+      // Attach the week so callers can report which submission failed
+      if (error instanceof DataAlreadySubmittedError) {
+        throw new DataAlreadySubmittedError(submission.week);
+      }
+      if (error instanceof OutsideVisitWindowError) {
+        throw new OutsideVisitWindowError(submission.week);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a transaction, wait for it to be mined and decode any revert
+   */
+  private async send(
+    submit: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await submit();
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new TrialError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    } catch (error) {
+      throw decodeTrialError(error);
+    }
+  }
+}
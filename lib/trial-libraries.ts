@@ -0,0 +1,80 @@
+import type { BaseContract } from "ethers";
+
+/**
+ * @title Trial Libraries
+ * @notice Deploys the external libraries PrivacyPreservingClinicalTrial links against
+ *
+ * @chapter: deployment
+ * @category: sdk
+ *
+ * The trial delegates logic to external libraries to stay under the 24,576-byte
+ * contract size limit. Calls into them are delegatecalls: msg.sender stays the
+ * trial's caller, and ciphertexts, ACL grants and decryption requests made in
+ * them belong to the trial. Contract factories for the trial need the library
+ * addresses:
+ *
+ * const libraries = await deployTrialLibraries(ethers);
+ * const TrialFactory = await ethers.getContractFactory(
+ *   "PrivacyPreservingClinicalTrial",
+ *   { libraries }
+ * );
+ *
+ * Libraries hold no state, so one deployment serves any number of trials.
+ * ClinicalTrialFactory takes the trial's creation code with the libraries
+ * already linked, see linkTrialCode().
+ */
+
+/** Libraries linked into PrivacyPreservingClinicalTrial */
+export const TRIAL_LIBRARIES = [
+  "TrialAllocation",
+  "TrialAnalysis",
+  "TrialEligibility",
+  "TrialSafety",
+  "TrialUnblinding",
+] as const;
+
+export type TrialLibraryName = (typeof TRIAL_LIBRARIES)[number];
+
+/** Library addresses by name, as taken by getContractFactory's `libraries` option */
+export type TrialLibraries = Record<TrialLibraryName, string>;
+
+/**
+ * The part of hardhat-ethers used to deploy the libraries
+ */
+export interface LibraryDeployer {
+  deployContract(name: string): Promise<BaseContract>;
+  getContractFactory(
+    name: string,
+    options: { libraries: TrialLibraries }
+  ): Promise<{ bytecode: string }>;
+}
+
+/**
+ * Deploy every trial library and return their addresses
+ */
+export async function deployTrialLibraries(
+  ethers: LibraryDeployer
+): Promise<TrialLibraries> {
+  const libraries = {} as TrialLibraries;
+  for (const name of TRIAL_LIBRARIES) {
+    const library = await ethers.deployContract(name);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+  }
+  return libraries;
+}
+
+/**
+ * Creation code of PrivacyPreservingClinicalTrial linked against `libraries`,
+ * as the ClinicalTrialFactory constructor takes it
+ */
+export async function linkTrialCode(
+  ethers: LibraryDeployer,
+  libraries: TrialLibraries
+): Promise<string> {
+  const factory = await ethers.getContractFactory(
+    "PrivacyPreservingClinicalTrial",
+    { libraries }
+  );
+  return factory.bytecode;
+}
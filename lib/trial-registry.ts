@@ -0,0 +1,213 @@
+import type {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import type { ClinicalTrialRegistry } from "../typechain-types";
+import {
+  InvalidInputError,
+  TrialError,
+  UnknownTrialError,
+  decodeTrialError,
+} from "./errors";
+import type { TrialProtocol } from "./protocol";
+
+/**
+ * @title Trial Registry Client
+ * @notice Typed wrapper around the ClinicalTrialRegistry contract
+ *
+ * @chapter: sdk
+ * @category: client
+ *
+ * The registry deploys trials and keeps their metadata (title, sponsor,
+ * protocol hash, coordinator). This client creates trials, reads entries and
+ * pages through the directory. Registered trials are operated with
+ * TrialClient at the address the registry returns.
+ *
+ * Usage:
+ * const registry = new TrialRegistryClient(registryContract.connect(coordinator));
+ * const { trial } = await registry.createTrial({ title, sponsor, protocol });
+ * console.log(trial.address, trial.protocolHash);
+ */
+
+/** Registry key of the registry itself in deployments/<network>.json */
+export const TRIAL_REGISTRY_ID = "ClinicalTrialRegistry";
+
+/** Registry key of the factory the registry deploys trials with */
+export const TRIAL_FACTORY_ID = "ClinicalTrialFactory";
+
+/** Mirrors ClinicalTrialRegistry.MAX_PAGE_SIZE */
+export const MAX_PAGE_SIZE = 100;
+
+export interface RegisteredTrial {
+  id: number;
+  address: string;
+  coordinator: string;
+  title: string;
+  sponsor: string;
+  protocolHash: string;
+  createdAt: Date;
+}
+
+export interface NewTrial {
+  title: string;
+  sponsor: string;
+  protocol: TrialProtocol;
+}
+
+export interface CreatedTrial {
+  trial: RegisteredTrial;
+  receipt: ContractTransactionReceipt;
+}
+
+type TrialRecordStruct = Awaited<ReturnType<ClinicalTrialRegistry["getTrial"]>>;
+
+function toRegisteredTrial(
+  id: number,
+  record: TrialRecordStruct
+): RegisteredTrial {
+  return {
+    id,
+    address: record.trial,
+    coordinator: record.coordinator,
+    title: record.title,
+    sponsor: record.sponsor,
+    protocolHash: record.protocolHash,
+    createdAt: new Date(Number(record.createdAt) * 1000),
+  };
+}
+
+function requirePageSize(limit: number): void {
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new InvalidInputError(`Page size must be 1-${MAX_PAGE_SIZE}`);
+  }
+}
+
+export class TrialRegistryClient {
+  constructor(public readonly contract: ClinicalTrialRegistry) {}
+
+  /**
+   * Return a client bound to a different signer or provider
+   */
+  connect(runner: ContractRunner): TrialRegistryClient {
+    return new TrialRegistryClient(this.contract.connect(runner));
+  }
+
+  async address(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Deploy a trial with the connected signer as coordinator
+   */
+  async createTrial(input: NewTrial): Promise<CreatedTrial> {
+    if (input.title.trim().length === 0) {
+      throw new InvalidInputError("Title required");
+    }
+    if (input.sponsor.trim().length === 0) {
+      throw new InvalidInputError("Sponsor required");
+    }
+
+    const receipt = await this.send(() =>
+      this.contract.createTrial(input.title, input.sponsor, input.protocol)
+    );
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "TrialCreated") {
+        return {
+          trial: await this.trial(Number(parsed.args.trialId)),
+          receipt,
+        };
+      }
+    }
+    throw new TrialError(
+      `Transaction ${receipt.hash} did not emit TrialCreated`
+    );
+  }
+
+  async count(): Promise<number> {
+    return Number(await this.contract.trialCount());
+  }
+
+  async coordinatorCount(coordinator: string): Promise<number> {
+    return Number(await this.contract.coordinatorTrialCount(coordinator));
+  }
+
+  async isRegistered(trial: string): Promise<boolean> {
+    return this.contract.isRegistered(trial);
+  }
+
+  async trial(id: number): Promise<RegisteredTrial> {
+    if (!Number.isInteger(id) || id < 0 || id >= (await this.count())) {
+      throw new UnknownTrialError(id);
+    }
+    return toRegisteredTrial(id, await this.contract.getTrial(id));
+  }
+
+  async trialByAddress(address: string): Promise<RegisteredTrial> {
+    if (!(await this.isRegistered(address))) {
+      throw new UnknownTrialError(address);
+    }
+    return this.trial(Number(await this.contract.getTrialId(address)));
+  }
+
+  /**
+   * One page of trials in creation order
+   */
+  async page(offset = 0, limit = MAX_PAGE_SIZE): Promise<RegisteredTrial[]> {
+    requirePageSize(limit);
+    const records = await this.contract.getTrials(offset, limit);
+    return records.map((record, i) => toRegisteredTrial(offset + i, record));
+  }
+
+  /**
+   * One page of the trials a coordinator created, in creation order
+   */
+  async pageByCoordinator(
+    coordinator: string,
+    offset = 0,
+    limit = MAX_PAGE_SIZE
+  ): Promise<RegisteredTrial[]> {
+    requirePageSize(limit);
+    const [ids, records] = await this.contract.getTrialsByCoordinator(
+      coordinator,
+      offset,
+      limit
+    );
+    return records.map((record, i) =>
+      toRegisteredTrial(Number(ids[i]), record)
+    );
+  }
+
+  /**
+   * Every registered trial, read page by page
+   */
+  async all(pageSize = MAX_PAGE_SIZE): Promise<RegisteredTrial[]> {
+    const trials: RegisteredTrial[] = [];
+    for (;;) {
+      const page = await this.page(trials.length, pageSize);
+      trials.push(...page);
+      if (page.length < pageSize) {
+        return trials;
+      }
+    }
+  }
+
+  /**
+   * Send a transaction, wait for it to be mined and decode any revert
+   */
+  private async send(
+    submit: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await submit();
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new TrialError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    } catch (error) {
+      throw decodeTrialError(error);
+    }
+  }
+}
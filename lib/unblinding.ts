@@ -0,0 +1,156 @@
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { InvalidInputError } from "./errors";
+
+/**
+ * @title Emergency Unblinding
+ * @notice Reason codes, request states and the audit trail of per-patient unblinding
+ *
+ * @chapter: sdk
+ * @category: access-control
+ *
+ * A treating site investigator who needs one patient's arm for a safety event
+ * requests unblinding with a reason code. A DSMB member other than the
+ * requester approves or rejects the request. Approval lets the requesting
+ * investigator, and nobody else, decrypt that patient's encrypted treatment
+ * group; the trial and every other patient stay blinded. The ACL cannot
+ * revoke the access afterwards.
+ *
+ * Every step emits an event (UnblindingRequested, PatientUnblinded,
+ * UnblindingRejected). readUnblindingAudit() replays them into the audit
+ * trail.
+ *
+ * Usage:
+ * const { requestId } = await client.connect(investigator).requestUnblinding(patient, UnblindingReason.SeriousAdverseEvent);
+ * await client.connect(dsmb).approveUnblinding(requestId);
+ * const arm = await fhevm.userDecryptEuint(FhevmType.euint8, await client.treatmentGroupHandle(patient), trialAddress, investigator);
+ */
+
+/** Mirrors the reason codes of TrialUnblinding */
+export enum UnblindingReason {
+  SeriousAdverseEvent = 1,
+  MedicalEmergency = 2,
+  Overdose = 3,
+  Other = 4,
+}
+
+/** Reason names used on the command line */
+export const UNBLINDING_REASON_NAMES: Record<string, UnblindingReason> = {
+  "serious-adverse-event": UnblindingReason.SeriousAdverseEvent,
+  "medical-emergency": UnblindingReason.MedicalEmergency,
+  overdose: UnblindingReason.Overdose,
+  other: UnblindingReason.Other,
+};
+
+/** Mirrors TrialUnblinding.PENDING, APPROVED and REJECTED */
+export enum UnblindingStatus {
+  Unknown = 0,
+  Pending = 1,
+  Approved = 2,
+  Rejected = 3,
+}
+
+/** Arm names by decrypted treatment group */
+export const TREATMENT_ARMS = ["placebo", "treatment"] as const;
+
+export interface UnblindingRequestInfo {
+  requestId: bigint;
+  patient: string;
+  investigator: string;
+  reason: UnblindingReason;
+  status: UnblindingStatus;
+  /** DSMB member who decided; null while pending */
+  decidedBy: string | null;
+  requestedAt: Date;
+  decidedAt: Date | null;
+}
+
+export interface UnblindingAuditEntry {
+  action: "requested" | "approved" | "rejected";
+  requestId: bigint;
+  patient: string;
+  /** Investigator for requests, the deciding DSMB member otherwise */
+  actor: string;
+  /** Set for requests and approvals */
+  reason?: UnblindingReason;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Parse a reason name or code as used on the command line
+ */
+export function parseUnblindingReason(value: string): UnblindingReason {
+  const name = value.trim().toLowerCase();
+  const reason = UNBLINDING_REASON_NAMES[name] ?? Number(name);
+  if (!Object.values(UNBLINDING_REASON_NAMES).includes(reason)) {
+    throw new InvalidInputError(
+      `Unknown unblinding reason "${value}", expected one of: ${Object.keys(UNBLINDING_REASON_NAMES).join(", ")}`
+    );
+  }
+  return reason;
+}
+
+/**
+ * Reason name for logs, e.g. "serious-adverse-event"
+ */
+export function formatUnblindingReason(reason: UnblindingReason): string {
+  return (
+    Object.keys(UNBLINDING_REASON_NAMES).find(
+      (name) => UNBLINDING_REASON_NAMES[name] === reason
+    ) ?? `reason ${reason}`
+  );
+}
+
+/**
+ * Every unblinding request and decision of a trial, in chain order
+ */
+export async function readUnblindingAudit(
+  trial: PrivacyPreservingClinicalTrial,
+  fromBlock = 0,
+  toBlock?: number
+): Promise<UnblindingAuditEntry[]> {
+  const [requested, approved, rejected] = await Promise.all([
+    trial.queryFilter(trial.filters.UnblindingRequested(), fromBlock, toBlock),
+    trial.queryFilter(trial.filters.PatientUnblinded(), fromBlock, toBlock),
+    trial.queryFilter(trial.filters.UnblindingRejected(), fromBlock, toBlock),
+  ]);
+  const position = (event: {
+    blockNumber: number;
+    transactionHash: string;
+    index: number;
+  }) => ({
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    logIndex: event.index,
+  });
+
+  const entries: UnblindingAuditEntry[] = [
+    ...requested.map((event) => ({
+      action: "requested" as const,
+      requestId: event.args.requestId,
+      patient: event.args.patient,
+      actor: event.args.investigator,
+      reason: Number(event.args.reason) as UnblindingReason,
+      ...position(event),
+    })),
+    ...approved.map((event) => ({
+      action: "approved" as const,
+      requestId: event.args.requestId,
+      patient: event.args.patient,
+      actor: event.args.approvedBy,
+      reason: Number(event.args.reason) as UnblindingReason,
+      ...position(event),
+    })),
+    ...rejected.map((event) => ({
+      action: "rejected" as const,
+      requestId: event.args.requestId,
+      patient: event.args.patient,
+      actor: event.args.rejectedBy,
+      ...position(event),
+    })),
+  ];
+  return entries.sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+  );
+}
@@ -0,0 +1,284 @@
+import type { PageReadOptions } from "./multicall";
+import type { TrialProtocol } from "./protocol";
+import type {
+  PatientSummary,
+  TreatmentPeriod,
+  TrialClient,
+} from "./trial-client";
+
+/**
+ * @title Visit Schedule
+ * @notice Visit windows, missed visits and the per-patient compliance report
+ *
+ * @chapter: sdk
+ * @category: visits
+ *
+ * A protocol with a visit interval ties each visit week to the patient's
+ * enrollment: week w is due at enrollmentTime + w * interval and may be
+ * recorded from `window` seconds before to `window` seconds after that time.
+ * The protocol's out-of-window policy decides what happens to a submission
+ * outside it:
+ * - reject: the contract reverts with "Outside visit window"
+ * - flag: it is recorded and VisitOutsideWindow is emitted
+ * A visit whose window closed without a record is missed; windows closing
+ * after a consent withdrawal are not. Visits can only be recorded during
+ * treatment, so windows that closed before treatment started or opened
+ * after it ended are never missed either. Without an interval, visits are
+ * unscheduled: any week may be recorded at any time during treatment and
+ * nothing is ever missed.
+ *
+ * Usage:
+ * const report = await buildComplianceReport(client, now);
+ * formatWeeks(report.patients[0].missed); // "2, 4-5"
+ * await client.missedVisits(patient); // [2, 4, 5], as the contract counts them
+ */
+
+/** Mirrors the contract's VISIT_WINDOW_* constants */
+export enum VisitWindowPolicy {
+  Reject = 0,
+  Flag = 1,
+}
+
+/** Policy names used in protocol files */
+export const VISIT_WINDOW_POLICY_NAMES: Record<string, VisitWindowPolicy> = {
+  reject: VisitWindowPolicy.Reject,
+  flag: VisitWindowPolicy.Flag,
+};
+
+/** The protocol fields that make up the visit schedule */
+export type VisitSchedule = Pick<
+  TrialProtocol,
+  "visitWeeks" | "visitInterval" | "visitWindow" | "visitWindowPolicy"
+>;
+
+export interface VisitWindow {
+  due: Date;
+  /** First second a submission is in the window */
+  opens: Date;
+  /** Last second a submission is in the window */
+  closes: Date;
+}
+
+/**
+ * Where one visit stands:
+ * - completed: recorded, inside its window if it has one
+ * - out-of-window: recorded outside its window (flag policy only)
+ * - missed: the window closed without a record
+ * - open: the window is open now
+ * - upcoming: the window has not opened yet, or visits are unscheduled
+ * - withdrawn: not recorded, and consent was withdrawn before the window closed
+ * - outside-treatment: not recorded, and the window does not overlap treatment
+ */
+export type VisitStatus =
+  | "completed"
+  | "out-of-window"
+  | "missed"
+  | "open"
+  | "upcoming"
+  | "withdrawn"
+  | "outside-treatment";
+
+export interface VisitRecord {
+  week: number;
+  status: VisitStatus;
+  /** null when visits are unscheduled */
+  window: VisitWindow | null;
+  recordedAt: Date | null;
+}
+
+export interface PatientCompliance {
+  address: string;
+  enrollmentTime: Date | null;
+  withdrawalTime: Date | null;
+  visits: VisitRecord[];
+  /** Recorded weeks, in or out of their window */
+  completed: number[];
+  /** Recorded weeks that were outside their window */
+  outOfWindow: number[];
+  missed: number[];
+  /** Unrecorded weeks whose window does not overlap treatment */
+  outsideTreatment: number[];
+  /** Weeks whose window is open or still ahead */
+  upcoming: number[];
+}
+
+export interface ComplianceReport {
+  trial: string;
+  /** Chain time the statuses were evaluated at */
+  asOf: string;
+  schedule: VisitSchedule;
+  treatment: TreatmentPeriod;
+  patients: PatientCompliance[];
+  totals: Record<VisitStatus, number>;
+}
+
+/**
+ * Window of one visit, as getVisitWindow() computes it; null when unscheduled
+ */
+export function visitWindow(
+  schedule: VisitSchedule,
+  enrollmentTime: Date,
+  week: number
+): VisitWindow | null {
+  if (schedule.visitInterval === 0) {
+    return null;
+  }
+  const due = enrollmentTime.getTime() + week * schedule.visitInterval * 1000;
+  return {
+    due: new Date(due),
+    opens: new Date(due - schedule.visitWindow * 1000),
+    closes: new Date(due + schedule.visitWindow * 1000),
+  };
+}
+
+// Whether a window can no longer overlap treatment, as getMissedVisits() decides
+function isOutsideTreatment(
+  window: VisitWindow,
+  treatment: TreatmentPeriod,
+  now: Date
+): boolean {
+  return (
+    window.closes < (treatment.start ?? now) ||
+    (treatment.end !== null && window.opens > treatment.end)
+  );
+}
+
+function statusOf(
+  window: VisitWindow | null,
+  recordedAt: Date | null,
+  withdrawalTime: Date | null,
+  treatment: TreatmentPeriod,
+  now: Date
+): VisitStatus {
+  if (recordedAt) {
+    return window && (recordedAt < window.opens || recordedAt > window.closes)
+      ? "out-of-window"
+      : "completed";
+  }
+  if (window && isOutsideTreatment(window, treatment, now)) {
+    return "outside-treatment";
+  }
+  const cutoff = withdrawalTime ?? now;
+  if (window && window.closes < cutoff) {
+    return "missed";
+  }
+  if (withdrawalTime) {
+    return "withdrawn";
+  }
+  return window && window.opens <= now ? "open" : "upcoming";
+}
+
+/**
+ * Status of every visit of one patient at chain time `now`
+ *
+ * @param times times[w - 1] is when week w was recorded; null if it was not
+ */
+export function patientCompliance(
+  schedule: VisitSchedule,
+  patient: PatientSummary,
+  times: (Date | null)[],
+  treatment: TreatmentPeriod,
+  now: Date
+): PatientCompliance {
+  const visits: VisitRecord[] = [];
+  for (let week = 1; week <= schedule.visitWeeks; week++) {
+    const window = patient.enrollmentTime
+      ? visitWindow(schedule, patient.enrollmentTime, week)
+      : null;
+    const recordedAt = times[week - 1] ?? null;
+    visits.push({
+      week,
+      status: statusOf(
+        window,
+        recordedAt,
+        patient.withdrawalTime,
+        treatment,
+        now
+      ),
+      window,
+      recordedAt,
+    });
+  }
+
+  const weeks = (...statuses: VisitStatus[]) =>
+    visits.filter((v) => statuses.includes(v.status)).map((v) => v.week);
+  return {
+    address: patient.address,
+    enrollmentTime: patient.enrollmentTime,
+    withdrawalTime: patient.withdrawalTime,
+    visits,
+    completed: weeks("completed", "out-of-window"),
+    outOfWindow: weeks("out-of-window"),
+    missed: weeks("missed"),
+    outsideTreatment: weeks("outside-treatment"),
+    upcoming: weeks("open", "upcoming"),
+  };
+}
+
+/**
+ * Compliance of every enrolled patient, read page by page
+ *
+ * @param now Chain time to evaluate the windows at, e.g. the latest block's
+ */
+export async function buildComplianceReport(
+  client: TrialClient,
+  now: Date,
+  options: PageReadOptions = {}
+): Promise<ComplianceReport> {
+  const [schedule, treatment, patients, submissions] = await Promise.all([
+    client.protocol(),
+    client.treatmentPeriod(),
+    client.allPatients(options),
+    client.allSubmissionTimes(options),
+  ]);
+
+  // A patient enrolling between the two reads is only in the later one
+  const count = Math.min(patients.length, submissions.length);
+  const compliance = patients
+    .slice(0, count)
+    .map((patient, i) =>
+      patientCompliance(schedule, patient, submissions[i].times, treatment, now)
+    );
+  const totals: Record<VisitStatus, number> = {
+    completed: 0,
+    "out-of-window": 0,
+    missed: 0,
+    open: 0,
+    upcoming: 0,
+    withdrawn: 0,
+    "outside-treatment": 0,
+  };
+  for (const patient of compliance) {
+    for (const visit of patient.visits) {
+      totals[visit.status]++;
+    }
+  }
+
+  return {
+    trial: await client.address(),
+    asOf: now.toISOString(),
+    schedule: {
+      visitWeeks: schedule.visitWeeks,
+      visitInterval: schedule.visitInterval,
+      visitWindow: schedule.visitWindow,
+      visitWindowPolicy: schedule.visitWindowPolicy,
+    },
+    treatment,
+    patients: compliance,
+    totals,
+  };
+}
+
+/**
+ * Compact list of weeks, e.g. [1, 2, 3, 5] -> "1-3, 5"
+ */
+export function formatWeeks(weeks: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < weeks.length; i++) {
+    let j = i;
+    while (j + 1 < weeks.length && weeks[j + 1] === weeks[j] + 1) j++;
+    ranges.push(i === j ? `${weeks[i]}` : `${weeks[i]}-${weeks[j]}`);
+    i = j;
+  }
+  return ranges.length > 0 ? ranges.join(", ") : "-";
+}
@@ -0,0 +1,274 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, fhevm, network } from "hardhat";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { ContractTransactionReceipt } from "ethers";
+import { LocalDecryptionOracle } from "../lib/decryption-oracle";
+import { generateCohort, weeklyMeasurements } from "../lib/cohort";
+import { DEFAULT_PROTOCOL, TrialProtocol, loadProtocol } from "../lib/protocol";
+import { TrialClient } from "../lib/trial-client";
+import { deployTrialLibraries } from "../lib/trial-libraries";
+
+/**
+ * @title Gas Benchmark
+ * @notice Reports the gas of every trial step for cohorts of increasing size
+ *
+ * @chapter: simulation
+ * @category: scripts
+ *
+ * For each cohort size, deploys a fresh trial, enrolls a generated cohort,
+ * has every patient submit their primary endpoint visit and runs the trial
+ * through to the published results. Phase transitions that cannot process the
+ * whole cohort in one transaction are finished with continuePhaseTransition();
+ * the report lists the transition and its follow-up batches separately, so
+ * the largest single transaction shows whether a step fits in a block.
+ *
+ * Patient data is encrypted with the FHEVM plugin's mock, which outside of
+ * `hardhat test` is only available against a running Hardhat node.
+ *
+ * Usage:
+ * npx hardhat node
+ * npx hardhat run scripts/benchmark-gas.ts --network localhost
+ * COHORT_SIZES=10,50 npx hardhat run scripts/benchmark-gas.ts --network localhost
+ *
+ * Environment:
+ * - COHORT_SIZES: Comma-separated cohort sizes (default: 10,100,500)
+ * - COHORT_SEED: Seed for the cohort generator (default: 1)
+ * - PROTOCOL_FILE: JSON/YAML study protocol (default: the demo protocol)
+ * - REPORT_FILE: Output path (default: reports/gas-benchmark.json)
+ */
+
+interface GasSummary {
+  transactions: number;
+  total: string;
+  mean: string;
+  max: string;
+}
+
+interface TransitionGas {
+  transition: string;
+  batches: GasSummary;
+}
+
+interface CohortBenchmark {
+  size: number;
+  deployment: string;
+  enrollment: GasSummary;
+  treatmentTransition: TransitionGas;
+  submissions: GasSummary;
+  monitoringTransition: TransitionGas;
+  analysisTransition: TransitionGas;
+  decryptionCallback: string | null;
+  /** Largest gas used by any one transaction of the run */
+  maxTransaction: string;
+  /** All gas of the run, deployment included, divided by the cohort size */
+  perPatient: string;
+}
+
+function summarizeGas(receipts: ContractTransactionReceipt[]): GasSummary {
+  const used = receipts.map((receipt) => receipt.gasUsed);
+  const total = used.reduce((sum, gas) => sum + gas, 0n);
+  return {
+    transactions: used.length,
+    total: total.toString(),
+    mean: used.length > 0 ? (total / BigInt(used.length)).toString() : "0",
+    max: used.reduce((max, gas) => (gas > max ? gas : max), 0n).toString(),
+  };
+}
+
+function readSizes(): number[] {
+  const value = process.env.COHORT_SIZES ?? "10,100,500";
+  const sizes = value.split(",").map((size) => Number(size.trim()));
+  if (!sizes.every((size) => Number.isInteger(size) && size >= 1)) {
+    throw new Error(
+      `COHORT_SIZES must be a comma-separated list of positive integers, got ${value}`
+    );
+  }
+  return sizes;
+}
+
+/**
+ * Wait until the current phase may end, transition, and finish the transition
+ */
+async function advance(
+  client: TrialClient,
+  receipts: ContractTransactionReceipt[]
+): Promise<TransitionGas> {
+  await time.increaseTo(await client.contract.phaseTransitionTime());
+  const transition = await client.advancePhase();
+  const batches = await client.completePhaseTransition();
+  receipts.push(transition, ...batches);
+  return {
+    transition: transition.gasUsed.toString(),
+    batches: summarizeGas(batches),
+  };
+}
+
+async function benchmark(
+  protocol: TrialProtocol,
+  size: number,
+  seed: number
+): Promise<CohortBenchmark> {
+  const [coordinator] = await ethers.getSigners();
+  const TrialFactory = await ethers.getContractFactory(
+    "PrivacyPreservingClinicalTrial",
+    {
+      libraries: await deployTrialLibraries(ethers),
+    }
+  );
+  const trial = await TrialFactory.deploy(protocol, coordinator.address);
+  const deployReceipt = (await trial.deploymentTransaction()!.wait())!;
+  const client = new TrialClient(trial, fhevm);
+  const oracle = await LocalDecryptionOracle.create(
+    ethers.provider,
+    fhevm,
+    coordinator,
+    deployReceipt.blockNumber
+  );
+  const receipts: ContractTransactionReceipt[] = [];
+
+  // Nobody drops out, so every patient submits the endpoint visit
+  const cohort = generateCohort({
+    size,
+    seed,
+    weeks: protocol.visitWeeks,
+    dropoutRate: 0,
+  });
+  const wallets = cohort.map(
+    (patient) =>
+      new ethers.Wallet(
+        ethers.id(`benchmark-${seed}-${size}-${patient.id}`),
+        ethers.provider
+      )
+  );
+
+  console.log(`\n👥 Enrolling ${size} patients...`);
+  const enrollments: ContractTransactionReceipt[] = [];
+  for (const [i, patient] of cohort.entries()) {
+    await setBalance(wallets[i].address, ethers.parseEther("1"));
+    enrollments.push(
+      await client.connect(wallets[i]).enroll({
+        age: patient.age,
+        healthScore: patient.healthScore,
+        vitalSigns: patient.vitalSigns,
+      })
+    );
+  }
+  receipts.push(...enrollments);
+
+  const treatmentTransition = await advance(client, receipts);
+
+  console.log("💊 Submitting endpoint visits...");
+  const submissions: ContractTransactionReceipt[] = [];
+  for (const [i, patient] of cohort.entries()) {
+    const endpoint = weeklyMeasurements(patient, false).find(
+      (measurement) => measurement.week === protocol.primaryEndpointWeek
+    )!;
+    submissions.push(await client.connect(wallets[i]).submitWeek(endpoint));
+  }
+  receipts.push(...submissions);
+
+  const monitoringTransition = await advance(client, receipts);
+  console.log("📊 Analysing...");
+  const analysisTransition = await advance(client, receipts);
+
+  const [callback] = await oracle.fulfilAll();
+  const total =
+    deployReceipt.gasUsed +
+    receipts.reduce((sum, receipt) => sum + receipt.gasUsed, 0n) +
+    (callback?.gasUsed ?? 0n);
+  const maxTransaction = [deployReceipt, ...receipts].reduce(
+    (max, receipt) => (receipt.gasUsed > max ? receipt.gasUsed : max),
+    callback?.gasUsed ?? 0n
+  );
+
+  return {
+    size,
+    deployment: deployReceipt.gasUsed.toString(),
+    enrollment: summarizeGas(enrollments),
+    treatmentTransition,
+    submissions: summarizeGas(submissions),
+    monitoringTransition,
+    analysisTransition,
+    decryptionCallback: callback?.gasUsed?.toString() ?? null,
+    maxTransaction: maxTransaction.toString(),
+    perPatient: (total / BigInt(size)).toString(),
+  };
+}
+
+function printTransition(label: string, gas: TransitionGas) {
+  const batches =
+    gas.batches.transactions > 0
+      ? ` + ${gas.batches.transactions} batch(es), max ${gas.batches.max}`
+      : "";
+  console.log(`  ${label.padEnd(22)}${gas.transition}${batches}`);
+}
+
+async function main() {
+  if (network.name !== "localhost") {
+    throw new Error(
+      "The gas benchmark manipulates time and only runs against a local Hardhat node (--network localhost)"
+    );
+  }
+
+  const protocol = process.env.PROTOCOL_FILE
+    ? loadProtocol(process.env.PROTOCOL_FILE)
+    : DEFAULT_PROTOCOL;
+  const sizes = readSizes();
+  const seed = Number(process.env.COHORT_SEED ?? 1);
+
+  console.log("=".repeat(60));
+  console.log("Privacy-Preserving Clinical Trial - Gas Benchmark");
+  console.log("=".repeat(60));
+  console.log(`Cohort sizes: ${sizes.join(", ")}`);
+
+  // Connects the plugin's mock to the node so patients can encrypt their data
+  await fhevm.initializeCLIApi();
+
+  const cohorts: CohortBenchmark[] = [];
+  for (const size of sizes) {
+    cohorts.push(await benchmark(protocol, size, seed));
+  }
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    network: network.name,
+    seed,
+    cohorts,
+  };
+  const reportFile =
+    process.env.REPORT_FILE ||
+    path.join(__dirname, "..", "reports", "gas-benchmark.json");
+  fs.mkdirSync(path.dirname(reportFile), { recursive: true });
+  fs.writeFileSync(reportFile, JSON.stringify(report, null, 2) + "\n");
+
+  for (const cohort of cohorts) {
+    console.log("\n" + "-".repeat(60));
+    console.log(`${cohort.size} patients`);
+    console.log(`  ${"Deployment".padEnd(22)}${cohort.deployment}`);
+    console.log(`  ${"Enrollment (mean)".padEnd(22)}${cohort.enrollment.mean}`);
+    printTransition("→ Treatment", cohort.treatmentTransition);
+    console.log(
+      `  ${"Submission (mean)".padEnd(22)}${cohort.submissions.mean}`
+    );
+    printTransition("→ Monitoring", cohort.monitoringTransition);
+    printTransition("→ Analysis", cohort.analysisTransition);
+    console.log(
+      `  ${"Decryption callback".padEnd(22)}${cohort.decryptionCallback ?? "none"}`
+    );
+    console.log(
+      `  ${"Largest transaction".padEnd(22)}${cohort.maxTransaction}`
+    );
+    console.log(`  ${"Per patient".padEnd(22)}${cohort.perPatient}`);
+  }
+  console.log("-".repeat(60));
+  console.log(`\n💾 Report written to ${reportFile}\n`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Benchmark failed!");
+    console.error(error);
+    process.exit(1);
+  });
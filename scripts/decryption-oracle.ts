@@ -0,0 +1,125 @@
+import { ethers, fhevm, network } from "hardhat";
+import {
+  CallbackResult,
+  DecryptionRequest,
+  FulfilOptions,
+  LocalDecryptionOracle,
+} from "../lib/decryption-oracle";
+
+/**
+ * @title Local Decryption Oracle Watcher
+ * @notice Answers decryption requests on a local Hardhat node so analysis callbacks run
+ *
+ * @chapter: simulation
+ * @category: scripts
+ *
+ * Polls the node for DecryptionRequest events and answers each one through
+ * LocalDecryptionOracle. ORACLE_MODE selects how: answer normally, answer
+ * with invalid signatures first and retry on the next poll, drop the request,
+ * or answer and then replay the same callback.
+ *
+ * Usage:
+ * npx hardhat node
+ * npx hardhat run scripts/decryption-oracle.ts --network localhost
+ * ORACLE_MODE=fail ORACLE_DELAY_SECONDS=3600 npx hardhat run scripts/decryption-oracle.ts --network localhost
+ *
+ * Environment:
+ * - ORACLE_MODE: fulfil, fail, drop or replay (default: fulfil)
+ * - ORACLE_DELAY_SECONDS: Chain time to let pass before each callback (default: 0)
+ * - ORACLE_DELAY_BLOCKS: Empty blocks to mine before each callback (default: 0)
+ * - ORACLE_POLL_MS: Polling interval in milliseconds (default: 2000)
+ * - ORACLE_FROM_BLOCK: First block to watch (default: the next block)
+ * - ORACLE_ONCE: Set to 1 to answer the pending requests once and exit
+ * - SIGNER_INDEX: Index of the signer that sends the callbacks (default: 0)
+ */
+
+const MODES = ["fulfil", "fail", "drop", "replay"] as const;
+type OracleMode = (typeof MODES)[number];
+
+function summarize(request: DecryptionRequest): string {
+  return `request ${request.requestId} from ${request.contract} (${request.handles.length} handles)`;
+}
+
+function report(result: CallbackResult, label: string) {
+  const outcome = result.reverted ? "reverted" : `gas ${result.gasUsed}`;
+  console.log(`   ${label}: ${outcome} ${result.transactionHash ?? ""}`);
+}
+
+async function main() {
+  if (network.name !== "localhost") {
+    throw new Error(
+      "The decryption oracle stand-in only runs against a local Hardhat node (--network localhost)"
+    );
+  }
+
+  const env = process.env;
+  const mode = (env.ORACLE_MODE ?? "fulfil") as OracleMode;
+  if (!MODES.includes(mode)) {
+    throw new Error(
+      `ORACLE_MODE must be one of ${MODES.join(", ")}, got ${env.ORACLE_MODE}`
+    );
+  }
+  const options: FulfilOptions = {
+    delaySeconds: Number(env.ORACLE_DELAY_SECONDS ?? 0),
+    delayBlocks: Number(env.ORACLE_DELAY_BLOCKS ?? 0),
+  };
+  const pollMs = Number(env.ORACLE_POLL_MS ?? 2000);
+  const once = env.ORACLE_ONCE === "1";
+
+  await fhevm.initializeCLIApi();
+
+  const signers = await ethers.getSigners();
+  const relayer = signers[Number(env.SIGNER_INDEX ?? 0)];
+  const oracle = await LocalDecryptionOracle.create(
+    ethers.provider,
+    fhevm,
+    relayer,
+    env.ORACLE_FROM_BLOCK ? Number(env.ORACLE_FROM_BLOCK) : undefined
+  );
+
+  console.log(`🔮 Decryption oracle stand-in (${mode}) as ${relayer.address}`);
+
+  // Requests that already received their deliberately failed callback
+  const failedOnce = new Set<bigint>();
+
+  const round = async () => {
+    await oracle.poll();
+    for (const request of oracle.pending()) {
+      console.log(`📨 ${summarize(request)}`);
+      if (mode === "drop") {
+        oracle.drop(request);
+        console.log("   dropped");
+        continue;
+      }
+
+      const corruptProof =
+        mode === "fail" && !failedOnce.has(request.requestId);
+      const result = await oracle.fulfil(request, { ...options, corruptProof });
+      report(result, corruptProof ? "invalid callback" : "callback");
+      if (corruptProof) {
+        failedOnce.add(request.requestId);
+      }
+      if (mode === "replay" && !result.reverted) {
+        report(await oracle.replay(request), "replay");
+      }
+    }
+  };
+
+  await round();
+  // In fail mode the retry happens on the next round
+  if (once && mode === "fail") {
+    await round();
+  }
+  while (!once) {
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+    await round();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Decryption oracle failed!");
+    console.error(error);
+    process.exit(1);
+  });
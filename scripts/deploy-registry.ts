@@ -0,0 +1,231 @@
+import { artifacts, config, ethers, network } from "hardhat";
+import {
+  DeploymentRecord,
+  findMatchingDeployment,
+  hashAbi,
+  hashBytecode,
+  loadRegistry,
+  recordDeployment,
+  saveRegistry,
+} from "../lib/deployments";
+import {
+  TRIAL_LIBRARIES,
+  deployTrialLibraries,
+  linkTrialCode,
+} from "../lib/trial-libraries";
+import { TRIAL_FACTORY_ID, TRIAL_REGISTRY_ID } from "../lib/trial-registry";
+
+/**
+ * @title Clinical Trial Registry Deployment Script
+ * @notice Deploys the ClinicalTrialRegistry that creates and lists trials
+ *
+ * @chapter: deployment
+ * @category: scripts
+ *
+ * The registry deploys trials through a ClinicalTrialFactory, which is
+ * deployed first. Both are recorded in deployments/<network>.json, under
+ * "ClinicalTrialFactory" and "ClinicalTrialRegistry"; the registry:* tasks
+ * look the registry up there. The factory holds the trial's creation code,
+ * linked against freshly deployed trial libraries (lib/trial-libraries.ts)
+ * whose addresses are recorded with it. It is reused while the factory, the
+ * trial and the libraries compile to the same bytecode.
+ *
+ * Usage:
+ * - Local: npx hardhat run scripts/deploy-registry.ts --network localhost
+ * - Devnet: npx hardhat run scripts/deploy-registry.ts --network zamaDevnet
+ *
+ * Environment:
+ * - FORCE_DEPLOY=true: Deploy even if a matching registry is already registered
+ * - DEPLOY_HISTORY=true: Keep the replaced deployment in the registry history
+ */
+
+const CONTRACT_NAME = "ClinicalTrialRegistry";
+const FACTORY_CONTRACT_NAME = "ClinicalTrialFactory";
+
+/**
+ * What deployRecorded() deploys and how a registered deployment is matched
+ */
+interface ContractPlan {
+  /**
+   * Artifacts whose bytecode identifies the build, the contract's own first;
+   * their combined hash is recorded and compared as bytecodeHash
+   */
+  artifacts: string[];
+  /** Constructor arguments as recorded and compared */
+  constructorArgs: unknown[];
+  /**
+   * Resolves the arguments actually passed and the libraries to record, when
+   * they differ from constructorArgs; only called when the contract is deployed
+   */
+  prepare?: () => Promise<{
+    args: unknown[];
+    libraries?: Record<string, string>;
+  }>;
+}
+
+interface DeployOptions {
+  chainId: number;
+  deployer: string;
+  force: boolean;
+  keepHistory: boolean;
+}
+
+/**
+ * Deploy a contract and record it, unless a matching deployment is registered
+ *
+ * @returns The address, and whether it was deployed now
+ */
+async function deployRecorded(
+  contractName: string,
+  id: string,
+  plan: ContractPlan,
+  options: DeployOptions
+): Promise<{ address: string; deployed: boolean }> {
+  // Refuse to redeploy an identical contract unless forced
+  const built = await Promise.all(
+    plan.artifacts.map((name) => artifacts.readArtifact(name))
+  );
+  const abiHash = hashAbi(built[0].abi);
+  const bytecodeHash = hashBytecode(
+    "0x" + built.map((artifact) => artifact.bytecode.slice(2)).join("")
+  );
+  const { constructorArgs } = plan;
+
+  let registry = loadRegistry(network.name, options.chainId);
+  const existing = findMatchingDeployment(registry, {
+    trialId: id,
+    abiHash,
+    bytecodeHash,
+    constructorArgs,
+  });
+
+  if (existing && (await ethers.provider.getCode(existing.address)) !== "0x") {
+    if (!options.force) {
+      console.log(
+        `\nℹ️  ${contractName} is already deployed at ${existing.address} (block ${existing.blockNumber})`
+      );
+      return { address: existing.address, deployed: false };
+    }
+    console.log(
+      `\n⚠️  Redeploying over ${existing.address} (FORCE_DEPLOY=true)`
+    );
+  }
+
+  console.log(`\nDeploying ${contractName}...`);
+  const { args, libraries } = plan.prepare
+    ? await plan.prepare()
+    : { args: constructorArgs, libraries: undefined };
+  const ContractFactory = await ethers.getContractFactory(contractName);
+  const contract = await ContractFactory.deploy(...args);
+  await contract.waitForDeployment();
+  const receipt = await contract.deploymentTransaction()?.wait();
+  const contractAddress = await contract.getAddress();
+
+  const compiler = config.solidity.compilers[0];
+  const deploymentInfo: DeploymentRecord = {
+    trialId: id,
+    contractName,
+    address: contractAddress,
+    chainId: options.chainId,
+    blockNumber:
+      receipt?.blockNumber ?? (await ethers.provider.getBlockNumber()),
+    transactionHash: contract.deploymentTransaction()?.hash ?? "",
+    deployer: options.deployer,
+    deployedAt: new Date().toISOString(),
+    constructorArgs,
+    libraries,
+    compiler: {
+      version: compiler.version,
+      optimizer: compiler.settings?.optimizer,
+      evmVersion: compiler.settings?.evmVersion,
+    },
+    abiHash,
+    bytecodeHash,
+  };
+
+  registry = recordDeployment(registry, deploymentInfo, {
+    keepHistory: options.keepHistory,
+  });
+  const registryFile = saveRegistry(registry);
+
+  console.log(`✅ ${contractName} deployed to ${contractAddress}`);
+  console.log(
+    `💾 Registered in ${registryFile}${options.keepHistory ? " (history kept)" : ""}`
+  );
+  return { address: contractAddress, deployed: true };
+}
+
+async function main() {
+  console.log("=".repeat(60));
+  console.log("Clinical Trial Registry - Deployment");
+  console.log("=".repeat(60));
+
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const [deployer] = await ethers.getSigners();
+  const options: DeployOptions = {
+    chainId,
+    deployer: await deployer.getAddress(),
+    force: process.env.FORCE_DEPLOY === "true",
+    keepHistory: process.env.DEPLOY_HISTORY === "true",
+  };
+
+  console.log(`\nNetwork: ${network.name}`);
+  console.log(`Chain ID: ${chainId}`);
+  console.log(`Deployer: ${options.deployer}`);
+
+  // The factory only changes with the trial contract, so keep reusing it.
+  // Its one argument, the linked trial code, follows from the build and the
+  // recorded libraries, so it is not recorded itself.
+  const factory = await deployRecorded(
+    FACTORY_CONTRACT_NAME,
+    TRIAL_FACTORY_ID,
+    {
+      artifacts: [
+        FACTORY_CONTRACT_NAME,
+        "PrivacyPreservingClinicalTrial",
+        ...TRIAL_LIBRARIES,
+      ],
+      constructorArgs: [],
+      prepare: async () => {
+        const libraries = await deployTrialLibraries(ethers);
+        return {
+          args: [await linkTrialCode(ethers, libraries)],
+          libraries,
+        };
+      },
+    },
+    { ...options, force: false }
+  );
+  const registry = await deployRecorded(
+    CONTRACT_NAME,
+    TRIAL_REGISTRY_ID,
+    { artifacts: [CONTRACT_NAME], constructorArgs: [factory.address] },
+    options
+  );
+  if (!registry.deployed) {
+    console.log("   Set FORCE_DEPLOY=true to deploy a new instance.");
+    return;
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("Next Steps:");
+  console.log("=".repeat(60));
+  console.log(`
+1. Create a trial (the sending account becomes its coordinator):
+   npx hardhat registry:create --title "Hypertension Phase II" --sponsor "Acme Pharma" --protocol-file protocols/example.yaml --network ${network.name}
+
+2. List trials:
+   npx hardhat registry:list --network ${network.name}
+
+3. Inspect a trial:
+   npx hardhat registry:show --id 0 --network ${network.name}
+  `);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Registry deployment failed!");
+    console.error(error);
+    process.exit(1);
+  });
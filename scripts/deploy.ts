@@ -1,4 +1,24 @@
-import { ethers, network, run } from "hardhat";
+import { artifacts, config, ethers, network, run } from "hardhat";
+import {
+  DEFAULT_TRIAL_ID,
+  DeploymentRecord,
+  findMatchingDeployment,
+  hashAbi,
+  hashBytecode,
+  loadRegistry,
+  recordDeployment,
+  saveRegistry,
+} from "../lib/deployments";
+import { formatEligibility } from "../lib/eligibility";
+import { supportsEncryptedInput } from "../lib/encryption";
+import {
+  DEFAULT_PROTOCOL,
+  TrialProtocol,
+  formatDuration,
+  loadProtocol,
+} from "../lib/protocol";
+import { formatAllocation } from "../lib/randomization";
+import { deployTrialLibraries } from "../lib/trial-libraries";
 
 /**
  * @title Privacy-Preserving Clinical Trial Deployment Script
@@ -11,16 +31,51 @@ import { ethers, network, run } from "hardhat";
  * - Local: npx hardhat run scripts/deploy.ts --network hardhat
  * - Devnet: npx hardhat run scripts/deploy.ts --network zamaDevnet
  * - Testnet: npx hardhat run scripts/deploy.ts --network zamaTestnet
+ *
+ * Environment:
+ * - PROTOCOL_FILE: JSON/YAML study protocol (default: the demo protocol, see lib/protocol.ts)
+ * - TRIAL_ID: Registry key for this trial (default: PrivacyPreservingClinicalTrial)
+ * - FORCE_DEPLOY=true: Deploy even if a matching deployment is already registered
+ * - DEPLOY_HISTORY=true: Keep the replaced deployment in the registry history
  */
 
+const CONTRACT_NAME = "PrivacyPreservingClinicalTrial";
+
+function printProtocol(protocol: TrialProtocol) {
+  console.log(
+    `Phases: enrollment ${formatDuration(protocol.enrollmentDuration)}, ` +
+      `treatment ${formatDuration(protocol.treatmentDuration)}, ` +
+      `monitoring ${formatDuration(protocol.monitoringDuration)}`
+  );
+  console.log(`Eligibility: ${formatEligibility(protocol)}`);
+  console.log(`Allocation: ${formatAllocation(protocol)}`);
+  console.log(`Visit weeks: ${protocol.visitWeeks}`);
+  console.log(
+    `Primary endpoint: week ${protocol.primaryEndpointWeek}, ` +
+      `threshold ${protocol.significanceThreshold} points`
+  );
+}
+
 async function main() {
   console.log("=".repeat(60));
   console.log("Privacy-Preserving Clinical Trial - Deployment");
   console.log("=".repeat(60));
 
+  // Validate the protocol before touching the network
+  const protocolFile = process.env.PROTOCOL_FILE;
+  const protocol = protocolFile ? loadProtocol(protocolFile) : DEFAULT_PROTOCOL;
+  console.log(`\nProtocol: ${protocolFile ?? "demo defaults"}`);
+  printProtocol(protocol);
+
   // Get network information
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const trialId = process.env.TRIAL_ID || DEFAULT_TRIAL_ID;
+  const force = process.env.FORCE_DEPLOY === "true";
+  const keepHistory = process.env.DEPLOY_HISTORY === "true";
+
   console.log(`\nNetwork: ${network.name}`);
-  console.log(`Chain ID: ${network.config.chainId}`);
+  console.log(`Chain ID: ${chainId}`);
+  console.log(`Trial ID: ${trialId}`);
 
   // Get deployer account
   const [deployer] = await ethers.getSigners();
@@ -36,18 +91,53 @@ async function main() {
     process.exit(1);
   }
 
+  // Refuse to redeploy an identical contract unless forced
+  const artifact = await artifacts.readArtifact(CONTRACT_NAME);
+  const constructorArgs: unknown[] = [protocol, deployerAddress];
+  const abiHash = hashAbi(artifact.abi);
+  const bytecodeHash = hashBytecode(artifact.bytecode);
+
+  let registry = loadRegistry(network.name, chainId);
+  const existing = findMatchingDeployment(registry, {
+    trialId,
+    abiHash,
+    bytecodeHash,
+    constructorArgs,
+  });
+
+  if (existing && (await ethers.provider.getCode(existing.address)) !== "0x") {
+    if (!force) {
+      console.log("\n" + "-".repeat(60));
+      console.log(
+        `ℹ️  ${trialId} is already deployed with this bytecode and arguments`
+      );
+      console.log(
+        `   Address: ${existing.address} (block ${existing.blockNumber})`
+      );
+      console.log("   Set FORCE_DEPLOY=true to deploy a new instance.");
+      console.log("-".repeat(60) + "\n");
+      return;
+    }
+    console.log(
+      `\n⚠️  Redeploying over ${existing.address} (FORCE_DEPLOY=true)`
+    );
+  }
+
   console.log("\n" + "-".repeat(60));
-  console.log("Deploying PrivacyPreservingClinicalTrial...");
+  console.log(`Deploying ${CONTRACT_NAME}...`);
   console.log("-".repeat(60));
 
-  // Deploy contract
-  const TrialFactory = await ethers.getContractFactory(
-    "PrivacyPreservingClinicalTrial"
-  );
-  const trial = await TrialFactory.deploy();
+  // Deploy the libraries the trial links against, then the trial
+  const libraries = await deployTrialLibraries(ethers);
+  console.log(`Libraries: ${JSON.stringify(libraries)}`);
+  const TrialFactory = await ethers.getContractFactory(CONTRACT_NAME, {
+    libraries,
+  });
+  const trial = await TrialFactory.deploy(protocol, deployerAddress);
 
   console.log("\n⏳ Waiting for deployment transaction...");
   await trial.waitForDeployment();
+  const receipt = await trial.deploymentTransaction()?.wait();
 
   const contractAddress = await trial.getAddress();
 
@@ -70,14 +160,26 @@ async function main() {
   console.log(`Trial Start Time: ${new Date(Number(startTime) * 1000).toISOString()}`);
 
   // Save deployment info
-  const deploymentInfo = {
-    network: network.name,
-    chainId: network.config.chainId,
-    contractAddress: contractAddress,
+  const compiler = config.solidity.compilers[0];
+  const deploymentInfo: DeploymentRecord = {
+    trialId,
+    contractName: CONTRACT_NAME,
+    address: contractAddress,
+    chainId,
+    blockNumber:
+      receipt?.blockNumber ?? (await ethers.provider.getBlockNumber()),
+    transactionHash: trial.deploymentTransaction()?.hash ?? "",
     deployer: deployerAddress,
-    blockNumber: await ethers.provider.getBlockNumber(),
-    timestamp: new Date().toISOString(),
-    transactionHash: trial.deploymentTransaction()?.hash,
+    deployedAt: new Date().toISOString(),
+    constructorArgs,
+    libraries,
+    compiler: {
+      version: compiler.version,
+      optimizer: compiler.settings?.optimizer,
+      evmVersion: compiler.settings?.evmVersion,
+    },
+    abiHash,
+    bytecodeHash,
   };
 
   console.log("\n" + "-".repeat(60));
@@ -85,6 +187,12 @@ async function main() {
   console.log("-".repeat(60));
   console.log(JSON.stringify(deploymentInfo, null, 2));
 
+  registry = recordDeployment(registry, deploymentInfo, { keepHistory });
+  const registryFile = saveRegistry(registry);
+  console.log(
+    `\n💾 Registered in ${registryFile}${keepHistory ? " (history kept)" : ""}`
+  );
+
   // Verify contract on explorer (skip for local networks)
   if (
     network.name !== "hardhat" &&
@@ -102,37 +210,44 @@ async function main() {
     try {
       await run("verify:verify", {
         address: contractAddress,
-        constructorArguments: [],
+        constructorArguments: constructorArgs,
+        libraries,
       });
       console.log("✅ Contract verified successfully!");
-    } catch (error: any) {
-      if (error.message.includes("Already Verified")) {
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes("Already Verified")) {
         console.log("ℹ️  Contract is already verified");
       } else {
-        console.error("❌ Verification failed:", error.message);
+        console.error("❌ Verification failed:", message);
       }
     }
   }
 
-  // Display usage instructions
+  // Display usage instructions; enroll and submit encrypt their inputs, which
+  // the FHEVM plugin only does on some networks
+  const inputTask = (command: string) =>
+    supportsEncryptedInput(network.name)
+      ? `npx hardhat ${command} --network ${network.name}`
+      : `Encrypted input is not supported on ${network.name}`;
   console.log("\n" + "=".repeat(60));
   console.log("Next Steps:");
   console.log("=".repeat(60));
   console.log(`
 1. Patient Enrollment (During Enrollment Phase):
-   await trial.enrollPatient(age, healthScore, vitalSigns);
+   ${inputTask("trial:enroll --age 35 --health-score 85 --vital-signs 12080")}
 
-2. Transition to Treatment Phase (after ${3600}s):
-   await trial.transitionToNextPhase();
+2. Transition to Treatment Phase (after ${formatDuration(protocol.enrollmentDuration)}):
+   npx hardhat trial:advance --network ${network.name}
 
 3. Submit Clinical Data (During Treatment Phase):
-   await trial.submitClinicalData(effectiveness, sideEffects, biomarkers, week);
+   ${inputTask("trial:submit --week 1 --effectiveness 85 --side-effects 3 --biomarkers 5000")}
 
 4. Check Trial Status:
-   await trial.getTrialStatus();
+   npx hardhat trial:status --network ${network.name}
 
-5. Get Patient Status:
-   await trial.getPatientStatus(patientAddress);
+5. Get Patient Measurements:
+   npx hardhat trial:measurements --patient <address> --network ${network.name}
   `);
 
   console.log("=".repeat(60));
@@ -0,0 +1,166 @@
+import { ethers, fhevm, network } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { DEFAULT_TRIAL_ID, getDeployment } from "../lib/deployments";
+import { TrialClient } from "../lib/trial-client";
+import {
+  TREATMENT_ARMS,
+  UNBLINDING_REASON_NAMES,
+  UnblindingStatus,
+  formatUnblindingReason,
+  parseUnblindingReason,
+  readUnblindingAudit,
+} from "../lib/unblinding";
+
+/**
+ * @title Emergency Unblinding Script
+ * @notice Requests, decides and decrypts the emergency unblinding of one patient
+ *
+ * @chapter: deployment
+ * @category: scripts
+ *
+ * A site investigator requests unblinding with a reason code, a DSMB member
+ * approves or rejects it, and on approval the requesting investigator
+ * decrypts the patient's arm through the user decryption flow. Every run
+ * ends by printing the audit trail replayed from the trial's events.
+ *
+ * Decryption uses the FHEVM plugin, which outside of `hardhat test` decrypts
+ * in mock mode against a running Hardhat node.
+ *
+ * Usage:
+ * UNBLIND_ACTION=request PATIENT=0x... REASON=serious-adverse-event SIGNER_INDEX=2 npx hardhat run scripts/emergency-unblind.ts --network localhost
+ * UNBLIND_ACTION=approve REQUEST_ID=1 SIGNER_INDEX=3 npx hardhat run scripts/emergency-unblind.ts --network localhost
+ * UNBLIND_ACTION=decrypt REQUEST_ID=1 SIGNER_INDEX=2 npx hardhat run scripts/emergency-unblind.ts --network localhost
+ *
+ * Environment:
+ * - UNBLIND_ACTION: list, request, approve, reject or decrypt (default: list)
+ * - PATIENT: Patient to unblind (request)
+ * - REASON: serious-adverse-event, medical-emergency, overdose or other (request)
+ * - REQUEST_ID: Unblinding request id (approve/reject/decrypt)
+ * - TRIAL_ADDRESS: Trial contract address (default: the registered deployment)
+ * - TRIAL_ID: Registry key used when TRIAL_ADDRESS is unset (default: PrivacyPreservingClinicalTrial)
+ * - FROM_BLOCK: First block to read events from (default: the registered deployment block)
+ * - SIGNER_INDEX: Index of the signer to send from: the investigator for
+ *   request and decrypt, a DSMB member for approve and reject (default: 0)
+ */
+
+const ACTIONS = ["list", "request", "approve", "reject", "decrypt"] as const;
+type UnblindAction = (typeof ACTIONS)[number];
+
+function parseRequestId(value: string | undefined): bigint {
+  if (!value || !/^\d+$/.test(value)) {
+    throw new Error(`REQUEST_ID must be a request id, got ${value}`);
+  }
+  return BigInt(value);
+}
+
+async function main() {
+  const env = process.env;
+  const action = (env.UNBLIND_ACTION ?? "list") as UnblindAction;
+  if (!ACTIONS.includes(action)) {
+    throw new Error(
+      `UNBLIND_ACTION must be one of ${ACTIONS.join(", ")}, got ${env.UNBLIND_ACTION}`
+    );
+  }
+
+  const trialId = env.TRIAL_ID || DEFAULT_TRIAL_ID;
+  const deployment = getDeployment(network.name, trialId);
+  const address = env.TRIAL_ADDRESS ?? deployment?.address;
+  if (!address) {
+    throw new Error(
+      `No TRIAL_ADDRESS given and no "${trialId}" deployment registered for network "${network.name}"`
+    );
+  }
+
+  const signers = await ethers.getSigners();
+  const signer = signers[Number(env.SIGNER_INDEX ?? 0)];
+  if (!signer) {
+    throw new Error(`SIGNER_INDEX ${env.SIGNER_INDEX} is not available`);
+  }
+
+  const trial = (await ethers.getContractAt(
+    "PrivacyPreservingClinicalTrial",
+    address,
+    signer
+  )) as unknown as PrivacyPreservingClinicalTrial;
+  const client = new TrialClient(trial);
+
+  console.log(`Trial:   ${address}`);
+  console.log(`Network: ${network.name}`);
+  console.log(`Signer:  ${signer.address}`);
+
+  if (action === "request") {
+    if (!env.PATIENT || !ethers.isAddress(env.PATIENT)) {
+      throw new Error(`PATIENT must be an address, got ${env.PATIENT}`);
+    }
+    if (!env.REASON) {
+      throw new Error(
+        `REASON is required, one of: ${Object.keys(UNBLINDING_REASON_NAMES).join(", ")}`
+      );
+    }
+    const reason = parseUnblindingReason(env.REASON);
+    const { requestId, receipt } = await client.requestUnblinding(
+      env.PATIENT,
+      reason
+    );
+    console.log(
+      `\n✅ Unblinding request ${requestId} for ${env.PATIENT} (${formatUnblindingReason(reason)}, tx ${receipt.hash})`
+    );
+    console.log(
+      "   A DSMB member must approve it before the arm can be decrypted."
+    );
+  } else if (action === "approve" || action === "reject") {
+    const id = parseRequestId(env.REQUEST_ID);
+    const receipt =
+      action === "approve"
+        ? await client.approveUnblinding(id)
+        : await client.rejectUnblinding(id);
+    const verb = action === "approve" ? "Approved" : "Rejected";
+    console.log(`\n✅ ${verb} unblinding request ${id} (tx ${receipt.hash})`);
+  } else if (action === "decrypt") {
+    const id = parseRequestId(env.REQUEST_ID);
+    const request = await client.unblindingRequest(id);
+    if (request?.status !== UnblindingStatus.Approved) {
+      throw new Error(`Unblinding request ${id} is not approved`);
+    }
+    await fhevm.initializeCLIApi();
+    const group = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      await client.treatmentGroupHandle(request.patient),
+      address,
+      signer
+    );
+    console.log(
+      `\n🔓 ${request.patient} is in the ${TREATMENT_ARMS[Number(group)]} arm`
+    );
+  }
+
+  const fromBlock = env.FROM_BLOCK
+    ? Number(env.FROM_BLOCK)
+    : deployment?.address.toLowerCase() === address.toLowerCase()
+      ? deployment.blockNumber
+      : 0;
+  const audit = await readUnblindingAudit(trial, fromBlock);
+
+  console.log(`\nUnblinding audit trail (since block ${fromBlock}):`);
+  if (audit.length === 0) {
+    console.log("  (none)");
+  }
+  for (const entry of audit) {
+    const reason =
+      entry.reason !== undefined
+        ? ` (${formatUnblindingReason(entry.reason)})`
+        : "";
+    console.log(
+      `  #${entry.requestId} block ${entry.blockNumber}  ${entry.action.padEnd(9)} ` +
+        `patient ${entry.patient} by ${entry.actor}${reason}`
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,121 @@
+import { ethers, network } from "hardhat";
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { DEFAULT_TRIAL_ID, getDeployment } from "../lib/deployments";
+import {
+  TRIAL_ROLES,
+  currentRoleHolders,
+  parseRole,
+  readRoleChanges,
+} from "../lib/roles";
+import { TrialClient } from "../lib/trial-client";
+
+/**
+ * @title Trial Role Administration Script
+ * @notice Grants and revokes trial roles and lists the current holders
+ *
+ * @chapter: deployment
+ * @category: scripts
+ *
+ * Role holders are reconstructed from RoleGranted/RoleRevoked events, since
+ * the contract does not enumerate them. Granting and revoking must be sent by
+ * a coordinator.
+ *
+ * Usage:
+ * npx hardhat run scripts/manage-roles.ts --network zamaDevnet
+ * ROLE_ACTION=grant ROLE=dsmb ACCOUNT=0x... npx hardhat run scripts/manage-roles.ts --network zamaDevnet
+ * ROLE_ACTION=revoke ROLE=auditor ACCOUNT=0x... TRIAL_ID=ONCOLOGY-2026 npx hardhat run scripts/manage-roles.ts --network zamaDevnet
+ *
+ * Environment:
+ * - ROLE_ACTION: list, grant or revoke (default: list)
+ * - ROLE: coordinator, site-investigator, dsmb or auditor (grant/revoke)
+ * - ACCOUNT: Account to grant the role to or revoke it from (grant/revoke)
+ * - TRIAL_ADDRESS: Trial contract address (default: the registered deployment)
+ * - TRIAL_ID: Registry key used when TRIAL_ADDRESS is unset (default: PrivacyPreservingClinicalTrial)
+ * - FROM_BLOCK: First block to read events from (default: the registered deployment block)
+ * - SIGNER_INDEX: Index of the signer to send from (default: 0)
+ */
+
+const ACTIONS = ["list", "grant", "revoke"] as const;
+type RoleAction = (typeof ACTIONS)[number];
+
+async function main() {
+  const env = process.env;
+  const action = (env.ROLE_ACTION ?? "list") as RoleAction;
+  if (!ACTIONS.includes(action)) {
+    throw new Error(
+      `ROLE_ACTION must be one of ${ACTIONS.join(", ")}, got ${env.ROLE_ACTION}`
+    );
+  }
+
+  const trialId = env.TRIAL_ID || DEFAULT_TRIAL_ID;
+  const deployment = getDeployment(network.name, trialId);
+  const address = env.TRIAL_ADDRESS ?? deployment?.address;
+  if (!address) {
+    throw new Error(
+      `No TRIAL_ADDRESS given and no "${trialId}" deployment registered for network "${network.name}"`
+    );
+  }
+
+  const signers = await ethers.getSigners();
+  const signer = signers[Number(env.SIGNER_INDEX ?? 0)];
+  if (!signer) {
+    throw new Error(`SIGNER_INDEX ${env.SIGNER_INDEX} is not available`);
+  }
+
+  const trial = (await ethers.getContractAt(
+    "PrivacyPreservingClinicalTrial",
+    address,
+    signer
+  )) as unknown as PrivacyPreservingClinicalTrial;
+  const client = new TrialClient(trial);
+
+  console.log(`Trial:   ${address}`);
+  console.log(`Network: ${network.name}`);
+
+  if (action !== "list") {
+    if (!env.ROLE || !env.ACCOUNT) {
+      throw new Error(`ROLE and ACCOUNT are required to ${action} a role`);
+    }
+    const role = parseRole(env.ROLE);
+    if (!ethers.isAddress(env.ACCOUNT)) {
+      throw new Error(`ACCOUNT is not an address: ${env.ACCOUNT}`);
+    }
+
+    const receipt =
+      action === "grant"
+        ? await client.grantRole(role, env.ACCOUNT)
+        : await client.revokeRole(role, env.ACCOUNT);
+    const verb = action === "grant" ? "Granted" : "Revoked";
+    console.log(`\n✅ ${verb} ${role} for ${env.ACCOUNT} (tx ${receipt.hash})`);
+  }
+
+  // Deployments through the registry are not in the deployment registry, so
+  // fall back to scanning from genesis unless FROM_BLOCK narrows it
+  const fromBlock = env.FROM_BLOCK
+    ? Number(env.FROM_BLOCK)
+    : deployment?.address.toLowerCase() === address.toLowerCase()
+      ? deployment.blockNumber
+      : 0;
+  const changes = await readRoleChanges(trial, fromBlock);
+  const holders = currentRoleHolders(changes);
+
+  console.log(
+    `\nRole holders (from ${changes.length} events since block ${fromBlock}):`
+  );
+  for (const role of TRIAL_ROLES) {
+    console.log(`  ${role}:`);
+    if (holders[role].length === 0) {
+      console.log("    (none)");
+    }
+    for (const account of holders[role]) {
+      console.log(`    ${account}`);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
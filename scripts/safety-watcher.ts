@@ -0,0 +1,149 @@
+import * as path from "path";
+import { ethers, fhevm, network } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { DEFAULT_TRIAL_ID, getDeployment } from "../lib/deployments";
+import { INDEXER_DIR, JsonFileStore, TrialIndexer } from "../lib/indexer";
+import { SafetyLogEntry, SafetyWatcher } from "../lib/safety";
+import { TrialClient } from "../lib/trial-client";
+
+/**
+ * @title Safety Watcher
+ * @notice Decrypts the encrypted safety alert of every new visit and keeps a local safety log
+ *
+ * @chapter: deployment
+ * @category: scripts
+ *
+ * Runs as a safety monitor: polls the trial's indexed ClinicalDataSubmitted
+ * events, decrypts each visit's alert flag through the user decryption flow
+ * and appends one JSON line per visit to the safety log. Raised alerts are
+ * POSTed to SAFETY_WEBHOOK_URL; scripts/webhook-stub.ts is a local endpoint
+ * to point it at. Visits recorded before the signer became a monitor cannot
+ * be decrypted; they are logged once and not retried. Other failures are
+ * retried with a growing delay and logged again only when the error changes.
+ *
+ * With SAFETY_REVEAL=1 the script first makes the serious event count
+ * publicly decryptable and prints it.
+ *
+ * Usage:
+ * npx hardhat run scripts/safety-watcher.ts --network localhost
+ * SAFETY_WEBHOOK_URL=http://127.0.0.1:8787 SIGNER_INDEX=4 npx hardhat run scripts/safety-watcher.ts --network localhost
+ * SAFETY_REVEAL=1 SAFETY_ONCE=1 SIGNER_INDEX=4 npx hardhat run scripts/safety-watcher.ts --network localhost
+ *
+ * Environment:
+ * - TRIAL_ADDRESS: Trial contract address (default: the registered deployment)
+ * - TRIAL_ID: Registry key used when TRIAL_ADDRESS is unset (default: PrivacyPreservingClinicalTrial)
+ * - SIGNER_INDEX: Index of the safety monitor's signer (default: 0)
+ * - SAFETY_LOG: Safety log file (default: reports/safety/<network>/<address>.jsonl)
+ * - SAFETY_WEBHOOK_URL: Endpoint raised alerts are POSTed to as JSON (default: none)
+ * - SAFETY_POLL_MS: Polling interval in milliseconds (default: 5000)
+ * - SAFETY_RETRY_MS: Delay before retrying a failed visit, doubled per failure (default: 5000)
+ * - SAFETY_ONCE: Set to 1 to check the pending visits once and exit
+ * - SAFETY_REVEAL: Set to 1 to reveal and print the serious event count first
+ */
+
+function formatEntry(entry: SafetyLogEntry): string {
+  const visit = `${entry.patient} week ${entry.week}`;
+  if (entry.denied) {
+    return `⛔ ${visit}: ${entry.error} (not retried)`;
+  }
+  if (entry.alert === null) {
+    return `⚠️  ${visit}: ${entry.error}`;
+  }
+  if (!entry.alert) {
+    return `✅ ${visit}: no alert`;
+  }
+  const notified =
+    entry.notified === undefined
+      ? ""
+      : entry.notified
+        ? " (webhook notified)"
+        : ` (${entry.error})`;
+  return `🚨 ${visit}: SAFETY ALERT${notified}`;
+}
+
+async function main() {
+  const env = process.env;
+  const trialId = env.TRIAL_ID || DEFAULT_TRIAL_ID;
+  const deployment = getDeployment(network.name, trialId);
+  const address = env.TRIAL_ADDRESS ?? deployment?.address;
+  if (!address) {
+    throw new Error(
+      `No TRIAL_ADDRESS given and no "${trialId}" deployment registered for network "${network.name}"`
+    );
+  }
+
+  const signers = await ethers.getSigners();
+  const monitor = signers[Number(env.SIGNER_INDEX ?? 0)];
+  if (!monitor) {
+    throw new Error(`SIGNER_INDEX ${env.SIGNER_INDEX} is not available`);
+  }
+
+  const trial = (await ethers.getContractAt(
+    "PrivacyPreservingClinicalTrial",
+    address,
+    monitor
+  )) as unknown as PrivacyPreservingClinicalTrial;
+  const client = new TrialClient(trial);
+  if (!(await client.hasRole("safety-monitor", monitor.address))) {
+    throw new Error(`${monitor.address} is not a safety monitor`);
+  }
+
+  const pollMs = Number(env.SAFETY_POLL_MS ?? 5000);
+  const retryDelayMs = Number(env.SAFETY_RETRY_MS ?? 5000);
+  const once = env.SAFETY_ONCE === "1";
+  const logFile =
+    env.SAFETY_LOG ??
+    path.join("reports", "safety", network.name, `${address}.jsonl`);
+
+  await fhevm.initializeCLIApi();
+
+  console.log(`🩺 Safety watcher for ${address} as ${monitor.address}`);
+  console.log(`   Log:     ${logFile}`);
+  console.log(`   Webhook: ${env.SAFETY_WEBHOOK_URL ?? "(none)"}`);
+
+  if (env.SAFETY_REVEAL === "1") {
+    const { handle } = await client.revealSeriousEventCount();
+    const count = await fhevm.publicDecryptEuint(FhevmType.euint16, handle);
+    console.log(`\n📊 Serious events so far: ${count}`);
+  }
+
+  const indexer = new TrialIndexer(
+    ethers.provider,
+    trial.interface,
+    address,
+    new JsonFileStore(path.join(INDEXER_DIR, network.name, `${address}.json`)),
+    {
+      startBlock:
+        deployment?.address.toLowerCase() === address.toLowerCase()
+          ? deployment.blockNumber
+          : 0,
+    }
+  );
+  const watcher = new SafetyWatcher(
+    client,
+    indexer,
+    (handle) => fhevm.userDecryptEbool(handle, address, monitor),
+    { logFile, webhookUrl: env.SAFETY_WEBHOOK_URL, retryDelayMs }
+  );
+
+  const round = async () => {
+    for (const entry of await watcher.poll()) {
+      console.log(formatEntry(entry));
+    }
+  };
+
+  await round();
+  while (!once) {
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+    await round();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Safety watcher failed!");
+    console.error(error);
+    process.exit(1);
+  });
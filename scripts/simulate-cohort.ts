@@ -0,0 +1,375 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, fhevm, network } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { ContractTransactionReceipt } from "ethers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { LocalDecryptionOracle } from "../lib/decryption-oracle";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrialLibraries } from "../lib/trial-libraries";
+import { MemoryStore, TrialIndexer } from "../lib/indexer";
+import {
+  CohortOptions,
+  DEFAULT_COHORT_OPTIONS,
+  generateCohort,
+  weeklyMeasurements,
+} from "../lib/cohort";
+import { DEFAULT_PROTOCOL, loadProtocol } from "../lib/protocol";
+import { analyzeArms } from "../lib/statistics";
+import { visitWindow } from "../lib/visits";
+
+/**
+ * @title Synthetic Cohort Simulator
+ * @notice Runs a complete trial with N synthetic patients on a local Hardhat node
+ *
+ * @chapter: simulation
+ * @category: scripts
+ *
+ * Deploys a fresh trial, enrolls a generated cohort, drives it through
+ * Enrollment → Treatment → Monitoring → Analysis using time.increase, and
+ * writes a JSON report with gas usage, the events seen and the final
+ * getTrialResults with a two-arm statistical comparison. Cohorts larger than ANALYSIS_BATCH_SIZE are analysed in
+ * several accumulation batches, and cohorts larger than ASSIGNMENT_BATCH_SIZE start treatment in several. The decryption callback is delivered by the
+ * local oracle stand-in, since no oracle watches a Hardhat node.
+ *
+ * With a visit schedule, each visit waits for the patient's window to open.
+ * Visits whose window closed before treatment started are skipped; those
+ * whose window closed during treatment are skipped and counted as missed.
+ *
+ * Patient data is encrypted with the FHEVM plugin's mock, which outside of
+ * `hardhat test` is only available against a running Hardhat node.
+ *
+ * Usage:
+ * npx hardhat node
+ * npx hardhat run scripts/simulate-cohort.ts --network localhost
+ * COHORT_SIZE=50 TREATMENT_EFFECT=20 DROPOUT_RATE=0.05 npx hardhat run scripts/simulate-cohort.ts --network localhost
+ *
+ * Environment:
+ * - COHORT_SIZE: Number of patients (default: 20)
+ * - COHORT_SEED: Seed for the cohort generator (default: 1)
+ * - PROTOCOL_FILE: JSON/YAML study protocol (default: the demo protocol)
+ * - COHORT_WEEKS: Weekly visits per patient, up to the protocol's visit weeks (default: all of them)
+ * - TREATMENT_EFFECT: True treatment effect in effectiveness points (default: 15)
+ * - DROPOUT_RATE: Per-week dropout probability (default: 0.02)
+ * - REPORT_FILE: Output path (default: reports/cohort-simulation.json)
+ */
+
+interface GasSummary {
+  transactions: number;
+  total: string;
+  mean: string;
+  max: string;
+}
+
+function readOptions(): CohortOptions {
+  const env = process.env;
+  return {
+    size: Number(env.COHORT_SIZE ?? 20),
+    seed: Number(env.COHORT_SEED ?? DEFAULT_COHORT_OPTIONS.seed),
+    weeks: env.COHORT_WEEKS ? Number(env.COHORT_WEEKS) : undefined,
+    treatmentEffect: Number(
+      env.TREATMENT_EFFECT ?? DEFAULT_COHORT_OPTIONS.treatmentEffect
+    ),
+    dropoutRate: Number(env.DROPOUT_RATE ?? DEFAULT_COHORT_OPTIONS.dropoutRate),
+  };
+}
+
+function summarizeGas(receipts: ContractTransactionReceipt[]): GasSummary {
+  const used = receipts.map((receipt) => receipt.gasUsed);
+  const total = used.reduce((sum, gas) => sum + gas, 0n);
+  return {
+    transactions: used.length,
+    total: total.toString(),
+    mean: used.length > 0 ? (total / BigInt(used.length)).toString() : "0",
+    max: used.reduce((max, gas) => (gas > max ? gas : max), 0n).toString(),
+  };
+}
+
+/**
+ * Wait until the current phase may end, then transition
+ */
+async function advance(
+  client: TrialClient
+): Promise<ContractTransactionReceipt> {
+  const transitionTime = await client.contract.phaseTransitionTime();
+  // A visit schedule may already have moved time past it
+  if (transitionTime > BigInt(await time.latest())) {
+    await time.increaseTo(transitionTime);
+  }
+  return client.advancePhase();
+}
+
+/**
+ * Unblind the treatment arms through the mock's debugger
+ *
+ * The contract never reveals a patient's arm. The simulator needs it to
+ * generate arm-dependent trajectories, and can read it only because the
+ * mock holds the decryption keys.
+ */
+async function readTreatmentArm(
+  trial: PrivacyPreservingClinicalTrial,
+  patients: string[]
+): Promise<Set<string>> {
+  const arm = new Set<string>();
+  for (const patient of patients) {
+    const data = await trial.patients(patient);
+    const group = await fhevm.debugger.decryptEuint(
+      FhevmType.euint8,
+      data.encryptedTreatmentGroup
+    );
+    if (group === 1n) {
+      arm.add(patient.toLowerCase());
+    }
+  }
+  return arm;
+}
+
+async function main() {
+  if (network.name !== "localhost") {
+    throw new Error(
+      "The cohort simulator manipulates time and only runs against a local Hardhat node (--network localhost)"
+    );
+  }
+
+  const protocol = process.env.PROTOCOL_FILE
+    ? loadProtocol(process.env.PROTOCOL_FILE)
+    : DEFAULT_PROTOCOL;
+  const options = readOptions();
+  options.weeks ??= protocol.visitWeeks;
+  if (!Number.isInteger(options.size) || options.size < 1) {
+    throw new Error(
+      `COHORT_SIZE must be a positive integer, got ${process.env.COHORT_SIZE}`
+    );
+  }
+  if (!(options.weeks >= 1 && options.weeks <= protocol.visitWeeks)) {
+    throw new Error(
+      `COHORT_WEEKS must be between 1 and ${protocol.visitWeeks}, got ${options.weeks}`
+    );
+  }
+
+  console.log("=".repeat(60));
+  console.log("Privacy-Preserving Clinical Trial - Cohort Simulation");
+  console.log("=".repeat(60));
+  console.log(JSON.stringify(options, null, 2));
+
+  // Connects the plugin's mock to the node so patients can encrypt their data
+  await fhevm.initializeCLIApi();
+
+  // Deploy a fresh trial
+  const [coordinator] = await ethers.getSigners();
+  const TrialFactory = await ethers.getContractFactory(
+    "PrivacyPreservingClinicalTrial",
+    {
+      libraries: await deployTrialLibraries(ethers),
+    }
+  );
+  const trial = await TrialFactory.deploy(protocol, coordinator.address);
+  const deployReceipt = (await trial.deploymentTransaction()!.wait())!;
+  const client = new TrialClient(trial, fhevm);
+  const trialAddress = await trial.getAddress();
+  const oracle = await LocalDecryptionOracle.create(
+    ethers.provider,
+    fhevm,
+    coordinator,
+    deployReceipt.blockNumber
+  );
+
+  // Generate patients and give each one a funded wallet
+  const cohort = generateCohort(options);
+  const wallets = cohort.map(
+    (patient) =>
+      new ethers.Wallet(
+        ethers.id(`cohort-${options.seed}-${patient.id}`),
+        ethers.provider
+      )
+  );
+  for (const wallet of wallets) {
+    await (
+      await coordinator.sendTransaction({
+        to: wallet.address,
+        value: ethers.parseEther("1"),
+      })
+    ).wait();
+  }
+
+  console.log(`\n👥 Enrolling ${cohort.length} patients...`);
+  const enrollments: ContractTransactionReceipt[] = [];
+  for (const [i, patient] of cohort.entries()) {
+    enrollments.push(
+      await client.connect(wallets[i]).enroll({
+        age: patient.age,
+        healthScore: patient.healthScore,
+        vitalSigns: patient.vitalSigns,
+      })
+    );
+  }
+
+  const transitions: {
+    from: TrialPhase;
+    to: TrialPhase;
+    gasUsed: string;
+    batches: GasSummary;
+  }[] = [];
+  const recordTransition = async (from: TrialPhase) => {
+    const receipt = await advance(client);
+    const to = await client.phase();
+    // Analysis batches are reported on their own below
+    const batches =
+      to === TrialPhase.Analysis ? [] : await client.completePhaseTransition();
+    transitions.push({
+      from,
+      to,
+      gasUsed: receipt.gasUsed.toString(),
+      batches: summarizeGas(batches),
+    });
+  };
+
+  await recordTransition(TrialPhase.Enrollment);
+  const treatmentArm = await readTreatmentArm(
+    trial,
+    wallets.map((wallet) => wallet.address)
+  );
+
+  console.log("💊 Submitting weekly measurements...");
+  const trajectories = cohort.map((patient, i) =>
+    weeklyMeasurements(
+      patient,
+      treatmentArm.has(wallets[i].address.toLowerCase()),
+      options
+    )
+  );
+  const enrolledAt = await Promise.all(
+    wallets.map(
+      async (wallet) =>
+        (await client.patientStatus(wallet.address)).enrollmentTime!
+    )
+  );
+  const treatmentStart = (await client.treatmentPeriod()).start!;
+  const submissions: ContractTransactionReceipt[] = [];
+  let missedVisits = 0;
+  // Week by week, so a visit schedule only ever moves time forward
+  for (let week = 1; week <= options.weeks; week++) {
+    for (const [i, trajectory] of trajectories.entries()) {
+      const measurement = trajectory[week - 1];
+      if (!measurement) continue;
+      const window = visitWindow(protocol, enrolledAt[i], week);
+      if (window) {
+        const now = await time.latest();
+        if (window.closes.getTime() / 1000 <= now) {
+          // Only windows that overlapped treatment count as missed
+          if (window.closes >= treatmentStart) {
+            missedVisits++;
+          }
+          continue;
+        }
+        const opens = window.opens.getTime() / 1000;
+        if (opens > now) {
+          await time.increaseTo(opens);
+        }
+      }
+      submissions.push(
+        await client.connect(wallets[i]).submitWeek(measurement)
+      );
+    }
+  }
+
+  await recordTransition(TrialPhase.Treatment);
+  await recordTransition(TrialPhase.Monitoring);
+
+  // The transition covers the first batch; larger cohorts need more
+  const analysisBatches = await client.completePhaseTransition();
+
+  console.log("🔮 Delivering the decryption callback...");
+  const [callback] = await oracle.fulfilAll();
+
+  // Collect every event the trial emitted
+  const indexer = new TrialIndexer(
+    ethers.provider,
+    trial.interface,
+    trialAddress,
+    new MemoryStore(),
+    {
+      startBlock: deployReceipt.blockNumber,
+    }
+  );
+  await indexer.sync();
+  const eventCounts: Record<string, number> = {};
+  for (const event of indexer.events()) {
+    eventCounts[event.name] = (eventCounts[event.name] ?? 0) + 1;
+  }
+
+  const results = await client.results(TrialPhase.Analysis);
+  const aggregates = await client.armStatistics(TrialPhase.Analysis);
+  const statistics = aggregates ? analyzeArms(aggregates) : null;
+  const completers = cohort.filter(
+    (patient) => patient.lastWeek === options.weeks
+  ).length;
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    network: network.name,
+    contract: trialAddress,
+    options,
+    cohort: {
+      size: cohort.length,
+      completers,
+      dropouts: cohort.length - completers,
+      missedVisits,
+      treatmentArm: treatmentArm.size,
+      placeboArm: cohort.length - treatmentArm.size,
+      meanAge: cohort.reduce((sum, p) => sum + p.age, 0) / cohort.length,
+      meanHealthScore:
+        cohort.reduce((sum, p) => sum + p.healthScore, 0) / cohort.length,
+    },
+    gas: {
+      deployment: deployReceipt.gasUsed.toString(),
+      enrollment: summarizeGas(enrollments),
+      submissions: summarizeGas(submissions),
+      transitions,
+      analysisBatches: summarizeGas(analysisBatches),
+      decryptionCallback: callback?.gasUsed?.toString() ?? null,
+    },
+    events: eventCounts,
+    results: {
+      ...results,
+      completionTime: results.completionTime?.toISOString() ?? null,
+    },
+    aggregates,
+    statistics,
+  };
+
+  const reportFile =
+    process.env.REPORT_FILE ||
+    path.join(__dirname, "..", "reports", "cohort-simulation.json");
+  fs.mkdirSync(path.dirname(reportFile), { recursive: true });
+  fs.writeFileSync(reportFile, JSON.stringify(report, null, 2) + "\n");
+
+  console.log("\n" + "-".repeat(60));
+  console.log(`Enrollment gas (mean):  ${report.gas.enrollment.mean}`);
+  console.log(`Submission gas (mean):  ${report.gas.submissions.mean}`);
+  console.log(`Analysis batches:       ${analysisBatches.length}`);
+  console.log(
+    `Decryption callback:    ${report.gas.decryptionCallback ?? "none"}`
+  );
+  console.log(`Submissions:            ${submissions.length}`);
+  console.log(`Dropouts:               ${report.cohort.dropouts}`);
+  console.log(`Missed visits:          ${missedVisits}`);
+  console.log(`Results calculated:     ${results.resultsCalculated}`);
+  if (statistics) {
+    const { estimate } = statistics.difference;
+    console.log(
+      `Treatment effect:       ${estimate?.toFixed(2) ?? "-"} (p=${statistics.welch.pValue?.toFixed(4) ?? "-"})`
+    );
+  }
+  console.log("-".repeat(60));
+  console.log(`\n💾 Report written to ${reportFile}\n`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Simulation failed!");
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,67 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+
+/**
+ * @title Webhook Stub
+ * @notice Local HTTP endpoint that records the JSON POSTed to it
+ *
+ * @chapter: simulation
+ * @category: scripts
+ *
+ * Stands in for the alerting service scripts/safety-watcher.ts notifies.
+ * Every POST body is printed and, if WEBHOOK_LOG is set, appended to that
+ * file as one JSON line. Answers 204, or WEBHOOK_STATUS to test how the
+ * watcher handles a failing endpoint.
+ *
+ * Usage:
+ * npx hardhat run scripts/webhook-stub.ts
+ * WEBHOOK_PORT=9000 WEBHOOK_MAX_REQUESTS=1 npx hardhat run scripts/webhook-stub.ts
+ *
+ * Environment:
+ * - WEBHOOK_PORT: Port to listen on at 127.0.0.1 (default: 8787)
+ * - WEBHOOK_STATUS: Status code to answer with (default: 204)
+ * - WEBHOOK_LOG: File the received bodies are appended to (default: none)
+ * - WEBHOOK_MAX_REQUESTS: Exit after this many requests (default: run until stopped)
+ */
+
+async function main() {
+  const env = process.env;
+  const port = Number(env.WEBHOOK_PORT ?? 8787);
+  const status = Number(env.WEBHOOK_STATUS ?? 204);
+  const maxRequests = env.WEBHOOK_MAX_REQUESTS
+    ? Number(env.WEBHOOK_MAX_REQUESTS)
+    : Infinity;
+  let received = 0;
+
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received++;
+      console.log(`📬 ${request.method} ${request.url} ${body}`);
+      if (env.WEBHOOK_LOG) {
+        fs.mkdirSync(path.dirname(env.WEBHOOK_LOG), { recursive: true });
+        fs.appendFileSync(env.WEBHOOK_LOG, body.trim() + "\n");
+      }
+      response.writeHead(status).end();
+      if (received >= maxRequests) {
+        server.close();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(port, "127.0.0.1", resolve)
+  );
+  console.log(`🪝 Webhook stub listening on http://127.0.0.1:${port}`);
+  await new Promise((resolve) => server.on("close", resolve));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,281 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type {
+  ClinicalTrialRegistry,
+  PrivacyPreservingClinicalTrial,
+} from "../typechain-types";
+import {
+  DeploymentRecord,
+  getDeployment,
+  hashAbi,
+  hashBytecode,
+  loadRegistry,
+  recordDeployment,
+  saveRegistry,
+} from "../lib/deployments";
+import { formatEligibility } from "../lib/eligibility";
+import {
+  DEFAULT_PROTOCOL,
+  formatDuration,
+  hashProtocol,
+  loadProtocol,
+} from "../lib/protocol";
+import { formatAllocation } from "../lib/randomization";
+import { TrialClient } from "../lib/trial-client";
+import {
+  MAX_PAGE_SIZE,
+  RegisteredTrial,
+  TRIAL_REGISTRY_ID,
+  TrialRegistryClient,
+} from "../lib/trial-registry";
+
+/**
+ * @title Trial Registry Tasks
+ * @notice Hardhat tasks for creating, listing and inspecting trials in a ClinicalTrialRegistry
+ *
+ * @chapter: deployment
+ * @category: tasks
+ *
+ * The registry address comes from --registry or, when omitted, from the
+ * deployment registry entry written by scripts/deploy-registry.ts.
+ *
+ * Usage:
+ * npx hardhat registry:create --title "Hypertension Phase II" --sponsor "Acme Pharma" --protocol-file protocols/example.yaml
+ * npx hardhat registry:create --title "Pilot" --sponsor "Acme Pharma" --trial-id PILOT-1
+ * npx hardhat registry:list --network zamaDevnet
+ * npx hardhat registry:list --coordinator 0x... --offset 20 --limit 20
+ * npx hardhat registry:show --id 3
+ */
+
+interface RegistryTaskArgs {
+  registry?: string;
+  account: number;
+}
+
+/**
+ * Resolve the registry address and connect a client with the selected signer
+ */
+async function getRegistryClient(
+  hre: HardhatRuntimeEnvironment,
+  args: RegistryTaskArgs
+): Promise<TrialRegistryClient> {
+  const address =
+    args.registry ??
+    getDeployment(hre.network.name, TRIAL_REGISTRY_ID)?.address;
+  if (!address) {
+    throw new Error(
+      `No registry address given and no "${TRIAL_REGISTRY_ID}" deployment registered for network ` +
+        `"${hre.network.name}". Pass --registry or run scripts/deploy-registry.ts first.`
+    );
+  }
+
+  const signers = await hre.ethers.getSigners();
+  const signer = signers[args.account];
+  if (!signer) {
+    throw new Error(
+      `Account index ${args.account} is not available on network "${hre.network.name}"`
+    );
+  }
+
+  const registry = (await hre.ethers.getContractAt(
+    "ClinicalTrialRegistry",
+    address,
+    signer
+  )) as unknown as ClinicalTrialRegistry;
+  return new TrialRegistryClient(registry);
+}
+
+/**
+ * Register a registry task with the shared --registry and --account options
+ */
+function registryTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam(
+      "registry",
+      "Registry contract address (defaults to the registered deployment)"
+    )
+    .addOptionalParam(
+      "account",
+      "Index of the signer to send from",
+      0,
+      types.int
+    );
+}
+
+function printTrialLine(trial: RegisteredTrial) {
+  console.log(
+    `${String(trial.id).padStart(4)}  ${trial.address}  ${trial.createdAt.toISOString()}  ${trial.title} (${trial.sponsor})`
+  );
+}
+
+registryTask(
+  "registry:create",
+  "Deploy a trial through the registry with the selected account as coordinator"
+)
+  .addParam("title", "Study title")
+  .addParam("sponsor", "Sponsoring organisation")
+  .addOptionalParam(
+    "protocolFile",
+    "JSON/YAML study protocol (default: the demo protocol)"
+  )
+  .addOptionalParam(
+    "trialId",
+    "Also record the trial in deployments/<network>.json under this id, for the trial:* tasks"
+  )
+  .setAction(
+    async (
+      args: RegistryTaskArgs & {
+        title: string;
+        sponsor: string;
+        protocolFile?: string;
+        trialId?: string;
+      },
+      hre
+    ) => {
+      // Validate the protocol before touching the network
+      const protocol = args.protocolFile
+        ? loadProtocol(args.protocolFile)
+        : DEFAULT_PROTOCOL;
+
+      const client = await getRegistryClient(hre, args);
+      const { trial, receipt } = await client.createTrial({
+        title: args.title,
+        sponsor: args.sponsor,
+        protocol,
+      });
+
+      console.log(`✅ Trial ${trial.id} created at ${trial.address}`);
+      console.log(`Coordinator:    ${trial.coordinator}`);
+      console.log(`Protocol hash:  ${trial.protocolHash}`);
+      console.log(`Transaction:    ${receipt.hash}`);
+
+      if (args.trialId) {
+        const chainId = Number(
+          (await hre.ethers.provider.getNetwork()).chainId
+        );
+        const artifact = await hre.artifacts.readArtifact(
+          "PrivacyPreservingClinicalTrial"
+        );
+        const compiler = hre.config.solidity.compilers[0];
+        const record: DeploymentRecord = {
+          trialId: args.trialId,
+          contractName: "PrivacyPreservingClinicalTrial",
+          address: trial.address,
+          chainId,
+          blockNumber: receipt.blockNumber,
+          transactionHash: receipt.hash,
+          deployer: await client.address(),
+          deployedAt: trial.createdAt.toISOString(),
+          constructorArgs: [protocol, trial.coordinator],
+          compiler: {
+            version: compiler.version,
+            optimizer: compiler.settings?.optimizer,
+            evmVersion: compiler.settings?.evmVersion,
+          },
+          abiHash: hashAbi(artifact.abi),
+          bytecodeHash: hashBytecode(artifact.bytecode),
+        };
+        const file = saveRegistry(
+          // Keep whatever the id pointed to before in its history
+          recordDeployment(loadRegistry(hre.network.name, chainId), record, {
+            keepHistory: true,
+          })
+        );
+        console.log(`💾 Registered as "${args.trialId}" in ${file}`);
+      }
+    }
+  );
+
+registryTask("registry:list", "List the trials in the registry")
+  .addOptionalParam("coordinator", "Only list trials created by this address")
+  .addOptionalParam("offset", "Index of the first trial to list", 0, types.int)
+  .addOptionalParam(
+    "limit",
+    `Number of trials to list (1-${MAX_PAGE_SIZE})`,
+    MAX_PAGE_SIZE,
+    types.int
+  )
+  .setAction(
+    async (
+      args: RegistryTaskArgs & {
+        coordinator?: string;
+        offset: number;
+        limit: number;
+      },
+      hre
+    ) => {
+      const client = await getRegistryClient(hre, args);
+      const [total, trials] = args.coordinator
+        ? await Promise.all([
+            client.coordinatorCount(args.coordinator),
+            client.pageByCoordinator(args.coordinator, args.offset, args.limit),
+          ])
+        : await Promise.all([
+            client.count(),
+            client.page(args.offset, args.limit),
+          ]);
+
+      if (trials.length === 0) {
+        console.log(`No trials at offset ${args.offset} (${total} total)`);
+        return;
+      }
+
+      for (const trial of trials) {
+        printTrialLine(trial);
+      }
+      const last = args.offset + trials.length;
+      console.log(`\nShowing ${args.offset + 1}-${last} of ${total}`);
+      if (last < total) {
+        console.log(`Next page: --offset ${last}`);
+      }
+    }
+  );
+
+registryTask("registry:show", "Show a registered trial with its live status")
+  .addOptionalParam("id", "Registry id of the trial", undefined, types.int)
+  .addOptionalParam("address", "Trial address, instead of --id")
+  .setAction(
+    async (args: RegistryTaskArgs & { id?: number; address?: string }, hre) => {
+      if ((args.id === undefined) === (args.address === undefined)) {
+        throw new Error("Pass exactly one of --id and --address");
+      }
+
+      const client = await getRegistryClient(hre, args);
+      const entry =
+        args.id !== undefined
+          ? await client.trial(args.id)
+          : await client.trialByAddress(args.address!);
+
+      const trial = (await hre.ethers.getContractAt(
+        "PrivacyPreservingClinicalTrial",
+        entry.address
+      )) as unknown as PrivacyPreservingClinicalTrial;
+      const trialClient = new TrialClient(trial);
+      const status = await trialClient.status();
+      const protocol = await trialClient.protocol();
+      const protocolMatches = hashProtocol(protocol) === entry.protocolHash;
+
+      console.log(`Trial:          #${entry.id} ${entry.title}`);
+      console.log(`Sponsor:        ${entry.sponsor}`);
+      console.log(`Address:        ${entry.address}`);
+      console.log(`Coordinator:    ${entry.coordinator}`);
+      console.log(`Created:        ${entry.createdAt.toISOString()}`);
+      console.log(
+        `Protocol hash:  ${entry.protocolHash}${protocolMatches ? "" : "  ⚠️  does not match the trial's protocol"}`
+      );
+      console.log(`Phase:          ${status.phase} (${status.phaseName})`);
+      console.log(`Participants:   ${status.participantCount}`);
+      console.log(
+        `Phases:         enrollment ${formatDuration(protocol.enrollmentDuration)}, ` +
+          `treatment ${formatDuration(protocol.treatmentDuration)}, ` +
+          `monitoring ${formatDuration(protocol.monitoringDuration)}`
+      );
+      console.log(`Eligibility:    ${formatEligibility(protocol)}`);
+      console.log(`Allocation:     ${formatAllocation(protocol)}`);
+      console.log(`Visit weeks:    ${protocol.visitWeeks}`);
+      console.log(
+        `Endpoint:       week ${protocol.primaryEndpointWeek}, ` +
+          `threshold ${protocol.significanceThreshold} points`
+      );
+    }
+  );
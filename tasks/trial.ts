@@ -0,0 +1,920 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  ANALYSIS_BATCH_SIZE,
+  ASSIGNMENT_BATCH_SIZE,
+  MAX_PATIENT_PAGE_SIZE,
+  TrialClient,
+  TrialPhase,
+  PHASE_NAMES,
+} from "../lib/trial-client";
+import {
+  DEFAULT_TRIAL_ID,
+  getDeployment,
+  getDeploymentHistory,
+  listDeployments,
+} from "../lib/deployments";
+import {
+  compareAuditReports,
+  generateAuditReport,
+  loadAuditReport,
+  verifyAuditHash,
+  writeAuditReport,
+} from "../lib/audit-report";
+import { collectExportSource, writeExport } from "../lib/cdisc";
+import { formatWithdrawalPolicy } from "../lib/consent";
+import { formatEligibility } from "../lib/eligibility";
+import {
+  ENCRYPTED_INPUT_NETWORKS,
+  supportsEncryptedInput,
+} from "../lib/encryption";
+import { INDEXER_DIR, JsonFileStore, TrialIndexer } from "../lib/indexer";
+import { Multicall } from "../lib/multicall";
+import { formatDuration, formatVisitSchedule } from "../lib/protocol";
+import { formatAllocation } from "../lib/randomization";
+import { formatSafetyThresholds } from "../lib/safety";
+import { ArmAggregates, analyzeArms } from "../lib/statistics";
+import { buildComplianceReport, formatWeeks } from "../lib/visits";
+
+/**
+ * @title Trial Operation Tasks
+ * @notice Hardhat tasks for operating a deployed PrivacyPreservingClinicalTrial
+ *
+ * @chapter: deployment
+ * @category: tasks
+ *
+ * The contract address comes from --address or, when omitted, from the
+ * deployment registry written by scripts/deploy.ts for the selected network
+ * (see lib/deployments.ts). --trial-id selects a trial other than the default.
+ *
+ * Usage:
+ * npx hardhat trial:status --network zamaDevnet
+ * npx hardhat trial:enroll --age 35 --health-score 85 --vital-signs 12080 --network localhost
+ * npx hardhat trial:submit --week 1 --effectiveness 85 --side-effects 3 --biomarkers 5000
+ * npx hardhat trial:advance
+ * npx hardhat trial:continue --batch-size 15
+ * npx hardhat trial:results --phase 4
+ * npx hardhat trial:stats --source indexer --json
+ * npx hardhat trial:terminate
+ * npx hardhat trial:measurements --patient 0x...
+ * npx hardhat trial:patients --multicall
+ * npx hardhat trial:compliance --patient 0x... --json
+ * npx hardhat trial:amend-consent --document consent-v2.pdf
+ * npx hardhat trial:reconsent --account 1
+ * npx hardhat trial:withdraw --account 1
+ * npx hardhat trial:deployments --network zamaDevnet
+ * npx hardhat trial:index --confirmations 12
+ * npx hardhat trial:export --study-id HTN-2 --out exports/HTN-2
+ * npx hardhat trial:audit --to-block 1200000
+ * npx hardhat trial:audit --verify reports/audit/zamaDevnet/0x.../audit-1000-1200000.json
+ */
+
+interface TrialTaskArgs {
+  address?: string;
+  trialId: string;
+  account: number;
+}
+
+/**
+ * Resolve the trial address and connect a client with the selected signer
+ */
+async function getClient(
+  hre: HardhatRuntimeEnvironment,
+  args: TrialTaskArgs
+): Promise<TrialClient> {
+  const address =
+    args.address ?? getDeployment(hre.network.name, args.trialId)?.address;
+  if (!address) {
+    throw new Error(
+      `No trial address given and no "${args.trialId}" deployment registered for network ` +
+        `"${hre.network.name}". Pass --address or run scripts/deploy.ts first.`
+    );
+  }
+
+  const signers = await hre.ethers.getSigners();
+  const signer = signers[args.account];
+  if (!signer) {
+    throw new Error(
+      `Account index ${args.account} is not available on network "${hre.network.name}"`
+    );
+  }
+
+  const trial = (await hre.ethers.getContractAt(
+    "PrivacyPreservingClinicalTrial",
+    address,
+    signer
+  )) as unknown as PrivacyPreservingClinicalTrial;
+  return new TrialClient(trial, hre.fhevm);
+}
+
+/**
+ * Prepare the FHEVM plugin to encrypt inputs, for the tasks that send them
+ *
+ * The in-process Hardhat network uses the plugin's mock as is. A Hardhat node
+ * and Sepolia need its CLI API; the plugin supports no other network, so the
+ * tasks stop there before sending anything.
+ */
+async function initializeEncryption(hre: HardhatRuntimeEnvironment) {
+  if (!supportsEncryptedInput(hre.network.name)) {
+    throw new Error(
+      `Encrypted input is not supported on ${hre.network.name}; ` +
+        `use one of ${ENCRYPTED_INPUT_NETWORKS.join(", ")}`
+    );
+  }
+  if (hre.network.name !== "hardhat") {
+    await hre.fhevm.initializeCLIApi();
+  }
+}
+
+/**
+ * Sync the trial's events into the default index file for the network
+ */
+async function syncIndexer(
+  hre: HardhatRuntimeEnvironment,
+  client: TrialClient,
+  args: TrialTaskArgs
+): Promise<TrialIndexer> {
+  const address = await client.address();
+  const deployment = getDeployment(hre.network.name, args.trialId);
+  const indexer = new TrialIndexer(
+    hre.ethers.provider,
+    client.contract.interface,
+    address,
+    new JsonFileStore(
+      path.join(INDEXER_DIR, hre.network.name, `${address}.json`)
+    ),
+    {
+      startBlock:
+        deployment?.address.toLowerCase() === address.toLowerCase()
+          ? deployment.blockNumber
+          : 0,
+    }
+  );
+  await indexer.sync();
+  return indexer;
+}
+
+/**
+ * Register a trial task with the shared --address and --account options
+ */
+function trialTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam(
+      "address",
+      "Trial contract address (defaults to the registered deployment)"
+    )
+    .addOptionalParam(
+      "trialId",
+      "Registry trial id used when --address is omitted",
+      DEFAULT_TRIAL_ID
+    )
+    .addOptionalParam(
+      "account",
+      "Index of the signer to send from",
+      0,
+      types.int
+    );
+}
+
+trialTask(
+  "trial:status",
+  "Show the current phase, participant count and protocol"
+).setAction(async (args: TrialTaskArgs, hre) => {
+  const client = await getClient(hre, args);
+  const status = await client.status();
+  const protocol = await client.protocol();
+
+  console.log(`Trial:           ${await client.address()}`);
+  console.log(`Network:         ${hre.network.name}`);
+  console.log(`Phase:           ${status.phase} (${status.phaseName})`);
+  console.log(`Participants:    ${status.participantCount}`);
+  console.log(`Next phase in:   ${status.timeUntilNextPhase}s`);
+  console.log(`Can transition:  ${status.canTransition}`);
+  console.log(
+    `Phases:          enrollment ${formatDuration(protocol.enrollmentDuration)}, ` +
+      `treatment ${formatDuration(protocol.treatmentDuration)}, ` +
+      `monitoring ${formatDuration(protocol.monitoringDuration)}`
+  );
+  console.log(`Eligibility:     ${formatEligibility(protocol)}`);
+  console.log(`Allocation:      ${formatAllocation(protocol)}`);
+  console.log(
+    `Consent:         version ${await client.consentVersion()}, ` +
+      formatWithdrawalPolicy(protocol.withdrawalPolicy)
+  );
+  console.log(`Safety:          ${formatSafetyThresholds(protocol)}`);
+  console.log(`Visit weeks:     ${protocol.visitWeeks}`);
+  console.log(`Visits:          ${formatVisitSchedule(protocol)}`);
+  console.log(
+    `Endpoint:        week ${protocol.primaryEndpointWeek}, ` +
+      `threshold ${protocol.significanceThreshold} points`
+  );
+});
+
+trialTask("trial:enroll", "Enroll the selected account as a patient")
+  .addParam(
+    "age",
+    "Patient age, encrypted before sending",
+    undefined,
+    types.int
+  )
+  .addParam("healthScore", "Overall health score (0-100)", undefined, types.int)
+  .addParam(
+    "vitalSigns",
+    "Encoded vital signs, e.g. 12080 for HR=120 BP=80",
+    undefined,
+    types.int
+  )
+  .setAction(
+    async (
+      args: TrialTaskArgs & {
+        age: number;
+        healthScore: number;
+        vitalSigns: number;
+      },
+      hre
+    ) => {
+      await initializeEncryption(hre);
+      const client = await getClient(hre, args);
+      const receipt = await client.enroll({
+        age: args.age,
+        healthScore: args.healthScore,
+        vitalSigns: args.vitalSigns,
+      });
+      console.log(`✅ Patient enrolled (tx ${receipt.hash})`);
+    }
+  );
+
+trialTask(
+  "trial:submit",
+  "Submit one week of clinical data for the selected account"
+)
+  .addParam(
+    "week",
+    "Visit week (1 to the protocol's visit weeks)",
+    undefined,
+    types.int
+  )
+  .addParam(
+    "effectiveness",
+    "Effectiveness score (0-100)",
+    undefined,
+    types.int
+  )
+  .addParam("sideEffects", "Side effect level (0-10)", undefined, types.int)
+  .addParam("biomarkers", "Biomarker reading", undefined, types.int)
+  .setAction(
+    async (
+      args: TrialTaskArgs & {
+        week: number;
+        effectiveness: number;
+        sideEffects: number;
+        biomarkers: number;
+      },
+      hre
+    ) => {
+      await initializeEncryption(hre);
+      const client = await getClient(hre, args);
+      const receipt = await client.submitWeek({
+        week: args.week,
+        effectivenessScore: args.effectiveness,
+        sideEffectLevel: args.sideEffects,
+        biomarkers: args.biomarkers,
+      });
+      console.log(`✅ Week ${args.week} submitted (tx ${receipt.hash})`);
+    }
+  );
+
+trialTask("trial:advance", "Transition the trial to its next phase").setAction(
+  async (args: TrialTaskArgs, hre) => {
+    const client = await getClient(hre, args);
+    const from = await client.phase();
+    const receipt = await client.advancePhase();
+    const to = await client.phase();
+    console.log(
+      `✅ ${PHASE_NAMES[from]} → ${PHASE_NAMES[to]} (tx ${receipt.hash})`
+    );
+    const progress = await client.transitionProgress();
+    if (progress.inProgress) {
+      console.log(
+        `${progress.processed}/${progress.total} patients processed; finish with trial:continue`
+      );
+    }
+  }
+);
+
+trialTask(
+  "trial:continue",
+  "Process the remaining patients of an unfinished phase transition"
+)
+  .addOptionalParam(
+    "batchSize",
+    `Patients per transaction (default: ${ANALYSIS_BATCH_SIZE} during the analysis, ${ASSIGNMENT_BATCH_SIZE} otherwise)`,
+    undefined,
+    types.int
+  )
+  .setAction(async (args: TrialTaskArgs & { batchSize?: number }, hre) => {
+    const client = await getClient(hre, args);
+    const progress = await client.transitionProgress();
+    if (!progress.inProgress) {
+      console.log(
+        `Nothing to continue (${progress.processed}/${progress.total} patients processed)`
+      );
+      return;
+    }
+
+    while ((await client.transitionProgress()).inProgress) {
+      const receipt = await client.continuePhaseTransition(args.batchSize);
+      const { processed, total } = await client.transitionProgress();
+      console.log(
+        `✅ ${processed}/${total} patients processed (tx ${receipt.hash}, gas ${receipt.gasUsed})`
+      );
+    }
+    console.log(`Transition to ${PHASE_NAMES[progress.phase]} complete`);
+    if (progress.phase === TrialPhase.Analysis) {
+      console.log("Decryption of the per-arm totals requested");
+    }
+  });
+
+trialTask("trial:results", "Show the published results for a phase")
+  .addOptionalParam(
+    "phase",
+    "Trial phase to read",
+    TrialPhase.Analysis,
+    types.int
+  )
+  .setAction(async (args: TrialTaskArgs & { phase: number }, hre) => {
+    const client = await getClient(hre, args);
+    const results = await client.results(args.phase as TrialPhase);
+
+    console.log(`Phase:               ${results.phase}`);
+    console.log(`Completed:           ${results.completed}`);
+    console.log(`Results calculated:  ${results.resultsCalculated}`);
+    console.log(
+      `Completion time:     ${results.completionTime?.toISOString() ?? "-"}`
+    );
+    console.log(`Participants:        ${results.participantCount}`);
+    if (results.resultsCalculated) {
+      console.log(
+        `Arm sizes:           ${results.placeboGroupSize} placebo / ${results.treatmentGroupSize} treatment`
+      );
+    }
+  });
+
+/**
+ * Format a nullable statistic for the console
+ */
+function formatStat(value: number | null, digits = 3): string {
+  return value === null ? "-" : value.toFixed(digits);
+}
+
+trialTask(
+  "trial:stats",
+  "Compare the arms of a completed phase from the published aggregates"
+)
+  .addOptionalParam(
+    "phase",
+    "Trial phase to read",
+    TrialPhase.Analysis,
+    types.int
+  )
+  .addOptionalParam(
+    "source",
+    "Where to read the aggregates: contract or indexer",
+    "contract"
+  )
+  .addOptionalParam(
+    "confidence",
+    "Confidence level of the interval",
+    0.95,
+    types.float
+  )
+  .addOptionalParam("alpha", "Two-sided significance level", 0.05, types.float)
+  .addOptionalParam(
+    "power",
+    "Target power for the sample size recommendation",
+    0.8,
+    types.float
+  )
+  .addFlag("json", "Print the report as JSON")
+  .setAction(
+    async (
+      args: TrialTaskArgs & {
+        phase: number;
+        source: string;
+        confidence: number;
+        alpha: number;
+        power: number;
+        json: boolean;
+      },
+      hre
+    ) => {
+      const client = await getClient(hre, args);
+      let aggregates: ArmAggregates | null;
+      if (args.source === "contract") {
+        aggregates = await client.armStatistics(args.phase as TrialPhase);
+      } else if (args.source === "indexer") {
+        const indexer = await syncIndexer(hre, client, args);
+        aggregates = indexer.armStatistics(args.phase);
+      } else {
+        throw new Error(
+          `--source must be contract or indexer, got ${args.source}`
+        );
+      }
+      if (!aggregates) {
+        throw new Error(`No published aggregates for phase ${args.phase}`);
+      }
+
+      const report = analyzeArms(aggregates, {
+        confidenceLevel: args.confidence,
+        alpha: args.alpha,
+        targetPower: args.power,
+      });
+      if (args.json) {
+        console.log(JSON.stringify({ aggregates, report }, null, 2));
+        return;
+      }
+
+      const { arms, difference, welch, effectSize, power } = report;
+      for (const [name, arm] of Object.entries(arms)) {
+        console.log(
+          `${name.padEnd(10)} n=${arm.n}  mean ${formatStat(arm.mean, 2)}  sd ${formatStat(arm.standardDeviation, 2)}`
+        );
+      }
+      const { level, lower, upper } = difference.confidenceInterval;
+      console.log(
+        `\nDifference:  ${formatStat(difference.estimate, 2)} ` +
+          `(${level * 100}% CI ${formatStat(lower, 2)} to ${formatStat(upper, 2)})`
+      );
+      console.log(
+        `Welch:       t=${formatStat(welch.t)}  df=${formatStat(welch.degreesOfFreedom, 1)}  p=${formatStat(welch.pValue, 4)}`
+      );
+      console.log(
+        `Effect:      d=${formatStat(effectSize.cohensD)}  g=${formatStat(effectSize.hedgesG)}`
+      );
+      console.log(
+        `Power:       ${formatStat(power.observed, 2)} observed, ` +
+          `${power.patientsPerArm ?? "-"} patients per arm for ${power.targetPower}`
+      );
+      console.log(`Significant: ${report.significant} at alpha ${power.alpha}`);
+      for (const warning of report.warnings) {
+        console.log(`⚠️  ${warning}`);
+      }
+    }
+  );
+
+trialTask(
+  "trial:terminate",
+  "Emergency-terminate the trial (coordinator only)"
+).setAction(async (args: TrialTaskArgs, hre) => {
+  const client = await getClient(hre, args);
+  const receipt = await client.terminate();
+  console.log(`⚠️  Trial terminated (tx ${receipt.hash})`);
+});
+
+trialTask(
+  "trial:patients",
+  "List the enrolled patients and the weeks they submitted"
+)
+  .addOptionalParam(
+    "pageSize",
+    `Patients per read (1-${MAX_PATIENT_PAGE_SIZE})`,
+    MAX_PATIENT_PAGE_SIZE,
+    types.int
+  )
+  .addFlag("multicall", "Read several pages per call through Multicall3")
+  .setAction(
+    async (
+      args: TrialTaskArgs & { pageSize: number; multicall: boolean },
+      hre
+    ) => {
+      const client = await getClient(hre, args);
+      let multicall: Multicall | undefined;
+      if (args.multicall) {
+        multicall = (await Multicall.at(hre.ethers.provider)) ?? undefined;
+        if (!multicall) {
+          console.log("No Multicall3 on this network; reading page by page");
+        }
+      }
+
+      const patients = await client.allPatients({
+        pageSize: args.pageSize,
+        multicall,
+      });
+      if (patients.length === 0) {
+        console.log("No patients enrolled");
+        return;
+      }
+      for (const patient of patients) {
+        const consent = patient.withdrawalTime
+          ? "withdrawn"
+          : `consent v${patient.consentVersion}`;
+        const weeks = patient.submittedWeeks.join(",") || "-";
+        console.log(
+          `${patient.address}  ${consent.padEnd(12)}  weeks ${weeks}`
+        );
+      }
+      console.log(`\n${patients.length} patient(s)`);
+    }
+  );
+
+trialTask(
+  "trial:compliance",
+  "List each patient's completed, missed and upcoming visits"
+)
+  .addOptionalParam("patient", "Only report this patient")
+  .addFlag("json", "Print the report as JSON")
+  .addFlag("multicall", "Read several pages per call through Multicall3")
+  .setAction(
+    async (
+      args: TrialTaskArgs & {
+        patient?: string;
+        json: boolean;
+        multicall: boolean;
+      },
+      hre
+    ) => {
+      const client = await getClient(hre, args);
+      const multicall = args.multicall
+        ? ((await Multicall.at(hre.ethers.provider)) ?? undefined)
+        : undefined;
+      const latest = await hre.ethers.provider.getBlock("latest");
+      const report = await buildComplianceReport(
+        client,
+        new Date(Number(latest!.timestamp) * 1000),
+        { multicall }
+      );
+      if (args.patient) {
+        const address = args.patient.toLowerCase();
+        report.patients = report.patients.filter(
+          (patient) => patient.address.toLowerCase() === address
+        );
+        if (report.patients.length === 0) {
+          console.log(`${args.patient} is not enrolled`);
+          return;
+        }
+      }
+
+      if (args.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const protocol = await client.protocol();
+      console.log(`Visits:  ${formatVisitSchedule(protocol)}`);
+      console.log(`As of:   ${report.asOf}`);
+      for (const patient of report.patients) {
+        console.log(`\n${patient.address}`);
+        if (patient.withdrawalTime) {
+          console.log(
+            `  withdrawn     ${patient.withdrawalTime.toISOString()}`
+          );
+        }
+        console.log(`  completed     ${formatWeeks(patient.completed)}`);
+        if (patient.outOfWindow.length > 0) {
+          console.log(`  out of window ${formatWeeks(patient.outOfWindow)}`);
+        }
+        console.log(`  missed        ${formatWeeks(patient.missed)}`);
+        if (patient.outsideTreatment.length > 0) {
+          console.log(
+            `  no treatment  ${formatWeeks(patient.outsideTreatment)}`
+          );
+        }
+        console.log(`  upcoming      ${formatWeeks(patient.upcoming)}`);
+      }
+      if (!args.patient) {
+        const { totals } = report;
+        console.log(
+          `\n${report.patients.length} patient(s): ` +
+            `${totals.completed + totals["out-of-window"]} completed ` +
+            `(${totals["out-of-window"]} out of window), ` +
+            `${totals.missed} missed, ` +
+            `${totals.open + totals.upcoming} upcoming, ` +
+            `${totals.withdrawn} withdrawn, ` +
+            `${totals["outside-treatment"]} outside treatment`
+        );
+      }
+    }
+  );
+
+trialTask("trial:measurements", "List which weeks a patient has submitted")
+  .addParam("patient", "Patient address")
+  .setAction(async (args: TrialTaskArgs & { patient: string }, hre) => {
+    const client = await getClient(hre, args);
+    const patient = await client.patientStatus(args.patient);
+    if (!patient.enrolled) {
+      console.log(`${args.patient} is not enrolled`);
+      return;
+    }
+
+    console.log(`Patient:   ${args.patient}`);
+    console.log(`Enrolled:  ${patient.enrollmentTime?.toISOString()}`);
+    console.log(
+      patient.withdrawalTime
+        ? `Consent:   withdrawn ${patient.withdrawalTime.toISOString()}`
+        : `Consent:   version ${patient.consentVersion}`
+    );
+    console.log(
+      `Submitted: ${await client.measurementCount(args.patient)} week(s)`
+    );
+    const { visitWeeks } = await client.protocol();
+    for (let week = 1; week <= visitWeeks; week++) {
+      const measurement = await client.contract.measurements(
+        args.patient,
+        week
+      );
+      if (measurement.isValid) {
+        const submittedAt = new Date(
+          Number(measurement.measurementTime) * 1000
+        );
+        console.log(
+          `  Week ${String(week).padStart(2)}: ${submittedAt.toISOString()}`
+        );
+      }
+    }
+  });
+
+trialTask(
+  "trial:withdraw",
+  "Withdraw the selected patient's consent; no further data can be recorded"
+).setAction(async (args: TrialTaskArgs, hre) => {
+  const client = await getClient(hre, args);
+  const receipt = await client.withdrawConsent();
+  console.log(`⚠️  Consent withdrawn (tx ${receipt.hash})`);
+});
+
+trialTask(
+  "trial:reconsent",
+  "Agree to the current consent form version as the selected patient"
+).setAction(async (args: TrialTaskArgs, hre) => {
+  const client = await getClient(hre, args);
+  const version = await client.consentVersion();
+  const receipt = await client.renewConsent(version);
+  console.log(`✅ Consent renewed for version ${version} (tx ${receipt.hash})`);
+});
+
+trialTask(
+  "trial:amend-consent",
+  "Publish an amended consent form (coordinator only)"
+)
+  .addParam("document", "Consent form file; its keccak256 hash is recorded")
+  .setAction(async (args: TrialTaskArgs & { document: string }, hre) => {
+    const client = await getClient(hre, args);
+    const receipt = await client.publishConsentVersion(
+      fs.readFileSync(args.document)
+    );
+    const version = await client.consentVersion();
+    console.log(
+      `✅ Consent version ${version} published: ${await client.consentDocument(version)} (tx ${receipt.hash})`
+    );
+    console.log("Enrolled patients must run trial:reconsent before submitting");
+  });
+
+task("trial:deployments", "List the trials registered for the selected network")
+  .addOptionalParam("trialId", "Show the full deployment history of one trial")
+  .setAction(async (args: { trialId?: string }, hre) => {
+    const records = args.trialId
+      ? getDeploymentHistory(hre.network.name, args.trialId)
+      : listDeployments(hre.network.name);
+
+    if (records.length === 0) {
+      console.log(
+        `No deployments registered for network "${hre.network.name}"`
+      );
+      return;
+    }
+
+    for (const record of records) {
+      console.log(
+        `${record.trialId.padEnd(32)} ${record.address}  block ${record.blockNumber}  ${record.deployedAt}`
+      );
+    }
+  });
+
+trialTask(
+  "trial:index",
+  "Index trial events into a local JSON store and print a summary"
+)
+  .addOptionalParam(
+    "out",
+    "Index file (default: indexer-data/<network>/<address>.json)"
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to read (default: the registered deployment block)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks re-read when the checkpoint was reorged out",
+    12,
+    types.int
+  )
+  .setAction(
+    async (
+      args: TrialTaskArgs & {
+        out?: string;
+        fromBlock?: number;
+        confirmations: number;
+      },
+      hre
+    ) => {
+      const client = await getClient(hre, args);
+      const address = await client.address();
+      const deployment = getDeployment(hre.network.name, args.trialId);
+      const startBlock =
+        args.fromBlock ??
+        (deployment?.address.toLowerCase() === address.toLowerCase()
+          ? deployment.blockNumber
+          : 0);
+      const file =
+        args.out ?? path.join(INDEXER_DIR, hre.network.name, `${address}.json`);
+
+      const indexer = new TrialIndexer(
+        hre.ethers.provider,
+        client.contract.interface,
+        address,
+        new JsonFileStore(file),
+        { startBlock, confirmations: args.confirmations }
+      );
+      const result = await indexer.sync();
+
+      console.log(`Index:        ${file}`);
+      const rebuilt = result.rebuilt ? " (rebuilt after reorg)" : "";
+      console.log(
+        `Blocks:       ${result.fromBlock} → ${result.toBlock}${rebuilt}`
+      );
+      console.log(
+        `Events:       +${result.added} / -${result.removed}, ${indexer.events().length} total`
+      );
+
+      console.log("\nEnrollments per day:");
+      for (const { day, enrollments } of indexer.enrollmentsPerDay()) {
+        console.log(`  ${day}  ${enrollments}`);
+      }
+      console.log("\nSubmissions per week:");
+      for (const { week, submissions } of indexer.submissionsPerWeek()) {
+        console.log(`  Week ${String(week).padStart(2)}  ${submissions}`);
+      }
+    }
+  );
+
+trialTask(
+  "trial:export",
+  "Export the trial as CDISC ODM XML and SDTM-like CSV domains"
+)
+  .addOptionalParam(
+    "out",
+    "Export directory (default: exports/<network>/<address>)"
+  )
+  .addOptionalParam(
+    "mapping",
+    "Pseudonym mapping file, kept out of the export (default: <out>.pseudonyms.json)"
+  )
+  .addOptionalParam(
+    "salt",
+    "32-byte hex salt for a new mapping (default: random)"
+  )
+  .addOptionalParam("studyId", "Study identifier (default: the trial id)")
+  .addOptionalParam(
+    "phase",
+    "Trial phase whose results to export",
+    TrialPhase.Analysis,
+    types.int
+  )
+  .setAction(
+    async (
+      args: TrialTaskArgs & {
+        out?: string;
+        mapping?: string;
+        salt?: string;
+        studyId?: string;
+        phase: number;
+      },
+      hre
+    ) => {
+      const client = await getClient(hre, args);
+      const address = await client.address();
+      const indexer = await syncIndexer(hre, client, args);
+      const source = await collectExportSource(
+        client,
+        indexer,
+        args.studyId ?? args.trialId,
+        args.phase as TrialPhase
+      );
+
+      const outDir =
+        args.out ?? path.join("exports", hre.network.name, address);
+      const result = writeExport(source, {
+        outDir,
+        mappingFile:
+          args.mapping ?? `${outDir.replace(/[\\/]+$/, "")}.pseudonyms.json`,
+        salt: args.salt,
+      });
+
+      console.log(`Study:        ${source.studyId}`);
+      console.log(`Subjects:     ${result.subjects}`);
+      console.log(
+        `Results:      ${source.results ? PHASE_NAMES[source.results.phase] : "not yet calculated"}`
+      );
+      for (const file of result.files) {
+        console.log(`  ${path.relative(process.cwd(), file)}`);
+      }
+      console.log(
+        `\n🔑 Pseudonym mapping: ${path.relative(process.cwd(), result.mappingFile)}`
+      );
+      console.log(
+        "   Keep it separate from the export; it re-identifies subjects."
+      );
+    }
+  );
+
+trialTask(
+  "trial:audit",
+  "Write an audit report of the trial's history as Markdown and JSON"
+)
+  .addOptionalParam(
+    "fromBlock",
+    "First block covered (default: the registered deployment block)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "toBlock",
+    "Last block covered (default: the chain head)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "out",
+    "Report directory (default: reports/audit/<network>/<address>)"
+  )
+  .addOptionalParam(
+    "verify",
+    "Stored JSON report to check against a fresh run over its block range"
+  )
+  .setAction(
+    async (
+      args: TrialTaskArgs & {
+        fromBlock?: number;
+        toBlock?: number;
+        out?: string;
+        verify?: string;
+      },
+      hre
+    ) => {
+      const client = await getClient(hre, args);
+      const address = await client.address();
+      const registered = getDeployment(hre.network.name, args.trialId);
+      const deployment =
+        registered?.address.toLowerCase() === address.toLowerCase()
+          ? registered
+          : undefined;
+
+      const stored = args.verify ? loadAuditReport(args.verify) : undefined;
+      const report = await generateAuditReport(
+        hre.ethers.provider,
+        client.contract.interface,
+        address,
+        {
+          deployment,
+          fromBlock: stored?.blockRange.fromBlock ?? args.fromBlock,
+          toBlock: stored?.blockRange.toBlock ?? args.toBlock,
+        }
+      );
+
+      console.log(
+        `Blocks:       ${report.blockRange.fromBlock} → ${report.blockRange.toBlock}`
+      );
+      console.log(`Events:       ${report.eventCount}`);
+      console.log(`Content hash: ${report.contentHash}`);
+
+      if (stored) {
+        if (!verifyAuditHash(stored)) {
+          console.log(
+            `\n⚠️  ${args.verify} does not match its own content hash; it was edited`
+          );
+        }
+        const comparison = compareAuditReports(stored, report);
+        if (!comparison.matches) {
+          throw new Error(
+            `Audit report ${args.verify} does not match the chain ` +
+              `(stored ${comparison.expectedHash}, differing sections: ` +
+              `${comparison.differences.join(", ") || "none"})`
+          );
+        }
+        console.log(`\n✅ ${args.verify} matches the chain`);
+        return;
+      }
+
+      const files = writeAuditReport(
+        report,
+        args.out ?? path.join("reports", "audit", hre.network.name, address)
+      );
+      console.log(`\n  ${path.relative(process.cwd(), files.markdown)}`);
+      console.log(`  ${path.relative(process.cwd(), files.json)}`);
+    }
+  );
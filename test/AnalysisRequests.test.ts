@@ -0,0 +1,237 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  DecryptionRequest,
+  LocalDecryptionOracle,
+} from "../lib/decryption-oracle";
+import { DecryptionRequestError, decodeTrialError } from "../lib/errors";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  AnalysisRequestStatus,
+  TrialClient,
+  TrialPhase,
+  hashPatientList,
+} from "../lib/trial-client";
+import { retirePluginRequests } from "./helpers/decryption-oracle";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient, decryptResults } from "./helpers/encrypted-state";
+
+/**
+ * @title Analysis Request Tracking Test Suite
+ * @notice Tests that results callbacks are accepted once, for a recorded request only
+ *
+ * @chapter: testing
+ * @category: fhevm
+ */
+describe("Analysis Request Tracking", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let relayer: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+  let client: TrialClient;
+  let oracle: LocalDecryptionOracle;
+
+  const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+
+  async function advance() {
+    await time.increase(PHASE_DURATION);
+    return client.advancePhase();
+  }
+
+  /**
+   * Submit endpoint scores (null = missing) and advance to the analysis phase
+   */
+  async function runToAnalysis(
+    scores: (number | null)[]
+  ): Promise<DecryptionRequest> {
+    await advance();
+    for (const [i, patient] of patients.entries()) {
+      const score = scores[i];
+      if (score === null) continue;
+      await client.connect(patient).submitWeek({
+        week: DEFAULT_PROTOCOL.primaryEndpointWeek,
+        effectivenessScore: score,
+        sideEffectLevel: 1,
+        biomarkers: 5000,
+      });
+    }
+    await advance();
+    await advance();
+    const [request] = await oracle.poll();
+    return request;
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    relayer = signers[9];
+    patients = signers.slice(1, 5);
+
+    trial = await deployTrial();
+    client = new TrialClient(trial, fhevm);
+    oracle = await LocalDecryptionOracle.create(
+      ethers.provider,
+      fhevm,
+      relayer
+    );
+
+    for (const patient of patients) {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+  });
+
+  afterEach(async function () {
+    await retirePluginRequests();
+  });
+
+  it("Should record the phase and patients a request covers", async function () {
+    expect(await client.analysisRequest()).to.be.null;
+
+    await advance();
+    await advance();
+    await time.increase(PHASE_DURATION);
+    const tx = await trial.transitionToNextPhase();
+
+    const request = (await client.analysisRequest())!;
+    expect(request).to.deep.equal({
+      requestId: await trial.latestAnalysisRequestId(),
+      phase: TrialPhase.Analysis,
+      status: AnalysisRequestStatus.Pending,
+      patientCount: patients.length,
+      analysedCount: 0,
+      patientsHash: hashPatientList(patients.map((p) => p.address)),
+    });
+    await expect(tx)
+      .to.emit(trial, "AnalysisRequestUpdated")
+      .withArgs(
+        request.requestId,
+        TrialPhase.Analysis,
+        AnalysisRequestStatus.Pending
+      );
+    expect(await client.analysisRequestPatients()).to.deep.equal(
+      patients.map((p) => p.address)
+    );
+  });
+
+  it("Should mark the request fulfilled when the callback is accepted", async function () {
+    const request = await runToAnalysis([70, 80, 60, 90]);
+
+    const result = await oracle.fulfil(request);
+    const receipt = (await ethers.provider.getTransactionReceipt(
+      result.transactionHash!
+    ))!;
+    const updates = receipt.logs
+      .filter((log) => log.address === request.contract)
+      .map((log) => trial.interface.parseLog(log)!)
+      .filter((event) => event.name === "AnalysisRequestUpdated");
+    expect(updates.map((event) => Number(event.args.status))).to.deep.equal([
+      AnalysisRequestStatus.Fulfilled,
+    ]);
+    expect((await client.analysisRequest())!.status).to.equal(
+      AnalysisRequestStatus.Fulfilled
+    );
+  });
+
+  it("Should reject callbacks for unknown request ids", async function () {
+    const request = await runToAnalysis([70, 80, 60, 90]);
+    const unknownId = request.requestId + 1000n;
+
+    await expect(
+      trial.connect(relayer).processTrialResults(unknownId, "0x", "0x")
+    ).to.be.revertedWith("Unknown decryption request");
+
+    const error = await trial
+      .connect(relayer)
+      .processTrialResults(unknownId, "0x", "0x")
+      .catch((e) => e);
+    expect(decodeTrialError(error)).to.be.instanceOf(DecryptionRequestError);
+    expect((await client.results()).resultsCalculated).to.be.false;
+  });
+
+  it("Should reject a replayed callback", async function () {
+    const request = await runToAnalysis([70, 80, 60, 90]);
+    await oracle.fulfil(request);
+    const { completionTime } = await client.results();
+
+    const replayed = await oracle.replay(request);
+    expect(replayed.reverted).to.be.true;
+    expect(decodeTrialError(replayed.error).reason).to.equal(
+      "Decryption request not pending"
+    );
+    expect((await client.results()).completionTime).to.deep.equal(
+      completionTime
+    );
+  });
+
+  it("Should cancel a pending request on emergency termination", async function () {
+    const request = await runToAnalysis([70, 80, 60, 90]);
+
+    await expect(trial.emergencyTermination())
+      .to.emit(trial, "AnalysisRequestUpdated")
+      .withArgs(
+        request.requestId,
+        TrialPhase.Analysis,
+        AnalysisRequestStatus.Cancelled
+      );
+
+    const late = await oracle.fulfil(request);
+    expect(late.reverted).to.be.true;
+    expect(decodeTrialError(late.error).reason).to.equal(
+      "Decryption request not pending"
+    );
+    const results = await client.results();
+    expect(results.completed).to.be.true;
+    expect(results.resultsCalculated).to.be.false;
+  });
+
+  it("Should leave patients without an endpoint measurement out of the averages", async function () {
+    const scores = [70, null, 60, null];
+    const request = await runToAnalysis(scores);
+    expect((await client.analysisRequest())!.analysedCount).to.equal(2);
+
+    await oracle.fulfil(request);
+
+    const sums = [0, 0];
+    const counts = [0, 0];
+    const sizes = [0, 0];
+    for (const [i, patient] of patients.entries()) {
+      const arm = (await decryptPatient(trial, patient.address)).treatmentGroup;
+      sizes[arm]++;
+      const score = scores[i];
+      if (score === null) continue;
+      sums[arm] += score;
+      counts[arm]++;
+    }
+    const average = (arm: number) =>
+      counts[arm] > 0 ? Math.floor(sums[arm] / counts[arm]) : 0;
+
+    expect(await decryptResults(trial, TrialPhase.Analysis)).to.deep.equal({
+      placeboGroupAverage: average(0),
+      treatmentGroupAverage: average(1),
+      totalParticipants: patients.length,
+    });
+    const results = await client.results();
+    expect(results.placeboGroupSize).to.equal(sizes[0]);
+    expect(results.treatmentGroupSize).to.equal(sizes[1]);
+  });
+
+  it("Should publish zero averages when no patient reached the endpoint", async function () {
+    const request = await runToAnalysis([null, null, null, null]);
+
+    const result = await oracle.fulfil(request);
+    expect(result.reverted).to.be.false;
+    expect(await decryptResults(trial, TrialPhase.Analysis)).to.deep.equal({
+      placeboGroupAverage: 0,
+      treatmentGroupAverage: 0,
+      totalParticipants: patients.length,
+    });
+    const results = await client.results();
+    expect(results.resultsCalculated).to.be.true;
+    expect(results.placeboGroupSize + results.treatmentGroupSize).to.equal(
+      patients.length
+    );
+  });
+});
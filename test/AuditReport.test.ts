@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  AuditReport,
+  compareAuditReports,
+  generateAuditReport,
+  renderAuditMarkdown,
+  verifyAuditHash,
+} from "../lib/audit-report";
+import { DEFAULT_TRIAL_ID, DeploymentRecord } from "../lib/deployments";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { UnblindingReason } from "../lib/unblinding";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Audit Report Test Suite
+ * @notice Tests the audit report reconstructed from trial events and its content hash
+ *
+ * @chapter: testing
+ * @category: reporting
+ */
+describe("Audit Report", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+  let coordinator: HardhatEthersSigner;
+  let investigator: HardhatEthersSigner;
+  let dsmb: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+  let deployment: DeploymentRecord;
+
+  async function advance() {
+    await time.increase(DEFAULT_PROTOCOL.enrollmentDuration);
+    await client.advancePhase();
+  }
+
+  function report(options: { toBlock?: number } = {}): Promise<AuditReport> {
+    return generateAuditReport(
+      ethers.provider,
+      trial.interface,
+      deployment.address,
+      { deployment, ...options }
+    );
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    [coordinator, investigator, dsmb] = signers;
+    patients = signers.slice(3, 6);
+
+    trial = await deployTrial();
+    const receipt = (await trial.deploymentTransaction()!.wait())!;
+    deployment = {
+      trialId: DEFAULT_TRIAL_ID,
+      contractName: "PrivacyPreservingClinicalTrial",
+      address: await trial.getAddress(),
+      chainId: 31337,
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.hash,
+      deployer: coordinator.address,
+      deployedAt: new Date().toISOString(),
+      constructorArgs: [coordinator.address],
+      compiler: { version: "0.8.24" },
+      abiHash: ethers.id("abi"),
+      bytecodeHash: ethers.id("bytecode"),
+    };
+
+    client = new TrialClient(trial, fhevm);
+    await client.grantRole("site-investigator", investigator.address);
+    await client.grantRole("dsmb", dsmb.address);
+    for (const patient of patients) {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+  });
+
+  it("Should reconstruct the trial's history from its events", async function () {
+    await advance();
+    for (const [i, patient] of patients.slice(0, 2).entries()) {
+      await client.connect(patient).submitWeek({
+        week: DEFAULT_PROTOCOL.primaryEndpointWeek,
+        effectivenessScore: 60 + i * 20,
+        sideEffectLevel: 2,
+        biomarkers: 5000,
+      });
+    }
+    await client.connect(patients[2]).withdrawConsent();
+    const { requestId } = await client
+      .connect(investigator)
+      .requestUnblinding(patients[0].address, UnblindingReason.Overdose);
+    await client.connect(dsmb).approveUnblinding(requestId);
+    await advance();
+    await advance();
+    await fhevm.awaitDecryptionOracle();
+
+    const audit = await report();
+    expect(audit.deployment).to.deep.equal({
+      record: deployment,
+      onChain: true,
+    });
+    expect(
+      audit.phaseTransitions.map((t) => [t.fromPhase, t.toPhase])
+    ).to.deep.equal([
+      [TrialPhase.Enrollment, TrialPhase.Treatment],
+      [TrialPhase.Treatment, TrialPhase.Monitoring],
+      [TrialPhase.Monitoring, TrialPhase.Analysis],
+    ]);
+    expect(audit.phaseTransitions[0].time).to.match(/^\d{4}-\d{2}-\d{2}T/);
+    expect(audit.enrollment).to.deep.include({ enrolled: 3, withdrawn: 1 });
+    expect(audit.enrollment.perDay.at(-1)).to.deep.include({
+      enrolledTotal: 3,
+      activeTotal: 2,
+    });
+    expect(audit.submissions).to.deep.equal({
+      total: 2,
+      perWeek: [{ week: DEFAULT_PROTOCOL.primaryEndpointWeek, submissions: 2 }],
+    });
+    expect(audit.terminations).to.be.empty;
+    expect(audit.results).to.have.length(1);
+    expect(audit.results[0].phase).to.equal(TrialPhase.Analysis);
+    expect(
+      audit.results[0].arms!.placebo.count +
+        audit.results[0].arms!.treatment.count
+    ).to.equal(2);
+    expect(
+      audit.unblinding.map((u) => [u.action, u.actor, u.reason])
+    ).to.deep.equal([
+      ["requested", investigator.address, "overdose"],
+      ["approved", dsmb.address, "overdose"],
+    ]);
+
+    const markdown = renderAuditMarkdown(audit);
+    expect(markdown).to.include(`Content hash: \`${audit.contentHash}\``);
+    expect(markdown).to.include(
+      `Blocks: ${deployment.blockNumber} → ${audit.blockRange.toBlock}`
+    );
+    expect(markdown).to.include("| 3 | 4 Data Analysis |");
+    expect(markdown).to.include(`## Emergency Unblinding`);
+  });
+
+  it("Should give the same content hash for the same block range", async function () {
+    await advance();
+    const first = await report();
+    await client.terminate();
+
+    const again = await report({ toBlock: first.blockRange.toBlock });
+    expect(again.contentHash).to.equal(first.contentHash);
+    expect(compareAuditReports(first, again).matches).to.be.true;
+
+    const extended = await report();
+    expect(extended.blockRange.toBlock).to.be.greaterThan(
+      first.blockRange.toBlock
+    );
+    const comparison = compareAuditReports(first, extended);
+    expect(comparison.matches).to.be.false;
+    expect(comparison.differences).to.include.members([
+      "blockRange",
+      "terminations",
+    ]);
+    expect(extended.terminations.map((t) => t.phase)).to.deep.equal([
+      TrialPhase.Analysis,
+    ]);
+    expect(extended.results).to.be.empty;
+
+    // Blocks without trial events still move the range, and so the hash
+    await mine();
+    expect((await report()).contentHash).not.to.equal(extended.contentHash);
+  });
+
+  it("Should detect a report edited after it was generated", async function () {
+    const audit = await report();
+    expect(verifyAuditHash(audit)).to.be.true;
+
+    const edited = structuredClone(audit);
+    edited.enrollment.enrolled = 2;
+    expect(verifyAuditHash(edited)).to.be.false;
+    expect(compareAuditReports(edited, audit).differences).to.deep.equal([
+      "enrollment",
+    ]);
+
+    const regenerated = structuredClone(audit);
+    regenerated.generatedAt = new Date(0).toISOString();
+    expect(verifyAuditHash(regenerated)).to.be.true;
+
+    const invalid = await generateAuditReport(
+      ethers.provider,
+      trial.interface,
+      deployment.address,
+      { fromBlock: 10, toBlock: 5 }
+    ).catch((e) => e);
+    expect(invalid.message).to.match(/Invalid block range/);
+  });
+});
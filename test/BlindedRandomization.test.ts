@@ -0,0 +1,201 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import {
+  canUserDecrypt,
+  decryptPatient,
+  decryptResults,
+} from "./helpers/encrypted-state";
+
+/**
+ * @title Blinded Randomization Test Suite
+ * @notice Tests that treatment arms stay encrypted and still drive the analysis
+ *
+ * @chapter: testing
+ * @category: fhevm
+ */
+describe("Blinded Randomization", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let coordinator: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+  let client: TrialClient;
+
+  const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+  const COHORT_SIZE = 9;
+
+  async function advance() {
+    await time.increase(PHASE_DURATION);
+    await client.advancePhase();
+  }
+
+  async function decryptArms(): Promise<number[]> {
+    const arms: number[] = [];
+    for (const patient of patients) {
+      arms.push((await decryptPatient(trial, patient.address)).treatmentGroup);
+    }
+    return arms;
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    coordinator = signers[0];
+    patients = signers.slice(1, COHORT_SIZE + 1);
+
+    trial = await deployTrial();
+
+    client = new TrialClient(trial, fhevm);
+    for (const patient of patients) {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+  });
+
+  describe("Allocation", function () {
+    it("Should draw each arm as an encrypted random bit", async function () {
+      const arms = await decryptArms();
+
+      for (const arm of arms) {
+        expect(arm).to.be.oneOf([0, 1]);
+      }
+      // Nine coin flips all landing on one side would be a 1 in 256 event
+      expect(arms).to.include(0);
+      expect(arms).to.include(1);
+    });
+
+    it("Should not let the coordinator or the patient decrypt the arm", async function () {
+      const data = await trial.patients(patients[0].address);
+
+      for (const signer of [coordinator, patients[0]]) {
+        expect(
+          await canUserDecrypt(
+            trial,
+            FhevmType.euint8,
+            data.encryptedTreatmentGroup,
+            signer
+          )
+        ).to.be.false;
+      }
+    });
+
+    it("Should expose no per-patient allocation through public getters", async function () {
+      // The only per-patient arm data is the ciphertext handle
+      const names: string[] = [];
+      const armOutputs: string[] = [];
+      trial.interface.forEachFunction((fn) => {
+        names.push(fn.name);
+        for (const output of fn.outputs) {
+          if (/group|arm/i.test(output.name)) {
+            armOutputs.push(`${fn.name}.${output.name}:${output.type}`);
+          }
+        }
+      });
+      expect(armOutputs).to.have.members([
+        "patients.encryptedTreatmentGroup:bytes32",
+        "phaseResults.placeboGroupAverage:bytes32",
+        "phaseResults.treatmentGroupAverage:bytes32",
+        "phaseResults.placeboGroupSize:uint32",
+        "phaseResults.treatmentGroupSize:uint32",
+      ]);
+      expect(names).not.to.include.members(["placeboGroup", "treatmentGroup"]);
+    });
+
+    it("Should emit the same events for patients in either arm", async function () {
+      await advance();
+      for (const patient of patients) {
+        await client.connect(patient).submitWeek({
+          week: 1,
+          effectivenessScore: 70,
+          sideEffectLevel: 2,
+          biomarkers: 5000,
+        });
+      }
+
+      // Per patient: the event names and every argument except the patient itself
+      const logs = await ethers.provider.getLogs({
+        address: await trial.getAddress(),
+        fromBlock: 0,
+      });
+      const byPatient = new Map<string, string[]>(
+        patients.map((patient) => [patient.address, []])
+      );
+      for (const log of logs) {
+        const event = trial.interface.parseLog(log)!;
+        const patient = event.args.find(
+          (arg) => typeof arg === "string" && byPatient.has(arg)
+        );
+        if (!patient) continue;
+        const rest = event.args
+          .filter((arg) => arg !== patient)
+          .map((arg, i) =>
+            // Enrollment timestamps differ per transaction, not per arm
+            event.name === "PatientEnrolled" && i === 0 ? "time" : String(arg)
+          );
+        byPatient.get(patient)!.push(`${event.name}(${rest.join(",")})`);
+      }
+      const [first, ...others] = [...byPatient.values()];
+      expect(first).to.deep.equal([
+        "PatientEnrolled(time)",
+        `TreatmentAssigned(${TrialPhase.Treatment})`,
+        "ClinicalDataSubmitted(1)",
+      ]);
+      for (const sequence of others) {
+        expect(sequence).to.deep.equal(first);
+      }
+    });
+  });
+
+  describe("Analysis", function () {
+    const SCORES = [62, 88, 71, 90, 55, 84, 67, 93, 75];
+
+    beforeEach(async function () {
+      await advance();
+      // The last patient misses the primary endpoint
+      for (const [i, patient] of patients.slice(0, -1).entries()) {
+        await client.connect(patient).submitWeek({
+          week: DEFAULT_PROTOCOL.primaryEndpointWeek,
+          effectivenessScore: SCORES[i],
+          sideEffectLevel: 2,
+          biomarkers: 5000,
+        });
+      }
+      await advance();
+      await advance();
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("Should average the endpoint scores by the encrypted arm", async function () {
+      const arms = await decryptArms();
+      const totals = { placebo: [0, 0], treatment: [0, 0] };
+      for (const [i, arm] of arms.slice(0, -1).entries()) {
+        const total = arm === 1 ? totals.treatment : totals.placebo;
+        total[0] += SCORES[i];
+        total[1] += 1;
+      }
+      const average = ([sum, count]: number[]) =>
+        count > 0 ? Math.floor(sum / count) : 0;
+
+      expect(await decryptResults(trial, TrialPhase.Analysis)).to.deep.equal({
+        placeboGroupAverage: average(totals.placebo),
+        treatmentGroupAverage: average(totals.treatment),
+        totalParticipants: COHORT_SIZE,
+      });
+    });
+
+    it("Should reveal the arm sizes only in aggregate", async function () {
+      const arms = await decryptArms();
+      const treated = arms.filter((arm) => arm === 1).length;
+
+      const results = await client.results();
+      expect(results.resultsCalculated).to.be.true;
+      expect(results.treatmentGroupSize).to.equal(treated);
+      expect(results.placeboGroupSize).to.equal(COHORT_SIZE - treated);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  ExportSource,
+  Pseudonymizer,
+  buildOdm,
+  buildSdtmDomains,
+  collectExportSource,
+  toCsv,
+  writeExport,
+} from "../lib/cdisc";
+import { MemoryStore, TrialIndexer } from "../lib/indexer";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import { TrialClient } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Clinical Data Export Test Suite
+ * @notice Tests the CDISC ODM and SDTM-like exports and their pseudonymization
+ *
+ * @chapter: testing
+ * @category: export
+ */
+describe("Clinical Data Export", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+  let patients: HardhatEthersSigner[];
+  let source: ExportSource;
+
+  const SALT = ethers.id("export-salt");
+
+  async function advance() {
+    await time.increase(DEFAULT_PROTOCOL.enrollmentDuration);
+    await client.advancePhase();
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    patients = signers.slice(1, 5);
+
+    trial = await deployTrial();
+    const startBlock = (await trial.deploymentTransaction()!.wait())!
+      .blockNumber;
+    client = new TrialClient(trial, fhevm);
+
+    for (const patient of patients) {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+    await advance();
+    for (const [i, patient] of patients.slice(0, 3).entries()) {
+      for (const week of [1, DEFAULT_PROTOCOL.primaryEndpointWeek]) {
+        await client.connect(patient).submitWeek({
+          week,
+          effectivenessScore: 60 + i * 10,
+          sideEffectLevel: 2,
+          biomarkers: 5000,
+        });
+      }
+    }
+    await client.connect(patients[3]).withdrawConsent();
+    await advance();
+    await advance();
+    await fhevm.awaitDecryptionOracle();
+
+    const indexer = new TrialIndexer(
+      ethers.provider,
+      trial.interface,
+      await trial.getAddress(),
+      new MemoryStore(),
+      { startBlock }
+    );
+    await indexer.sync();
+    source = await collectExportSource(client, indexer, "TEST-1");
+  });
+
+  it("Should pseudonymize every subject in the ODM export", async function () {
+    const odm = buildOdm(source, new Pseudonymizer(SALT));
+
+    expect(odm).to.match(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(odm).to.include('ODMVersion="1.3.2"');
+    const subjectKeys = [...odm.matchAll(/SubjectKey="([^"]+)"/g)].map(
+      (match) => match[1]
+    );
+    expect(subjectKeys).to.have.length(patients.length);
+    for (const key of subjectKeys) {
+      expect(key).to.match(/^SUBJ-[0-9A-F]{12}$/);
+    }
+    for (const patient of patients) {
+      expect(odm.toLowerCase()).not.to.include(
+        patient.address.slice(2).toLowerCase()
+      );
+    }
+
+    const count = (pattern: RegExp) => odm.match(pattern)?.length ?? 0;
+    expect(count(/<StudyEventData StudyEventOID="SE.VISIT"/g)).to.equal(6);
+    expect(count(/<StudyEventData StudyEventOID="SE.WITHDRAWAL"/g)).to.equal(1);
+    expect(count(/<ItemGroupData ItemGroupOID="IG.PHASE"/g)).to.equal(3);
+    expect(odm).to.include('<ItemData ItemOID="IT.NSUBJ" Value="4"/>');
+  });
+
+  it("Should derive stable subject ids from the salt", function () {
+    const address = patients[0].address;
+    const first = new Pseudonymizer(SALT).subjectId(address);
+    expect(new Pseudonymizer(SALT).subjectId(address.toLowerCase())).to.equal(
+      first
+    );
+    expect(
+      new Pseudonymizer(ethers.id("other-salt")).subjectId(address)
+    ).not.to.equal(first);
+    expect(() => new Pseudonymizer("0x1234")).to.throw(/32 bytes/);
+  });
+
+  it("Should summarize the SDTM-like domains at the aggregate level", async function () {
+    const results = (await client.results())!;
+    const [dm, ex, ae, ts] = buildSdtmDomains(source);
+
+    expect(dm.rows.map((row) => [row.ARMCD, row.NSUBJ])).to.deep.equal([
+      ["ALL", 4],
+      ["PBO", results.placeboGroupSize],
+      ["TRT", results.treatmentGroupSize],
+    ]);
+    expect(dm.rows[0].NWITHDRN).to.equal(1);
+    expect(ex.rows).to.have.length(2);
+    expect(ex.rows[0].EXSTDTC).to.match(/^\d{4}-\d{2}-\d{2}$/);
+    expect(ae.rows.map((row) => [row.VISITNUM, row.NASSESS])).to.deep.equal([
+      [1, 3],
+      [DEFAULT_PROTOCOL.primaryEndpointWeek, 3],
+    ]);
+    expect(ts.rows.find((row) => row.TSPARMCD === "ACTSUB")!.TSVAL).to.equal(4);
+
+    expect(toCsv(["A", "B"], [{ A: 'say "hi"', B: "x,y" }, { A: 1 }])).to.equal(
+      'A,B\n"say ""hi""","x,y"\n1,\n'
+    );
+  });
+
+  it("Should write the mapping outside the export and reuse its salt", function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cdisc-"));
+    try {
+      const outDir = path.join(dir, "export");
+      const mappingFile = path.join(dir, "pseudonyms.json");
+
+      const error = (() => {
+        try {
+          writeExport(source, {
+            outDir,
+            mappingFile: path.join(outDir, "pseudonyms.json"),
+          });
+        } catch (e) {
+          return e as Error;
+        }
+      })();
+      expect(error?.message).to.match(/outside the export directory/);
+
+      const first = writeExport(source, { outDir, mappingFile });
+      expect(first.subjects).to.equal(patients.length);
+      expect(first.files.map((file) => path.basename(file))).to.deep.equal([
+        "odm.xml",
+        "dm.csv",
+        "ex.csv",
+        "ae.csv",
+        "ts.csv",
+      ]);
+      const odm = fs.readFileSync(path.join(outDir, "odm.xml"), "utf8");
+
+      // A second export without a salt picks up the mapping file's
+      writeExport(source, { outDir, mappingFile });
+      const again = fs.readFileSync(path.join(outDir, "odm.xml"), "utf8");
+      const keys = (xml: string) => xml.match(/SubjectKey="[^"]+"/g);
+      expect(keys(again)).to.deep.equal(keys(odm));
+
+      const mapping = JSON.parse(fs.readFileSync(mappingFile, "utf8"));
+      expect(
+        mapping.subjects.map((s: { address: string }) => s.address)
+      ).to.have.members(patients.map((p) => p.address));
+      expect(() =>
+        writeExport(source, { outDir, mappingFile, salt: SALT })
+      ).to.throw(/different salt/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
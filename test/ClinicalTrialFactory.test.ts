@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ClinicalTrialFactory } from "../typechain-types";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  TrialLibraries,
+  deployTrialLibraries,
+  linkTrialCode,
+} from "../lib/trial-libraries";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Clinical Trial Factory Test Suite
+ * @notice Tests that the factory deploys exactly the trial code it was given
+ *
+ * @chapter: testing
+ * @category: registry
+ */
+describe("ClinicalTrialFactory", function () {
+  let coordinator: HardhatEthersSigner;
+  let libraries: TrialLibraries;
+  let trialCode: string;
+
+  async function deployFactory(code: string): Promise<ClinicalTrialFactory> {
+    const factory = await ethers.deployContract("ClinicalTrialFactory", [code]);
+    await factory.waitForDeployment();
+    return factory as unknown as ClinicalTrialFactory;
+  }
+
+  async function deployThrough(factory: ClinicalTrialFactory) {
+    const address = await factory.deployTrial.staticCall(
+      DEFAULT_PROTOCOL,
+      coordinator.address
+    );
+    await factory.deployTrial(DEFAULT_PROTOCOL, coordinator.address);
+    return address;
+  }
+
+  /**
+   * Creation code of `size` bytes whose deployed code is the keccak256 of
+   * its whole initcode, i.e. the reassembled chunks plus the arguments
+   */
+  function hashingCode(size: number): string {
+    // CODESIZE PUSH0 PUSH0 CODECOPY CODESIZE PUSH0 KECCAK256
+    // PUSH0 MSTORE PUSH1 32 PUSH0 RETURN
+    const prefix = ethers.getBytes("0x385f5f39385f205f5260205ff3");
+    const code = new Uint8Array(size);
+    for (let i = 0; i < size; i++) {
+      code[i] = i % 251;
+    }
+    code.set(prefix);
+    return ethers.hexlify(code);
+  }
+
+  beforeEach(async function () {
+    [coordinator] = await ethers.getSigners();
+    libraries = await deployTrialLibraries(ethers);
+    trialCode = await linkTrialCode(ethers, libraries);
+  });
+
+  it("Should deploy the same trial as a direct deployment", async function () {
+    const factory = await deployFactory(trialCode);
+    expect(await factory.trialCodeHash()).to.equal(ethers.keccak256(trialCode));
+
+    const viaFactory = await deployThrough(factory);
+    const direct = await deployTrial(
+      DEFAULT_PROTOCOL,
+      coordinator.address,
+      libraries
+    );
+
+    expect(await ethers.provider.getCode(viaFactory)).to.equal(
+      await ethers.provider.getCode(await direct.getAddress())
+    );
+    const trial = await ethers.getContractAt(
+      "PrivacyPreservingClinicalTrial",
+      viaFactory
+    );
+    expect(await trial.trialCoordinator()).to.equal(coordinator.address);
+  });
+
+  it("Should reassemble code split across several chunks", async function () {
+    const chunkSize = 24_000;
+    const code = hashingCode(chunkSize + 5_000);
+    const factory = await deployFactory(code);
+    expect(await factory.CHUNK_SIZE()).to.equal(chunkSize);
+
+    const deployed = await deployThrough(factory);
+    const args = factory.interface.encodeFunctionData("deployTrial", [
+      DEFAULT_PROTOCOL,
+      coordinator.address,
+    ]);
+    // The arguments follow the code, ABI-encoded like the calldata without its selector
+    const initCode = ethers.concat([code, ethers.dataSlice(args, 4)]);
+    expect(await ethers.provider.getCode(deployed)).to.equal(
+      ethers.keccak256(initCode)
+    );
+  });
+
+  it("Should pass on the trial constructor's revert reason", async function () {
+    const factory = await deployFactory(trialCode);
+    await expect(
+      factory.deployTrial(
+        { ...DEFAULT_PROTOCOL, minAge: 70, maxAge: 30 },
+        coordinator.address
+      )
+    ).to.be.revertedWith("Invalid age range");
+
+    await expect(deployFactory("0x")).to.be.revertedWith("Trial code required");
+  });
+});
@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ClinicalTrialRegistry,
+  PrivacyPreservingClinicalTrial,
+} from "../typechain-types";
+import {
+  InvalidInputError,
+  TrialRevertError,
+  UnknownTrialError,
+} from "../lib/errors";
+import { DEFAULT_PROTOCOL, TrialProtocol, hashProtocol } from "../lib/protocol";
+import { TrialClient } from "../lib/trial-client";
+import { deployTrialLibraries, linkTrialCode } from "../lib/trial-libraries";
+import { TrialRegistryClient } from "../lib/trial-registry";
+
+/**
+ * @title Clinical Trial Registry Test Suite
+ * @notice Tests trial creation, metadata and paging through the registry
+ *
+ * @chapter: testing
+ * @category: registry
+ */
+describe("ClinicalTrialRegistry", function () {
+  let registry: ClinicalTrialRegistry;
+  let client: TrialRegistryClient;
+  let coordinatorA: HardhatEthersSigner;
+  let coordinatorB: HardhatEthersSigner;
+  let trialCode: string;
+
+  const LONG_PROTOCOL: TrialProtocol = {
+    ...DEFAULT_PROTOCOL,
+    treatmentDuration: 7 * 86400,
+    maxAge: 65,
+  };
+
+  async function create(
+    coordinator: HardhatEthersSigner,
+    title: string,
+    protocol: TrialProtocol = DEFAULT_PROTOCOL
+  ) {
+    return client
+      .connect(coordinator)
+      .createTrial({ title, sponsor: "Acme Pharma", protocol });
+  }
+
+  async function trialAt(address: string): Promise<TrialClient> {
+    const trial = (await ethers.getContractAt(
+      "PrivacyPreservingClinicalTrial",
+      address
+    )) as unknown as PrivacyPreservingClinicalTrial;
+    return new TrialClient(trial);
+  }
+
+  beforeEach(async function () {
+    [, coordinatorA, coordinatorB] = await ethers.getSigners();
+
+    trialCode = await linkTrialCode(ethers, await deployTrialLibraries(ethers));
+    const trialFactory = await ethers.deployContract("ClinicalTrialFactory", [
+      trialCode,
+    ]);
+    const RegistryFactory = await ethers.getContractFactory(
+      "ClinicalTrialRegistry"
+    );
+    registry = await RegistryFactory.deploy(await trialFactory.getAddress());
+    await registry.waitForDeployment();
+    client = new TrialRegistryClient(registry);
+  });
+
+  describe("Creating trials", function () {
+    it("Should deploy a trial coordinated by the caller", async function () {
+      const { trial, receipt } = await create(
+        coordinatorA,
+        "Hypertension Phase II",
+        LONG_PROTOCOL
+      );
+
+      expect(trial.id).to.equal(0);
+      expect(trial.coordinator).to.equal(coordinatorA.address);
+      expect(trial.title).to.equal("Hypertension Phase II");
+      expect(trial.sponsor).to.equal("Acme Pharma");
+      await expect(receipt)
+        .to.emit(registry, "TrialCreated")
+        .withArgs(
+          0,
+          trial.address,
+          coordinatorA.address,
+          "Hypertension Phase II",
+          "Acme Pharma",
+          trial.protocolHash
+        );
+
+      const deployed = await trialAt(trial.address);
+      expect(await deployed.contract.trialCoordinator()).to.equal(
+        coordinatorA.address
+      );
+      expect(await deployed.protocol()).to.deep.equal(LONG_PROTOCOL);
+    });
+
+    it("Should record the hash of the deployed protocol", async function () {
+      const { trial } = await create(coordinatorA, "Study", LONG_PROTOCOL);
+
+      expect(trial.protocolHash).to.equal(hashProtocol(LONG_PROTOCOL));
+      expect(trial.protocolHash).not.to.equal(hashProtocol(DEFAULT_PROTOCOL));
+    });
+
+    it("Should let the coordinator operate the created trial", async function () {
+      const { trial } = await create(coordinatorA, "Study");
+      const deployed = (await trialAt(trial.address)).connect(coordinatorA);
+
+      await deployed.terminate();
+      expect((await deployed.results()).completed).to.be.true;
+    });
+
+    it("Should deploy trials through its factory", async function () {
+      const factory = await registry.factory();
+      const { receipt } = await create(coordinatorA, "Study");
+      const trial = await trialAt((await client.trial(0)).address);
+
+      // The trial records the factory as the sender of the initial grant
+      await expect(receipt)
+        .to.emit(trial.contract, "RoleGranted")
+        .withArgs(
+          await trial.contract.COORDINATOR_ROLE(),
+          coordinatorA.address,
+          factory
+        );
+
+      // The factory keeps the linked trial code it was given, outside its own bytecode
+      const trialFactory = await ethers.getContractAt(
+        "ClinicalTrialFactory",
+        factory
+      );
+      expect(await trialFactory.trialCodeHash()).to.equal(
+        ethers.keccak256(trialCode)
+      );
+      expect(
+        ethers.dataLength(await ethers.provider.getCode(factory))
+      ).to.be.lessThan(ethers.dataLength(trialCode));
+
+      const RegistryFactory = await ethers.getContractFactory(
+        "ClinicalTrialRegistry"
+      );
+      await expect(
+        RegistryFactory.deploy(ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid factory");
+      await expect(
+        ethers.deployContract("ClinicalTrialFactory", ["0x"])
+      ).to.be.revertedWith("Trial code required");
+    });
+
+    it("Should reject empty metadata and invalid protocols", async function () {
+      const error = await create(coordinatorA, " ").catch((e) => e);
+      expect(error).to.be.instanceOf(InvalidInputError);
+
+      await expect(
+        registry
+          .connect(coordinatorA)
+          .createTrial("Study", "", DEFAULT_PROTOCOL)
+      ).to.be.revertedWith("Sponsor required");
+
+      const invalid = await create(coordinatorA, "Study", {
+        ...DEFAULT_PROTOCOL,
+        minAge: 90,
+      }).catch((e) => e);
+      expect(invalid).to.be.instanceOf(TrialRevertError);
+      expect(invalid.reason).to.equal("Invalid age range");
+      expect(await client.count()).to.equal(0);
+    });
+  });
+
+  describe("Looking up trials", function () {
+    beforeEach(async function () {
+      await create(coordinatorA, "A-1");
+      await create(coordinatorB, "B-1");
+      await create(coordinatorA, "A-2");
+    });
+
+    it("Should find trials by id and address", async function () {
+      const byId = await client.trial(1);
+      expect(byId.title).to.equal("B-1");
+
+      expect(await client.trialByAddress(byId.address)).to.deep.equal(byId);
+      expect(await client.isRegistered(byId.address)).to.be.true;
+      expect(await client.isRegistered(coordinatorA.address)).to.be.false;
+    });
+
+    it("Should report unknown trials", async function () {
+      expect(await client.trial(3).catch((e) => e)).to.be.instanceOf(
+        UnknownTrialError
+      );
+      expect(
+        await client.trialByAddress(coordinatorA.address).catch((e) => e)
+      ).to.be.instanceOf(UnknownTrialError);
+      await expect(registry.getTrial(3)).to.be.revertedWith("Unknown trial");
+    });
+
+    it("Should page through all trials", async function () {
+      const first = await client.page(0, 2);
+      const second = await client.page(2, 2);
+
+      expect(first.map((t) => [t.id, t.title])).to.deep.equal([
+        [0, "A-1"],
+        [1, "B-1"],
+      ]);
+      expect(second.map((t) => [t.id, t.title])).to.deep.equal([[2, "A-2"]]);
+      expect(await client.page(5, 2)).to.deep.equal([]);
+      expect((await client.all(2)).map((t) => t.title)).to.deep.equal([
+        "A-1",
+        "B-1",
+        "A-2",
+      ]);
+    });
+
+    it("Should page through a coordinator's trials", async function () {
+      expect(await client.coordinatorCount(coordinatorA.address)).to.equal(2);
+
+      const page = await client.pageByCoordinator(coordinatorA.address, 1, 10);
+      expect(page.map((t) => [t.id, t.title])).to.deep.equal([[2, "A-2"]]);
+    });
+
+    it("Should reject invalid page sizes", async function () {
+      expect(await client.page(0, 0).catch((e) => e)).to.be.instanceOf(
+        InvalidInputError
+      );
+      await expect(registry.getTrials(0, 101)).to.be.revertedWith(
+        "Invalid page size"
+      );
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ZeroHash } from "ethers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { WithdrawalPolicy, hashConsentDocument } from "../lib/consent";
+import {
+  ConsentWithdrawnError,
+  InvalidInputError,
+  NotCoordinatorError,
+  ReconsentRequiredError,
+} from "../lib/errors";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import { ArmAggregate } from "../lib/statistics";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient } from "./helpers/encrypted-state";
+
+/**
+ * @title Consent Test Suite
+ * @notice Tests consent withdrawal, consent form amendments and the withdrawal policy
+ *
+ * @chapter: testing
+ * @category: consent
+ */
+describe("Consent", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+  let investigator: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+
+  const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+  const ENROLLMENT = { age: 40, healthScore: 80, vitalSigns: 12080 };
+
+  function visit(week: number, effectivenessScore = 70) {
+    return { week, effectivenessScore, sideEffectLevel: 2, biomarkers: 5000 };
+  }
+
+  async function deploy(policy = WithdrawalPolicy.Exclude): Promise<void> {
+    trial = await deployTrial({
+      ...DEFAULT_PROTOCOL,
+      withdrawalPolicy: policy,
+    });
+    client = new TrialClient(trial, fhevm);
+  }
+
+  async function enrollAndStartTreatment(count: number): Promise<void> {
+    for (const patient of patients.slice(0, count)) {
+      await client.connect(patient).enroll(ENROLLMENT);
+    }
+    await time.increase(PHASE_DURATION);
+    await client.advancePhase();
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    [, investigator] = signers;
+    patients = signers.slice(2, 6);
+    await deploy();
+  });
+
+  describe("Withdrawal", function () {
+    beforeEach(async function () {
+      await client.grantRole("site-investigator", investigator.address);
+      await enrollAndStartTreatment(1);
+    });
+
+    it("Should record the withdrawal in the patient status", async function () {
+      const patient = patients[0];
+      await expect(trial.connect(patient).withdrawConsent()).to.emit(
+        trial,
+        "ConsentWithdrawn"
+      );
+
+      const status = await client.patientStatus(patient.address);
+      expect(status.enrolled).to.be.true;
+      expect(status.consentGiven).to.be.false;
+      expect(status.withdrawalTime).to.be.instanceOf(Date);
+
+      const error = await client
+        .connect(patient)
+        .withdrawConsent()
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(ConsentWithdrawnError);
+      expect(error.reason).to.equal("Consent already withdrawn");
+    });
+
+    it("Should stop all further data collection", async function () {
+      const patient = patients[0];
+      await client.connect(patient).submitWeek(visit(1));
+      await client.connect(patient).withdrawConsent();
+
+      for (const submit of [
+        () => client.connect(patient).submitWeek(visit(2)),
+        () =>
+          client
+            .connect(investigator)
+            .submitWeekForPatient(patient.address, visit(3)),
+        () => client.connect(patient).renewConsent(),
+      ]) {
+        const error = await submit().catch((e) => e);
+        expect(error).to.be.instanceOf(ConsentWithdrawnError);
+      }
+      expect(await client.measurementCount(patient.address)).to.equal(1);
+    });
+
+    it("Should only be possible for enrolled patients", async function () {
+      await expect(
+        trial.connect(patients[1]).withdrawConsent()
+      ).to.be.revertedWith("Patient not enrolled");
+    });
+  });
+
+  describe("Amendments", function () {
+    const AMENDMENT = "Consent form v2: adds a week-8 blood draw";
+
+    it("Should require re-consent before further submissions", async function () {
+      await enrollAndStartTreatment(1);
+      const patient = client.connect(patients[0]);
+
+      await expect(trial.publishConsentVersion(hashConsentDocument(AMENDMENT)))
+        .to.emit(trial, "ConsentVersionPublished")
+        .withArgs(2, hashConsentDocument(AMENDMENT));
+      expect(await client.consentVersion()).to.equal(2);
+      expect(await client.consentDocument(2)).to.equal(
+        hashConsentDocument(AMENDMENT)
+      );
+
+      const error = await patient.submitWeek(visit(1)).catch((e) => e);
+      expect(error).to.be.instanceOf(ReconsentRequiredError);
+
+      await expect(trial.connect(patients[0]).renewConsent(2))
+        .to.emit(trial, "ConsentRenewed")
+        .withArgs(patients[0].address, 2);
+      expect(
+        (await client.patientStatus(patients[0].address)).consentVersion
+      ).to.equal(2);
+      await patient.submitWeek(visit(1));
+      expect(await client.measurementCount(patients[0].address)).to.equal(1);
+    });
+
+    it("Should only accept the current version, once", async function () {
+      await enrollAndStartTreatment(1);
+      const patient = client.connect(patients[0]);
+
+      const current = await patient.renewConsent().catch((e) => e);
+      expect(current).to.be.instanceOf(InvalidInputError);
+      expect(current.reason).to.equal("Consent already current");
+
+      await client.publishConsentVersion(AMENDMENT);
+      await client.publishConsentVersion(AMENDMENT + " and a week-10 scan");
+      const stale = await patient.renewConsent(2).catch((e) => e);
+      expect(stale).to.be.instanceOf(InvalidInputError);
+      expect(stale.reason).to.equal("Not the current consent version");
+
+      await patient.renewConsent();
+      expect(
+        (await client.patientStatus(patients[0].address)).consentVersion
+      ).to.equal(3);
+    });
+
+    it("Should enroll new patients under the current version", async function () {
+      await client.publishConsentVersion(AMENDMENT);
+      await client.connect(patients[0]).enroll(ENROLLMENT);
+
+      const status = await client.patientStatus(patients[0].address);
+      expect(status.consentVersion).to.equal(2);
+    });
+
+    it("Should only let the coordinator publish a form hash", async function () {
+      const notCoordinator = await client
+        .connect(patients[0])
+        .publishConsentVersion(AMENDMENT)
+        .catch((e) => e);
+      expect(notCoordinator).to.be.instanceOf(NotCoordinatorError);
+
+      const empty = await client
+        .publishConsentVersion(ZeroHash)
+        .catch((e) => e);
+      expect(empty).to.be.instanceOf(InvalidInputError);
+      expect(empty.reason).to.equal("Invalid consent document");
+      expect(await client.consentVersion()).to.equal(1);
+    });
+  });
+
+  describe("Withdrawal policy", function () {
+    const SCORES = [62, 88, 71, 90];
+
+    /**
+     * Run a trial to completion where the first patient withdraws after
+     * recording the endpoint visit; returns the arms of all patients
+     */
+    async function runWithWithdrawal(): Promise<number[]> {
+      await enrollAndStartTreatment(SCORES.length);
+      for (const [i, score] of SCORES.entries()) {
+        await client
+          .connect(patients[i])
+          .submitWeek(visit(DEFAULT_PROTOCOL.primaryEndpointWeek, score));
+      }
+      await client.connect(patients[0]).withdrawConsent();
+      for (let i = 0; i < 2; i++) {
+        await time.increase(PHASE_DURATION);
+        await client.advancePhase();
+      }
+      await fhevm.awaitDecryptionOracle();
+
+      const arms: number[] = [];
+      for (const patient of patients.slice(0, SCORES.length)) {
+        arms.push(
+          (await decryptPatient(trial, patient.address)).treatmentGroup
+        );
+      }
+      return arms;
+    }
+
+    function aggregate(arms: number[], arm: number, skip: number[]) {
+      const scores = SCORES.filter(
+        (_, i) => arms[i] === arm && !skip.includes(i)
+      );
+      return {
+        count: scores.length,
+        sum: scores.reduce((sum, x) => sum + x, 0),
+        sumOfSquares: scores.reduce((sum, x) => sum + x * x, 0),
+      } satisfies ArmAggregate;
+    }
+
+    it("Should exclude withdrawn patients' scores by default", async function () {
+      const arms = await runWithWithdrawal();
+
+      expect(await client.armStatistics(TrialPhase.Analysis)).to.deep.equal({
+        placebo: aggregate(arms, 0, [0]),
+        treatment: aggregate(arms, 1, [0]),
+      });
+      // Arm sizes report randomization, so the withdrawn patient still counts
+      const results = await client.results(TrialPhase.Analysis);
+      expect(results.placeboGroupSize + results.treatmentGroupSize).to.equal(
+        SCORES.length
+      );
+    });
+
+    it("Should retain prior data under retain-prior-data", async function () {
+      await deploy(WithdrawalPolicy.RetainPriorData);
+      const arms = await runWithWithdrawal();
+
+      expect(await client.armStatistics(TrialPhase.Analysis)).to.deep.equal({
+        placebo: aggregate(arms, 0, []),
+        treatment: aggregate(arms, 1, []),
+      });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  DecryptionRequest,
+  LocalDecryptionOracle,
+} from "../lib/decryption-oracle";
+import { DecryptionRequestError, decodeTrialError } from "../lib/errors";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { retirePluginRequests } from "./helpers/decryption-oracle";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient, decryptResults } from "./helpers/encrypted-state";
+
+/**
+ * @title Decryption Oracle Test Suite
+ * @notice Tests the analysis callback path through the local oracle stand-in
+ *
+ * @chapter: testing
+ * @category: fhevm
+ */
+describe("Local Decryption Oracle", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let relayer: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+  let client: TrialClient;
+  let oracle: LocalDecryptionOracle;
+  let request: DecryptionRequest;
+
+  const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+  const SCORES = [62, 88, 71, 90];
+
+  async function advance() {
+    await time.increase(PHASE_DURATION);
+    await client.advancePhase();
+  }
+
+  /**
+   * The expected averages, computed in plaintext from the decrypted arms
+   */
+  async function plaintextAverages() {
+    const sums = [0, 0];
+    const counts = [0, 0];
+    for (const [i, patient] of patients.entries()) {
+      const arm = (await decryptPatient(trial, patient.address)).treatmentGroup;
+      sums[arm] += SCORES[i];
+      counts[arm]++;
+    }
+    const average = (arm: number) =>
+      counts[arm] > 0 ? Math.floor(sums[arm] / counts[arm]) : 0;
+    return {
+      placeboGroupAverage: average(0),
+      treatmentGroupAverage: average(1),
+      totalParticipants: patients.length,
+    };
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    relayer = signers[9];
+    patients = signers.slice(1, SCORES.length + 1);
+
+    trial = await deployTrial();
+    client = new TrialClient(trial, fhevm);
+    oracle = await LocalDecryptionOracle.create(
+      ethers.provider,
+      fhevm,
+      relayer
+    );
+
+    for (const patient of patients) {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+    await advance();
+    for (const [i, patient] of patients.entries()) {
+      await client.connect(patient).submitWeek({
+        week: DEFAULT_PROTOCOL.primaryEndpointWeek,
+        effectivenessScore: SCORES[i],
+        sideEffectLevel: 2,
+        biomarkers: 5000,
+      });
+    }
+    await advance();
+    await advance();
+
+    [request] = await oracle.poll();
+  });
+
+  afterEach(async function () {
+    await retirePluginRequests();
+  });
+
+  it("Should observe the analysis decryption request", async function () {
+    expect(request.contract).to.equal(await trial.getAddress());
+    expect(request.callbackSelector).to.equal(
+      trial.interface.getFunction("processTrialResults").selector
+    );
+    expect(request.handles).to.have.length(7);
+    expect(oracle.pending()).to.deep.equal([request]);
+    // Nothing new until the next request
+    expect(await oracle.poll()).to.have.length(0);
+  });
+
+  it("Should run the callback and publish the results", async function () {
+    const result = await oracle.fulfil(request);
+
+    expect(result.reverted).to.be.false;
+    const receipt = await ethers.provider.getTransactionReceipt(
+      result.transactionHash!
+    );
+    const events = receipt!.logs
+      .filter((log) => log.address === request.contract)
+      .map((log) => trial.interface.parseLog(log)!.name);
+    expect(events).to.deep.equal([
+      "DecryptionFulfilled",
+      "AnalysisRequestUpdated",
+      "ArmStatisticsPublished",
+      "TrialCompleted",
+      "ResultsPublished",
+    ]);
+
+    expect(await decryptResults(trial, TrialPhase.Analysis)).to.deep.equal(
+      await plaintextAverages()
+    );
+    const results = await client.results();
+    expect(results.resultsCalculated).to.be.true;
+    expect(results.placeboGroupSize + results.treatmentGroupSize).to.equal(
+      patients.length
+    );
+    expect(oracle.pending()).to.have.length(0);
+  });
+
+  it("Should leave results pending until a delayed callback arrives", async function () {
+    const requestBlock = await ethers.provider.getBlock(request.blockNumber);
+
+    expect((await client.results()).resultsCalculated).to.be.false;
+    await oracle.fulfil(request, { delaySeconds: 6 * 3600, delayBlocks: 50 });
+
+    const results = await client.results();
+    expect(results.resultsCalculated).to.be.true;
+    expect(results.completionTime!.getTime() / 1000).to.be.at.least(
+      requestBlock!.timestamp + 6 * 3600
+    );
+    expect(await ethers.provider.getBlockNumber()).to.be.greaterThan(
+      request.blockNumber + 50
+    );
+  });
+
+  it("Should reject a callback with invalid signatures and accept a retry", async function () {
+    const failed = await oracle.fulfil(request, { corruptProof: true });
+
+    expect(failed.reverted).to.be.true;
+    expect((await client.results()).resultsCalculated).to.be.false;
+    expect(oracle.pending()).to.deep.equal([request]);
+
+    const [retry] = await oracle.fulfilAll();
+    expect(retry.reverted).to.be.false;
+    expect((await client.results()).resultsCalculated).to.be.true;
+  });
+
+  it("Should never calculate results for a dropped request", async function () {
+    oracle.drop(request);
+
+    expect(await oracle.fulfilAll()).to.have.length(0);
+    expect((await client.results()).resultsCalculated).to.be.false;
+  });
+
+  it("Should replay a delivered callback, which the trial rejects", async function () {
+    const error = await oracle.replay(request).catch((e) => e);
+    expect(error).to.be.instanceOf(Error);
+
+    const delivered = await oracle.fulfil(request);
+    const replayed = await oracle.replay(request);
+
+    expect(delivered.reverted).to.be.false;
+    expect(replayed.reverted).to.be.true;
+    expect(decodeTrialError(replayed.error)).to.be.instanceOf(
+      DecryptionRequestError
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  DeploymentRecord,
+  DeploymentRegistryError,
+  findMatchingDeployment,
+  getDeployment,
+  getDeploymentHistory,
+  loadRegistry,
+  recordDeployment,
+  saveRegistry,
+} from "../lib/deployments";
+
+/**
+ * @title Deployment Registry Test Suite
+ * @notice Tests registry persistence, matching and history mode
+ *
+ * @chapter: testing
+ * @category: deployment
+ */
+describe("Deployment Registry", function () {
+  let dir: string;
+
+  function record(
+    address: string,
+    overrides: Partial<DeploymentRecord> = {}
+  ): DeploymentRecord {
+    return {
+      trialId: "TRIAL-A",
+      contractName: "PrivacyPreservingClinicalTrial",
+      address,
+      chainId: 31337,
+      blockNumber: 1,
+      transactionHash: "0x" + "00".repeat(32),
+      deployer: "0x" + "11".repeat(20),
+      deployedAt: new Date(0).toISOString(),
+      constructorArgs: [],
+      compiler: { version: "0.8.24", optimizer: { enabled: true, runs: 200 } },
+      abiHash: "0xabi",
+      bytecodeHash: "0xcode",
+      ...overrides,
+    };
+  }
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "trial-registry-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should return an empty registry for a new network", function () {
+    const registry = loadRegistry("hardhat", 31337, dir);
+    expect(registry.version).to.equal(1);
+    expect(registry.deployments).to.deep.equal({});
+    expect(getDeployment("hardhat", "TRIAL-A", dir)).to.be.undefined;
+  });
+
+  it("Should persist and look up the current deployment", function () {
+    const registry = recordDeployment(
+      loadRegistry("hardhat", 31337, dir),
+      record("0x01"),
+      {
+        keepHistory: false,
+      }
+    );
+    saveRegistry(registry, dir);
+
+    expect(getDeployment("hardhat", "TRIAL-A", dir)?.address).to.equal("0x01");
+  });
+
+  it("Should match deployments with identical bytecode, ABI and arguments", function () {
+    const registry = recordDeployment(
+      loadRegistry("hardhat", 31337, dir),
+      record("0x01"),
+      {
+        keepHistory: false,
+      }
+    );
+
+    const candidate = {
+      trialId: "TRIAL-A",
+      abiHash: "0xabi",
+      bytecodeHash: "0xcode",
+      constructorArgs: [],
+    };
+    expect(findMatchingDeployment(registry, candidate)?.address).to.equal(
+      "0x01"
+    );
+    expect(
+      findMatchingDeployment(registry, {
+        ...candidate,
+        bytecodeHash: "0xother",
+      })
+    ).to.be.undefined;
+    expect(
+      findMatchingDeployment(registry, { ...candidate, constructorArgs: [1] })
+    ).to.be.undefined;
+  });
+
+  it("Should keep replaced deployments only in history mode", function () {
+    let registry = loadRegistry("hardhat", 31337, dir);
+    registry = recordDeployment(registry, record("0x01"), {
+      keepHistory: true,
+    });
+    registry = recordDeployment(registry, record("0x02"), {
+      keepHistory: true,
+    });
+    registry = recordDeployment(registry, record("0x03"), {
+      keepHistory: true,
+    });
+    saveRegistry(registry, dir);
+
+    const history = getDeploymentHistory("hardhat", "TRIAL-A", dir);
+    expect(history.map((r) => r.address)).to.deep.equal([
+      "0x01",
+      "0x02",
+      "0x03",
+    ]);
+
+    registry = recordDeployment(registry, record("0x04"), {
+      keepHistory: false,
+    });
+    saveRegistry(registry, dir);
+    expect(
+      getDeploymentHistory("hardhat", "TRIAL-A", dir).map((r) => r.address)
+    ).to.deep.equal(["0x04"]);
+  });
+
+  it("Should reject registries from another chain or version", function () {
+    saveRegistry(loadRegistry("zamaDevnet", 8009, dir), dir);
+    expect(() => loadRegistry("zamaDevnet", 9000, dir)).to.throw(
+      DeploymentRegistryError
+    );
+
+    fs.writeFileSync(
+      path.join(dir, "zamaDevnet.json"),
+      JSON.stringify({
+        version: 99,
+        network: "zamaDevnet",
+        chainId: 8009,
+        deployments: {},
+      })
+    );
+    expect(() => loadRegistry("zamaDevnet", 8009, dir)).to.throw(
+      DeploymentRegistryError
+    );
+  });
+
+  it("Should report registry files that are not JSON", function () {
+    fs.writeFileSync(path.join(dir, "hardhat.json"), "{ not json");
+
+    expect(() => loadRegistry("hardhat", 31337, dir)).to.throw(
+      DeploymentRegistryError,
+      /Cannot parse/
+    );
+    expect(() => getDeployment("hardhat", "TRIAL-A", dir)).to.throw(
+      DeploymentRegistryError,
+      /Cannot parse/
+    );
+  });
+});
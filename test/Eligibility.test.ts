@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { InvalidInputError } from "../lib/errors";
+import {
+  EnrollmentData,
+  NO_ELIGIBILITY_RESTRICTIONS,
+  decodeVitalSigns,
+  defineEligibility,
+  encodeVitalSigns,
+  formatEligibility,
+  isEligible,
+} from "../lib/eligibility";
+import { DEFAULT_PROTOCOL, TrialProtocol } from "../lib/protocol";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient } from "./helpers/encrypted-state";
+
+/**
+ * @title Eligibility Criteria Test Suite
+ * @notice Tests encrypted eligibility evaluation and the exclusion of ineligible patients
+ *
+ * @chapter: testing
+ * @category: eligibility
+ */
+describe("Eligibility Criteria", function () {
+  const PROTOCOL: TrialProtocol = {
+    ...DEFAULT_PROTOCOL,
+    ...defineEligibility({
+      age: [18, 65],
+      healthScore: [30, 100],
+      heartRate: [50, 110],
+      diastolicPressure: [60, 95],
+    }),
+  };
+
+  // Synthetic patients, each failing at most one criterion
+  const PATIENTS: (EnrollmentData & { score: number; reason: string })[] = [
+    {
+      age: 40,
+      healthScore: 80,
+      vitalSigns: encodeVitalSigns(72, 80),
+      score: 70,
+      reason: "eligible",
+    },
+    {
+      age: 18,
+      healthScore: 30,
+      vitalSigns: encodeVitalSigns(50, 60),
+      score: 64,
+      reason: "lower bounds",
+    },
+    {
+      age: 65,
+      healthScore: 100,
+      vitalSigns: encodeVitalSigns(110, 95),
+      score: 82,
+      reason: "upper bounds",
+    },
+    {
+      age: 70,
+      healthScore: 80,
+      vitalSigns: encodeVitalSigns(72, 80),
+      score: 5,
+      reason: "too old",
+    },
+    {
+      age: 40,
+      healthScore: 29,
+      vitalSigns: encodeVitalSigns(72, 80),
+      score: 5,
+      reason: "health score too low",
+    },
+    {
+      age: 40,
+      healthScore: 80,
+      vitalSigns: encodeVitalSigns(120, 80),
+      score: 5,
+      reason: "heart rate too high",
+    },
+    {
+      age: 40,
+      healthScore: 80,
+      vitalSigns: encodeVitalSigns(72, 96),
+      score: 5,
+      reason: "diastolic pressure too high",
+    },
+  ];
+
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+  let patients: HardhatEthersSigner[];
+
+  beforeEach(async function () {
+    const [, ...signers] = await ethers.getSigners();
+    patients = signers.slice(0, PATIENTS.length);
+
+    trial = await deployTrial(PROTOCOL);
+    client = new TrialClient(trial, fhevm);
+  });
+
+  describe("Criteria helpers", function () {
+    it("Should default omitted criteria to their full range", function () {
+      expect(defineEligibility({ age: [21, 60] })).to.deep.equal({
+        ...NO_ELIGIBILITY_RESTRICTIONS,
+        minAge: 21,
+        maxAge: 60,
+      });
+      expect(
+        isEligible(NO_ELIGIBILITY_RESTRICTIONS, {
+          age: 0,
+          healthScore: 0,
+          vitalSigns: 0,
+        })
+      ).to.be.true;
+      expect(formatEligibility(defineEligibility({ age: [21, 60] }))).to.equal(
+        "ages 21-60"
+      );
+      expect(formatEligibility(PROTOCOL)).to.equal(
+        "ages 18-65, health score 30-100, heart rate 50-110, diastolic pressure 60-95"
+      );
+    });
+
+    it("Should reject ranges the contract cannot evaluate", function () {
+      for (const ranges of [
+        { healthScore: [0, 101] as [number, number] },
+        { diastolicPressure: [60, 100] as [number, number] },
+        { heartRate: [110, 50] as [number, number] },
+      ]) {
+        expect(() => defineEligibility(ranges)).to.throw(InvalidInputError);
+      }
+    });
+
+    it("Should encode vital signs the way the contract decodes them", function () {
+      expect(encodeVitalSigns(120, 80)).to.equal(12080);
+      expect(decodeVitalSigns(12080)).to.deep.equal({
+        heartRate: 120,
+        diastolicPressure: 80,
+      });
+      expect(() => encodeVitalSigns(72, 100)).to.throw(InvalidInputError);
+      expect(() => encodeVitalSigns(655, 80)).to.throw(InvalidInputError);
+    });
+  });
+
+  describe("Encrypted evaluation", function () {
+    it("Should match the plaintext evaluation for every patient", async function () {
+      for (const [i, patient] of PATIENTS.entries()) {
+        await client.connect(patients[i]).enroll(patient);
+        expect(
+          (await decryptPatient(trial, patients[i].address)).eligible
+        ).to.equal(isEligible(PROTOCOL, patient), patient.reason);
+      }
+      expect(PATIENTS.filter((p) => isEligible(PROTOCOL, p))).to.have.length(3);
+    });
+
+    it("Should enroll ineligible patients without revealing why", async function () {
+      await expect(client.connect(patients[3]).enroll(PATIENTS[3])).to.not.be
+        .reverted;
+      const receipt = await client.connect(patients[5]).enroll(PATIENTS[5]);
+      await expect(receipt)
+        .to.emit(trial, "PatientEnrolled")
+        .withArgs(patients[5].address, await time.latest());
+
+      const status = await trial.getPatientStatus(patients[5].address);
+      expect(status.enrolled).to.be.true;
+      expect((await trial.getTrialStatus()).participantCount).to.equal(2n);
+    });
+
+    it("Should leave ineligible patients out of the analysis", async function () {
+      for (const [i, patient] of PATIENTS.entries()) {
+        await client.connect(patients[i]).enroll(patient);
+      }
+      await time.increase(PROTOCOL.enrollmentDuration);
+      await client.advancePhase();
+      for (const [i, patient] of PATIENTS.entries()) {
+        await client.connect(patients[i]).submitWeek({
+          week: PROTOCOL.primaryEndpointWeek,
+          effectivenessScore: patient.score,
+          sideEffectLevel: 2,
+          biomarkers: 5000,
+        });
+      }
+      await time.increase(PROTOCOL.treatmentDuration);
+      await client.advancePhase();
+      await time.increase(PROTOCOL.monitoringDuration);
+      await client.advancePhase();
+      await fhevm.awaitDecryptionOracle();
+
+      const arms = [
+        { count: 0, sum: 0, sumOfSquares: 0 },
+        { count: 0, sum: 0, sumOfSquares: 0 },
+      ];
+      for (const [i, patient] of PATIENTS.entries()) {
+        if (!isEligible(PROTOCOL, patient)) continue;
+        const arm =
+          arms[
+            (await decryptPatient(trial, patients[i].address)).treatmentGroup
+          ];
+        arm.count++;
+        arm.sum += patient.score;
+        arm.sumOfSquares += patient.score ** 2;
+      }
+
+      expect(await client.armStatistics(TrialPhase.Analysis)).to.deep.equal({
+        placebo: arms[0],
+        treatment: arms[1],
+      });
+    });
+  });
+});
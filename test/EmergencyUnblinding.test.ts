@@ -0,0 +1,276 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  ConsentWithdrawnError,
+  InvalidInputError,
+  MissingRoleError,
+  UnblindingRequestError,
+} from "../lib/errors";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import {
+  UnblindingReason,
+  UnblindingStatus,
+  parseUnblindingReason,
+  readUnblindingAudit,
+} from "../lib/unblinding";
+import { deployTrial } from "./helpers/deploy-trial";
+import {
+  canUserDecrypt,
+  decryptPatient,
+  userDecrypt,
+} from "./helpers/encrypted-state";
+
+/**
+ * @title Emergency Unblinding Test Suite
+ * @notice Tests the request/approve/decrypt flow of per-patient unblinding in mock mode
+ *
+ * @chapter: testing
+ * @category: access-control
+ */
+describe("Emergency Unblinding", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let coordinator: HardhatEthersSigner;
+  let investigator: HardhatEthersSigner;
+  let otherInvestigator: HardhatEthersSigner;
+  let dsmb: HardhatEthersSigner;
+  let patient: HardhatEthersSigner;
+  let otherPatient: HardhatEthersSigner;
+  let client: TrialClient;
+
+  const SAE = UnblindingReason.SeriousAdverseEvent;
+
+  function treatmentGroup(account: HardhatEthersSigner) {
+    return trial
+      .patients(account.address)
+      .then((p) => p.encryptedTreatmentGroup);
+  }
+
+  beforeEach(async function () {
+    [
+      coordinator,
+      investigator,
+      otherInvestigator,
+      dsmb,
+      patient,
+      otherPatient,
+    ] = await ethers.getSigners();
+
+    trial = await deployTrial();
+
+    client = new TrialClient(trial, fhevm);
+    await client.grantRole("site-investigator", investigator.address);
+    await client.grantRole("site-investigator", otherInvestigator.address);
+    await client.grantRole("dsmb", dsmb.address);
+    for (const account of [patient, otherPatient]) {
+      await client
+        .connect(account)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+    await time.increase(DEFAULT_PROTOCOL.enrollmentDuration);
+    await client.advancePhase();
+  });
+
+  it("Should let only the requesting investigator decrypt an approved patient's arm", async function () {
+    expect(
+      await canUserDecrypt(
+        trial,
+        FhevmType.euint8,
+        await treatmentGroup(patient),
+        investigator
+      )
+    ).to.be.false;
+
+    const { requestId, receipt } = await client
+      .connect(investigator)
+      .requestUnblinding(patient.address, SAE);
+    expect(requestId).to.equal(1n);
+    await expect(receipt)
+      .to.emit(trial, "UnblindingRequested")
+      .withArgs(1n, patient.address, investigator.address, SAE);
+    expect((await client.unblindingRequest(1n))!).to.deep.include({
+      status: UnblindingStatus.Pending,
+      decidedBy: null,
+      decidedAt: null,
+    });
+
+    await expect(client.connect(dsmb).approveUnblinding(requestId))
+      .to.emit(trial, "PatientUnblinded")
+      .withArgs(1n, patient.address, investigator.address, dsmb.address, SAE);
+
+    const { treatmentGroup: arm } = await decryptPatient(
+      trial,
+      patient.address
+    );
+    expect(
+      await userDecrypt(
+        trial,
+        FhevmType.euint8,
+        await treatmentGroup(patient),
+        investigator
+      )
+    ).to.equal(arm);
+    for (const account of [otherInvestigator, dsmb, coordinator, patient]) {
+      expect(
+        await canUserDecrypt(
+          trial,
+          FhevmType.euint8,
+          await treatmentGroup(patient),
+          account
+        )
+      ).to.be.false;
+    }
+    // Every other patient stays blinded, and the trial continues
+    expect(
+      await canUserDecrypt(
+        trial,
+        FhevmType.euint8,
+        await treatmentGroup(otherPatient),
+        investigator
+      )
+    ).to.be.false;
+    expect(await client.phase()).to.equal(TrialPhase.Treatment);
+
+    const request = (await client.unblindingRequest(requestId))!;
+    expect(request.status).to.equal(UnblindingStatus.Approved);
+    expect(request.decidedBy).to.equal(dsmb.address);
+    expect(request.decidedAt).to.be.instanceOf(Date);
+  });
+
+  it("Should reject unauthorized and invalid requests", async function () {
+    const outsider = await client
+      .connect(dsmb)
+      .requestUnblinding(patient.address, SAE)
+      .catch((e) => e);
+    expect(outsider).to.be.instanceOf(MissingRoleError);
+
+    const invalid = await client
+      .connect(investigator)
+      .requestUnblinding(patient.address, 9 as UnblindingReason)
+      .catch((e) => e);
+    expect(invalid).to.be.instanceOf(InvalidInputError);
+    await expect(
+      trial.connect(investigator).requestUnblinding(patient.address, 0)
+    ).to.be.revertedWith("Invalid unblinding reason");
+    await expect(
+      trial.connect(investigator).requestUnblinding(dsmb.address, SAE)
+    ).to.be.revertedWith("Patient not enrolled");
+
+    await client.connect(patient).withdrawConsent();
+    const withdrawn = await client
+      .connect(investigator)
+      .requestUnblinding(patient.address, SAE)
+      .catch((e) => e);
+    expect(withdrawn).to.be.instanceOf(ConsentWithdrawnError);
+  });
+
+  it("Should only let another DSMB member decide a pending request once", async function () {
+    const { requestId } = await client
+      .connect(investigator)
+      .requestUnblinding(patient.address, UnblindingReason.Overdose);
+
+    const notDsmb = await client
+      .connect(otherInvestigator)
+      .approveUnblinding(requestId)
+      .catch((e) => e);
+    expect(notDsmb).to.be.instanceOf(MissingRoleError);
+
+    // An investigator on the DSMB still cannot approve their own request
+    await client.grantRole("dsmb", investigator.address);
+    const own = await client
+      .connect(investigator)
+      .approveUnblinding(requestId)
+      .catch((e) => e);
+    expect(own).to.be.instanceOf(UnblindingRequestError);
+    expect(own.reason).to.equal("Cannot approve own unblinding request");
+
+    await expect(client.connect(dsmb).rejectUnblinding(requestId))
+      .to.emit(trial, "UnblindingRejected")
+      .withArgs(requestId, patient.address, dsmb.address);
+    expect((await client.unblindingRequest(requestId))!.status).to.equal(
+      UnblindingStatus.Rejected
+    );
+    expect(
+      await canUserDecrypt(
+        trial,
+        FhevmType.euint8,
+        await treatmentGroup(patient),
+        investigator
+      )
+    ).to.be.false;
+
+    const again = await client
+      .connect(dsmb)
+      .approveUnblinding(requestId)
+      .catch((e) => e);
+    expect(again).to.be.instanceOf(UnblindingRequestError);
+    expect(again.reason).to.equal("Unblinding request not pending");
+    const unknown = await client
+      .connect(dsmb)
+      .rejectUnblinding(42n)
+      .catch((e) => e);
+    expect(unknown.reason).to.equal("Unknown unblinding request");
+    expect(await client.unblindingRequest(42n)).to.be.null;
+  });
+
+  it("Should not grant access to a revoked investigator or a withdrawn patient", async function () {
+    const first = await client
+      .connect(investigator)
+      .requestUnblinding(patient.address, SAE);
+    const second = await client
+      .connect(otherInvestigator)
+      .requestUnblinding(
+        otherPatient.address,
+        UnblindingReason.MedicalEmergency
+      );
+
+    await client.revokeRole("site-investigator", investigator.address);
+    const revoked = await client
+      .connect(dsmb)
+      .approveUnblinding(first.requestId)
+      .catch((e) => e);
+    expect(revoked).to.be.instanceOf(UnblindingRequestError);
+    expect(revoked.reason).to.equal("Investigator no longer authorized");
+
+    await client.connect(otherPatient).withdrawConsent();
+    const withdrawn = await client
+      .connect(dsmb)
+      .approveUnblinding(second.requestId)
+      .catch((e) => e);
+    expect(withdrawn).to.be.instanceOf(ConsentWithdrawnError);
+
+    // Failed approvals leave the requests pending
+    expect(
+      (await client.unblindingRequests()).map((request) => request.status)
+    ).to.deep.equal([UnblindingStatus.Pending, UnblindingStatus.Pending]);
+  });
+
+  it("Should replay the audit trail from events", async function () {
+    const first = await client
+      .connect(investigator)
+      .requestUnblinding(patient.address, SAE);
+    const second = await client
+      .connect(otherInvestigator)
+      .requestUnblinding(otherPatient.address, parseUnblindingReason("other"));
+    await client.connect(dsmb).rejectUnblinding(second.requestId);
+    await client.connect(dsmb).approveUnblinding(first.requestId);
+
+    const audit = await readUnblindingAudit(trial);
+    expect(
+      audit.map((entry) => [entry.action, entry.requestId, entry.actor])
+    ).to.deep.equal([
+      ["requested", 1n, investigator.address],
+      ["requested", 2n, otherInvestigator.address],
+      ["rejected", 2n, dsmb.address],
+      ["approved", 1n, dsmb.address],
+    ]);
+    expect(audit[3]).to.deep.include({ patient: patient.address, reason: SAE });
+    expect(() => parseUnblindingReason("curiosity")).to.throw(
+      InvalidInputError
+    );
+  });
+});
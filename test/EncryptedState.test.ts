@@ -0,0 +1,286 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import {
+  canUserDecrypt,
+  decryptMeasurement,
+  decryptPatient,
+  decryptResults,
+  userDecrypt,
+} from "./helpers/encrypted-state";
+
+/**
+ * @title Encrypted State Test Suite
+ * @notice Decrypts stored ciphertexts with the FHEVM mock to check what the contract stored and who may read it
+ *
+ * @chapter: testing
+ * @category: fhevm
+ */
+describe("Encrypted State", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let trialAddress: string;
+  let patient1: HardhatEthersSigner;
+  let patient2: HardhatEthersSigner;
+  let client: TrialClient;
+
+  const PHASE_DURATION = 3600;
+
+  async function advance() {
+    await time.increase(PHASE_DURATION);
+    await client.advancePhase();
+  }
+
+  beforeEach(async function () {
+    [, patient1, patient2] = await ethers.getSigners();
+
+    trial = await deployTrial();
+    trialAddress = await trial.getAddress();
+
+    client = new TrialClient(trial, fhevm);
+  });
+
+  describe("Patient data", function () {
+    it("Should store the submitted enrollment values", async function () {
+      await client
+        .connect(patient1)
+        .enroll({ age: 35, healthScore: 85, vitalSigns: 12080 });
+
+      const stored = await decryptPatient(trial, patient1.address);
+      expect(stored.age).to.equal(35);
+      expect(stored.healthScore).to.equal(85);
+      expect(stored.vitalSigns).to.equal(12080);
+      expect(stored.eligible).to.be.true;
+    });
+
+    it("Should evaluate age eligibility on the encrypted age", async function () {
+      const signers = await ethers.getSigners();
+      const cases = [
+        { age: 17, eligible: false },
+        { age: 18, eligible: true },
+        { age: 80, eligible: true },
+        { age: 81, eligible: false },
+      ];
+
+      for (const [i, { age, eligible }] of cases.entries()) {
+        const patient = signers[i + 1];
+        await client
+          .connect(patient)
+          .enroll({ age, healthScore: 85, vitalSigns: 12080 });
+        expect(
+          (await decryptPatient(trial, patient.address)).eligible
+        ).to.equal(eligible, `age ${age}`);
+      }
+    });
+
+    it("Should clamp an out-of-range health score", async function () {
+      // Bypass client-side validation to reach the contract's clamp
+      const input = await fhevm
+        .createEncryptedInput(trialAddress, patient1.address)
+        .add8(35)
+        .add8(150)
+        .add16(12080)
+        .encrypt();
+      await trial
+        .connect(patient1)
+        .enrollPatient(
+          input.handles[0],
+          input.handles[1],
+          input.handles[2],
+          input.inputProof
+        );
+
+      expect(
+        (await decryptPatient(trial, patient1.address)).healthScore
+      ).to.equal(100);
+    });
+  });
+
+  describe("Clinical measurements", function () {
+    beforeEach(async function () {
+      await client
+        .connect(patient1)
+        .enroll({ age: 35, healthScore: 85, vitalSigns: 12080 });
+      await advance();
+    });
+
+    it("Should store the submitted weekly values", async function () {
+      await client.connect(patient1).submitWeek({
+        week: 3,
+        effectivenessScore: 72,
+        sideEffectLevel: 4,
+        biomarkers: 5150,
+      });
+
+      expect(
+        await decryptMeasurement(trial, patient1.address, 3)
+      ).to.deep.equal({
+        effectivenessScore: 72,
+        sideEffectLevel: 4,
+        biomarkers: 5150,
+      });
+      expect(await decryptMeasurement(trial, patient1.address, 2)).to.be.null;
+    });
+
+    it("Should clamp out-of-range scores", async function () {
+      const input = await fhevm
+        .createEncryptedInput(trialAddress, patient1.address)
+        .add8(250)
+        .add8(50)
+        .add16(5000)
+        .encrypt();
+      await trial
+        .connect(patient1)
+        .submitClinicalData(
+          input.handles[0],
+          input.handles[1],
+          input.handles[2],
+          1,
+          input.inputProof
+        );
+
+      const stored = await decryptMeasurement(trial, patient1.address, 1);
+      expect(stored!.effectivenessScore).to.equal(100);
+      expect(stored!.sideEffectLevel).to.equal(10);
+    });
+  });
+
+  describe("Access control", function () {
+    beforeEach(async function () {
+      await client
+        .connect(patient1)
+        .enroll({ age: 35, healthScore: 85, vitalSigns: 12080 });
+    });
+
+    it("Should let patients decrypt their own age and health score", async function () {
+      const data = await trial.patients(patient1.address);
+
+      expect(
+        await userDecrypt(trial, FhevmType.euint8, data.encryptedAge, patient1)
+      ).to.equal(35);
+      expect(
+        await userDecrypt(
+          trial,
+          FhevmType.euint8,
+          data.encryptedHealthScore,
+          patient1
+        )
+      ).to.equal(85);
+    });
+
+    it("Should keep the treatment group hidden from the patient", async function () {
+      const data = await trial.patients(patient1.address);
+
+      expect(
+        await canUserDecrypt(
+          trial,
+          FhevmType.euint8,
+          data.encryptedTreatmentGroup,
+          patient1
+        )
+      ).to.be.false;
+    });
+
+    it("Should not let other patients decrypt a patient's data", async function () {
+      await client
+        .connect(patient2)
+        .enroll({ age: 45, healthScore: 75, vitalSigns: 12080 });
+      const data = await trial.patients(patient1.address);
+
+      expect(
+        await canUserDecrypt(
+          trial,
+          FhevmType.euint8,
+          data.encryptedAge,
+          patient2
+        )
+      ).to.be.false;
+      expect(
+        await canUserDecrypt(
+          trial,
+          FhevmType.euint8,
+          data.encryptedHealthScore,
+          patient2
+        )
+      ).to.be.false;
+    });
+
+    it("Should only share the effectiveness score of a measurement with the patient", async function () {
+      await advance();
+      await client.connect(patient1).submitWeek({
+        week: 1,
+        effectivenessScore: 80,
+        sideEffectLevel: 2,
+        biomarkers: 5000,
+      });
+      const measurement = await trial.measurements(patient1.address, 1);
+
+      expect(
+        await userDecrypt(
+          trial,
+          FhevmType.euint8,
+          measurement.encryptedEffectivenessScore,
+          patient1
+        )
+      ).to.equal(80);
+      expect(
+        await canUserDecrypt(
+          trial,
+          FhevmType.euint8,
+          measurement.encryptedSideEffectLevel,
+          patient1
+        )
+      ).to.be.false;
+    });
+  });
+
+  describe("Trial results", function () {
+    it("Should not report results before analysis", async function () {
+      expect(await decryptResults(trial, TrialPhase.Analysis)).to.be.null;
+    });
+
+    it("Should store the group averages of the week 4 scores", async function () {
+      // Arms are random, so the expected averages follow the decrypted allocation
+      const scores = [60, 80, 70, 90];
+      const signers = (await ethers.getSigners()).slice(1, 5);
+      for (const patient of signers) {
+        await client
+          .connect(patient)
+          .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+      }
+      await advance();
+
+      for (const [i, patient] of signers.entries()) {
+        await client.connect(patient).submitWeek({
+          week: 4,
+          effectivenessScore: scores[i],
+          sideEffectLevel: 1,
+          biomarkers: 5000,
+        });
+      }
+      await advance();
+      await advance();
+      await fhevm.awaitDecryptionOracle();
+
+      const arms = { placebo: [] as number[], treatment: [] as number[] };
+      for (const [i, patient] of signers.entries()) {
+        const { treatmentGroup } = await decryptPatient(trial, patient.address);
+        (treatmentGroup === 1 ? arms.treatment : arms.placebo).push(scores[i]);
+      }
+      const average = (values: number[]) =>
+        values.length > 0
+          ? Math.floor(values.reduce((sum, v) => sum + v, 0) / values.length)
+          : 0;
+
+      expect(await decryptResults(trial, TrialPhase.Analysis)).to.deep.equal({
+        placeboGroupAverage: average(arms.placebo),
+        treatmentGroupAverage: average(arms.treatment),
+        totalParticipants: 4,
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { InvalidInputError } from "../lib/errors";
+import { Multicall } from "../lib/multicall";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  MAX_PATIENT_PAGE_SIZE,
+  TrialClient,
+  decodeSubmittedWeeks,
+} from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Paged Reads Test Suite
+ * @notice Tests the paged patient views and reading them through Multicall3
+ *
+ * @chapter: testing
+ * @category: client
+ */
+describe("Paged Reads", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+  let patients: HardhatEthersSigner[];
+
+  const ENROLLMENT = { age: 40, healthScore: 80, vitalSigns: 12080 };
+
+  function visit(week: number) {
+    return {
+      week,
+      effectivenessScore: 70,
+      sideEffectLevel: 2,
+      biomarkers: 5000,
+    };
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    patients = signers.slice(1, 6);
+
+    trial = await deployTrial();
+    client = new TrialClient(trial, fhevm);
+
+    for (const patient of patients) {
+      await client.connect(patient).enroll(ENROLLMENT);
+    }
+    await time.increase(DEFAULT_PROTOCOL.enrollmentDuration);
+    await client.advancePhase();
+  });
+
+  it("Should page through patients in enrollment order", async function () {
+    await client.connect(patients[1]).submitWeek(visit(1));
+    await client.connect(patients[1]).submitWeek(visit(3));
+    await client.connect(patients[2]).withdrawConsent();
+
+    const first = await client.patientPage(0, 2);
+    const rest = await client.patientPage(2, 2);
+    const last = await client.patientPage(4, 2);
+    expect([...first, ...rest, ...last].map((p) => p.address)).to.deep.equal(
+      patients.map((p) => p.address)
+    );
+    expect(last).to.have.length(1);
+    expect(await client.patientPage(5, 2)).to.deep.equal([]);
+
+    expect(first[1]).to.deep.include({
+      consentGiven: true,
+      consentVersion: 1,
+      measurementCount: 2,
+      submittedWeeks: [1, 3],
+      withdrawalTime: null,
+    });
+    expect(rest[0].consentGiven).to.be.false;
+    expect(rest[0].withdrawalTime).to.be.instanceOf(Date);
+  });
+
+  it("Should return submission timestamps per visit week", async function () {
+    await client.connect(patients[0]).submitWeek(visit(2));
+    const recorded = await trial.measurements(patients[0].address, 2);
+
+    const [times] = await client.submissionTimesPage(0, 1);
+    expect(times.address).to.equal(patients[0].address);
+    expect(times.times).to.have.length(DEFAULT_PROTOCOL.visitWeeks);
+    expect(times.times[1]!.getTime()).to.equal(
+      Number(recorded.measurementTime) * 1000
+    );
+    expect(times.times.filter((t) => t !== null)).to.have.length(1);
+  });
+
+  it("Should reject invalid page sizes", async function () {
+    for (const limit of [0, MAX_PATIENT_PAGE_SIZE + 1]) {
+      await expect(trial.getPatients(0, limit)).to.be.revertedWith(
+        "Invalid page size"
+      );
+      await expect(trial.getSubmissionTimes(0, limit)).to.be.revertedWith(
+        "Invalid page size"
+      );
+      const error = await client.patientPage(0, limit).catch((e) => e);
+      expect(error).to.be.instanceOf(InvalidInputError);
+    }
+  });
+
+  it("Should read every page, with or without multicall", async function () {
+    await client.connect(patients[4]).submitWeek(visit(12));
+    const direct = await client.allPatients({ pageSize: 2 });
+    expect(direct.map((p) => p.address)).to.deep.equal(
+      patients.map((p) => p.address)
+    );
+
+    // Hardhat has no Multicall3 at the canonical address; deploy the local copy
+    expect(await Multicall.at(ethers.provider)).to.be.null;
+    const deployed = await (
+      await ethers.getContractFactory("Multicall3")
+    ).deploy();
+    const multicall = (await Multicall.at(
+      ethers.provider,
+      await deployed.getAddress()
+    ))!;
+
+    expect(
+      await client.allPatients({ pageSize: 2, multicall, pagesPerCall: 2 })
+    ).to.deep.equal(direct);
+    const times = await client.allSubmissionTimes({ pageSize: 2, multicall });
+    expect(times[4].times[11]).to.be.instanceOf(Date);
+
+    const error = await multicall
+      .read(trial, "getPatients", [[0, 0]])
+      .catch((e) => e);
+    expect(error).to.be.instanceOf(InvalidInputError);
+    expect(error.reason).to.equal("Invalid page size");
+  });
+
+  it("Should decode submission bitmaps", function () {
+    expect(decodeSubmittedWeeks(0n)).to.deep.equal([]);
+    expect(decodeSubmittedWeeks((1n << 1n) | (1n << 52n))).to.deep.equal([
+      1, 52,
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Wallet } from "ethers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  InvalidInputError,
+  NoPhaseTransitionInProgressError,
+  PhaseTransitionInProgressError,
+} from "../lib/errors";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  ASSIGNMENT_BATCH_SIZE,
+  TrialClient,
+  TrialPhase,
+} from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Phase Transitions Test Suite
+ * @notice Tests resumable, batched phase transitions for cohorts too large for one transaction
+ *
+ * @chapter: testing
+ * @category: phases
+ */
+describe("Phase Transitions", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+
+  const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+
+  /**
+   * Enroll funded wallets, since the node only has a handful of signers
+   */
+  async function enrollCohort(size: number): Promise<Wallet[]> {
+    const wallets: Wallet[] = [];
+    for (let i = 0; i < size; i++) {
+      const wallet = new ethers.Wallet(
+        ethers.id(`transitions-${i}`),
+        ethers.provider
+      );
+      await setBalance(wallet.address, ethers.parseEther("1"));
+      await client
+        .connect(wallet)
+        .enroll({ age: 30 + (i % 40), healthScore: 80, vitalSigns: 12080 });
+      wallets.push(wallet);
+    }
+    return wallets;
+  }
+
+  async function assignments(
+    receipts: { blockNumber: number }[]
+  ): Promise<number> {
+    let count = 0;
+    for (const { blockNumber } of receipts) {
+      count += (
+        await trial.queryFilter(
+          trial.filters.TreatmentAssigned(),
+          blockNumber,
+          blockNumber
+        )
+      ).length;
+    }
+    return count;
+  }
+
+  beforeEach(async function () {
+    trial = await deployTrial();
+
+    client = new TrialClient(trial, fhevm);
+  });
+
+  it("Should finish small cohorts in the transition itself", async function () {
+    await enrollCohort(3);
+    await time.increase(PHASE_DURATION);
+
+    await expect(trial.transitionToNextPhase())
+      .to.emit(trial, "TransitionBatchProcessed")
+      .withArgs(TrialPhase.Treatment, 3, 3);
+    expect(await client.transitionProgress()).to.deep.equal({
+      inProgress: false,
+      phase: TrialPhase.Treatment,
+      processed: 3,
+      total: 3,
+    });
+    const error = await client.continuePhaseTransition().catch((e) => e);
+    expect(error).to.be.instanceOf(NoPhaseTransitionInProgressError);
+  });
+
+  it("Should resume treatment assignment over several batches", async function () {
+    const size = ASSIGNMENT_BATCH_SIZE + 10;
+    const cohort = await enrollCohort(size);
+    await time.increase(PHASE_DURATION);
+
+    const start = await client.advancePhase();
+    expect(await assignments([start])).to.equal(ASSIGNMENT_BATCH_SIZE);
+    expect(await client.transitionProgress()).to.deep.equal({
+      inProgress: true,
+      phase: TrialPhase.Treatment,
+      processed: ASSIGNMENT_BATCH_SIZE,
+      total: size,
+    });
+
+    // Patients may submit while the rest of the cohort is being assigned
+    await client.connect(cohort[size - 1]).submitWeek({
+      week: 1,
+      effectivenessScore: 70,
+      sideEffectLevel: 1,
+      biomarkers: 5000,
+    });
+
+    // The next phase waits for the transition to finish, even once due
+    await time.increase(PHASE_DURATION);
+    expect((await client.status()).canTransition).to.be.false;
+    await expect(trial.transitionToNextPhase()).to.be.revertedWith(
+      "Phase transition in progress"
+    );
+    const blocked = await client.advancePhase().catch((e) => e);
+    expect(blocked).to.be.instanceOf(PhaseTransitionInProgressError);
+
+    const oversized = await client
+      .continuePhaseTransition(ASSIGNMENT_BATCH_SIZE + 1)
+      .catch((e) => e);
+    expect(oversized).to.be.instanceOf(InvalidInputError);
+
+    await expect(trial.continuePhaseTransition(4))
+      .to.emit(trial, "TransitionBatchProcessed")
+      .withArgs(TrialPhase.Treatment, ASSIGNMENT_BATCH_SIZE + 4, size);
+    const batches = await client.completePhaseTransition(4);
+    expect(batches).to.have.length(2);
+    expect(await assignments(batches)).to.equal(6);
+    expect((await client.transitionProgress()).inProgress).to.be.false;
+
+    await client.advancePhase();
+    expect(await client.phase()).to.equal(TrialPhase.Monitoring);
+  });
+});
@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { InvalidInputError } from "../lib/errors";
+import { createRandom } from "../lib/cohort";
+import { DEFAULT_PROTOCOL, TrialProtocol } from "../lib/protocol";
+import {
+  AllocationOptions,
+  SIMPLE_ALLOCATION,
+  createAllocator,
+  defineAllocation,
+  formatAllocation,
+  measureBalance,
+  stratumOf,
+} from "../lib/randomization";
+import { TrialClient } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient } from "./helpers/encrypted-state";
+
+/**
+ * @title Randomization Schemes Test Suite
+ * @notice Tests permuted-block and stratified allocation, on ciphertexts and in plaintext
+ *
+ * @chapter: testing
+ * @category: randomization
+ */
+describe("Randomization Schemes", function () {
+  let patients: HardhatEthersSigner[];
+
+  async function deploy(
+    options: AllocationOptions
+  ): Promise<{ trial: PrivacyPreservingClinicalTrial; client: TrialClient }> {
+    const protocol: TrialProtocol = {
+      ...DEFAULT_PROTOCOL,
+      ...defineAllocation(options),
+    };
+    const trial = await deployTrial(protocol);
+    return { trial, client: new TrialClient(trial, fhevm) };
+  }
+
+  async function enrollAll(
+    trial: PrivacyPreservingClinicalTrial,
+    client: TrialClient,
+    cohort: { age: number; healthScore: number }[]
+  ): Promise<number[]> {
+    const arms: number[] = [];
+    for (const [i, patient] of cohort.entries()) {
+      await client
+        .connect(patients[i])
+        .enroll({ ...patient, vitalSigns: 12080 });
+      arms.push(
+        (await decryptPatient(trial, patients[i].address)).treatmentGroup
+      );
+    }
+    return arms;
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    patients = signers.slice(1);
+  });
+
+  describe("Allocation settings", function () {
+    it("Should convert options to protocol fields", function () {
+      expect(defineAllocation({ scheme: "simple" })).to.deep.equal(
+        SIMPLE_ALLOCATION
+      );
+      const stratified = defineAllocation({
+        scheme: "stratified",
+        ratio: [2, 1],
+        blockSize: 6,
+        strata: { ageCutoff: 50, healthScoreCutoff: 60 },
+      });
+      expect(formatAllocation(stratified)).to.equal(
+        "stratified by age 50+ and health score 60+, blocks of 6, 2:1"
+      );
+      expect(
+        formatAllocation(
+          defineAllocation({ scheme: "permuted-block", blockSize: 4 })
+        )
+      ).to.equal("permuted blocks of 4, 1:1");
+      expect(stratumOf(stratified, { age: 49, healthScore: 60 })).to.equal(2);
+      expect(stratumOf(stratified, { age: 50, healthScore: 130 })).to.equal(3);
+    });
+
+    it("Should reject settings the contract would reject", function () {
+      for (const options of [
+        { scheme: "minimization" },
+        { scheme: "permuted-block" },
+        { scheme: "permuted-block", ratio: [2, 1], blockSize: 4 },
+        { scheme: "simple", ratio: [1, 0] },
+        { scheme: "simple", blockSize: 4 },
+        { scheme: "stratified", blockSize: 4 },
+        { scheme: "permuted-block", blockSize: 4, strata: { ageCutoff: 50 } },
+      ] as AllocationOptions[]) {
+        expect(() => defineAllocation(options)).to.throw(InvalidInputError);
+      }
+    });
+
+    it("Should balance every block in the plaintext allocator", function () {
+      const settings = defineAllocation({
+        scheme: "stratified",
+        ratio: [2, 1],
+        blockSize: 3,
+        strata: { ageCutoff: 50 },
+      });
+      const allocate = createAllocator(settings, createRandom(7));
+      const cohort = Array.from({ length: 60 }, (_, i) => ({
+        age: i % 2 === 0 ? 30 : 70,
+        healthScore: 80,
+      }));
+      const report = measureBalance(
+        settings,
+        cohort,
+        cohort.map((patient) => allocate(patient))
+      );
+
+      expect(report).to.deep.include({
+        patients: 60,
+        treatment: 40,
+        placebo: 20,
+        imbalance: 0,
+        maxStratumImbalance: 0,
+      });
+      expect(Object.keys(report.strata)).to.deep.equal(["0", "1"]);
+    });
+  });
+
+  describe("Encrypted allocation", function () {
+    it("Should fill each permuted block at the allocation ratio", async function () {
+      const { trial, client } = await deploy({
+        scheme: "permuted-block",
+        ratio: [2, 1],
+        blockSize: 3,
+      });
+      const arms = await enrollAll(
+        trial,
+        client,
+        Array(6).fill({ age: 40, healthScore: 80 })
+      );
+
+      for (const block of [arms.slice(0, 3), arms.slice(3)]) {
+        expect(block.filter((arm) => arm === 1)).to.have.length(2);
+      }
+    });
+
+    it("Should keep one block per stratum", async function () {
+      const options: AllocationOptions = {
+        scheme: "stratified",
+        blockSize: 2,
+        strata: { ageCutoff: 50, healthScoreCutoff: 60 },
+      };
+      const { trial, client } = await deploy(options);
+      // Two patients in each of the four strata, interleaved so no block fills by accident
+      const cohort = [
+        { age: 30, healthScore: 40 },
+        { age: 70, healthScore: 40 },
+        { age: 30, healthScore: 90 },
+        { age: 70, healthScore: 90 },
+      ];
+      const arms = await enrollAll(trial, client, [...cohort, ...cohort]);
+
+      const report = measureBalance(
+        defineAllocation(options),
+        [...cohort, ...cohort],
+        arms
+      );
+      expect(Object.keys(report.strata)).to.deep.equal(["0", "1", "2", "3"]);
+      expect(report.maxStratumImbalance).to.equal(0);
+    });
+
+    it("Should allocate every patient under simple allocation", async function () {
+      const { trial, client } = await deploy({ scheme: "simple" });
+      const arms = await enrollAll(
+        trial,
+        client,
+        Array(8).fill({ age: 40, healthScore: 80 })
+      );
+
+      expect(arms.every((arm) => arm === 0 || arm === 1)).to.be.true;
+    });
+  });
+});
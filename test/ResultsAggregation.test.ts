@@ -0,0 +1,234 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Wallet } from "ethers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  InvalidInputError,
+  MissingRoleError,
+  NoPhaseTransitionInProgressError,
+} from "../lib/errors";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  ANALYSIS_BATCH_SIZE,
+  TrialClient,
+  TrialPhase,
+} from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient, decryptResults } from "./helpers/encrypted-state";
+
+/**
+ * @title Results Aggregation Test Suite
+ * @notice Tests the batched homomorphic per-arm aggregation against a plaintext computation
+ *
+ * @chapter: testing
+ * @category: fhevm
+ */
+describe("Results Aggregation", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let coordinator: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let client: TrialClient;
+
+  const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+  const ENDPOINT_WEEK = DEFAULT_PROTOCOL.primaryEndpointWeek;
+
+  async function advance() {
+    await time.increase(PHASE_DURATION);
+    await client.advancePhase();
+  }
+
+  /**
+   * Enroll funded wallets, since the node only has a handful of signers
+   */
+  async function enrollCohort(size: number): Promise<Wallet[]> {
+    const wallets: Wallet[] = [];
+    for (let i = 0; i < size; i++) {
+      const wallet = new ethers.Wallet(
+        ethers.id(`aggregation-${i}`),
+        ethers.provider
+      );
+      await (
+        await coordinator.sendTransaction({
+          to: wallet.address,
+          value: ethers.parseEther("1"),
+        })
+      ).wait();
+      await client
+        .connect(wallet)
+        .enroll({ age: 30 + i, healthScore: 80, vitalSigns: 12080 });
+      wallets.push(wallet);
+    }
+    return wallets;
+  }
+
+  /**
+   * Submit endpoint scores, then advance to the analysis phase
+   */
+  async function runToAnalysis(cohort: Wallet[], scores: (number | null)[]) {
+    await advance();
+    for (const [i, wallet] of cohort.entries()) {
+      const score = scores[i];
+      if (score === null) continue;
+      await client.connect(wallet).submitWeek({
+        week: ENDPOINT_WEEK,
+        effectivenessScore: score,
+        sideEffectLevel: 1,
+        biomarkers: 5000,
+      });
+    }
+    await advance();
+    await advance();
+  }
+
+  /**
+   * The expected results, computed in plaintext from the decrypted arms
+   */
+  async function plaintextResults(cohort: Wallet[], scores: (number | null)[]) {
+    const sums = [0, 0];
+    const squares = [0, 0];
+    const counts = [0, 0];
+    const sizes = [0, 0];
+    for (const [i, wallet] of cohort.entries()) {
+      const arm = (await decryptPatient(trial, wallet.address)).treatmentGroup;
+      sizes[arm]++;
+      const score = scores[i];
+      if (score === null) continue;
+      sums[arm] += score;
+      squares[arm] += score * score;
+      counts[arm]++;
+    }
+    const aggregate = (arm: number) => ({
+      count: counts[arm],
+      sum: sums[arm],
+      sumOfSquares: squares[arm],
+    });
+    const average = (arm: number) =>
+      counts[arm] > 0 ? Math.floor(sums[arm] / counts[arm]) : 0;
+
+    return {
+      decrypted: {
+        placeboGroupAverage: average(0),
+        treatmentGroupAverage: average(1),
+        totalParticipants: cohort.length,
+      },
+      placeboGroupSize: sizes[0],
+      treatmentGroupSize: sizes[1],
+      aggregates: { placebo: aggregate(0), treatment: aggregate(1) },
+    };
+  }
+
+  beforeEach(async function () {
+    [coordinator, outsider] = await ethers.getSigners();
+
+    trial = await deployTrial();
+
+    client = new TrialClient(trial, fhevm);
+  });
+
+  it("Should finish small cohorts in the transition to analysis", async function () {
+    const scores = [64, 81, null, 77];
+    const cohort = await enrollCohort(scores.length);
+    await runToAnalysis(cohort, scores);
+
+    expect(await client.analysisProgress()).to.deep.equal({
+      pending: false,
+      processed: 4,
+      total: 4,
+    });
+    expect(await client.completePhaseTransition()).to.have.length(0);
+    expect(await client.armStatistics()).to.be.null;
+
+    await fhevm.awaitDecryptionOracle();
+    const expected = await plaintextResults(cohort, scores);
+    expect(await decryptResults(trial, TrialPhase.Analysis)).to.deep.equal(
+      expected.decrypted
+    );
+  });
+
+  it("Should match the plaintext computation across batches", async function () {
+    const size = ANALYSIS_BATCH_SIZE + 5;
+    const scores = Array.from({ length: size }, (_, i) =>
+      // Two patients miss the primary endpoint
+      i === 3 || i === size - 3 ? null : 50 + ((i * 17) % 50)
+    );
+    const cohort = await enrollCohort(size);
+    await runToAnalysis(cohort, scores);
+
+    expect(await client.analysisProgress()).to.deep.equal({
+      pending: true,
+      processed: ANALYSIS_BATCH_SIZE,
+      total: size,
+    });
+    expect((await client.results()).resultsCalculated).to.be.false;
+    // Decryption is only requested once every batch is in
+    expect(await client.analysisRequest()).to.be.null;
+
+    await expect(trial.continuePhaseTransition(3))
+      .to.emit(trial, "TransitionBatchProcessed")
+      .withArgs(TrialPhase.Analysis, ANALYSIS_BATCH_SIZE + 3, size);
+    const batches = await client.completePhaseTransition(3);
+    expect(batches).to.have.length(1);
+    expect(await client.analysisProgress()).to.deep.equal({
+      pending: false,
+      processed: size,
+      total: size,
+    });
+    const request = (await client.analysisRequest())!;
+    expect(request.patientCount).to.equal(size);
+    expect(request.analysedCount).to.equal(size - 2);
+
+    await fhevm.awaitDecryptionOracle();
+    const expected = await plaintextResults(cohort, scores);
+    expect(await decryptResults(trial, TrialPhase.Analysis)).to.deep.equal(
+      expected.decrypted
+    );
+
+    const results = await client.results();
+    expect(results.resultsCalculated).to.be.true;
+    expect(results.placeboGroupSize).to.equal(expected.placeboGroupSize);
+    expect(results.treatmentGroupSize).to.equal(expected.treatmentGroupSize);
+    expect(await client.armStatistics()).to.deep.equal(expected.aggregates);
+  });
+
+  it("Should only accumulate while an analysis is in progress", async function () {
+    await expect(trial.continuePhaseTransition(1)).to.be.revertedWith(
+      "No phase transition in progress"
+    );
+
+    const cohort = await enrollCohort(2);
+    await runToAnalysis(cohort, [70, 80]);
+
+    await expect(trial.continuePhaseTransition(1)).to.be.revertedWith(
+      "No phase transition in progress"
+    );
+    const error = await client.continuePhaseTransition().catch((e) => e);
+    expect(error).to.be.instanceOf(NoPhaseTransitionInProgressError);
+  });
+
+  it("Should validate the batch size and the caller", async function () {
+    const size = ANALYSIS_BATCH_SIZE + 1;
+    const cohort = await enrollCohort(size);
+    await runToAnalysis(
+      cohort,
+      cohort.map(() => null)
+    );
+
+    for (const batchSize of [0, ANALYSIS_BATCH_SIZE + 1]) {
+      await expect(trial.continuePhaseTransition(batchSize)).to.be.revertedWith(
+        "Invalid batch size"
+      );
+      const error = await client
+        .continuePhaseTransition(batchSize)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InvalidInputError);
+    }
+
+    const error = await client
+      .connect(outsider)
+      .continuePhaseTransition()
+      .catch((e) => e);
+    expect(error).to.be.instanceOf(MissingRoleError);
+  });
+});
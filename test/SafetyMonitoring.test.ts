@@ -0,0 +1,347 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { MissingRoleError } from "../lib/errors";
+import { MemoryStore, TrialIndexer } from "../lib/indexer";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  SafetyAlertPayload,
+  SafetyWatcher,
+  evaluateSafetyAlert,
+  readSafetyLog,
+} from "../lib/safety";
+import { TrialClient } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Safety Monitoring Test Suite
+ * @notice Tests encrypted safety alerts, the serious event count and the safety watcher
+ *
+ * @chapter: testing
+ * @category: safety
+ */
+describe("Safety Monitoring", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+  let monitor: HardhatEthersSigner;
+  let investigator: HardhatEthersSigner;
+  let patients: HardhatEthersSigner[];
+
+  async function submit(
+    patient: HardhatEthersSigner,
+    week: number,
+    sideEffectLevel: number
+  ) {
+    await client.connect(patient).submitWeek({
+      week,
+      effectivenessScore: 70,
+      sideEffectLevel,
+      biomarkers: 5000,
+    });
+  }
+
+  async function alertOf(
+    patient: HardhatEthersSigner,
+    week: number,
+    user: HardhatEthersSigner = monitor
+  ): Promise<boolean> {
+    return fhevm.userDecryptEbool(
+      await client.safetyAlertHandle(patient.address, week),
+      await trial.getAddress(),
+      user
+    );
+  }
+
+  async function canReadAlert(
+    patient: HardhatEthersSigner,
+    week: number,
+    user: HardhatEthersSigner
+  ): Promise<boolean> {
+    try {
+      await alertOf(patient, week, user);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && /not authorized/.test(error.message)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    [, monitor, investigator] = signers;
+    patients = signers.slice(3, 6);
+
+    trial = await deployTrial();
+
+    client = new TrialClient(trial, fhevm);
+    await client.grantRole("safety-monitor", monitor.address);
+    await client.grantRole("site-investigator", investigator.address);
+    for (const patient of patients) {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+    await time.increase(DEFAULT_PROTOCOL.enrollmentDuration);
+    await client.advancePhase();
+  });
+
+  it("Should raise alerts for serious levels and sharp weekly increases", async function () {
+    const [steady, rising, serious] = patients;
+    const visits: [HardhatEthersSigner, number, number][] = [
+      [steady, 1, 2],
+      [steady, 2, 4],
+      [rising, 1, 1],
+      [rising, 2, 4],
+      [serious, 2, 8],
+      [serious, 3, 10],
+    ];
+    for (const [patient, week, level] of visits) {
+      await submit(patient, week, level);
+    }
+
+    const previous = new Map<string, number>();
+    for (const [patient, week, level] of visits) {
+      const expected = evaluateSafetyAlert(
+        level,
+        previous.get(`${patient.address}:${week - 1}`),
+        DEFAULT_PROTOCOL
+      );
+      previous.set(`${patient.address}:${week}`, level);
+      expect(await alertOf(patient, week)).to.equal(
+        expected,
+        `week ${week} level ${level}`
+      );
+    }
+    expect(
+      await Promise.all(visits.map(([p, w]) => alertOf(p, w)))
+    ).to.deep.equal([false, false, false, true, true, true]);
+
+    const { handle } = await client.connect(monitor).revealSeriousEventCount();
+    expect(handle).to.equal(await client.seriousEventCountHandle());
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint16, handle)).to.equal(
+      3n
+    );
+  });
+
+  it("Should only share alerts with the safety monitors of the time", async function () {
+    const [patient] = patients;
+    const lateMonitor = (await ethers.getSigners())[6];
+    await submit(patient, 1, 9);
+
+    expect(await canReadAlert(patient, 1, monitor)).to.be.true;
+    for (const outsider of [investigator, patient]) {
+      expect(await canReadAlert(patient, 1, outsider)).to.be.false;
+    }
+
+    await client.grantRole("safety-monitor", lateMonitor.address);
+    await client.revokeRole("safety-monitor", monitor.address);
+    await submit(patient, 2, 9);
+
+    expect(await canReadAlert(patient, 1, lateMonitor)).to.be.false;
+    expect(await canReadAlert(patient, 2, lateMonitor)).to.be.true;
+    expect(await canReadAlert(patient, 2, monitor)).to.be.false;
+  });
+
+  it("Should only let safety monitors reveal the serious event count", async function () {
+    const denied = await client
+      .connect(investigator)
+      .revealSeriousEventCount()
+      .catch((e) => e);
+    expect(denied).to.be.instanceOf(MissingRoleError);
+
+    const { handle } = await client.connect(monitor).revealSeriousEventCount();
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint16, handle)).to.equal(
+      0n
+    );
+  });
+
+  it("Should log every visit and post raised alerts to the webhook", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "safety-"));
+    const logFile = path.join(dir, "safety.jsonl");
+    const received: SafetyAlertPayload[] = [];
+    let status = 204;
+    const server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push(JSON.parse(body));
+        response.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as { port: number };
+
+    const address = await trial.getAddress();
+    const watcher = () =>
+      new SafetyWatcher(
+        client,
+        new TrialIndexer(
+          ethers.provider,
+          trial.interface,
+          address,
+          new MemoryStore()
+        ),
+        (handle) => fhevm.userDecryptEbool(handle, address, monitor),
+        {
+          logFile,
+          webhookUrl: `http://127.0.0.1:${port}/alerts`,
+          retryDelayMs: 0,
+        }
+      );
+
+    try {
+      await submit(patients[0], 1, 2);
+      await submit(patients[1], 1, 9);
+      const first = await watcher().poll();
+      expect(first.map((e) => [e.patient, e.alert, e.notified])).to.deep.equal([
+        [patients[0].address, false, undefined],
+        [patients[1].address, true, true],
+      ]);
+      expect(received).to.have.length(1);
+      expect(received[0]).to.deep.include({
+        type: "safety-alert",
+        trial: address,
+        patient: patients[1].address,
+        week: 1,
+      });
+
+      // A restarted watcher picks up where the log ends
+      status = 500;
+      await submit(patients[2], 1, 10);
+      const restarted = watcher();
+      const second = await restarted.poll();
+      expect(second).to.have.length(1);
+      expect(second[0]).to.deep.include({ alert: true, notified: false });
+      expect(second[0].error).to.match(/answered 500/);
+
+      // Failed deliveries are retried, also by a restarted watcher, but a
+      // retry that fails the same way adds no line
+      expect(await watcher().poll()).to.be.empty;
+      expect(received).to.have.length(3);
+      status = 204;
+      const fourth = await restarted.poll();
+      expect(fourth.map((e) => [e.patient, e.notified])).to.deep.equal([
+        [patients[2].address, true],
+      ]);
+      expect(fourth[0].error).to.be.undefined;
+      expect(received).to.have.length(4);
+      expect(await restarted.poll()).to.be.empty;
+      expect(await watcher().poll()).to.be.empty;
+      expect(readSafetyLog(logFile)).to.have.length(4);
+    } finally {
+      server.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should retry alerts it could not decrypt with a growing delay", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "safety-"));
+    const logFile = path.join(dir, "safety.jsonl");
+    const address = await trial.getAddress();
+    const retryDelayMs = 200;
+    let failures = 2;
+    let attempts = 0;
+    const watcher = new SafetyWatcher(
+      client,
+      new TrialIndexer(
+        ethers.provider,
+        trial.interface,
+        address,
+        new MemoryStore()
+      ),
+      async (handle) => {
+        attempts++;
+        if (failures-- > 0) {
+          throw new Error("Relayer unavailable");
+        }
+        return fhevm.userDecryptEbool(handle, address, monitor);
+      },
+      { logFile, retryDelayMs }
+    );
+    const sleep = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    try {
+      await submit(patients[0], 1, 9);
+      const [failed] = await watcher.poll();
+      expect(failed.alert).to.be.null;
+      expect(failed.denied).to.be.undefined;
+      expect(failed.error).to.equal(
+        "Cannot decrypt alert: Relayer unavailable"
+      );
+
+      // Not retried before the delay, and the same error is not logged twice
+      expect(await watcher.poll()).to.be.empty;
+      expect(attempts).to.equal(1);
+      await sleep(retryDelayMs);
+      expect(await watcher.poll()).to.be.empty;
+      expect(attempts).to.equal(2);
+
+      // The second failure doubled the delay
+      await sleep(retryDelayMs);
+      expect(await watcher.poll()).to.be.empty;
+      expect(attempts).to.equal(2);
+      await sleep(retryDelayMs);
+      const [retried] = await watcher.poll();
+      expect(attempts).to.equal(3);
+      expect(retried).to.deep.include({ week: 1, alert: true });
+      expect(retried.error).to.be.undefined;
+      expect(await watcher.poll()).to.be.empty;
+      expect(readSafetyLog(logFile).map((e) => e.alert)).to.deep.equal([
+        null,
+        true,
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should log alerts the ACL does not allow once and not retry them", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "safety-"));
+    const logFile = path.join(dir, "safety.jsonl");
+    const address = await trial.getAddress();
+    let attempts = 0;
+    // The investigator holds no safety-monitor role, so the ACL refuses it
+    const watcher = () =>
+      new SafetyWatcher(
+        client,
+        new TrialIndexer(
+          ethers.provider,
+          trial.interface,
+          address,
+          new MemoryStore()
+        ),
+        (handle) => {
+          attempts++;
+          return fhevm.userDecryptEbool(handle, address, investigator);
+        },
+        { logFile, retryDelayMs: 0 }
+      );
+
+    try {
+      await submit(patients[0], 1, 9);
+      const first = watcher();
+      const [denied] = await first.poll();
+      expect(denied).to.deep.include({ alert: null, denied: true });
+      expect(denied.error).to.match(/^Cannot decrypt alert: .*not authorized/);
+
+      expect(await first.poll()).to.be.empty;
+      expect(await watcher().poll()).to.be.empty;
+      expect(attempts).to.equal(1);
+      expect(readSafetyLog(logFile)).to.have.length(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
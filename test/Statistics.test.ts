@@ -0,0 +1,241 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { MemoryStore, TrialIndexer } from "../lib/indexer";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  ArmAggregate,
+  analyzeArms,
+  normalCdf,
+  normalQuantile,
+  studentTCdf,
+  studentTQuantile,
+  summarizeArm,
+} from "../lib/statistics";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient } from "./helpers/encrypted-state";
+
+/**
+ * @title Trial Statistics Test Suite
+ * @notice Tests the two-arm analysis against reference values and published aggregates
+ *
+ * @chapter: testing
+ * @category: analysis
+ */
+describe("Trial Statistics", function () {
+  function aggregate(scores: number[]): ArmAggregate {
+    return {
+      count: scores.length,
+      sum: scores.reduce((sum, x) => sum + x, 0),
+      sumOfSquares: scores.reduce((sum, x) => sum + x * x, 0),
+    };
+  }
+
+  describe("Distributions", function () {
+    it("Should match tabulated Student's t quantiles", function () {
+      // Two-sided 95% critical values
+      const table: [number, number][] = [
+        [5, 2.570582],
+        [10, 2.228139],
+        [30, 2.042272],
+      ];
+      for (const [df, critical] of table) {
+        expect(studentTQuantile(0.975, df)).to.be.closeTo(critical, 1e-5);
+        expect(studentTCdf(critical, df)).to.be.closeTo(0.975, 1e-6);
+        expect(studentTCdf(-critical, df)).to.be.closeTo(0.025, 1e-6);
+      }
+      expect(studentTCdf(0, 7)).to.be.closeTo(0.5, 1e-12);
+    });
+
+    it("Should match tabulated normal quantiles", function () {
+      expect(normalQuantile(0.975)).to.be.closeTo(1.959964, 1e-5);
+      expect(normalQuantile(0.8)).to.be.closeTo(0.841621, 1e-5);
+      expect(normalQuantile(0.001)).to.be.closeTo(-3.090232, 1e-5);
+      expect(normalCdf(1.959964)).to.be.closeTo(0.975, 1e-6);
+      expect(normalCdf(0)).to.be.closeTo(0.5, 1e-6);
+    });
+
+    it("Should reject probabilities outside (0, 1)", function () {
+      expect(() => studentTQuantile(1, 5)).to.throw(RangeError);
+      expect(() => normalQuantile(0)).to.throw(RangeError);
+    });
+  });
+
+  describe("analyzeArms", function () {
+    // Reference values from the raw scores, with the t quantile and p-value
+    // from numerical integration of the t density
+    const placebo = [62, 58, 71, 65, 60, 68, 55, 63];
+    const treatment = [74, 80, 69, 77, 83, 72, 79, 75, 70];
+
+    it("Should recover each arm's mean and variance from the sums", function () {
+      const summary = summarizeArm(aggregate(placebo));
+      const mean = placebo.reduce((s, x) => s + x, 0) / placebo.length;
+      const variance =
+        placebo.reduce((s, x) => s + (x - mean) ** 2, 0) / (placebo.length - 1);
+
+      expect(summary.n).to.equal(placebo.length);
+      expect(summary.mean).to.be.closeTo(mean, 1e-12);
+      expect(summary.variance).to.be.closeTo(variance, 1e-9);
+      expect(summary.standardDeviation).to.be.closeTo(
+        Math.sqrt(variance),
+        1e-9
+      );
+    });
+
+    it("Should run Welch's t-test with its confidence interval", function () {
+      const report = analyzeArms({
+        placebo: aggregate(placebo),
+        treatment: aggregate(treatment),
+      });
+
+      expect(report.difference.estimate).to.be.closeTo(12.694444, 1e-6);
+      expect(report.difference.standardError).to.be.closeTo(2.427952, 1e-6);
+      expect(report.welch.t).to.be.closeTo(5.228457, 1e-6);
+      expect(report.welch.degreesOfFreedom).to.be.closeTo(14.262685, 1e-6);
+      expect(report.welch.pValue).to.be.closeTo(0.00012025, 1e-7);
+      expect(report.difference.confidenceInterval.lower).to.be.closeTo(
+        7.495989,
+        1e-5
+      );
+      expect(report.difference.confidenceInterval.upper).to.be.closeTo(
+        17.8929,
+        1e-5
+      );
+      expect(report.significant).to.be.true;
+      expect(report.warnings).to.deep.equal([
+        "Fewer than 10 analysed patients in an arm; normal-approximation power is unreliable",
+      ]);
+    });
+
+    it("Should report effect size and power", function () {
+      const report = analyzeArms({
+        placebo: aggregate(placebo),
+        treatment: aggregate(treatment),
+      });
+      const { cohensD, hedgesG } = report.effectSize;
+
+      expect(cohensD).to.be.closeTo(2.556946, 1e-6);
+      expect(hedgesG!).to.be.below(cohensD!);
+      expect(report.power.observed).to.be.greaterThan(0.99);
+      // 2 * (1.96 + 0.8416)^2 / d^2, rounded up
+      expect(report.power.patientsPerArm).to.equal(3);
+    });
+
+    it("Should widen the interval with the confidence level", function () {
+      const aggregates = {
+        placebo: aggregate(placebo),
+        treatment: aggregate(treatment),
+      };
+      const ci95 = analyzeArms(aggregates).difference.confidenceInterval;
+      const ci99 = analyzeArms(aggregates, { confidenceLevel: 0.99 }).difference
+        .confidenceInterval;
+
+      expect(ci99.level).to.equal(0.99);
+      expect(ci99.lower!).to.be.below(ci95.lower!);
+      expect(ci99.upper!).to.be.above(ci95.upper!);
+      expect(() => analyzeArms(aggregates, { alpha: 1.5 })).to.throw(
+        RangeError
+      );
+    });
+
+    it("Should explain what cannot be computed", function () {
+      const empty = analyzeArms({
+        placebo: aggregate([]),
+        treatment: aggregate([70, 80]),
+      });
+      expect(empty.difference.estimate).to.be.null;
+      expect(empty.welch.pValue).to.be.null;
+      expect(empty.significant).to.be.false;
+      expect(empty.warnings).to.deep.equal(["An arm has no analysed patients"]);
+
+      const single = analyzeArms({
+        placebo: aggregate([60]),
+        treatment: aggregate([70, 80]),
+      });
+      expect(single.difference.estimate).to.equal(15);
+      expect(single.difference.standardError).to.be.null;
+
+      const constant = analyzeArms({
+        placebo: aggregate([60, 60]),
+        treatment: aggregate([70, 70]),
+      });
+      expect(constant.welch.t).to.be.null;
+      expect(constant.warnings).to.deep.equal(["Both arms have zero variance"]);
+    });
+  });
+
+  describe("Published aggregates", function () {
+    let trial: PrivacyPreservingClinicalTrial;
+    let patients: HardhatEthersSigner[];
+    let client: TrialClient;
+
+    const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+    const SCORES = [62, 88, 71, 90, 55, 79];
+
+    async function advance() {
+      await time.increase(PHASE_DURATION);
+      await client.advancePhase();
+    }
+
+    beforeEach(async function () {
+      const signers = await ethers.getSigners();
+      patients = signers.slice(1, SCORES.length + 1);
+
+      trial = await deployTrial();
+      client = new TrialClient(trial, fhevm);
+    });
+
+    it("Should analyse the per-arm sums the trial publishes", async function () {
+      const startBlock = await ethers.provider.getBlockNumber();
+      for (const patient of patients) {
+        await client
+          .connect(patient)
+          .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+      }
+      await advance();
+      for (const [i, patient] of patients.entries()) {
+        await client.connect(patient).submitWeek({
+          week: DEFAULT_PROTOCOL.primaryEndpointWeek,
+          effectivenessScore: SCORES[i],
+          sideEffectLevel: 2,
+          biomarkers: 5000,
+        });
+      }
+      await advance();
+      await advance();
+      await fhevm.awaitDecryptionOracle();
+
+      const arms: number[][] = [[], []];
+      for (const [i, patient] of patients.entries()) {
+        const arm = (await decryptPatient(trial, patient.address))
+          .treatmentGroup;
+        arms[arm].push(SCORES[i]);
+      }
+      const expected = {
+        placebo: aggregate(arms[0]),
+        treatment: aggregate(arms[1]),
+      };
+
+      const published = await client.armStatistics(TrialPhase.Analysis);
+      expect(published).to.deep.equal(expected);
+
+      const indexer = new TrialIndexer(
+        ethers.provider,
+        trial.interface,
+        await trial.getAddress(),
+        new MemoryStore(),
+        { startBlock }
+      );
+      await indexer.sync();
+      expect(indexer.armStatistics(TrialPhase.Analysis)).to.deep.equal(
+        expected
+      );
+      expect(indexer.armStatistics(TrialPhase.Treatment)).to.be.null;
+
+      expect(analyzeArms(published!)).to.deep.equal(analyzeArms(expected));
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import {
+  DEFAULT_COHORT_OPTIONS,
+  createRandom,
+  generateCohort,
+  weeklyMeasurements,
+} from "../lib/cohort";
+import { decodeVitalSigns } from "../lib/eligibility";
+
+/**
+ * @title Synthetic Cohort Test Suite
+ * @notice Tests that the cohort generator is reproducible and stays within the contract's input ranges
+ *
+ * @chapter: testing
+ * @category: simulation
+ */
+describe("Synthetic Cohort", function () {
+  const SIZE = 200;
+
+  describe("Determinism", function () {
+    it("Should produce the same sequence for the same seed", function () {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const values = Array.from({ length: 5 }, () => a());
+      expect(values).to.deep.equal(Array.from({ length: 5 }, () => b()));
+      expect(new Set(values).size).to.equal(5);
+      for (const value of values) {
+        expect(value).to.be.at.least(0).and.below(1);
+      }
+    });
+
+    it("Should generate the same cohort from the same seed", function () {
+      const options = { size: 25, seed: 7 };
+      expect(generateCohort(options)).to.deep.equal(generateCohort(options));
+      expect(generateCohort(options)).to.not.deep.equal(
+        generateCohort({ ...options, seed: 8 })
+      );
+    });
+
+    it("Should extend a cohort without changing the patients already generated", function () {
+      const small = generateCohort({ size: 10, seed: 3 });
+      const large = generateCohort({ size: 20, seed: 3 });
+      expect(large.slice(0, 10)).to.deep.equal(small);
+    });
+
+    it("Should generate the same measurements for the same patient and arm", function () {
+      const [patient] = generateCohort({ size: 1, seed: 5, dropoutRate: 0 });
+      expect(weeklyMeasurements(patient, true)).to.deep.equal(
+        weeklyMeasurements(patient, true)
+      );
+      expect(weeklyMeasurements(patient, true)).to.not.deep.equal(
+        weeklyMeasurements(patient, false)
+      );
+    });
+  });
+
+  describe("Value ranges", function () {
+    it("Should keep baselines within the enrollment ranges", function () {
+      const cohort = generateCohort({ size: SIZE });
+      expect(cohort).to.have.length(SIZE);
+      expect(cohort.map((patient) => patient.id)).to.deep.equal(
+        Array.from({ length: SIZE }, (_, i) => i)
+      );
+
+      for (const patient of cohort) {
+        expect(patient.age).to.be.within(18, 80);
+        expect(patient.healthScore).to.be.within(0, 100);
+        expect(patient.heartRate).to.be.within(50, 120);
+        expect(patient.diastolicPressure).to.be.within(55, 99);
+        expect(decodeVitalSigns(patient.vitalSigns)).to.deep.equal({
+          heartRate: patient.heartRate,
+          diastolicPressure: patient.diastolicPressure,
+        });
+        expect(patient.lastWeek).to.be.within(0, DEFAULT_COHORT_OPTIONS.weeks);
+        for (const value of [patient.age, patient.healthScore, patient.seed]) {
+          expect(Number.isInteger(value)).to.equal(true);
+        }
+      }
+    });
+
+    it("Should drop patients out at the configured rate", function () {
+      const weeks = 8;
+      const everyone = generateCohort({ size: SIZE, weeks, dropoutRate: 0 });
+      expect(everyone.every((patient) => patient.lastWeek === weeks)).to.equal(
+        true
+      );
+      const nobody = generateCohort({ size: SIZE, weeks, dropoutRate: 1 });
+      expect(nobody.every((patient) => patient.lastWeek === 0)).to.equal(true);
+
+      const some = generateCohort({ size: SIZE, weeks, dropoutRate: 0.1 });
+      const completers = some.filter((p) => p.lastWeek === weeks).length;
+      // 0.9^8 of the cohort is expected to complete
+      expect(completers / SIZE).to.be.closeTo(0.9 ** weeks, 0.1);
+    });
+
+    it("Should keep weekly measurements within the submission ranges", function () {
+      for (const patient of generateCohort({ size: 50, seed: 11 })) {
+        for (const inTreatmentArm of [false, true]) {
+          const measurements = weeklyMeasurements(patient, inTreatmentArm);
+          expect(measurements.map((m) => m.week)).to.deep.equal(
+            Array.from({ length: patient.lastWeek }, (_, i) => i + 1)
+          );
+          for (const m of measurements) {
+            expect(m.effectivenessScore).to.be.within(0, 100);
+            expect(m.sideEffectLevel).to.be.within(0, 10);
+            expect(m.biomarkers).to.be.within(0, 65535);
+          }
+        }
+      }
+    });
+
+    it("Should give the treatment arm roughly the configured effect", function () {
+      const cohort = generateCohort({ size: SIZE, dropoutRate: 0 });
+      const meanAtWeek = (inTreatmentArm: boolean, week: number) =>
+        cohort.reduce(
+          (sum, patient) =>
+            sum +
+            weeklyMeasurements(patient, inTreatmentArm, {
+              treatmentEffect: 20,
+            })[week - 1].effectivenessScore,
+          0
+        ) / cohort.length;
+
+      // The effect ramps up over the first four weeks
+      expect(meanAtWeek(true, 8) - meanAtWeek(false, 8)).to.be.closeTo(20, 2);
+      expect(meanAtWeek(true, 1) - meanAtWeek(false, 1)).to.be.closeTo(5, 2);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import {
+  DataAlreadySubmittedError,
+  MissingRoleError,
+  NotCoordinatorError,
+  PhaseTransitionNotReadyError,
+  WrongPhaseError,
+  decodeTrialError,
+} from "../lib/errors";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Trial Client SDK Test Suite
+ * @notice Tests the typed client: phase pre-checks, revert decoding and parsed views
+ *
+ * @chapter: testing
+ * @category: sdk
+ */
+describe("TrialClient", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let patient1: HardhatEthersSigner;
+  let client: TrialClient;
+
+  const PHASE_DURATION = 3600;
+  const ENROLLMENT = { age: 35, healthScore: 85, vitalSigns: 12080 };
+  const WEEK_ONE = {
+    week: 1,
+    effectivenessScore: 85,
+    sideEffectLevel: 3,
+    biomarkers: 5000,
+  };
+
+  beforeEach(async function () {
+    [, patient1] = await ethers.getSigners();
+
+    trial = await deployTrial();
+
+    client = new TrialClient(trial, fhevm);
+  });
+
+  describe("Status views", function () {
+    it("Should parse trial status", async function () {
+      const status = await client.status();
+      expect(status.phase).to.equal(TrialPhase.Enrollment);
+      expect(status.phaseName).to.equal("Patient Enrollment");
+      expect(status.participantCount).to.equal(0);
+      expect(status.canTransition).to.be.false;
+    });
+
+    it("Should parse patient status after enrollment", async function () {
+      await client.connect(patient1).enroll(ENROLLMENT);
+
+      const status = await client.patientStatus(patient1.address);
+      expect(status.enrolled).to.be.true;
+      expect(status.consentGiven).to.be.true;
+      expect(status.enrollmentTime).to.be.instanceOf(Date);
+      expect(status.consentVersion).to.equal(1);
+      expect(status.withdrawalTime).to.be.null;
+    });
+
+    it("Should report a null enrollment time for unknown patients", async function () {
+      const status = await client.patientStatus(patient1.address);
+      expect(status.enrolled).to.be.false;
+      expect(status.enrollmentTime).to.be.null;
+    });
+
+    it("Should parse results after emergency termination", async function () {
+      await client.connect(patient1).enroll(ENROLLMENT);
+      await client.terminate();
+
+      const results = await client.results();
+      expect(results.phase).to.equal(TrialPhase.Analysis);
+      expect(results.completed).to.be.true;
+      expect(results.resultsCalculated).to.be.false;
+      expect(results.participantCount).to.equal(1);
+    });
+  });
+
+  describe("Phase checks", function () {
+    it("Should reject submissions before the treatment phase without sending", async function () {
+      await client.connect(patient1).enroll(ENROLLMENT);
+      const blockBefore = await ethers.provider.getBlockNumber();
+
+      const error = await client
+        .connect(patient1)
+        .submitWeek(WEEK_ONE)
+        .catch((e) => e);
+
+      expect(error).to.be.instanceOf(WrongPhaseError);
+      expect(error.expectedPhase).to.equal(TrialPhase.Treatment);
+      expect(error.actualPhase).to.equal(TrialPhase.Enrollment);
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+    });
+
+    it("Should refuse to advance before the phase has elapsed", async function () {
+      const error = await client.advancePhase().catch((e) => e);
+      expect(error).to.be.instanceOf(PhaseTransitionNotReadyError);
+    });
+
+    it("Should advance once the phase has elapsed", async function () {
+      await time.increase(PHASE_DURATION);
+      await client.advancePhase();
+      expect(await client.phase()).to.equal(TrialPhase.Treatment);
+    });
+  });
+
+  describe("Revert decoding", function () {
+    it("Should decode duplicate weekly submissions", async function () {
+      await client.connect(patient1).enroll(ENROLLMENT);
+      await time.increase(PHASE_DURATION);
+      await client.advancePhase();
+
+      const patientClient = client.connect(patient1);
+      await patientClient.submitWeek(WEEK_ONE);
+
+      const error = await patientClient.submitWeek(WEEK_ONE).catch((e) => e);
+      expect(error).to.be.instanceOf(DataAlreadySubmittedError);
+      expect(error.week).to.equal(1);
+    });
+
+    it("Should decode coordinator-only reverts", async function () {
+      const error = await client
+        .connect(patient1)
+        .grantRole("auditor", patient1.address)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(NotCoordinatorError);
+    });
+
+    it("Should decode missing-role reverts", async function () {
+      const error = await client
+        .connect(patient1)
+        .terminate()
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(MissingRoleError);
+      expect(error.reason).to.equal("Only coordinator or DSMB allowed");
+    });
+
+    it("Should decode Hardhat reason strings", function () {
+      const error = decodeTrialError(
+        new Error(
+          "VM Exception while processing transaction: reverted with reason string 'Wrong trial phase'"
+        )
+      );
+      expect(error).to.be.instanceOf(WrongPhaseError);
+    });
+  });
+});
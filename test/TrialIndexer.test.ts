@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  mine,
+  takeSnapshot,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { MemoryStore, TrialIndexer } from "../lib/indexer";
+
+import { TrialClient } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Trial Event Indexer Test Suite
+ * @notice Runs the indexer against the in-process Hardhat network
+ *
+ * @chapter: testing
+ * @category: indexing
+ */
+describe("TrialIndexer", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let patient1: HardhatEthersSigner;
+  let patient2: HardhatEthersSigner;
+  let patient3: HardhatEthersSigner;
+  let store: MemoryStore;
+  let startBlock: number;
+
+  const PHASE_DURATION = 3600;
+  const VALID_VITAL_SIGNS = 12080;
+
+  function enroll(
+    patient: HardhatEthersSigner,
+    age: number,
+    healthScore: number
+  ) {
+    return new TrialClient(trial, fhevm)
+      .connect(patient)
+      .enroll({ age, healthScore, vitalSigns: VALID_VITAL_SIGNS });
+  }
+
+  function submit(
+    patient: HardhatEthersSigner,
+    effectivenessScore: number,
+    sideEffectLevel: number,
+    biomarkers: number,
+    week: number
+  ) {
+    return new TrialClient(trial, fhevm)
+      .connect(patient)
+      .submitWeek({ effectivenessScore, sideEffectLevel, biomarkers, week });
+  }
+
+  function createIndexer(confirmations = 5): TrialIndexer {
+    return new TrialIndexer(
+      ethers.provider,
+      trial.interface,
+      trial.target as string,
+      store,
+      {
+        startBlock,
+        batchSize: 3,
+        confirmations,
+      }
+    );
+  }
+
+  beforeEach(async function () {
+    [, patient1, patient2, patient3] = await ethers.getSigners();
+
+    trial = await deployTrial();
+
+    startBlock = (await trial.deploymentTransaction()!.wait())!.blockNumber;
+    store = new MemoryStore();
+  });
+
+  it("Should index the trial lifecycle events", async function () {
+    await enroll(patient1, 35, 85);
+    await enroll(patient2, 45, 75);
+    await time.increase(PHASE_DURATION);
+    await trial.transitionToNextPhase();
+    await submit(patient1, 85, 3, 5000, 1);
+    await submit(patient2, 80, 2, 5100, 1);
+    await submit(patient1, 87, 2, 5200, 2);
+
+    const indexer = createIndexer();
+    const result = await indexer.sync();
+
+    expect(result.added).to.equal(2 + 2 + 1 + 3); // enrollments, assignments, transition, submissions
+    expect(indexer.events("TreatmentAssigned")).to.have.length(2);
+    expect(indexer.submissionsPerWeek()).to.deep.equal([
+      { week: 1, submissions: 2 },
+      { week: 2, submissions: 1 },
+    ]);
+    expect(indexer.enrollmentsPerDay()).to.have.length(1);
+    expect(indexer.enrollmentsPerDay()[0].enrollments).to.equal(2);
+    expect(
+      indexer.phaseTransitions().map((t) => [t.fromPhase, t.toPhase])
+    ).to.deep.equal([[1, 2]]);
+    expect(indexer.patientSubmissions(patient1.address)).to.deep.equal([1, 2]);
+  });
+
+  it("Should resume from its checkpoint without duplicating events", async function () {
+    await enroll(patient1, 35, 85);
+    await mine(10);
+    await createIndexer().sync();
+
+    await enroll(patient2, 45, 75);
+
+    // A fresh instance over the same store picks up where the last one stopped
+    const indexer = createIndexer();
+    const result = await indexer.sync();
+
+    expect(result.fromBlock).to.be.greaterThan(startBlock);
+    expect(indexer.events("PatientEnrolled")).to.have.length(2);
+  });
+
+  it("Should continue after an unchanged checkpoint without re-reading blocks", async function () {
+    await enroll(patient1, 35, 85);
+    const indexer = createIndexer();
+    await indexer.sync();
+    const checkpoint = indexer.checkpoint!;
+
+    await enroll(patient2, 45, 75);
+    const result = await indexer.sync();
+
+    expect(result.fromBlock).to.equal(checkpoint.blockNumber + 1);
+    expect(result.removed).to.equal(0);
+    expect(indexer.events("PatientEnrolled")).to.have.length(2);
+  });
+
+  it("Should drop events that were reorged out within the confirmation window", async function () {
+    await enroll(patient1, 35, 85);
+    const snapshot = await takeSnapshot();
+
+    await enroll(patient2, 45, 75);
+    const indexer = createIndexer();
+    await indexer.sync();
+    expect(indexer.events("PatientEnrolled")).to.have.length(2);
+
+    // Replace the last block with a different one
+    await snapshot.restore();
+    await enroll(patient3, 60, 90);
+    await indexer.sync();
+
+    const enrolled = indexer
+      .events("PatientEnrolled")
+      .map((event) => event.args.patient);
+    expect(enrolled).to.deep.equal([patient1.address, patient3.address]);
+  });
+
+  it("Should rebuild when a reorg is deeper than the confirmation window", async function () {
+    const snapshot = await takeSnapshot();
+    await enroll(patient1, 35, 85);
+    await mine(5);
+
+    const indexer = createIndexer(2);
+    await indexer.sync();
+
+    await snapshot.restore();
+    await enroll(patient2, 45, 75);
+    await mine(5);
+    const result = await indexer.sync();
+
+    expect(result.rebuilt).to.be.true;
+    const enrolled = indexer
+      .events("PatientEnrolled")
+      .map((event) => event.args.patient);
+    expect(enrolled).to.deep.equal([patient2.address]);
+  });
+});
@@ -0,0 +1,548 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { WithdrawalPolicy } from "../lib/consent";
+import { InvalidInputError } from "../lib/errors";
+import {
+  DEFAULT_PROTOCOL,
+  ProtocolError,
+  TrialProtocol,
+  formatDuration,
+  formatVisitSchedule,
+  loadProtocol,
+  validateProtocol,
+} from "../lib/protocol";
+import { AllocationScheme, formatAllocation } from "../lib/randomization";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrialLibraries } from "../lib/trial-libraries";
+import { VisitWindowPolicy } from "../lib/visits";
+import { deployTrial } from "./helpers/deploy-trial";
+import { decryptPatient } from "./helpers/encrypted-state";
+
+/**
+ * @title Trial Protocol Test Suite
+ * @notice Tests protocol file validation and the constructor parameters it drives
+ *
+ * @chapter: testing
+ * @category: deployment
+ */
+describe("Trial Protocol", function () {
+  const VALID = {
+    name: "Test protocol",
+    phases: { enrollment: "14d", treatment: "12w", monitoring: 3600 },
+    eligibility: { minAge: 21, maxAge: 65 },
+    visitWeeks: 8,
+    primaryEndpoint: { week: 6, significanceThreshold: 15 },
+  };
+
+  function withChanges(changes: Record<string, unknown>) {
+    return { ...VALID, ...changes };
+  }
+
+  function problemsOf(raw: unknown): string[] {
+    try {
+      validateProtocol(raw);
+    } catch (error) {
+      expect(error).to.be.instanceOf(ProtocolError);
+      return (error as ProtocolError).problems;
+    }
+    throw new Error("Expected the protocol to be rejected");
+  }
+
+  describe("Validation", function () {
+    it("Should convert a valid protocol to constructor arguments", function () {
+      expect(validateProtocol(VALID)).to.deep.equal({
+        enrollmentDuration: 14 * 86400,
+        treatmentDuration: 12 * 604800,
+        monitoringDuration: 3600,
+        minAge: 21,
+        maxAge: 65,
+        minHealthScore: 0,
+        maxHealthScore: 100,
+        minHeartRate: 0,
+        maxHeartRate: 255,
+        minDiastolicPressure: 0,
+        maxDiastolicPressure: 99,
+        visitWeeks: 8,
+        primaryEndpointWeek: 6,
+        significanceThreshold: 15,
+        allocationScheme: 0,
+        treatmentRatio: 1,
+        placeboRatio: 1,
+        blockSize: 0,
+        stratumAgeCutoff: 0,
+        stratumHealthScoreCutoff: 0,
+        withdrawalPolicy: 0,
+        seriousSideEffectLevel: 8,
+        sideEffectIncrease: 3,
+        visitInterval: 0,
+        visitWindow: 0,
+        visitWindowPolicy: 0,
+      });
+    });
+
+    it("Should read the randomization scheme", function () {
+      expect(
+        validateProtocol(
+          withChanges({
+            randomization: {
+              scheme: "stratified",
+              ratio: "2:1",
+              blockSize: 6,
+              strata: { ageCutoff: 50 },
+            },
+          })
+        )
+      ).to.include({
+        allocationScheme: AllocationScheme.Stratified,
+        treatmentRatio: 2,
+        placeboRatio: 1,
+        blockSize: 6,
+        stratumAgeCutoff: 50,
+        stratumHealthScoreCutoff: 0,
+      });
+
+      expect(
+        problemsOf(
+          withChanges({
+            randomization: { scheme: "minimization", ratio: "2-1", seed: 4 },
+          })
+        )
+      ).to.deep.equal([
+        "randomization.seed: unknown setting",
+        'randomization.ratio: expected treatment:placebo such as "2:1" with parts 1-255, got "2-1"',
+        'randomization.scheme: expected one of simple, permuted-block, stratified, got "minimization"',
+      ]);
+      expect(
+        problemsOf(
+          withChanges({
+            randomization: {
+              scheme: "permuted-block",
+              ratio: "2:1",
+              blockSize: 4,
+              strata: { healthScoreCutoff: 60 },
+            },
+          })
+        )
+      ).to.deep.equal([
+        "randomization: block size must be a multiple of 3 (the ratio total) up to 255, got 4",
+        "randomization: only stratified allocation has strata",
+      ]);
+    });
+
+    it("Should read the consent withdrawal policy", function () {
+      expect(
+        validateProtocol(
+          withChanges({ consent: { withdrawalPolicy: "retain-prior-data" } })
+        ).withdrawalPolicy
+      ).to.equal(WithdrawalPolicy.RetainPriorData);
+      expect(
+        validateProtocol(withChanges({ consent: {} })).withdrawalPolicy
+      ).to.equal(WithdrawalPolicy.Exclude);
+      expect(
+        problemsOf(withChanges({ consent: { withdrawalPolicy: "delete" } }))
+      ).to.deep.equal([
+        'consent.withdrawalPolicy: expected one of exclude, retain-prior-data, got "delete"',
+      ]);
+    });
+
+    it("Should read the safety thresholds", function () {
+      expect(
+        validateProtocol(
+          withChanges({
+            safety: { seriousSideEffectLevel: 7, sideEffectIncrease: 0 },
+          })
+        )
+      ).to.include({ seriousSideEffectLevel: 7, sideEffectIncrease: 0 });
+      expect(
+        problemsOf(
+          withChanges({
+            safety: { seriousSideEffectLevel: 0, sideEffectIncrease: 11 },
+          })
+        )
+      ).to.deep.equal([
+        "safety.seriousSideEffectLevel: must be between 1 and 10, got 0",
+        "safety.sideEffectIncrease: must be between 0 and 10, got 11",
+      ]);
+    });
+
+    it("Should read the visit schedule", function () {
+      expect(
+        validateProtocol(
+          withChanges({
+            visits: { interval: "1w", window: "2d", outOfWindow: "flag" },
+          })
+        )
+      ).to.include({
+        visitInterval: 604800,
+        visitWindow: 2 * 86400,
+        visitWindowPolicy: VisitWindowPolicy.Flag,
+      });
+      expect(
+        validateProtocol(
+          withChanges({ visits: { interval: "1w", window: "1d" } })
+        ).visitWindowPolicy
+      ).to.equal(VisitWindowPolicy.Reject);
+
+      expect(
+        problemsOf(
+          withChanges({
+            visits: { interval: "1d", window: "12h", outOfWindow: "ignore" },
+          })
+        )
+      ).to.deep.equal([
+        'visits.outOfWindow: expected one of reject, flag, got "ignore"',
+        "visits.window: 12h either side overlaps the next visit; must be under half the interval (1d)",
+      ]);
+      expect(
+        problemsOf(withChanges({ visits: { interval: "2w", window: "1d" } }))
+      ).to.deep.equal([
+        "visits.interval: week 8 of a patient enrolling at the end of enrollment opens after the 12w treatment phase",
+      ]);
+      expect(
+        problemsOf(withChanges({ visits: { window: "1d" } }))
+      ).to.deep.equal(["visits.interval: required"]);
+    });
+
+    it("Should read the optional eligibility criteria", function () {
+      const protocol = validateProtocol(
+        withChanges({
+          eligibility: {
+            minAge: 21,
+            maxAge: 65,
+            minHealthScore: 40,
+            maxHeartRate: 110,
+            minDiastolicPressure: 60,
+          },
+        })
+      );
+      expect(protocol).to.include({
+        minHealthScore: 40,
+        maxHealthScore: 100,
+        minHeartRate: 0,
+        maxHeartRate: 110,
+        minDiastolicPressure: 60,
+        maxDiastolicPressure: 99,
+      });
+
+      expect(
+        problemsOf(
+          withChanges({
+            eligibility: {
+              minAge: 21,
+              maxAge: 65,
+              maxHealthScore: 101,
+              minHeartRate: 120,
+              maxHeartRate: 110,
+              maxDiastolicPressure: 100,
+            },
+          })
+        )
+      ).to.deep.equal([
+        "eligibility.maxHealthScore: must be between 0 and 100, got 101",
+        "eligibility.maxDiastolicPressure: must be between 0 and 99, got 100",
+        "eligibility: minHeartRate (120) is greater than maxHeartRate (110)",
+      ]);
+    });
+
+    it("Should reject malformed and non-positive durations", function () {
+      const problems = problemsOf(
+        withChanges({
+          phases: { enrollment: "two weeks", treatment: 0, monitoring: 1.5 },
+        })
+      );
+      expect(problems).to.have.length(3);
+      expect(problems[0]).to.match(/^phases\.enrollment: expected seconds/);
+      expect(problems[1]).to.match(/^phases\.treatment: must be a positive/);
+      expect(problems[2]).to.match(/^phases\.monitoring: must be a positive/);
+    });
+
+    it("Should reject durations the contract cannot store", function () {
+      expect(
+        problemsOf(
+          withChanges({
+            phases: { enrollment: "7200w", treatment: "1d", monitoring: "1d" },
+          })
+        )
+      ).to.deep.equal([
+        "phases.enrollment: longer than the contract can store (4294967295s)",
+      ]);
+    });
+
+    it("Should report unknown settings and missing sections", function () {
+      const { eligibility, ...raw } = VALID;
+      expect(
+        problemsOf({
+          ...raw,
+          visitWeek: 8,
+          primaryEndpoint: { ...VALID.primaryEndpoint, alpha: 0.05 },
+        })
+      ).to.deep.equal([
+        "visitWeek: unknown setting",
+        "eligibility: missing section",
+        "primaryEndpoint.alpha: unknown setting",
+        "eligibility.minAge: required",
+        "eligibility.maxAge: required",
+      ]);
+    });
+
+    it("Should check ranges and fields against each other", function () {
+      expect(
+        problemsOf(
+          withChanges({
+            eligibility: { minAge: 70, maxAge: 65 },
+            visitWeeks: 4,
+            primaryEndpoint: { week: 6, significanceThreshold: 101 },
+          })
+        )
+      ).to.deep.equal([
+        "primaryEndpoint.significanceThreshold: must be between 0 and 100, got 101",
+        "eligibility: minAge (70) is greater than maxAge (65)",
+        "primaryEndpoint.week: week 6 is after the last visit (week 4)",
+      ]);
+    });
+
+    it("Should list every problem in the error message", function () {
+      const error = (() => {
+        try {
+          return validateProtocol(
+            withChanges({ visitWeeks: 53 }),
+            "study.yaml"
+          );
+        } catch (e) {
+          return e;
+        }
+      })();
+
+      expect(error).to.be.instanceOf(ProtocolError);
+      expect((error as Error).message).to.equal(
+        "Invalid study.yaml:\n  - visitWeeks: must be between 1 and 52, got 53"
+      );
+    });
+
+    it("Should format durations with the largest whole unit", function () {
+      expect(formatDuration(1209600)).to.equal("2w");
+      expect(formatDuration(90 * 60)).to.equal("90m");
+      expect(formatDuration(3600)).to.equal("1h");
+      expect(formatDuration(61)).to.equal("61s");
+    });
+  });
+
+  describe("Protocol files", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "trial-protocol-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should load JSON and YAML protocols", function () {
+      const json = path.join(dir, "protocol.json");
+      fs.writeFileSync(json, JSON.stringify(VALID));
+      const yaml = path.join(dir, "protocol.yml");
+      fs.writeFileSync(
+        yaml,
+        [
+          "phases:",
+          "  enrollment: 14d",
+          "  treatment: 12w",
+          "  monitoring: 3600",
+          "eligibility: { minAge: 21, maxAge: 65 }",
+          "visitWeeks: 8",
+          "primaryEndpoint:",
+          "  week: 6",
+          "  significanceThreshold: 15",
+        ].join("\n")
+      );
+
+      expect(loadProtocol(yaml)).to.deep.equal(loadProtocol(json));
+    });
+
+    it("Should load the bundled protocols", function () {
+      expect(loadProtocol("protocols/demo.json")).to.deep.equal(
+        DEFAULT_PROTOCOL
+      );
+      const example = loadProtocol("protocols/example.yaml");
+      expect(example.visitWeeks).to.equal(12);
+      expect(example.maxHeartRate).to.equal(110);
+      expect(formatAllocation(example)).to.equal(
+        "stratified by age 50+, blocks of 6, 2:1"
+      );
+      expect(formatVisitSchedule(example)).to.equal(
+        "every 1w ± 2d from enrollment, out-of-window visits flagged"
+      );
+    });
+
+    it("Should reject missing, unparsable and unsupported files", function () {
+      const broken = path.join(dir, "broken.json");
+      fs.writeFileSync(broken, "{ phases: ");
+      const toml = path.join(dir, "protocol.toml");
+      fs.writeFileSync(toml, "");
+
+      for (const file of [path.join(dir, "missing.json"), broken, toml]) {
+        expect(() => loadProtocol(file)).to.throw(ProtocolError);
+      }
+    });
+  });
+
+  describe("Deployment", function () {
+    const PROTOCOL: TrialProtocol = {
+      enrollmentDuration: 600,
+      treatmentDuration: 7200,
+      monitoringDuration: 1800,
+      minAge: 21,
+      maxAge: 65,
+      minHealthScore: 20,
+      maxHealthScore: 100,
+      minHeartRate: 40,
+      maxHeartRate: 180,
+      minDiastolicPressure: 50,
+      maxDiastolicPressure: 99,
+      visitWeeks: 6,
+      primaryEndpointWeek: 6,
+      significanceThreshold: 15,
+      allocationScheme: AllocationScheme.Stratified,
+      treatmentRatio: 2,
+      placeboRatio: 1,
+      blockSize: 3,
+      stratumAgeCutoff: 50,
+      stratumHealthScoreCutoff: 0,
+      withdrawalPolicy: WithdrawalPolicy.RetainPriorData,
+      seriousSideEffectLevel: 7,
+      sideEffectIncrease: 2,
+      visitInterval: 1200,
+      visitWindow: 300,
+      visitWindowPolicy: VisitWindowPolicy.Flag,
+    };
+
+    it("Should expose the protocol through the client", async function () {
+      const client = new TrialClient(await deployTrial(PROTOCOL), fhevm);
+      expect(await client.protocol()).to.deep.equal(PROTOCOL);
+    });
+
+    it("Should reject invalid protocols in the constructor", async function () {
+      const libraries = await deployTrialLibraries(ethers);
+      const cases: [Partial<TrialProtocol>, string][] = [
+        [{ treatmentDuration: 0 }, "Phase durations must be positive"],
+        [{ minAge: 70 }, "Invalid age range"],
+        [{ maxHealthScore: 101 }, "Invalid health score range"],
+        [{ minHeartRate: 190 }, "Invalid heart rate range"],
+        [{ maxDiastolicPressure: 100 }, "Invalid diastolic pressure range"],
+        [{ visitWeeks: 53 }, "Invalid number of visit weeks"],
+        [{ primaryEndpointWeek: 7 }, "Endpoint week outside visit schedule"],
+        [{ significanceThreshold: 101 }, "Threshold must be 0-100"],
+        [{ allocationScheme: 3 }, "Invalid allocation scheme"],
+        [{ placeboRatio: 0 }, "Invalid allocation ratio"],
+        [{ blockSize: 4 }, "Block size must be a multiple of the ratio"],
+        [{ stratumAgeCutoff: 0 }, "Invalid strata"],
+        [{ withdrawalPolicy: 2 }, "Invalid withdrawal policy"],
+        [{ seriousSideEffectLevel: 0 }, "Invalid safety thresholds"],
+        [{ sideEffectIncrease: 11 }, "Invalid safety thresholds"],
+        [{ visitWindow: 3600 }, "Invalid visit schedule"],
+        [
+          { visitInterval: 86400, visitWindow: 43200 },
+          "Invalid visit schedule",
+        ],
+        [
+          { visitInterval: 86400, visitWindow: 3600, visitWindowPolicy: 2 },
+          "Invalid visit schedule",
+        ],
+      ];
+
+      for (const [change, reason] of cases) {
+        await expect(
+          deployTrial({ ...PROTOCOL, ...change }, undefined, libraries)
+        ).to.be.revertedWith(reason);
+      }
+    });
+
+    it("Should evaluate eligibility against the protocol's age range", async function () {
+      const trial = await deployTrial(PROTOCOL);
+      const client = new TrialClient(trial, fhevm);
+      const signers = (await ethers.getSigners()).slice(1);
+      const cases = [
+        { age: 20, eligible: false },
+        { age: 21, eligible: true },
+        { age: 65, eligible: true },
+        { age: 66, eligible: false },
+      ];
+
+      for (const [i, { age, eligible }] of cases.entries()) {
+        await client
+          .connect(signers[i])
+          .enroll({ age, healthScore: 80, vitalSigns: 12080 });
+        expect(
+          (await decryptPatient(trial, signers[i].address)).eligible
+        ).to.equal(eligible, `age ${age}`);
+      }
+    });
+
+    it("Should use the protocol's phase durations", async function () {
+      const client = new TrialClient(await deployTrial(PROTOCOL), fhevm);
+      const durations = [
+        PROTOCOL.enrollmentDuration,
+        PROTOCOL.treatmentDuration,
+        PROTOCOL.monitoringDuration,
+      ];
+
+      for (const duration of durations) {
+        const started = await time.latest();
+        expect(await client.contract.phaseTransitionTime()).to.equal(
+          BigInt(started + duration)
+        );
+        await time.increase(duration);
+        await client.advancePhase();
+      }
+      expect(await client.phase()).to.equal(TrialPhase.Analysis);
+    });
+
+    it("Should limit submissions to the protocol's visit weeks", async function () {
+      const trial = await deployTrial(PROTOCOL);
+      const [coordinator, patient] = await ethers.getSigners();
+      const coordinatorClient = new TrialClient(trial, fhevm);
+      const client = coordinatorClient.connect(patient);
+      await client.enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+      await time.increase(PROTOCOL.enrollmentDuration);
+      await coordinatorClient.connect(coordinator).advancePhase();
+
+      const measurement = {
+        effectivenessScore: 80,
+        sideEffectLevel: 2,
+        biomarkers: 5000,
+      };
+      await client.submitWeek({ week: 6, ...measurement });
+
+      const error = await client
+        .submitWeek({ week: 7, ...measurement })
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InvalidInputError);
+      expect(error.message).to.equal(
+        "Week 7 is outside the 6-week visit schedule"
+      );
+
+      const input = await fhevm
+        .createEncryptedInput(await trial.getAddress(), patient.address)
+        .add8(80)
+        .add8(2)
+        .add16(5000)
+        .encrypt();
+      await expect(
+        trial
+          .connect(patient)
+          .submitClinicalData(
+            input.handles[0],
+            input.handles[1],
+            input.handles[2],
+            7,
+            input.inputProof
+          )
+      ).to.be.revertedWith("Week outside visit schedule");
+    });
+  });
+});
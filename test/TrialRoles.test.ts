@@ -0,0 +1,299 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import {
+  InvalidInputError,
+  MissingRoleError,
+  NotCoordinatorError,
+  ResultsNotAvailableError,
+} from "../lib/errors";
+import { DEFAULT_PROTOCOL } from "../lib/protocol";
+import {
+  ROLE_IDS,
+  currentRoleHolders,
+  parseRole,
+  readRoleChanges,
+} from "../lib/roles";
+import { TrialClient, TrialPhase } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+import {
+  canUserDecrypt,
+  decryptMeasurement,
+  decryptPatient,
+  userDecrypt,
+} from "./helpers/encrypted-state";
+
+/**
+ * @title Trial Roles Test Suite
+ * @notice Tests role management and the permissions of each role
+ *
+ * @chapter: testing
+ * @category: access-control
+ */
+describe("Trial Roles", function () {
+  let trial: PrivacyPreservingClinicalTrial;
+  let coordinator: HardhatEthersSigner;
+  let investigator: HardhatEthersSigner;
+  let dsmb: HardhatEthersSigner;
+  let auditor: HardhatEthersSigner;
+  let patient: HardhatEthersSigner;
+  let client: TrialClient;
+
+  const PHASE_DURATION = DEFAULT_PROTOCOL.enrollmentDuration;
+
+  const WEEK_FOUR = {
+    week: 4,
+    effectivenessScore: 75,
+    sideEffectLevel: 3,
+    biomarkers: 5100,
+  };
+
+  beforeEach(async function () {
+    [coordinator, investigator, dsmb, auditor, patient] =
+      await ethers.getSigners();
+
+    trial = await deployTrial();
+
+    client = new TrialClient(trial, fhevm);
+    await client.grantRole("site-investigator", investigator.address);
+    await client.grantRole("dsmb", dsmb.address);
+    await client.grantRole("auditor", auditor.address);
+  });
+
+  describe("Role management", function () {
+    it("Should make the deployer-chosen coordinator a coordinator", async function () {
+      expect(await client.hasRole("coordinator", coordinator.address)).to.be
+        .true;
+      expect(await trial.COORDINATOR_ROLE()).to.equal(ROLE_IDS.coordinator);
+      expect(await trial.AUDITOR_ROLE()).to.equal(ROLE_IDS.auditor);
+    });
+
+    it("Should grant and revoke roles with events", async function () {
+      await expect(trial.grantRole(ROLE_IDS.dsmb, patient.address))
+        .to.emit(trial, "RoleGranted")
+        .withArgs(ROLE_IDS.dsmb, patient.address, coordinator.address);
+      // Granting again changes nothing
+      await expect(trial.grantRole(ROLE_IDS.dsmb, patient.address)).not.to.emit(
+        trial,
+        "RoleGranted"
+      );
+
+      await expect(trial.revokeRole(ROLE_IDS.dsmb, patient.address))
+        .to.emit(trial, "RoleRevoked")
+        .withArgs(ROLE_IDS.dsmb, patient.address, coordinator.address);
+      expect(await client.hasRole("dsmb", patient.address)).to.be.false;
+    });
+
+    it("Should only let coordinators manage roles", async function () {
+      const error = await client
+        .connect(dsmb)
+        .grantRole("auditor", dsmb.address)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(NotCoordinatorError);
+
+      // A second coordinator may manage roles too
+      await client.grantRole("coordinator", dsmb.address);
+      await client.connect(dsmb).grantRole("auditor", patient.address);
+      expect(await client.hasRole("auditor", patient.address)).to.be.true;
+    });
+
+    it("Should keep the original coordinator", async function () {
+      await client.grantRole("coordinator", dsmb.address);
+
+      const error = await client
+        .connect(dsmb)
+        .revokeRole("coordinator", coordinator.address)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InvalidInputError);
+      expect(error.reason).to.equal("Cannot revoke the trial coordinator");
+    });
+
+    it("Should reject unknown roles and the zero address", async function () {
+      await expect(
+        trial.grantRole(ethers.id("OWNER_ROLE"), patient.address)
+      ).to.be.revertedWith("Unknown role");
+      await expect(
+        trial.grantRole(ROLE_IDS.auditor, ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid account");
+      expect(() => parseRole("monitor")).to.throw(InvalidInputError);
+      expect(parseRole("Site-Investigator")).to.equal("site-investigator");
+    });
+
+    it("Should reconstruct role holders from events", async function () {
+      await client.grantRole("auditor", patient.address);
+      await client.revokeRole("auditor", auditor.address);
+
+      const changes = await readRoleChanges(trial);
+      expect(changes).to.have.length(6);
+      expect(currentRoleHolders(changes)).to.deep.equal({
+        coordinator: [coordinator.address],
+        "site-investigator": [investigator.address],
+        dsmb: [dsmb.address],
+        auditor: [patient.address],
+        "safety-monitor": [],
+      });
+    });
+  });
+
+  describe("Phase control", function () {
+    it("Should let the DSMB advance phases", async function () {
+      await time.increase(PHASE_DURATION);
+      await client.connect(dsmb).advancePhase();
+      expect(await client.phase()).to.equal(TrialPhase.Treatment);
+    });
+
+    it("Should not let other roles or patients advance phases", async function () {
+      await time.increase(PHASE_DURATION);
+      for (const signer of [investigator, auditor, patient]) {
+        const error = await client
+          .connect(signer)
+          .advancePhase()
+          .catch((e) => e);
+        expect(error).to.be.instanceOf(MissingRoleError);
+      }
+    });
+
+    it("Should let the DSMB terminate the trial", async function () {
+      await client.connect(dsmb).terminate();
+      expect((await client.results()).completed).to.be.true;
+    });
+  });
+
+  describe("Site investigators", function () {
+    beforeEach(async function () {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+      await time.increase(PHASE_DURATION);
+      await client.advancePhase();
+    });
+
+    it("Should record visits for enrolled patients", async function () {
+      await client
+        .connect(investigator)
+        .submitWeekForPatient(patient.address, WEEK_FOUR);
+
+      expect(await decryptMeasurement(trial, patient.address, 4)).to.deep.equal(
+        {
+          effectivenessScore: 75,
+          sideEffectLevel: 3,
+          biomarkers: 5100,
+        }
+      );
+      expect(await client.measurementCount(patient.address)).to.equal(1);
+
+      // The visit counts as the patient's own week 4
+      const duplicate = await client
+        .connect(patient)
+        .submitWeek(WEEK_FOUR)
+        .catch((e) => e);
+      expect(duplicate.week).to.equal(4);
+    });
+
+    it("Should share recorded values with the investigator and the patient", async function () {
+      await client
+        .connect(investigator)
+        .submitWeekForPatient(patient.address, WEEK_FOUR);
+      const measurement = await trial.measurements(patient.address, 4);
+
+      expect(
+        await userDecrypt(
+          trial,
+          FhevmType.euint8,
+          measurement.encryptedSideEffectLevel,
+          investigator
+        )
+      ).to.equal(3);
+      expect(
+        await userDecrypt(
+          trial,
+          FhevmType.euint8,
+          measurement.encryptedEffectivenessScore,
+          patient
+        )
+      ).to.equal(75);
+      expect(
+        await canUserDecrypt(
+          trial,
+          FhevmType.euint8,
+          measurement.encryptedSideEffectLevel,
+          patient
+        )
+      ).to.be.false;
+    });
+
+    it("Should reject visits from non-investigators and for unknown patients", async function () {
+      const error = await client
+        .connect(auditor)
+        .submitWeekForPatient(patient.address, WEEK_FOUR)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(MissingRoleError);
+      expect(error.reason).to.equal("Only site investigator allowed");
+
+      const unknown = await client
+        .connect(investigator)
+        .submitWeekForPatient(dsmb.address, WEEK_FOUR)
+        .catch((e) => e);
+      expect(unknown.reason).to.equal("Patient not enrolled");
+    });
+  });
+
+  describe("Auditors", function () {
+    beforeEach(async function () {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+      await time.increase(PHASE_DURATION);
+      await client.advancePhase();
+      await client.connect(patient).submitWeek(WEEK_FOUR);
+      await time.increase(PHASE_DURATION);
+      await client.advancePhase();
+    });
+
+    it("Should refuse access before results are calculated", async function () {
+      await expect(
+        trial.connect(auditor).allowAggregateDecryption(TrialPhase.Analysis)
+      ).to.be.revertedWith("Results not available");
+
+      const error = await client
+        .connect(auditor)
+        .allowAggregateDecryption(TrialPhase.Analysis)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(ResultsNotAvailableError);
+    });
+
+    it("Should give auditors, and only auditors, decrypt access to aggregates", async function () {
+      await time.increase(PHASE_DURATION);
+      await client.advancePhase();
+      await fhevm.awaitDecryptionOracle();
+      const results = await trial.phaseResults(TrialPhase.Analysis);
+      // The only patient's score lands in whichever arm they were randomized to
+      const { treatmentGroup } = await decryptPatient(trial, patient.address);
+      const average =
+        treatmentGroup === 1
+          ? results.treatmentGroupAverage
+          : results.placeboGroupAverage;
+
+      expect(await canUserDecrypt(trial, FhevmType.euint16, average, auditor))
+        .to.be.false;
+
+      await expect(client.connect(auditor).allowAggregateDecryption())
+        .to.emit(trial, "AggregateAccessGranted")
+        .withArgs(TrialPhase.Analysis, auditor.address);
+      expect(
+        await userDecrypt(trial, FhevmType.euint16, average, auditor)
+      ).to.equal(75);
+
+      for (const signer of [coordinator, dsmb, investigator]) {
+        const error = await client
+          .connect(signer)
+          .allowAggregateDecryption()
+          .catch((e) => e);
+        expect(error).to.be.instanceOf(MissingRoleError);
+      }
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TrialClient } from "../lib/trial-client";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Trial Task Test Suite
+ * @notice Tests that the trial:* tasks run on the in-process Hardhat network
+ *
+ * @chapter: testing
+ * @category: tasks
+ */
+describe("Trial Tasks", function () {
+  let address: string;
+  let client: TrialClient;
+  let patient: HardhatEthersSigner;
+  let output: string[];
+  let initializeCLIApi: typeof fhevm.initializeCLIApi;
+  let consoleLog: typeof console.log;
+
+  beforeEach(async function () {
+    patient = (await ethers.getSigners())[1];
+    const trial = await deployTrial();
+    address = await trial.getAddress();
+    client = new TrialClient(trial, fhevm);
+
+    // The plugin refuses its CLI API on every network but a Hardhat node and Sepolia
+    initializeCLIApi = fhevm.initializeCLIApi;
+    fhevm.initializeCLIApi = async () => {
+      throw new Error(
+        "The Fhevm CLI only supports the Hardhat Node (--network localhost) or Sepolia (--network sepolia) networks."
+      );
+    };
+    output = [];
+    consoleLog = console.log;
+    console.log = (...args: unknown[]) => output.push(args.join(" "));
+  });
+
+  afterEach(function () {
+    fhevm.initializeCLIApi = initializeCLIApi;
+    console.log = consoleLog;
+  });
+
+  it("Should run read-only tasks without the FHEVM CLI API", async function () {
+    expect(hre.network.name).to.equal("hardhat");
+
+    await hre.run("trial:status", { address });
+    expect(output).to.include(`Trial:           ${address}`);
+    expect(output).to.include("Network:         hardhat");
+
+    await hre.run("trial:patients", { address });
+    expect(output).to.include("No patients enrolled");
+
+    await hre.run("trial:measurements", { address, patient: patient.address });
+    expect(output).to.include(`${patient.address} is not enrolled`);
+
+    await hre.run("trial:results", { address });
+  });
+
+  it("Should encrypt task inputs with the in-process mock", async function () {
+    await hre.run("trial:enroll", {
+      address,
+      account: 1,
+      age: 35,
+      healthScore: 85,
+      vitalSigns: 12080,
+    });
+    expect((await client.patientStatus(patient.address)).enrolled).to.equal(
+      true
+    );
+  });
+
+  it("Should refuse input tasks on networks the plugin cannot encrypt for", async function () {
+    const networkName = hre.network.name;
+    hre.network.name = "zamaDevnet";
+    const error = await hre
+      .run("trial:enroll", {
+        address,
+        account: 1,
+        age: 35,
+        healthScore: 85,
+        vitalSigns: 12080,
+      })
+      .catch((e) => e)
+      .finally(() => {
+        hre.network.name = networkName;
+      });
+
+    expect(error).to.be.instanceOf(Error);
+    expect(error.message).to.equal(
+      "Encrypted input is not supported on zamaDevnet; use one of hardhat, localhost, sepolia"
+    );
+    expect((await client.patientStatus(patient.address)).enrolled).to.equal(
+      false
+    );
+  });
+});
@@ -0,0 +1,235 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PrivacyPreservingClinicalTrial } from "../typechain-types";
+import { OutsideVisitWindowError } from "../lib/errors";
+import { DEFAULT_PROTOCOL, TrialProtocol } from "../lib/protocol";
+import { TrialClient } from "../lib/trial-client";
+import {
+  VisitWindowPolicy,
+  buildComplianceReport,
+  formatWeeks,
+  visitWindow,
+} from "../lib/visits";
+import { deployTrial } from "./helpers/deploy-trial";
+
+/**
+ * @title Visit Schedule Test Suite
+ * @notice Tests visit windows, missed visits and the compliance report
+ *
+ * @chapter: testing
+ * @category: visits
+ */
+describe("Visit Schedule", function () {
+  // Week w is due 3h * w after enrollment, give or take 30 minutes
+  const SCHEDULED: TrialProtocol = {
+    ...DEFAULT_PROTOCOL,
+    treatmentDuration: 86400,
+    visitWeeks: 6,
+    visitInterval: 3 * 3600,
+    visitWindow: 1800,
+  };
+
+  const MEASUREMENT = {
+    effectivenessScore: 75,
+    sideEffectLevel: 2,
+    biomarkers: 5000,
+  };
+
+  let trial: PrivacyPreservingClinicalTrial;
+  let client: TrialClient;
+  let patients: HardhatEthersSigner[];
+
+  const seconds = (date: Date) => date.getTime() / 1000;
+
+  async function deploy(protocol: TrialProtocol) {
+    const [, ...rest] = await ethers.getSigners();
+    patients = rest.slice(0, 2);
+    trial = await deployTrial(protocol);
+    client = new TrialClient(trial, fhevm);
+
+    for (const patient of patients) {
+      await client
+        .connect(patient)
+        .enroll({ age: 40, healthScore: 80, vitalSigns: 12080 });
+    }
+    await time.increase(protocol.enrollmentDuration);
+    await client.advancePhase();
+  }
+
+  async function windowOf(patient: HardhatEthersSigner, week: number) {
+    const { enrollmentTime } = await client.patientStatus(patient.address);
+    return visitWindow(SCHEDULED, enrollmentTime!, week)!;
+  }
+
+  async function chainTime(): Promise<Date> {
+    return new Date((await time.latest()) * 1000);
+  }
+
+  it("Should reject visits outside their window", async function () {
+    await deploy(SCHEDULED);
+    const [patient] = patients;
+    const week1 = await windowOf(patient, 1);
+    expect(await client.visitWindow(patient.address, 1)).to.deep.equal({
+      opens: week1.opens,
+      closes: week1.closes,
+    });
+
+    const early = await client
+      .connect(patient)
+      .submitWeek({ week: 1, ...MEASUREMENT })
+      .catch((e) => e);
+    expect(early).to.be.instanceOf(OutsideVisitWindowError);
+    expect(early.week).to.equal(1);
+    expect(early.message).to.equal("Week 1 is outside its visit window");
+
+    await time.increaseTo(seconds(week1.opens));
+    await client.connect(patient).submitWeek({ week: 1, ...MEASUREMENT });
+
+    const week2 = await windowOf(patient, 2);
+    await time.increaseTo(seconds(week2.closes) + 1);
+    const input = await fhevm
+      .createEncryptedInput(await trial.getAddress(), patient.address)
+      .add8(MEASUREMENT.effectivenessScore)
+      .add8(MEASUREMENT.sideEffectLevel)
+      .add16(MEASUREMENT.biomarkers)
+      .encrypt();
+    await expect(
+      trial
+        .connect(patient)
+        .submitClinicalData(
+          input.handles[0],
+          input.handles[1],
+          input.handles[2],
+          2,
+          input.inputProof
+        )
+    ).to.be.revertedWith("Outside visit window");
+    expect(await client.measurementCount(patient.address)).to.equal(1);
+  });
+
+  it("Should record and flag out-of-window visits under the flag policy", async function () {
+    await deploy({ ...SCHEDULED, visitWindowPolicy: VisitWindowPolicy.Flag });
+    const [patient] = patients;
+    const week1 = await windowOf(patient, 1);
+
+    const receipt = await client
+      .connect(patient)
+      .submitWeek({ week: 1, ...MEASUREMENT });
+    const flagged = receipt.logs
+      .map((log) => trial.interface.parseLog(log))
+      .find((event) => event?.name === "VisitOutsideWindow");
+    expect(flagged?.args.toObject()).to.deep.equal({
+      patient: patient.address,
+      week: 1n,
+      opens: BigInt(seconds(week1.opens)),
+      closes: BigInt(seconds(week1.closes)),
+    });
+    expect(await client.measurementCount(patient.address)).to.equal(1);
+
+    const report = await buildComplianceReport(client, await chainTime());
+    expect(report.patients[0].visits[0].status).to.equal("out-of-window");
+    expect(report.patients[0].completed).to.deep.equal([1]);
+    expect(report.patients[0].outOfWindow).to.deep.equal([1]);
+  });
+
+  it("Should count missed visits until consent is withdrawn", async function () {
+    await deploy(SCHEDULED);
+    const [attending, withdrawing] = patients;
+
+    await time.increaseTo(seconds((await windowOf(attending, 2)).opens));
+    await client.connect(attending).submitWeek({ week: 2, ...MEASUREMENT });
+    await time.increaseTo(
+      seconds((await windowOf(withdrawing, 2)).closes) + 60
+    );
+    expect(await client.missedVisits(attending.address)).to.deep.equal([1]);
+    expect(await client.missedVisits(withdrawing.address)).to.deep.equal([
+      1, 2,
+    ]);
+
+    await client.connect(withdrawing).withdrawConsent();
+    await time.increaseTo(seconds((await windowOf(attending, 4)).closes) + 60);
+    expect(await client.missedVisits(attending.address)).to.deep.equal([
+      1, 3, 4,
+    ]);
+    expect(await client.missedVisits(withdrawing.address)).to.deep.equal([
+      1, 2,
+    ]);
+
+    const report = await buildComplianceReport(client, await chainTime());
+    const [a, w] = report.patients;
+    expect(a).to.include({ address: attending.address });
+    expect(a.completed).to.deep.equal([2]);
+    expect(a.missed).to.deep.equal([1, 3, 4]);
+    expect(a.upcoming).to.deep.equal([5, 6]);
+    expect(w.missed).to.deep.equal([1, 2]);
+    expect(w.upcoming).to.deep.equal([]);
+    expect(w.visits.map((visit) => visit.status)).to.deep.equal([
+      "missed",
+      "missed",
+      "withdrawn",
+      "withdrawn",
+      "withdrawn",
+      "withdrawn",
+    ]);
+    expect(report.totals).to.deep.equal({
+      completed: 1,
+      "out-of-window": 0,
+      missed: 5,
+      open: 0,
+      upcoming: 2,
+      withdrawn: 4,
+      "outside-treatment": 0,
+    });
+    expect(formatWeeks(a.missed)).to.equal("1, 3-4");
+  });
+
+  it("Should only count windows that overlap the treatment phase", async function () {
+    // Week 1 closes during enrollment; weeks 5 and 6 open after treatment
+    await deploy({
+      ...SCHEDULED,
+      enrollmentDuration: 4 * 3600,
+      treatmentDuration: 10 * 3600,
+    });
+    const [patient] = patients;
+    const start = await chainTime();
+    expect(await client.treatmentPeriod()).to.deep.equal({ start, end: null });
+    expect(await client.missedVisits(patient.address)).to.deep.equal([]);
+
+    await time.increaseTo(seconds((await windowOf(patient, 2)).opens));
+    await client.connect(patient).submitWeek({ week: 2, ...MEASUREMENT });
+    await time.increaseTo(seconds(start) + 10 * 3600);
+    await client.advancePhase();
+    const { end } = await client.treatmentPeriod();
+    expect(end).to.deep.equal(await chainTime());
+    await time.increaseTo(seconds((await windowOf(patient, 6)).closes) + 60);
+
+    expect(await client.missedVisits(patient.address)).to.deep.equal([3, 4]);
+
+    const report = await buildComplianceReport(client, await chainTime());
+    expect(report.treatment.end).to.deep.equal(end);
+    const [p] = report.patients;
+    expect(p.completed).to.deep.equal([2]);
+    expect(p.missed).to.deep.equal([3, 4]);
+    expect(p.outsideTreatment).to.deep.equal([1, 5, 6]);
+    expect(p.upcoming).to.deep.equal([]);
+    expect(report.patients[1].missed).to.deep.equal(
+      await client.missedVisits(patients[1].address)
+    );
+  });
+
+  it("Should leave unscheduled visits open for the whole treatment phase", async function () {
+    await deploy(DEFAULT_PROTOCOL);
+    const [patient] = patients;
+    await time.increase(DEFAULT_PROTOCOL.treatmentDuration - 60);
+    await client.connect(patient).submitWeek({ week: 1, ...MEASUREMENT });
+
+    expect(await client.visitWindow(patient.address, 1)).to.equal(null);
+    expect(await client.missedVisits(patient.address)).to.deep.equal([]);
+    const report = await buildComplianceReport(client, await chainTime());
+    expect(report.patients[0].completed).to.deep.equal([1]);
+    expect(report.patients[0].missed).to.deep.equal([]);
+    expect(report.patients[0].upcoming).to.have.length(11);
+  });
+});
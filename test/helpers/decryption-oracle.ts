@@ -0,0 +1,25 @@
+import { fhevm } from "hardhat";
+
+/**
+ * @title Decryption Oracle Test Harness
+ * @notice Keeps the plugin's decryption oracle out of requests answered by LocalDecryptionOracle
+ *
+ * @chapter: testing
+ * @category: fhevm
+ *
+ * The plugin's awaitDecryptionOracle() answers every request emitted since it
+ * last ran, whichever test emitted it. A request a suite already answered
+ * through LocalDecryptionOracle would be delivered a second time by the next
+ * suite that awaits the plugin, and the trial rejects that replay.
+ */
+
+/**
+ * Let the plugin's oracle pass over the requests emitted so far
+ *
+ * Call this after each test that answers requests itself. The plugin moves its
+ * cursor past the requests before delivering them, so a rejected replay still
+ * retires them; the rejection itself is expected and ignored.
+ */
+export async function retirePluginRequests(): Promise<void> {
+  await fhevm.awaitDecryptionOracle().catch(() => undefined);
+}
@@ -0,0 +1,39 @@
+import { ethers } from "hardhat";
+import type { PrivacyPreservingClinicalTrial } from "../../typechain-types";
+import { DEFAULT_PROTOCOL, TrialProtocol } from "../../lib/protocol";
+import {
+  TrialLibraries,
+  deployTrialLibraries,
+} from "../../lib/trial-libraries";
+
+/**
+ * @title Trial Deployment Test Harness
+ * @notice Deploys PrivacyPreservingClinicalTrial with its linked libraries
+ *
+ * @chapter: testing
+ * @category: deployment
+ */
+
+/**
+ * Deploy a trial and wait for it
+ *
+ * @param protocol Study protocol (default: the demo protocol)
+ * @param coordinator Coordinator address (default: the first signer)
+ * @param libraries Library addresses to link; fresh ones are deployed when omitted
+ */
+export async function deployTrial(
+  protocol: TrialProtocol = DEFAULT_PROTOCOL,
+  coordinator?: string,
+  libraries?: TrialLibraries
+): Promise<PrivacyPreservingClinicalTrial> {
+  const TrialFactory = await ethers.getContractFactory(
+    "PrivacyPreservingClinicalTrial",
+    { libraries: libraries ?? (await deployTrialLibraries(ethers)) }
+  );
+  const trial = await TrialFactory.deploy(
+    protocol,
+    coordinator ?? (await ethers.getSigners())[0].address
+  );
+  await trial.waitForDeployment();
+  return trial;
+}
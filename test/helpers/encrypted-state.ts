@@ -0,0 +1,180 @@
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { PrivacyPreservingClinicalTrial } from "../../typechain-types";
+
+/**
+ * @title Encrypted State Test Harness
+ * @notice Decrypts the trial's stored ciphertexts with the FHEVM Hardhat mock
+ *
+ * @chapter: testing
+ * @category: fhevm
+ *
+ * Two kinds of decryption are offered:
+ * - decryptPatient / decryptMeasurement / decryptResults read the plaintext
+ *   behind stored handles through the mock's debugger. They ignore the ACL and
+ *   exist to check that the contract stored the right values.
+ * - userDecrypt / canUserDecrypt go through the user decryption flow, which
+ *   the ACL enforces. Use them to assert who may read what.
+ *
+ * Only works in mock mode (`npx hardhat test`).
+ */
+
+export interface DecryptedPatient {
+  age: number;
+  healthScore: number;
+  treatmentGroup: number;
+  vitalSigns: number;
+  eligible: boolean;
+}
+
+export interface DecryptedMeasurement {
+  effectivenessScore: number;
+  sideEffectLevel: number;
+  biomarkers: number;
+}
+
+export interface DecryptedResults {
+  placeboGroupAverage: number;
+  treatmentGroupAverage: number;
+  totalParticipants: number;
+}
+
+function requireMock(): void {
+  if (!fhevm.isMock) {
+    throw new Error("Encrypted state can only be decrypted in FHEVM mock mode");
+  }
+}
+
+async function decryptUint(
+  type: FhevmTypeEuint,
+  handle: string
+): Promise<number> {
+  return Number(await fhevm.debugger.decryptEuint(type, handle));
+}
+
+/**
+ * Decrypt everything stored for an enrolled patient
+ */
+export async function decryptPatient(
+  trial: PrivacyPreservingClinicalTrial,
+  patient: string
+): Promise<DecryptedPatient> {
+  requireMock();
+  const data = await trial.patients(patient);
+  if (!data.hasEnrolled) {
+    throw new Error(`${patient} is not enrolled`);
+  }
+
+  return {
+    age: await decryptUint(FhevmType.euint8, data.encryptedAge),
+    healthScore: await decryptUint(FhevmType.euint8, data.encryptedHealthScore),
+    treatmentGroup: await decryptUint(
+      FhevmType.euint8,
+      data.encryptedTreatmentGroup
+    ),
+    vitalSigns: await decryptUint(FhevmType.euint16, data.encryptedVitalSigns),
+    eligible: await fhevm.debugger.decryptEbool(data.encryptedEligible),
+  };
+}
+
+/**
+ * Decrypt one weekly measurement, or null if none was submitted for that week
+ */
+export async function decryptMeasurement(
+  trial: PrivacyPreservingClinicalTrial,
+  patient: string,
+  week: number
+): Promise<DecryptedMeasurement | null> {
+  requireMock();
+  const measurement = await trial.measurements(patient, week);
+  if (!measurement.isValid) {
+    return null;
+  }
+
+  return {
+    effectivenessScore: await decryptUint(
+      FhevmType.euint8,
+      measurement.encryptedEffectivenessScore
+    ),
+    sideEffectLevel: await decryptUint(
+      FhevmType.euint8,
+      measurement.encryptedSideEffectLevel
+    ),
+    biomarkers: await decryptUint(
+      FhevmType.euint16,
+      measurement.encryptedBiomarkers
+    ),
+  };
+}
+
+/**
+ * Decrypt the results of a phase, or null if they have not been calculated
+ */
+export async function decryptResults(
+  trial: PrivacyPreservingClinicalTrial,
+  phase: number
+): Promise<DecryptedResults | null> {
+  requireMock();
+  const results = await trial.phaseResults(phase);
+  if (!results.resultsCalculated) {
+    return null;
+  }
+
+  return {
+    placeboGroupAverage: await decryptUint(
+      FhevmType.euint16,
+      results.placeboGroupAverage
+    ),
+    treatmentGroupAverage: await decryptUint(
+      FhevmType.euint16,
+      results.treatmentGroupAverage
+    ),
+    totalParticipants: await decryptUint(
+      FhevmType.euint16,
+      results.totalParticipants
+    ),
+  };
+}
+
+/**
+ * Decrypt a handle as `user`, subject to the ACL
+ */
+export async function userDecrypt(
+  trial: PrivacyPreservingClinicalTrial,
+  type: FhevmTypeEuint,
+  handle: string,
+  user: HardhatEthersSigner
+): Promise<number> {
+  requireMock();
+  return Number(
+    await fhevm.userDecryptEuint(type, handle, await trial.getAddress(), user)
+  );
+}
+
+/**
+ * Whether the ACL lets `user` decrypt the handle
+ *
+ * Only an authorization failure counts as "no"; any other error is rethrown
+ * so a broken setup cannot pass as a denied decryption.
+ */
+export async function canUserDecrypt(
+  trial: PrivacyPreservingClinicalTrial,
+  type: FhevmTypeEuint,
+  handle: string,
+  user: HardhatEthersSigner
+): Promise<boolean> {
+  if (handle === ethers.ZeroHash) {
+    return false;
+  }
+  try {
+    await userDecrypt(trial, type, handle, user);
+    return true;
+  } catch (error) {
+    if (error instanceof Error && /not authorized/.test(error.message)) {
+      return false;
+    }
+    throw error;
+  }
+}